@@ -0,0 +1,347 @@
+/**
+ * @module blackbox/batch
+ * @description Batch payload encryption and decryption
+ *
+ * Runs many payload operations with bounded concurrency. Block numbers and
+ * the signer address are fetched once and shared across items; each item
+ * is still signed individually because the signed data includes its payload.
+ */
+
+import type { ChainId, OutputFormat, InputFormat, RequestOptions } from '../types/common.js';
+import type { SignerAdapter, ReadClient } from '../types/adapters.js';
+import {
+  encryptPayload,
+  decryptPayload,
+  type EncryptPayloadResult,
+  type DecryptPayloadResult,
+} from './payload.js';
+import { createDeadline } from '../internal/http/index.js';
+import type { QuotaGuard } from './quota.js';
+
+/**
+ * Default number of items processed in parallel
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Default time a fetched block number is reused for (30 seconds).
+ * Well inside the blackbox freshness window on all supported chains.
+ */
+export const DEFAULT_BLOCK_REUSE_MS = 30_000;
+
+/**
+ * Progress of a batch operation
+ */
+export interface BatchProgress {
+  /** Items finished (successfully or not) */
+  completed: number;
+  /** Items that succeeded */
+  succeeded: number;
+  /** Items that failed */
+  failed: number;
+  /** Total number of items */
+  total: number;
+}
+
+/**
+ * Outcome of a single batch item
+ */
+export type BatchItemResult<T> =
+  | {
+      /** Position of the item in the input */
+      index: number;
+      success: true;
+      /** The operation result */
+      result: T;
+    }
+  | {
+      /** Position of the item in the input */
+      index: number;
+      success: false;
+      /** The error the operation failed with (typically a CiferError subclass) */
+      error: Error;
+    };
+
+/**
+ * Result of a batch operation
+ */
+export interface BatchResult<T> {
+  /** One entry per input item, in input order */
+  results: BatchItemResult<T>[];
+  /** Number of items that succeeded */
+  succeeded: number;
+  /** Number of items that failed */
+  failed: number;
+}
+
+/**
+ * Options shared by batch operations
+ */
+export interface BatchOptions extends RequestOptions {
+  /** Maximum number of items in flight (default: 4) */
+  concurrency?: number;
+  /** How long a fetched block number is reused, in ms (default: 30000) */
+  blockReuseMs?: number;
+  /** Called after each item finishes */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Check each item against the quota before sending it */
+  quota?: QuotaGuard;
+}
+
+/**
+ * A single payload to encrypt
+ */
+export interface EncryptPayloadsItem {
+  /** Secret ID to use for encryption */
+  secretId: bigint | number;
+  /** The plaintext to encrypt (a string, or bytes for binary data) */
+  plaintext: string | Uint8Array;
+}
+
+/**
+ * Parameters for batch payload encryption
+ */
+export interface EncryptPayloadsParams extends BatchOptions {
+  /** Chain ID where the secrets exist */
+  chainId: ChainId;
+  /** Payloads to encrypt */
+  items: EncryptPayloadsItem[];
+  /** Signer for authentication */
+  signer: SignerAdapter;
+  /** Read client for fetching block numbers */
+  readClient: ReadClient;
+  /** Blackbox URL */
+  blackboxUrl: string;
+  /** Output format (default: 'hex') */
+  outputFormat?: OutputFormat;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A single payload to decrypt
+ */
+export interface DecryptPayloadsItem {
+  /** Secret ID used for encryption */
+  secretId: bigint | number;
+  /** The encrypted message */
+  encryptedMessage: string;
+  /** The CIFER envelope */
+  cifer: string;
+}
+
+/**
+ * Parameters for batch payload decryption
+ */
+export interface DecryptPayloadsParams extends BatchOptions {
+  /** Chain ID where the secrets exist */
+  chainId: ChainId;
+  /** Payloads to decrypt */
+  items: DecryptPayloadsItem[];
+  /** Signer for authentication (must be owner or delegate of every secret) */
+  signer: SignerAdapter;
+  /** Read client for fetching block numbers */
+  readClient: ReadClient;
+  /** Blackbox URL */
+  blackboxUrl: string;
+  /** Input format (default: 'hex') */
+  inputFormat?: InputFormat;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Encrypt many payloads with bounded concurrency
+ *
+ * Failures do not stop the batch: each item gets its own success or error
+ * result, in input order.
+ *
+ * @param params - Batch encryption parameters
+ * @returns Per-item results and totals
+ *
+ * @example
+ * ```typescript
+ * const batch = await encryptPayloads({
+ *   chainId: 752025,
+ *   items: records.map((record) => ({ secretId: 123n, plaintext: record })),
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ *   concurrency: 8,
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+ * });
+ *
+ * for (const item of batch.results) {
+ *   if (!item.success) console.error(item.index, item.error);
+ * }
+ * ```
+ */
+export async function encryptPayloads(
+  params: EncryptPayloadsParams
+): Promise<BatchResult<EncryptPayloadResult>> {
+  const { chainId, items, blackboxUrl, outputFormat } = params;
+  const shared = createSharedAuth(params.signer, params.readClient, params.blockReuseMs);
+  const deadline = createDeadline(params);
+
+  return deadline.run(runBatch(items, params, deadline.signal, (item) =>
+    encryptPayload({
+      chainId,
+      secretId: item.secretId,
+      plaintext: item.plaintext,
+      signer: shared.signer,
+      readClient: shared.readClientForItem(),
+      blackboxUrl,
+      outputFormat,
+      quota: params.quota,
+      fetch: params.fetch,
+      signal: deadline.signal,
+    })
+  ));
+}
+
+/**
+ * Decrypt many payloads with bounded concurrency
+ *
+ * Failures do not stop the batch: each item gets its own success or error
+ * result, in input order.
+ *
+ * @param params - Batch decryption parameters
+ * @returns Per-item results and totals
+ *
+ * @example
+ * ```typescript
+ * const batch = await decryptPayloads({
+ *   chainId: 752025,
+ *   items: commitments.map((c) => ({
+ *     secretId: c.secretId,
+ *     cifer: c.cifer,
+ *     encryptedMessage: c.encryptedMessage,
+ *   })),
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ * });
+ * ```
+ */
+export async function decryptPayloads(
+  params: DecryptPayloadsParams
+): Promise<BatchResult<DecryptPayloadResult>> {
+  const { chainId, items, blackboxUrl, inputFormat } = params;
+  const shared = createSharedAuth(params.signer, params.readClient, params.blockReuseMs);
+  const deadline = createDeadline(params);
+
+  return deadline.run(runBatch(items, params, deadline.signal, (item) =>
+    decryptPayload({
+      chainId,
+      secretId: item.secretId,
+      encryptedMessage: item.encryptedMessage,
+      cifer: item.cifer,
+      signer: shared.signer,
+      readClient: shared.readClientForItem(),
+      blackboxUrl,
+      inputFormat,
+      quota: params.quota,
+      fetch: params.fetch,
+      signal: deadline.signal,
+    })
+  ));
+}
+
+/**
+ * Run items through an operation with a fixed-size worker pool
+ *
+ * No new items are started once the signal aborts.
+ */
+async function runBatch<TItem, TResult>(
+  items: TItem[],
+  options: BatchOptions,
+  signal: AbortSignal | undefined,
+  operation: (item: TItem) => Promise<TResult>
+): Promise<BatchResult<TResult>> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY));
+  const results: BatchItemResult<TResult>[] = new Array(items.length);
+  const progress: BatchProgress = { completed: 0, succeeded: 0, failed: 0, total: items.length };
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      try {
+        results[index] = { index, success: true, result: await operation(items[index]) };
+        progress.succeeded++;
+      } catch (error) {
+        results[index] = {
+          index,
+          success: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+        progress.failed++;
+      }
+      progress.completed++;
+      options.onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () => worker())
+  );
+
+  return {
+    results,
+    succeeded: progress.succeeded,
+    failed: progress.failed,
+  };
+}
+
+/**
+ * Share the signer address and block number across batch items
+ *
+ * Each item gets its own read client view: its first block lookup may use
+ * the shared cached block, but any further lookup means the item is being
+ * retried after a stale-block error, so the cache is refreshed.
+ */
+function createSharedAuth(
+  signer: SignerAdapter,
+  readClient: ReadClient,
+  blockReuseMs = DEFAULT_BLOCK_REUSE_MS
+): { signer: SignerAdapter; readClientForItem: () => ReadClient } {
+  let address: ReturnType<SignerAdapter['getAddress']> | undefined;
+  let block: { value: Promise<number>; fetchedAt: number } | undefined;
+
+  const sharedSigner: SignerAdapter = {
+    getAddress: () => {
+      address ??= signer.getAddress().catch((error: unknown) => {
+        address = undefined;
+        throw error;
+      });
+      return address;
+    },
+    signMessage: (message) => signer.signMessage(message),
+  };
+
+  const getBlockNumber = (
+    chainId: ChainId,
+    refresh: boolean,
+    options?: RequestOptions
+  ): Promise<number> => {
+    if (refresh || !block || Date.now() - block.fetchedAt > blockReuseMs) {
+      const value = readClient.getBlockNumber(chainId, options).catch((error: unknown) => {
+        if (block?.value === value) block = undefined;
+        throw error;
+      });
+      block = { value, fetchedAt: Date.now() };
+    }
+    return block.value;
+  };
+
+  return {
+    signer: sharedSigner,
+    readClientForItem: () => {
+      let lookups = 0;
+      return {
+        getBlockNumber: (chainId, options) => getBlockNumber(chainId, lookups++ > 0, options),
+        getLogs: (chainId, filter, options) => readClient.getLogs(chainId, filter, options),
+      };
+    },
+  };
+}
@@ -0,0 +1,479 @@
+/**
+ * @module blackbox/cifer-file
+ * @description Client-side handling of `.cifer` file containers
+ *
+ * A `.cifer` file is a ZIP archive containing `chunk_0.enc` … `chunk_(N-1).enc`
+ * (the AES-GCM ciphertext of each plaintext chunk) and a `metadata.json`
+ * listing the CIFER envelope of every chunk. It is the format produced by
+ * the blackbox `/encrypt-file` jobs and accepted by `/decrypt-file`.
+ */
+
+import { Zip, ZipPassThrough, strToU8 } from 'fflate';
+import { sha256 } from '@noble/hashes/sha256';
+import type { ChainId, Hex, RequestOptions } from '../types/common.js';
+import type { SignerAdapter, ReadClient } from '../types/adapters.js';
+import { sealEnvelope, ML_KEM_768_PUBLIC_KEY_BYTES } from '../internal/crypto/index.js';
+import { base64ToBytes, bytesToBase64, toHexDigits } from '../internal/encoding/index.js';
+import { createChunkReader } from '../internal/streams/index.js';
+import { hexToBytes } from '../commitments/metadata.js';
+import { CIFER_ENVELOPE_BYTES } from '../internal/abi/index.js';
+import { readZipDirectory, readZipEntry } from '../internal/zip/index.js';
+import { EncryptionError, InvalidCiferFileError } from '../internal/errors/index.js';
+import { resolvePublicKey } from './publicKey.js';
+
+/**
+ * Default plaintext chunk size for local file encryption (1 MiB)
+ */
+export const DEFAULT_CIFER_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Contents of `metadata.json` inside a `.cifer` container
+ */
+export interface CiferFileMetadata {
+  /** CIFER envelope of each chunk, in chunk order */
+  cifers: string[];
+  /** Secret ID the file was encrypted for */
+  secretId: number;
+  /** SHA-256 of the original file (lowercase hex, no 0x prefix) */
+  originalHash: string;
+  /** Number of `chunk_N.enc` entries (the blackbox falls back to `cifers.length`) */
+  chunkCount?: number;
+  /** Original file name, used for the decrypted download */
+  originalName?: string;
+}
+
+/**
+ * Parameters for encrypting a file locally
+ */
+export interface EncryptFileLocallyParams extends RequestOptions {
+  /** Chain ID where the secret exists */
+  chainId: ChainId;
+  /** Secret ID to use for encryption */
+  secretId: bigint | number;
+  /** The file to encrypt */
+  file: File | Blob | ReadableStream<Uint8Array> | Uint8Array;
+  /** Original file name (default: `file.name` for File inputs, otherwise 'file') */
+  fileName?: string;
+  /**
+   * Base64 ML-KEM-768 public key of the secret.
+   * When omitted, it is fetched with getSecretPublicKey(), which requires
+   * signer, readClient and blackboxUrl.
+   */
+  publicKey?: string;
+  /** Signer for authentication (only needed to fetch the public key) */
+  signer?: SignerAdapter;
+  /** Read client for fetching block numbers (only needed to fetch the public key) */
+  readClient?: ReadClient;
+  /** Blackbox URL (only needed to fetch the public key) */
+  blackboxUrl?: string;
+  /** Plaintext bytes per chunk (default: 1 MiB) */
+  chunkSize?: number;
+  /** Called after each chunk is encrypted with the number of plaintext bytes processed so far */
+  onProgress?: (processedBytes: number) => void;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Result of encrypting a file locally
+ */
+export interface EncryptFileLocallyResult {
+  /** The `.cifer` ZIP, produced chunk by chunk as the stream is read */
+  stream: ReadableStream<Uint8Array>;
+  /** Suggested file name (`<originalName>.cifer`) */
+  fileName: string;
+}
+
+/**
+ * Encrypt a file locally into a `.cifer` container
+ *
+ * The file is read in chunks; each chunk is encrypted under a fresh ML-KEM-768
+ * encapsulation of the secret's public key and written to the ZIP as soon as
+ * it is ready, so memory use is bounded by the chunk size regardless of the
+ * file size. `metadata.json` is written after the last chunk, once the
+ * original hash is known.
+ *
+ * The resulting container can be uploaded to decryptFile() exactly like
+ * one downloaded from an encrypt job, without the plaintext ever being sent
+ * to the blackbox.
+ *
+ * @param params - Encryption parameters
+ * @returns A stream of the `.cifer` ZIP and its suggested file name
+ *
+ * @example
+ * ```typescript
+ * const { stream, fileName } = await encryptFileLocally({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   file: myFile,
+ *   publicKey,
+ * });
+ *
+ * const ciferBlob = await new Response(stream).blob();
+ *
+ * // Later: decrypt on the blackbox
+ * const job = await files.decryptFile({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   file: new File([ciferBlob], fileName),
+ *   signer,
+ *   readClient,
+ *   blackboxUrl,
+ * });
+ * ```
+ */
+export async function encryptFileLocally(
+  params: EncryptFileLocallyParams
+): Promise<EncryptFileLocallyResult> {
+  const { file, chunkSize = DEFAULT_CIFER_CHUNK_SIZE, onProgress } = params;
+  const secretId = Number(BigInt(params.secretId));
+  const originalName =
+    params.fileName ??
+    (typeof File !== 'undefined' && file instanceof File ? file.name : 'file');
+
+  const encodedPublicKey = await resolvePublicKey(params);
+  let publicKey: Uint8Array;
+  try {
+    publicKey = base64ToBytes(encodedPublicKey);
+  } catch (error) {
+    throw toEncryptionError(error);
+  }
+  if (publicKey.length !== ML_KEM_768_PUBLIC_KEY_BYTES) {
+    throw new EncryptionError(
+      `Invalid ML-KEM-768 public key: expected ${ML_KEM_768_PUBLIC_KEY_BYTES} bytes, got ${publicKey.length}`
+    );
+  }
+
+  let readChunk: ReturnType<typeof createChunkReader>;
+  try {
+    readChunk = createChunkReader(file, chunkSize);
+  } catch (error) {
+    throw toEncryptionError(error);
+  }
+
+  const hasher = sha256.create();
+  const cifers: string[] = [];
+  let processedBytes = 0;
+  let zip: Zip;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((err, data, final) => {
+        if (err) {
+          controller.error(toEncryptionError(err));
+          return;
+        }
+        if (data.length > 0) controller.enqueue(data);
+        if (final) controller.close();
+      });
+    },
+
+    async pull(controller) {
+      try {
+        const chunk = await readChunk();
+
+        // An empty file still gets one (empty) chunk: the blackbox
+        // requires a non-empty `cifers` array.
+        if (chunk !== null || cifers.length === 0) {
+          const plaintext = chunk ?? new Uint8Array(0);
+          hasher.update(plaintext);
+
+          const sealed = sealEnvelope(publicKey, plaintext);
+          addEntry(zip, `chunk_${cifers.length}.enc`, sealed.encryptedMessage);
+          cifers.push(bytesToBase64(sealed.cifer));
+
+          processedBytes += plaintext.length;
+          onProgress?.(processedBytes);
+          return;
+        }
+
+        const metadata: CiferFileMetadata = {
+          cifers,
+          secretId,
+          originalHash: toHexDigits(hasher.digest()),
+          chunkCount: cifers.length,
+          originalName,
+        };
+        addEntry(zip, 'metadata.json', strToU8(JSON.stringify(metadata)));
+        zip.end();
+      } catch (error) {
+        zip.terminate();
+        controller.error(toEncryptionError(error));
+      }
+    },
+
+    cancel() {
+      zip.terminate();
+    },
+  });
+
+  return {
+    stream,
+    fileName: `${originalName}.cifer`,
+  };
+}
+
+/**
+ * Kinds of problems inspectCiferFile() can report
+ */
+export type CiferFileIssueCode =
+  | 'INVALID_ZIP'
+  | 'MISSING_METADATA'
+  | 'INVALID_METADATA'
+  | 'CHUNK_COUNT_MISMATCH'
+  | 'MISSING_CHUNK'
+  | 'INVALID_CIFER'
+  | 'SECRET_ID_MISMATCH';
+
+/**
+ * A single problem found in a `.cifer` container
+ */
+export interface CiferFileIssue {
+  /** Machine-readable issue kind */
+  code: CiferFileIssueCode;
+  /** Human-readable description */
+  message: string;
+  /** Chunk the issue refers to (for chunk and cifer issues) */
+  chunkIndex?: number;
+}
+
+/**
+ * Options for inspecting a `.cifer` container
+ */
+export interface InspectCiferFileOptions {
+  /** Secret ID the file is expected to be encrypted for */
+  expectedSecretId?: bigint | number;
+}
+
+/**
+ * Result of inspecting a `.cifer` container
+ */
+export interface CiferFileInspection {
+  /** Whether no issues were found */
+  valid: boolean;
+  /** Parsed metadata.json (undefined if missing or unparseable) */
+  metadata?: CiferFileMetadata;
+  /** Number of chunks the container declares */
+  chunkCount: number;
+  /** All problems found */
+  issues: CiferFileIssue[];
+}
+
+/**
+ * Inspect a `.cifer` container locally
+ *
+ * Opens the ZIP (reading only its directory and `metadata.json`), and checks
+ * what the blackbox checks on `/decrypt-file`:
+ * 1. `metadata.json` exists and has `cifers`, `secretId` and `originalHash`
+ * 2. `chunkCount` (if present) matches `cifers.length`
+ * 3. `chunk_0.enc` … `chunk_(N-1).enc` are all present
+ * 4. Each cifer decodes to exactly CIFER_ENVELOPE_BYTES (1104) bytes
+ * 5. `secretId` matches `expectedSecretId` (if provided)
+ *
+ * @param file - The `.cifer` file
+ * @param options - Inspection options
+ * @returns Inspection result with the parsed metadata and any issues
+ *
+ * @example
+ * ```typescript
+ * const inspection = await inspectCiferFile(ciferBlob, { expectedSecretId: 123n });
+ *
+ * if (!inspection.valid) {
+ *   for (const issue of inspection.issues) {
+ *     console.error(issue.code, issue.message);
+ *   }
+ * }
+ * ```
+ */
+export async function inspectCiferFile(
+  file: Blob | Uint8Array,
+  options: InspectCiferFileOptions = {}
+): Promise<CiferFileInspection> {
+  const issues: CiferFileIssue[] = [];
+  const fail = (issue: CiferFileIssue): CiferFileInspection => {
+    issues.push(issue);
+    return { valid: false, chunkCount: 0, issues };
+  };
+
+  let entries;
+  try {
+    entries = await readZipDirectory(file);
+  } catch (error) {
+    return fail({
+      code: 'INVALID_ZIP',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const metadataEntry = entries.get('metadata.json');
+  if (!metadataEntry) {
+    return fail({ code: 'MISSING_METADATA', message: 'missing metadata.json' });
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(await readZipEntry(file, metadataEntry)));
+  } catch (error) {
+    return fail({
+      code: 'INVALID_METADATA',
+      message: `metadata.json could not be read: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+
+  const metadata = parseMetadata(raw, issues);
+  if (!metadata) {
+    return { valid: false, chunkCount: 0, issues };
+  }
+
+  const chunkCount = metadata.chunkCount ?? metadata.cifers.length;
+
+  if (chunkCount !== metadata.cifers.length) {
+    issues.push({
+      code: 'CHUNK_COUNT_MISMATCH',
+      message: `chunkCount is ${chunkCount} but metadata lists ${metadata.cifers.length} cifers`,
+    });
+  }
+
+  for (let i = 0; i < chunkCount; i++) {
+    if (!entries.has(`chunk_${i}.enc`)) {
+      issues.push({ code: 'MISSING_CHUNK', message: `missing chunk_${i}.enc`, chunkIndex: i });
+    }
+  }
+
+  metadata.cifers.forEach((cifer, i) => {
+    const size = decodedCiferSize(cifer);
+    if (size !== CIFER_ENVELOPE_BYTES) {
+      issues.push({
+        code: 'INVALID_CIFER',
+        message:
+          size === null
+            ? `cifer ${i} is neither hex nor base64`
+            : `cifer ${i} is ${size} bytes, expected ${CIFER_ENVELOPE_BYTES}`,
+        chunkIndex: i,
+      });
+    }
+  });
+
+  if (
+    options.expectedSecretId !== undefined &&
+    BigInt(metadata.secretId) !== BigInt(options.expectedSecretId)
+  ) {
+    issues.push({
+      code: 'SECRET_ID_MISMATCH',
+      message: `file is encrypted for secret ${metadata.secretId}, expected ${options.expectedSecretId}`,
+    });
+  }
+
+  return {
+    valid: issues.length === 0,
+    metadata,
+    chunkCount,
+    issues,
+  };
+}
+
+/**
+ * Inspect a `.cifer` container and throw if it is invalid
+ *
+ * @param file - The `.cifer` file
+ * @param options - Inspection options
+ * @returns The parsed metadata
+ * @throws InvalidCiferFileError if any issue is found
+ */
+export async function assertValidCiferFile(
+  file: Blob | Uint8Array,
+  options: InspectCiferFileOptions = {}
+): Promise<CiferFileMetadata> {
+  const inspection = await inspectCiferFile(file, options);
+
+  if (!inspection.valid || !inspection.metadata) {
+    throw new InvalidCiferFileError(inspection.issues.map((issue) => issue.message));
+  }
+
+  return inspection.metadata;
+}
+
+function parseMetadata(raw: unknown, issues: CiferFileIssue[]): CiferFileMetadata | null {
+  const invalid = (message: string): null => {
+    issues.push({ code: 'INVALID_METADATA', message });
+    return null;
+  };
+
+  if (typeof raw !== 'object' || raw === null) {
+    return invalid('metadata.json is not an object');
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  if (
+    !Array.isArray(value.cifers) ||
+    value.cifers.length === 0 ||
+    !value.cifers.every((cifer) => typeof cifer === 'string')
+  ) {
+    return invalid('metadata.cifers must be a non-empty array of strings');
+  }
+  if (typeof value.secretId !== 'number' || !Number.isInteger(value.secretId)) {
+    return invalid('metadata.secretId must be an integer');
+  }
+  if (typeof value.originalHash !== 'string') {
+    return invalid('metadata.originalHash must be a string');
+  }
+  if (
+    value.chunkCount !== undefined &&
+    (typeof value.chunkCount !== 'number' || !Number.isInteger(value.chunkCount) || value.chunkCount < 0)
+  ) {
+    return invalid('metadata.chunkCount must be a non-negative integer');
+  }
+  if (value.originalName !== undefined && typeof value.originalName !== 'string') {
+    return invalid('metadata.originalName must be a string');
+  }
+
+  return {
+    cifers: value.cifers as string[],
+    secretId: value.secretId,
+    originalHash: value.originalHash,
+    chunkCount: value.chunkCount as number | undefined,
+    originalName: value.originalName as string | undefined,
+  };
+}
+
+/**
+ * Decoded byte length of a cifer string, accepting hex (with or without
+ * `0x`) or base64. Base64 can look like hex (it may even start with "0x"),
+ * so the interpretation that yields a full envelope wins.
+ * Returns null if the string is neither.
+ */
+function decodedCiferSize(cifer: string): number | null {
+  const sizes: number[] = [];
+
+  if (/^(0x)?[0-9a-fA-F]*$/.test(cifer) && cifer.length % 2 === 0) {
+    sizes.push(hexToBytes(cifer as Hex).length);
+  }
+  try {
+    sizes.push(base64ToBytes(cifer).length);
+  } catch {
+    // not base64
+  }
+
+  return sizes.find((size) => size === CIFER_ENVELOPE_BYTES) ?? sizes[0] ?? null;
+}
+
+/**
+ * Add a stored (uncompressed) entry to the archive.
+ * Encrypted data does not compress, so deflate would only cost time.
+ */
+function addEntry(zip: Zip, name: string, data: Uint8Array): void {
+  const entry = new ZipPassThrough(name);
+  zip.add(entry);
+  entry.push(data, true);
+}
+
+function toEncryptionError(error: unknown): Error {
+  if (error instanceof EncryptionError) {
+    return error;
+  }
+  return new EncryptionError(
+    `Local file encryption failed: ${error instanceof Error ? error.message : String(error)}`,
+    error instanceof Error ? error : undefined
+  );
+}
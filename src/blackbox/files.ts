@@ -4,18 +4,33 @@
  *
  * File operations are asynchronous - they return a job ID that can be
  * polled for status and downloaded when complete.
+ *
+ * Uploads accept Blobs, WHATWG streams, Node.js Readables or filesystem
+ * paths. On Node.js, non-Blob inputs (and Blobs with upload progress) are
+ * sent as a streamed multipart body, so large files are never buffered in
+ * memory. Browsers can't reliably stream request bodies, so there every
+ * upload is sent as FormData and streams are read into memory first.
  */
 
-import type { ChainId } from '../types/common.js';
+import type { ChainId, FileSource, TransferProgress, RequestOptions } from '../types/common.js';
 import type { SignerAdapter, ReadClient } from '../types/adapters.js';
 import { buildFileOperationDataString } from '../internal/auth/data-string.js';
 import { withBlockFreshRetry } from '../internal/auth/block-freshness.js';
 import { signDataString } from '../internal/auth/signer.js';
+import {
+  openFileSource,
+  isReplayableSource,
+  getSourceSize,
+  trackProgress,
+  createMultipartBody,
+  isNodeRuntime,
+} from '../internal/streams/index.js';
 import {
   EncryptionError,
   DecryptionError,
-  parseBlackboxErrorResponse,
 } from '../internal/errors/index.js';
+import { blackboxRequest, createDeadline } from '../internal/http/index.js';
+import type { QuotaGuard } from './quota.js';
 
 /**
  * Result of starting a file encryption/decryption job
@@ -25,24 +40,45 @@ export interface FileJobResult {
   jobId: string;
   /** Success message */
   message: string;
+  /**
+   * The blackbox that holds the job. Poll and download the job here: with
+   * `blackboxUrls`, the SDK may have sent the upload to another endpoint
+   * than `sdk.blackboxUrl` returns now.
+   */
+  blackboxUrl: string;
 }
 
 /**
  * Parameters for file operations
  */
-export interface FileOperationParams {
+export interface FileOperationParams extends RequestOptions {
   /** Chain ID where the secret exists */
   chainId: ChainId;
   /** Secret ID to use */
   secretId: bigint | number;
-  /** The file to process */
-  file: File | Blob;
+  /**
+   * The file to process: a File/Blob, a ReadableStream, a Node.js Readable
+   * (or any async iterable of bytes), or a filesystem path (Node.js only)
+   */
+  file: FileSource;
+  /** File name for streamed uploads (default: File name, path basename, or 'file') */
+  fileName?: string;
+  /**
+   * Called as file bytes are uploaded. In browsers it is called once, when
+   * the upload finishes.
+   */
+  onUploadProgress?: (progress: TransferProgress) => void;
   /** Signer for authentication */
   signer: SignerAdapter;
   /** Read client for fetching block numbers */
   readClient: ReadClient;
   /** Blackbox URL */
   blackboxUrl: string;
+  /**
+   * Check the quota before uploading (throws QuotaExceededError). The file
+   * size is checked for Blobs and paths; streams only count as a request.
+   */
+  quota?: QuotaGuard;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
 }
@@ -82,6 +118,17 @@ export interface FileOperationParams {
  *
  * // Download encrypted file (no auth required for encrypt jobs)
  * const encryptedBlob = await download(job.jobId, { blackboxUrl });
+ *
+ * // Node.js: stream a large file from disk with upload progress
+ * const bigJob = await encryptFile({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   file: '/data/backup.tar',
+ *   onUploadProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+ *   signer,
+ *   readClient,
+ *   blackboxUrl,
+ * });
  * ```
  */
 export async function encryptFile(
@@ -96,10 +143,20 @@ export async function encryptFile(
     blackboxUrl,
   } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   const secretIdBigInt = BigInt(secretId);
 
-  return withBlockFreshRetry(
+  // The preflight runs under the same deadline as the request, so
+  // timeoutMs and signal cover both
+  const preflight = async () => {
+    if (params.quota) {
+      const bytes = await getSourceSize(file);
+      await params.quota.preflight('encryption', bytes, { signal: deadline.signal });
+    }
+  };
+
+  return deadline.run(preflight().then(() => withBlockFreshRetry(
     async (getFreshBlock) => {
       // Get fresh block number
       const blockNumber = await getFreshBlock();
@@ -118,28 +175,27 @@ export async function encryptFile(
       // Sign the data string
       const signed = await signDataString(dataString, signer);
 
-      // Build form data
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('secretId', secretIdBigInt.toString());
-      formData.append('data', signed.data);
-      formData.append('signature', signed.signature);
+      // Build the multipart request
+      const upload = await buildUploadRequest(params, [
+        ['secretId', secretIdBigInt.toString()],
+        ['data', signed.data],
+        ['signature', signed.signature],
+      ]);
 
       // Make the API call
       const url = `${blackboxUrl.replace(/\/$/, '')}/encrypt-file`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        body: formData,
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/encrypt-file',
+        // Each request starts a job and counts against the quota
+        idempotent: false,
+        chainId,
+        secretId: secretIdBigInt,
+        init: upload.init,
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
-
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/encrypt-file'
-        );
-      }
+      upload.finish?.();
 
       const result = (await response.json()) as {
         success: boolean;
@@ -154,12 +210,14 @@ export async function encryptFile(
       return {
         jobId: result.jobId,
         message: result.message,
+        blackboxUrl,
       };
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    // A consumed stream cannot be re-sent
+    { maxRetries: isReplayableSource(file) ? 3 : 0, signal: deadline.signal }
+  )));
 }
 
 /**
@@ -199,10 +257,18 @@ export async function decryptFile(
     blackboxUrl,
   } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   const secretIdBigInt = BigInt(secretId);
 
-  return withBlockFreshRetry(
+  const preflight = async () => {
+    if (params.quota) {
+      const bytes = await getSourceSize(file);
+      await params.quota.preflight('decryption', bytes, { signal: deadline.signal });
+    }
+  };
+
+  return deadline.run(preflight().then(() => withBlockFreshRetry(
     async (getFreshBlock) => {
       // Get fresh block number
       const blockNumber = await getFreshBlock();
@@ -221,27 +287,25 @@ export async function decryptFile(
       // Sign the data string
       const signed = await signDataString(dataString, signer);
 
-      // Build form data
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('data', signed.data);
-      formData.append('signature', signed.signature);
+      // Build the multipart request
+      const upload = await buildUploadRequest(params, [
+        ['data', signed.data],
+        ['signature', signed.signature],
+      ]);
 
       // Make the API call
       const url = `${blackboxUrl.replace(/\/$/, '')}/decrypt-file`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        body: formData,
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/decrypt-file',
+        idempotent: false,
+        chainId,
+        secretId: secretIdBigInt,
+        init: upload.init,
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
-
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/decrypt-file'
-        );
-      }
+      upload.finish?.();
 
       const result = (await response.json()) as {
         success: boolean;
@@ -256,18 +320,20 @@ export async function decryptFile(
       return {
         jobId: result.jobId,
         message: result.message,
+        blackboxUrl,
       };
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    // A consumed stream cannot be re-sent
+    { maxRetries: isReplayableSource(file) ? 3 : 0, signal: deadline.signal }
+  )));
 }
 
 /**
  * Parameters for decrypting an existing encrypted file
  */
-export interface DecryptExistingFileParams {
+export interface DecryptExistingFileParams extends RequestOptions {
   /** Chain ID where the secret exists */
   chainId: ChainId;
   /** Secret ID used for the original encryption */
@@ -280,6 +346,8 @@ export interface DecryptExistingFileParams {
   readClient: ReadClient;
   /** Blackbox URL */
   blackboxUrl: string;
+  /** Check the decryption request limit before starting (throws QuotaExceededError) */
+  quota?: QuotaGuard;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
 }
@@ -318,10 +386,17 @@ export async function decryptExistingFile(
     blackboxUrl,
   } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   const secretIdBigInt = BigInt(secretId);
 
-  return withBlockFreshRetry(
+  const preflight = async () => {
+    if (params.quota) {
+      await params.quota.preflight('decryption', undefined, { signal: deadline.signal });
+    }
+  };
+
+  return deadline.run(preflight().then(() => withBlockFreshRetry(
     async (getFreshBlock) => {
       // Get fresh block number
       const blockNumber = await getFreshBlock();
@@ -342,27 +417,27 @@ export async function decryptExistingFile(
 
       // Make the API call
       const url = `${blackboxUrl.replace(/\/$/, '')}/decrypt-existing-file`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/decrypt-existing-file',
+        idempotent: false,
+        chainId,
+        secretId: secretIdBigInt,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            encryptJobId,
+            data: signed.data,
+            signature: signed.signature,
+          }),
         },
-        body: JSON.stringify({
-          encryptJobId,
-          data: signed.data,
-          signature: signed.signature,
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/decrypt-existing-file'
-        );
-      }
-
       const result = (await response.json()) as {
         success: boolean;
         jobId: string;
@@ -378,10 +453,94 @@ export async function decryptExistingFile(
       return {
         jobId: result.jobId,
         message: result.message,
+        blackboxUrl,
       };
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    { maxRetries: 3, signal: deadline.signal }
+  )));
+}
+
+/**
+ * A file upload request
+ */
+interface UploadRequest {
+  init: RequestInit;
+  /** Report the upload as complete, for bodies sent without progress events */
+  finish?: () => void;
+}
+
+/**
+ * Build the request for a file upload
+ *
+ * Blobs without progress tracking go through FormData as before. On Node.js
+ * everything else is sent as a streamed multipart body with the file last.
+ * Browsers don't support streamed request bodies everywhere (Chrome only
+ * over HTTP/2) and forbid setting Content-Length, so there the file is
+ * buffered into FormData and progress is reported once the upload is done.
+ */
+async function buildUploadRequest(
+  params: FileOperationParams,
+  fields: Array<[name: string, value: string]>
+): Promise<UploadRequest> {
+  const { file, fileName, onUploadProgress } = params;
+  const isBlob = typeof Blob !== 'undefined' && file instanceof Blob;
+
+  if (isBlob && !onUploadProgress) {
+    return { init: createFormDataRequest(file, fileName, fields) };
+  }
+
+  if (!isNodeRuntime()) {
+    const blob = isBlob ? file : await new Response((await openFileSource(file)).stream).blob();
+    return {
+      init: createFormDataRequest(blob, fileName ?? (isBlob ? undefined : 'file'), fields),
+      finish: onUploadProgress && (() => onUploadProgress({ loaded: blob.size, total: blob.size })),
+    };
+  }
+
+  const source = await openFileSource(file);
+  const multipart = createMultipartBody(fields, {
+    field: 'file',
+    fileName: fileName ?? source.name ?? 'file',
+    stream: onUploadProgress
+      ? trackProgress(source.stream, onUploadProgress, source.size)
+      : source.stream,
+    size: source.size,
+  });
+
+  const headers: Record<string, string> = { 'Content-Type': multipart.contentType };
+  if (multipart.contentLength !== undefined) {
+    headers['Content-Length'] = multipart.contentLength.toString();
+  }
+
+  // `duplex` is required by fetch for streamed request bodies
+  return {
+    init: {
+      method: 'POST',
+      headers,
+      body: multipart.body,
+      duplex: 'half',
+    } as RequestInit,
+  };
+}
+
+/**
+ * Build a FormData upload request with the file first
+ */
+function createFormDataRequest(
+  file: Blob,
+  fileName: string | undefined,
+  fields: Array<[name: string, value: string]>
+): RequestInit {
+  const formData = new FormData();
+  if (fileName !== undefined) {
+    formData.append('file', file, fileName);
+  } else {
+    formData.append('file', file);
+  }
+  for (const [name, value] of fields) {
+    formData.append(name, value);
+  }
+  return { method: 'POST', body: formData };
 }
@@ -4,8 +4,15 @@
  *
  * The blackbox provides:
  * - Payload encryption/decryption for short messages
+ * - Binary and typed-JSON payloads that decrypt to their original type
+ * - Large payloads split across several payload encryptions
+ * - Batch payload encryption/decryption with bounded concurrency
+ * - Local payload encryption with a secret's ML-KEM public key
  * - File encryption/decryption for larger files (async via jobs)
+ * - Local `.cifer` file encryption and inspection
  * - Job management for async operations
+ * - A job watcher that tracks many jobs and resumes after a restart
+ * - Quota preflight checks and a client-side rate limiter
  *
  * @example
  * ```typescript
@@ -32,6 +39,14 @@
  *   blackboxUrl,
  * });
  *
+ * // Encrypt locally with the secret's public key (plaintext stays in-process)
+ * const local = await blackbox.payload.encryptPayloadLocally({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   plaintext: 'secret message',
+ *   publicKey,
+ * });
+ *
  * // File operations
  * const job = await blackbox.files.encryptFile({ ... });
  * const status = await blackbox.jobs.pollUntilComplete(job.jobId, blackboxUrl);
@@ -42,12 +57,30 @@
 // Payload operations
 export * as payload from './payload.js';
 
+// Batch payload operations
+export * as batch from './batch.js';
+
+// Payloads larger than the payload limit
+export * as largePayload from './large-payload.js';
+
 // File operations
 export * as files from './files.js';
 
+// Client-side .cifer containers
+export * as ciferFile from './cifer-file.js';
+export { encryptFileLocally, inspectCiferFile } from './cifer-file.js';
+
 // Job operations
 export * as jobs from './jobs.js';
 
+// Watching many jobs across restarts
+export * as jobWatcher from './job-watcher.js';
+export { JobWatcher } from './job-watcher.js';
+
+// Quota preflight and rate limiting
+export * as quota from './quota.js';
+export { QuotaGuard, TokenBucket } from './quota.js';
+
 // Public key fetch
 export * as publicKey from './publicKey.js';
 export { getSecretPublicKey } from './publicKey.js';
@@ -56,24 +89,72 @@ export { getSecretPublicKey } from './publicKey.js';
 export type {
   EncryptPayloadParams,
   EncryptPayloadResult,
+  EncryptPayloadLocallyParams,
   DecryptPayloadParams,
   DecryptPayloadResult,
+  DecryptPayloadResultBase,
+  EncryptJsonParams,
+  DecryptJsonParams,
+  PayloadSchema,
 } from './payload.js';
 
+export type {
+  BatchOptions,
+  BatchProgress,
+  BatchItemResult,
+  BatchResult,
+  EncryptPayloadsItem,
+  EncryptPayloadsParams,
+  DecryptPayloadsItem,
+  DecryptPayloadsParams,
+} from './batch.js';
+
+export type {
+  LargePayloadManifest,
+  LargePayloadPart,
+  EncryptLargePayloadParams,
+  DecryptLargePayloadParams,
+  DecryptLargePayloadResult,
+} from './large-payload.js';
+
 export type {
   FileOperationParams,
   FileJobResult,
   DecryptExistingFileParams,
 } from './files.js';
 
+export type {
+  CiferFileMetadata,
+  CiferFileIssue,
+  CiferFileIssueCode,
+  CiferFileInspection,
+  InspectCiferFileOptions,
+  EncryptFileLocallyParams,
+  EncryptFileLocallyResult,
+} from './cifer-file.js';
+
 export type {
   DownloadParams,
+  DownloadToResult,
   DeleteParams,
   ListJobsParams,
   ListJobsResult,
   DataConsumptionParams,
 } from './jobs.js';
 
+export type {
+  JobWatcherOptions,
+  JobWatcherEvents,
+  JobAutoDownloadOptions,
+  WatchedJob,
+} from './job-watcher.js';
+
+export type {
+  QuotaDirection,
+  QuotaGuardOptions,
+  TokenBucketOptions,
+} from './quota.js';
+
 export type {
   GetSecretPublicKeyParams,
   GetSecretPublicKeyResult,
@@ -0,0 +1,550 @@
+/**
+ * @module blackbox/job-watcher
+ * @description Persistent watcher for many file jobs at once
+ *
+ * A JobWatcher polls getStatus() for every job it tracks and emits
+ * progress, completed, failed and expired events. The set of tracked jobs
+ * is saved through a StorageAdapter, so a new watcher created after a page
+ * reload or process restart resumes polling where the old one stopped.
+ *
+ * Results expire a while after a job completes (see getExpiresAtMs()).
+ * With `autoDownload`, completed results are written to a sink as soon as
+ * they are ready, and with `expiryWarningMs` the watcher warns when a result
+ * is about to expire before it has been fetched.
+ */
+
+import type { JobInfo, DownloadDestination } from '../types/common.js';
+import type { StorageAdapter } from '../types/adapters.js';
+import { MemoryStorageAdapter } from '../internal/adapters/storage.js';
+import { BlackboxError, JobError } from '../internal/errors/index.js';
+import { getStatus, downloadTo, getExpiresAtMs, getTimeRemaining } from './jobs.js';
+import type { DownloadParams, DownloadToResult } from './jobs.js';
+
+/**
+ * Default storage key for watcher state
+ */
+export const DEFAULT_JOB_WATCHER_STORAGE_KEY = 'cifer:job-watcher';
+
+/**
+ * Version of the persisted watcher state
+ */
+export const JOB_WATCHER_STATE_VERSION = 1;
+
+/**
+ * Policy for downloading completed results before they expire
+ */
+export interface JobAutoDownloadOptions
+  extends Pick<DownloadParams, 'signer' | 'readClient' | 'timeoutMs'> {
+  /**
+   * Where to write a job's result. Called once per download attempt.
+   * Decrypt jobs are authenticated with `signer` and `readClient`, using the
+   * job's own chain and secret IDs.
+   */
+  sink: (job: JobInfo) => DownloadDestination | Promise<DownloadDestination>;
+}
+
+/**
+ * Options for creating a JobWatcher
+ */
+export interface JobWatcherOptions {
+  /** Blackbox URL */
+  blackboxUrl: string;
+  /** Where to save the tracked jobs (default: in memory) */
+  storage?: StorageAdapter;
+  /** Storage key, to run several watchers on one storage (default: 'cifer:job-watcher') */
+  storageKey?: string;
+  /** Polling interval in milliseconds (default: 2000) */
+  intervalMs?: number;
+  /** Deadline for each status request in milliseconds */
+  timeoutMs?: number;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /**
+   * Download completed results into a sink. A failed download is retried on
+   * the next poll until the result expires.
+   */
+  autoDownload?: JobAutoDownloadOptions;
+  /**
+   * Emit 'expiring' once when a completed result that has not been fetched
+   * has this many milliseconds left. Setting it keeps completed jobs watched
+   * until they are downloaded, unwatched or expire; call unwatch() after
+   * fetching a result yourself.
+   */
+  expiryWarningMs?: number;
+}
+
+/**
+ * Events emitted by a JobWatcher
+ */
+export interface JobWatcherEvents {
+  /** The job's status or progress changed (also emitted on the first poll) */
+  progress: (job: JobInfo) => void;
+  /**
+   * The job completed. It is no longer watched, unless `autoDownload` or
+   * `expiryWarningMs` keeps it until its result is fetched.
+   */
+  completed: (job: JobInfo) => void;
+  /** An auto-downloaded result reached its sink; the job is no longer watched */
+  downloaded: (job: JobInfo, result: DownloadToResult) => void;
+  /** A completed result that has not been fetched is close to expiring */
+  expiring: (job: JobInfo, timeRemainingMs: number) => void;
+  /** The job failed; it is no longer watched */
+  failed: (job: JobInfo) => void;
+  /** The job expired; it is no longer watched */
+  expired: (job: JobInfo) => void;
+  /**
+   * A status request or download failed (with its job ID), or saving state
+   * failed or saved state was unreadable and got discarded (without one). A
+   * job stays watched after a failed request, unless the blackbox no longer
+   * knows it (JobError).
+   */
+  error: (error: Error, jobId?: string) => void;
+}
+
+/**
+ * A tracked job as saved in storage
+ */
+export interface WatchedJob {
+  /** The job ID */
+  jobId: string;
+  /** When the job was added (Unix ms) */
+  addedAt: number;
+  /** Last status seen */
+  status?: JobInfo['status'];
+  /** Last progress seen */
+  progress?: number;
+  /** When the result expires (Unix ms), once known */
+  expiresAt?: number;
+  /** Whether 'expiring' was emitted */
+  warned?: boolean;
+}
+
+/**
+ * Persisted watcher state
+ */
+interface JobWatcherState {
+  version: number;
+  jobs: WatchedJob[];
+}
+
+type Listeners = { [E in keyof JobWatcherEvents]: Set<JobWatcherEvents[E]> };
+
+/**
+ * Watch many jobs and resume after a restart
+ *
+ * Call start() to load saved jobs and begin polling, watch() to add jobs,
+ * and stop() to pause. Jobs are removed once they reach a terminal state
+ * and, with `autoDownload` or `expiryWarningMs`, their result is fetched.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new JobWatcher({
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ *   storage: new FileStorageAdapter('./jobs.json'),
+ * });
+ *
+ * watcher.on('progress', (job) => console.log(`${job.id}: ${job.progress}%`));
+ * watcher.on('completed', async (job) => {
+ *   const blob = await blackbox.jobs.download(job.id, { blackboxUrl });
+ * });
+ *
+ * // Resumes jobs saved by a previous run
+ * await watcher.start();
+ * await watcher.watch(job.jobId);
+ *
+ * // Node.js: save decrypted results to disk before they expire
+ * const downloader = new JobWatcher({
+ *   blackboxUrl,
+ *   storage: new FileStorageAdapter('./jobs.json'),
+ *   autoDownload: { signer, readClient, sink: (job) => `./out/${job.resultFileName}` },
+ *   expiryWarningMs: 30 * 60 * 1000,
+ * });
+ * downloader.on('expiring', (job, ms) => console.warn(`${job.id} expires in ${ms}ms`));
+ * ```
+ */
+export class JobWatcher {
+  private blackboxUrl: string;
+  private storage: StorageAdapter;
+  private storageKey: string;
+  private intervalMs: number;
+  private timeoutMs?: number;
+  private fetchFn?: typeof fetch;
+  private autoDownload?: JobAutoDownloadOptions;
+  private expiryWarningMs?: number;
+
+  private jobs = new Map<string, WatchedJob>();
+  private loaded?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+  private polling?: Promise<void>;
+  private downloading = new Set<string>();
+  private listeners: Listeners = {
+    progress: new Set(),
+    completed: new Set(),
+    downloaded: new Set(),
+    expiring: new Set(),
+    failed: new Set(),
+    expired: new Set(),
+    error: new Set(),
+  };
+
+  /**
+   * Create a job watcher
+   *
+   * @param options - Watcher options
+   */
+  constructor(options: JobWatcherOptions) {
+    this.blackboxUrl = options.blackboxUrl;
+    this.storage = options.storage ?? new MemoryStorageAdapter();
+    this.storageKey = options.storageKey ?? DEFAULT_JOB_WATCHER_STORAGE_KEY;
+    this.intervalMs = options.intervalMs ?? 2000;
+    this.timeoutMs = options.timeoutMs;
+    this.fetchFn = options.fetch;
+    this.autoDownload = options.autoDownload;
+    this.expiryWarningMs = options.expiryWarningMs;
+  }
+
+  /**
+   * Whether the watcher is polling
+   */
+  get running(): boolean {
+    return this.controller !== undefined;
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @param event - The event name
+   * @param listener - The listener
+   * @returns A function that removes the listener
+   */
+  on<E extends keyof JobWatcherEvents>(event: E, listener: JobWatcherEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove an event listener
+   *
+   * @param event - The event name
+   * @param listener - The listener passed to on()
+   */
+  off<E extends keyof JobWatcherEvents>(event: E, listener: JobWatcherEvents[E]): void {
+    this.listeners[event].delete(listener);
+  }
+
+  /**
+   * Load saved jobs and start polling
+   *
+   * The first poll runs immediately. Calling start() on a running watcher
+   * does nothing.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (this.controller) {
+      return;
+    }
+    this.controller = new AbortController();
+    this.schedule(0, this.controller);
+  }
+
+  /**
+   * Stop polling and cancel in-flight status requests
+   *
+   * Tracked jobs stay saved, so a later start() resumes them.
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.controller?.abort();
+    this.controller = undefined;
+    await this.polling;
+  }
+
+  /**
+   * Start tracking a job
+   *
+   * @param jobId - The job ID
+   */
+  async watch(jobId: string): Promise<void> {
+    await this.load();
+    if (this.jobs.has(jobId)) {
+      return;
+    }
+    this.jobs.set(jobId, { jobId, addedAt: Date.now() });
+    await this.save();
+  }
+
+  /**
+   * Stop tracking a job
+   *
+   * @param jobId - The job ID
+   */
+  async unwatch(jobId: string): Promise<void> {
+    await this.load();
+    if (this.jobs.delete(jobId)) {
+      await this.save();
+    }
+  }
+
+  /**
+   * The jobs being tracked
+   */
+  async getWatchedJobs(): Promise<WatchedJob[]> {
+    await this.load();
+    return [...this.jobs.values()].map((job) => ({ ...job }));
+  }
+
+  /**
+   * Poll every tracked job once
+   *
+   * Useful for driving the watcher from an external scheduler (e.g. a cron
+   * job) instead of start().
+   */
+  async poll(): Promise<void> {
+    await this.load();
+    const signal = this.controller?.signal;
+
+    await Promise.all(
+      [...this.jobs.keys()].map(async (jobId) => {
+        let job: JobInfo;
+        try {
+          job = await getStatus(jobId, this.blackboxUrl, {
+            fetch: this.fetchFn,
+            signal,
+            timeoutMs: this.timeoutMs,
+          });
+        } catch (error) {
+          if (signal?.aborted) {
+            return;
+          }
+          // The blackbox no longer knows the job, so polling it is pointless
+          if (error instanceof JobError) {
+            this.jobs.delete(jobId);
+          }
+          this.emit('error', error instanceof Error ? error : new Error(String(error)), jobId);
+          return;
+        }
+        await this.update(jobId, job, signal);
+      })
+    );
+
+    await this.save();
+  }
+
+  /**
+   * Record a status and emit the matching events
+   */
+  private async update(
+    jobId: string,
+    job: JobInfo,
+    signal: AbortSignal | undefined
+  ): Promise<void> {
+    const watched = this.jobs.get(jobId);
+    if (!watched) {
+      return;
+    }
+
+    const previousStatus = watched.status;
+    if (watched.status !== job.status || watched.progress !== job.progress) {
+      watched.status = job.status;
+      watched.progress = job.progress;
+      this.emit('progress', job);
+    }
+    watched.expiresAt = getExpiresAtMs(job);
+
+    if (job.status === 'failed' || job.status === 'expired') {
+      this.jobs.delete(jobId);
+      this.emit(job.status, job);
+      return;
+    }
+    if (job.status !== 'completed') {
+      return;
+    }
+
+    // A job resumed from storage was already reported as completed
+    if (previousStatus !== 'completed') {
+      this.emit('completed', job);
+    }
+    if (!this.autoDownload && this.expiryWarningMs === undefined) {
+      this.jobs.delete(jobId);
+      return;
+    }
+
+    if (this.autoDownload && (await this.fetchResult(job, this.autoDownload, signal))) {
+      return;
+    }
+    this.warnIfExpiring(watched, job);
+  }
+
+  /**
+   * Download a completed result into the sink
+   *
+   * @returns Whether the result was written
+   */
+  private async fetchResult(
+    job: JobInfo,
+    options: JobAutoDownloadOptions,
+    signal: AbortSignal | undefined
+  ): Promise<boolean> {
+    if (this.downloading.has(job.id)) {
+      return false;
+    }
+    this.downloading.add(job.id);
+
+    try {
+      const destination = await options.sink(job);
+      const auth =
+        job.type === 'decrypt'
+          ? {
+              chainId: job.chainId,
+              secretId: job.secretId,
+              signer: options.signer,
+              readClient: options.readClient,
+            }
+          : {};
+      const result = await downloadTo(job.id, destination, {
+        blackboxUrl: this.blackboxUrl,
+        ...auth,
+        fetch: this.fetchFn,
+        signal,
+        timeoutMs: options.timeoutMs,
+      });
+
+      this.jobs.delete(job.id);
+      this.emit('downloaded', job, result);
+      return true;
+    } catch (error) {
+      if (!signal?.aborted) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)), job.id);
+      }
+      return false;
+    } finally {
+      this.downloading.delete(job.id);
+    }
+  }
+
+  /**
+   * Emit 'expiring' once when an unfetched result is close to expiry
+   */
+  private warnIfExpiring(watched: WatchedJob, job: JobInfo): void {
+    if (this.expiryWarningMs === undefined || watched.warned) {
+      return;
+    }
+    const remaining = getTimeRemaining(job);
+    if (remaining !== undefined && remaining <= this.expiryWarningMs) {
+      watched.warned = true;
+      this.emit('expiring', job, remaining);
+    }
+  }
+
+  private emit<E extends keyof JobWatcherEvents>(
+    event: E,
+    ...args: Parameters<JobWatcherEvents[E]>
+  ): void {
+    for (const listener of [...this.listeners[event]]) {
+      try {
+        (listener as (...a: Parameters<JobWatcherEvents[E]>) => void)(...args);
+      } catch {
+        // A throwing listener must not stop polling or other listeners
+      }
+    }
+  }
+
+  /**
+   * Run a poll after `delayMs`, then keep polling while `controller` is the
+   * active one
+   *
+   * Tying the loop to its controller means a stop() followed by a quick
+   * start() ends the old loop instead of running two side by side.
+   */
+  private schedule(delayMs: number, controller: AbortController): void {
+    this.timer = setTimeout(() => {
+      if (this.controller !== controller) {
+        return;
+      }
+      this.polling = this.poll()
+        .catch((error: unknown) => {
+          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        })
+        .finally(() => {
+          this.polling = undefined;
+          if (this.controller === controller) {
+            this.schedule(this.intervalMs, controller);
+          }
+        });
+    }, delayMs);
+  }
+
+  /**
+   * Load saved state once
+   *
+   * Unreadable state is reported as 'error' and the watcher starts empty.
+   * A failed read is retried on the next call.
+   */
+  private load(): Promise<void> {
+    this.loaded ??= this.storage.getItem(this.storageKey).then(
+      (text) => {
+        if (text !== null) {
+          this.restore(text);
+        }
+      },
+      (error: unknown) => {
+        this.loaded = undefined;
+        throw error;
+      }
+    );
+    return this.loaded;
+  }
+
+  /**
+   * Restore saved jobs, or keep none if the saved state is corrupt
+   */
+  private restore(text: string): void {
+    let jobs: WatchedJob[];
+    try {
+      const state = JSON.parse(text) as JobWatcherState;
+      if (state.version !== JOB_WATCHER_STATE_VERSION) {
+        return;
+      }
+      if (!Array.isArray(state.jobs) || !state.jobs.every((job) => typeof job?.jobId === 'string')) {
+        throw new Error('invalid job list');
+      }
+      jobs = state.jobs;
+    } catch (error) {
+      this.emit(
+        'error',
+        new BlackboxError(
+          `Discarded unreadable saved job watcher state: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          { cause: error instanceof Error ? error : undefined }
+        )
+      );
+      return;
+    }
+    for (const job of jobs) {
+      if (!this.jobs.has(job.jobId)) {
+        this.jobs.set(job.jobId, job);
+      }
+    }
+  }
+
+  /**
+   * Save the tracked jobs, one write at a time
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => {})
+      .then(() => {
+        if (this.jobs.size === 0) {
+          return this.storage.removeItem(this.storageKey);
+        }
+        const state: JobWatcherState = {
+          version: JOB_WATCHER_STATE_VERSION,
+          jobs: [...this.jobs.values()],
+        };
+        return this.storage.setItem(this.storageKey, JSON.stringify(state));
+      });
+    return this.saving;
+  }
+}
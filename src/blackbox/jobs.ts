@@ -3,7 +3,15 @@
  * @description Job management for asynchronous file operations
  */
 
-import type { ChainId, JobInfo, JobStatus, DataConsumption } from '../types/common.js';
+import type {
+  ChainId,
+  JobInfo,
+  JobStatus,
+  DataConsumption,
+  DownloadDestination,
+  TransferProgress,
+  RequestOptions,
+} from '../types/common.js';
 import type { SignerAdapter, ReadClient } from '../types/adapters.js';
 import {
   buildJobDownloadDataString,
@@ -12,10 +20,24 @@ import {
 } from '../internal/auth/data-string.js';
 import { withBlockFreshRetry } from '../internal/auth/block-freshness.js';
 import { signDataString } from '../internal/auth/signer.js';
+import {
+  trackProgress,
+  sha256Through,
+  normalizeDigest,
+  writeToDestination,
+} from '../internal/streams/index.js';
 import {
   JobError,
-  parseBlackboxErrorResponse,
+  FileIntegrityError,
 } from '../internal/errors/index.js';
+import {
+  blackboxRequest,
+  blackboxJson,
+  createDeadline,
+  withDeadline,
+  abortableSleep,
+} from '../internal/http/index.js';
+import { assertValidCiferFile } from './cifer-file.js';
 
 /**
  * Get the status of a job
@@ -41,31 +63,28 @@ import {
 export async function getStatus(
   jobId: string,
   blackboxUrl: string,
-  options?: { fetch?: typeof fetch }
+  options?: RequestOptions & { fetch?: typeof fetch }
 ): Promise<JobInfo> {
   const fetchFn = options?.fetch ?? fetch;
+  const deadline = createDeadline(options);
 
   const url = `${blackboxUrl.replace(/\/$/, '')}/jobs/${encodeURIComponent(jobId)}/status`;
-  const response = await fetchFn(url, {
-    method: 'GET',
-    headers: {
-      Accept: 'application/json',
+  const body = await deadline.run(blackboxJson<unknown>({
+    url,
+    endpoint: `/jobs/${jobId}/status`,
+    init: {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
     },
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new JobError(`Job not found: ${jobId}`, jobId);
-    }
-    const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-    throw parseBlackboxErrorResponse(
-      errorBody as { error?: string; message?: string },
-      response.status,
-      `/jobs/${jobId}/status`
-    );
-  }
+    fetch: fetchFn,
+    signal: deadline.signal,
+    mapError: (res) =>
+      res.status === 404 ? new JobError(`Job not found: ${jobId}`, jobId) : undefined,
+  }));
 
-  const result = (await response.json()) as {
+  const result = body as {
     success: boolean;
     job: {
       id: string;
@@ -105,10 +124,79 @@ export async function getStatus(
   };
 }
 
+/**
+ * Default job TTLs used by the blackbox, in milliseconds
+ *
+ * The TTL starts when a job completes or fails. Used by getExpiresAtMs()
+ * when a job reports no `ttl`.
+ */
+export const DEFAULT_JOB_TTL_MS = {
+  /** Encrypt results: 2 days */
+  encrypt: 2 * 24 * 60 * 60 * 1000,
+  /** Decrypt results: 3 hours */
+  decrypt: 3 * 60 * 60 * 1000,
+  /** Failed jobs: 5 minutes */
+  failed: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Compute when a job's result expires
+ *
+ * Uses `expiredAt` when the blackbox reports it, otherwise `completedAt`
+ * plus the job's `ttl` (or the default TTL for its type).
+ *
+ * @param job - Job info from getStatus()
+ * @returns Expiry as a Unix timestamp (ms), or undefined while the job is
+ *   still pending or processing
+ *
+ * @example
+ * ```typescript
+ * const job = await getStatus(jobId, blackboxUrl);
+ * const expiresAt = getExpiresAtMs(job);
+ * if (expiresAt !== undefined) {
+ *   console.log('Download before', new Date(expiresAt).toISOString());
+ * }
+ * ```
+ */
+export function getExpiresAtMs(
+  job: Pick<JobInfo, 'type' | 'status' | 'ttl' | 'completedAt' | 'expiredAt'>
+): number | undefined {
+  // The blackbox sends null for unset timestamps
+  if (job.expiredAt != null) {
+    return job.expiredAt;
+  }
+  if (job.completedAt == null) {
+    return undefined;
+  }
+
+  const defaultTtl =
+    job.status === 'failed' ? DEFAULT_JOB_TTL_MS.failed : DEFAULT_JOB_TTL_MS[job.type];
+  return job.completedAt + (job.ttl > 0 ? job.ttl : defaultTtl);
+}
+
+/**
+ * Compute how long a job's result can still be downloaded
+ *
+ * @param job - Job info from getStatus()
+ * @param now - Current time as a Unix timestamp (ms), default `Date.now()`
+ * @returns Milliseconds until expiry (0 once expired), or undefined while
+ *   the job is still pending or processing
+ */
+export function getTimeRemaining(
+  job: Pick<JobInfo, 'type' | 'status' | 'ttl' | 'completedAt' | 'expiredAt'>,
+  now: number = Date.now()
+): number | undefined {
+  if (job.status === 'expired') {
+    return 0;
+  }
+  const expiresAt = getExpiresAtMs(job);
+  return expiresAt === undefined ? undefined : Math.max(0, expiresAt - now);
+}
+
 /**
  * Parameters for job download
  */
-export interface DownloadParams {
+export interface DownloadParams extends RequestOptions {
   /** Blackbox URL */
   blackboxUrl: string;
   /** Chain ID (required for decrypt jobs) */
@@ -119,6 +207,17 @@ export interface DownloadParams {
   signer?: SignerAdapter;
   /** Read client (required for decrypt jobs) */
   readClient?: ReadClient;
+  /** Called as response bytes are received */
+  onDownloadProgress?: (progress: TransferProgress) => void;
+  /**
+   * Verify the downloaded bytes against the original file hash (decrypt jobs).
+   * Requires `originalHash` or `ciferFile`; throws FileIntegrityError on mismatch.
+   */
+  verify?: boolean;
+  /** Expected SHA-256 of the decrypted file (hex), e.g. `metadata.originalHash` */
+  originalHash?: string;
+  /** The `.cifer` file that was decrypted, to read `originalHash` from */
+  ciferFile?: Blob | Uint8Array;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
 }
@@ -140,13 +239,15 @@ export interface DownloadParams {
  *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
  * });
  *
- * // Decrypt job (auth required)
+ * // Decrypt job (auth required), verified against the .cifer metadata
  * const decryptedBlob = await download(decryptJobId, {
  *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
  *   chainId: 752025,
  *   secretId: 123n,
  *   signer,
  *   readClient,
+ *   verify: true,
+ *   ciferFile: encryptedBlob,
  * });
  * ```
  */
@@ -154,6 +255,169 @@ export async function download(
   jobId: string,
   params: DownloadParams
 ): Promise<Blob> {
+  const expectedHash = await resolveExpectedHash(jobId, params);
+
+  // The deadline covers reading the body, not just the response headers
+  return withDeadline(params, async (signal) => {
+    const response = await openDownload(jobId, params, signal);
+
+    if (!params.onDownloadProgress && expectedHash === undefined) {
+      return response.blob();
+    }
+
+    const source = response.body ?? (await response.blob()).stream();
+    const body = instrumentBody(jobId, source, response, params, expectedHash);
+    const blob = await new Response(body.stream, { headers: response.headers }).blob();
+    body.assertIntegrity();
+
+    return blob;
+  });
+}
+
+/**
+ * Result of streaming a job download to a destination
+ */
+export interface DownloadToResult {
+  /** Number of bytes written */
+  bytesWritten: number;
+  /** File name from the Content-Disposition header, if present */
+  fileName?: string;
+  /** SHA-256 of the written bytes (set when `verify` is enabled) */
+  verifiedHash?: string;
+}
+
+/**
+ * Stream the result of a completed job to a writable destination
+ *
+ * Unlike download(), the result is never held in memory as a whole: it is
+ * piped straight into a WHATWG WritableStream, a Node.js Writable, or a
+ * file path (Node.js only).
+ *
+ * Authentication and verification work the same as for download(). With
+ * `verify`, the hash is computed while writing, so a FileIntegrityError is
+ * thrown only after the data has reached the destination — discard it.
+ *
+ * @param jobId - The job ID to download
+ * @param destination - Where to write the result
+ * @param params - Download parameters
+ * @returns Bytes written and the server-provided file name
+ *
+ * @example
+ * ```typescript
+ * // Node.js: write a decrypted 1GB file straight to disk
+ * const { bytesWritten } = await downloadTo(decryptJobId, '/data/restored.tar', {
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   signer,
+ *   readClient,
+ *   onDownloadProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+ * });
+ * ```
+ */
+export async function downloadTo(
+  jobId: string,
+  destination: DownloadDestination,
+  params: DownloadParams
+): Promise<DownloadToResult> {
+  const expectedHash = await resolveExpectedHash(jobId, params);
+
+  return withDeadline(params, async (signal) => {
+    const response = await openDownload(jobId, params, signal);
+
+    if (!response.body) {
+      throw new JobError('Download response has no body', jobId);
+    }
+
+    const body = instrumentBody(jobId, response.body, response, params, expectedHash);
+    await writeToDestination(body.stream, destination);
+    const verifiedHash = body.assertIntegrity();
+
+    return {
+      bytesWritten: body.bytesRead(),
+      fileName: getFileName(response),
+      verifiedHash,
+    };
+  });
+}
+
+/**
+ * Determine the hash a verified download must match
+ */
+async function resolveExpectedHash(
+  jobId: string,
+  params: DownloadParams
+): Promise<string | undefined> {
+  if (!params.verify) {
+    return undefined;
+  }
+
+  if (params.originalHash !== undefined) {
+    return normalizeDigest(params.originalHash);
+  }
+
+  if (params.ciferFile !== undefined) {
+    const metadata = await assertValidCiferFile(params.ciferFile);
+    return normalizeDigest(metadata.originalHash);
+  }
+
+  throw new JobError('Verified download requires originalHash or ciferFile', jobId);
+}
+
+/**
+ * Wrap a download body with progress reporting and, when an expected hash
+ * is given, incremental SHA-256 hashing
+ */
+function instrumentBody(
+  jobId: string,
+  source: ReadableStream<Uint8Array>,
+  response: Response,
+  params: DownloadParams,
+  expectedHash: string | undefined
+): {
+  stream: ReadableStream<Uint8Array>;
+  bytesRead: () => number;
+  assertIntegrity: () => string | undefined;
+} {
+  let loaded = 0;
+  let stream = trackProgress(
+    source,
+    (progress) => {
+      loaded = progress.loaded;
+      params.onDownloadProgress?.(progress);
+    },
+    getContentLength(response)
+  );
+
+  const hashing = expectedHash === undefined ? undefined : sha256Through(stream);
+  if (hashing) {
+    stream = hashing.stream;
+  }
+
+  return {
+    stream,
+    bytesRead: () => loaded,
+    assertIntegrity: () => {
+      if (!hashing || expectedHash === undefined) {
+        return undefined;
+      }
+      const actualHash = hashing.digest();
+      if (actualHash !== expectedHash) {
+        throw new FileIntegrityError(jobId, expectedHash, actualHash);
+      }
+      return actualHash;
+    },
+  };
+}
+
+/**
+ * Issue the (possibly authenticated) download request
+ */
+async function openDownload(
+  jobId: string,
+  params: DownloadParams,
+  signal: AbortSignal | undefined
+): Promise<Response> {
   const { blackboxUrl, chainId, secretId, signer, readClient } = params;
   const fetchFn = params.fetch ?? fetch;
 
@@ -180,65 +444,91 @@ export async function download(
 
         const signed = await signDataString(dataString, signer!);
 
-        const response = await fetchFn(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+        const response = await blackboxRequest({
+          url,
+          endpoint: `/jobs/${jobId}/download`,
+          chainId,
+          secretId: secretIdBigInt,
+          init: {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              data: signed.data,
+              signature: signed.signature,
+            }),
           },
-          body: JSON.stringify({
-            data: signed.data,
-            signature: signed.signature,
-          }),
+          fetch: fetchFn,
+          signal,
         });
 
-        if (!response.ok) {
-          const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-          throw parseBlackboxErrorResponse(
-            errorBody as { error?: string; message?: string },
-            response.status,
-            `/jobs/${jobId}/download`
-          );
-        }
-
-        return response.blob();
+        return response;
       },
       readClient!,
       chainId!,
-      { maxRetries: 3 }
+      { maxRetries: 3, signal }
     );
   } else {
     // No auth needed (encrypt job)
-    const response = await fetchFn(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    const response = await blackboxRequest({
+      url,
+      endpoint: `/jobs/${jobId}/download`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
       },
-      body: JSON.stringify({}),
+      fetch: fetchFn,
+      signal,
+      mapError: (res) =>
+        res.status === 401
+          ? new JobError(
+              'Authentication required for decrypt job download. Provide chainId, secretId, signer, and readClient.',
+              jobId
+            )
+          : undefined,
     });
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new JobError(
-          'Authentication required for decrypt job download. Provide chainId, secretId, signer, and readClient.',
-          jobId
-        );
-      }
-      const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-      throw parseBlackboxErrorResponse(
-        errorBody as { error?: string; message?: string },
-        response.status,
-        `/jobs/${jobId}/download`
-      );
-    }
+    return response;
+  }
+}
+
+/**
+ * Parse the Content-Length header, if present
+ */
+function getContentLength(response: Response): number | undefined {
+  const header = response.headers.get('Content-Length');
+  const length = header === null ? NaN : Number(header);
+  return Number.isFinite(length) ? length : undefined;
+}
 
-    return response.blob();
+/**
+ * Extract the file name from a Content-Disposition header
+ */
+function getFileName(response: Response): string | undefined {
+  const header = response.headers.get('Content-Disposition');
+  if (!header) return undefined;
+
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1]);
+    } catch {
+      // fall through to the plain filename
+    }
   }
+
+  const plain = /filename="?([^";]+)"?/i.exec(header);
+  return plain?.[1];
 }
 
 /**
  * Parameters for job deletion
  */
-export interface DeleteParams {
+export interface DeleteParams extends RequestOptions {
   /** Chain ID */
   chainId: ChainId;
   /** Secret ID */
@@ -276,10 +566,11 @@ export async function deleteJob(
 ): Promise<void> {
   const { chainId, secretId, signer, readClient, blackboxUrl } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   const secretIdBigInt = BigInt(secretId);
 
-  await withBlockFreshRetry(
+  await deadline.run(withBlockFreshRetry(
     async (getFreshBlock) => {
       const blockNumber = await getFreshBlock();
       const signerAddress = await signer.getAddress();
@@ -295,36 +586,35 @@ export async function deleteJob(
       const signed = await signDataString(dataString, signer);
 
       const url = `${blackboxUrl.replace(/\/$/, '')}/jobs/${encodeURIComponent(jobId)}/delete`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      await blackboxRequest({
+        url,
+        endpoint: `/jobs/${jobId}/delete`,
+        chainId,
+        secretId: secretIdBigInt,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            data: signed.data,
+            signature: signed.signature,
+          }),
         },
-        body: JSON.stringify({
-          data: signed.data,
-          signature: signed.signature,
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
-
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          `/jobs/${jobId}/delete`
-        );
-      }
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    { maxRetries: 3, signal: deadline.signal }
+  ));
 }
 
 /**
  * Parameters for listing jobs
  */
-export interface ListJobsParams {
+export interface ListJobsParams extends RequestOptions {
   /** Chain ID */
   chainId: ChainId;
   /** Signer */
@@ -381,11 +671,12 @@ export async function list(params: ListJobsParams): Promise<ListJobsResult> {
     includeExpired = false,
   } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   // secretId is ignored by the server but required in the data string format
   const dummySecretId = 0n;
 
-  return withBlockFreshRetry(
+  return deadline.run(withBlockFreshRetry(
     async (getFreshBlock) => {
       const blockNumber = await getFreshBlock();
       const signerAddress = await signer.getAddress();
@@ -400,26 +691,24 @@ export async function list(params: ListJobsParams): Promise<ListJobsResult> {
       const signed = await signDataString(dataString, signer);
 
       const url = `${blackboxUrl.replace(/\/$/, '')}/jobs?includeExpired=${includeExpired}`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/jobs',
+        chainId,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            data: signed.data,
+            signature: signed.signature,
+          }),
         },
-        body: JSON.stringify({
-          data: signed.data,
-          signature: signed.signature,
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/jobs'
-        );
-      }
-
       const result = (await response.json()) as {
         success: boolean;
         jobs: Array<{
@@ -467,14 +756,14 @@ export async function list(params: ListJobsParams): Promise<ListJobsResult> {
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    { maxRetries: 3, signal: deadline.signal }
+  ));
 }
 
 /**
  * Parameters for data consumption query
  */
-export interface DataConsumptionParams {
+export interface DataConsumptionParams extends RequestOptions {
   /** Chain ID */
   chainId: ChainId;
   /** Signer */
@@ -513,11 +802,12 @@ export async function dataConsumption(
 ): Promise<DataConsumption> {
   const { chainId, signer, readClient, blackboxUrl } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   // secretId is ignored by the server but required in the data string format
   const dummySecretId = 0n;
 
-  return withBlockFreshRetry(
+  return deadline.run(withBlockFreshRetry(
     async (getFreshBlock) => {
       const blockNumber = await getFreshBlock();
       const signerAddress = await signer.getAddress();
@@ -532,26 +822,24 @@ export async function dataConsumption(
       const signed = await signDataString(dataString, signer);
 
       const url = `${blackboxUrl.replace(/\/$/, '')}/jobs/dataConsumption`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/jobs/dataConsumption',
+        chainId,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            data: signed.data,
+            signature: signed.signature,
+          }),
         },
-        body: JSON.stringify({
-          data: signed.data,
-          signature: signed.signature,
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/jobs/dataConsumption'
-        );
-      }
-
       const result = (await response.json()) as {
         success: boolean;
         user_id: string;
@@ -597,8 +885,8 @@ export async function dataConsumption(
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    { maxRetries: 3, signal: deadline.signal }
+  ));
 }
 
 /**
@@ -635,8 +923,15 @@ export async function pollUntilComplete(
     maxAttempts?: number;
     /** Progress callback */
     onProgress?: (job: JobInfo) => void;
-    /** Abort signal */
+    /**
+     * Abort signal, checked between polls
+     * @deprecated Use `signal`, which also cancels in-flight requests
+     */
     abortSignal?: AbortSignal;
+    /** Signal that cancels polling (rejects with RequestAbortedError) */
+    signal?: AbortSignal;
+    /** Deadline for the whole poll in ms (rejects with RequestAbortedError) */
+    timeoutMs?: number;
     /** Custom fetch implementation */
     fetch?: typeof fetch;
   }
@@ -644,35 +939,33 @@ export async function pollUntilComplete(
   const intervalMs = options?.intervalMs ?? 2000;
   const maxAttempts = options?.maxAttempts ?? 60;
 
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    if (options?.abortSignal?.aborted) {
-      throw new JobError('Job polling aborted', jobId);
-    }
-
-    const status = await getStatus(jobId, blackboxUrl, { fetch: options?.fetch });
+  return withDeadline(options, async (signal) => {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (options?.abortSignal?.aborted) {
+        throw new JobError('Job polling aborted', jobId);
+      }
 
-    options?.onProgress?.(status);
+      const status = await getStatus(jobId, blackboxUrl, {
+        fetch: options?.fetch,
+        signal,
+      });
 
-    if (
-      status.status === 'completed' ||
-      status.status === 'failed' ||
-      status.status === 'expired'
-    ) {
-      return status;
-    }
+      options?.onProgress?.(status);
 
-    await sleep(intervalMs);
-  }
+      if (
+        status.status === 'completed' ||
+        status.status === 'failed' ||
+        status.status === 'expired'
+      ) {
+        return status;
+      }
 
-  throw new JobError(
-    `Job polling timed out after ${maxAttempts * intervalMs / 1000} seconds`,
-    jobId
-  );
-}
+      await abortableSleep(intervalMs, signal);
+    }
 
-/**
- * Sleep helper
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+    throw new JobError(
+      `Job polling timed out after ${maxAttempts * intervalMs / 1000} seconds`,
+      jobId
+    );
+  });
 }
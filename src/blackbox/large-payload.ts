@@ -0,0 +1,370 @@
+/**
+ * @module blackbox/large-payload
+ * @description Payload encryption for plaintexts larger than the payload limit
+ *
+ * The plaintext is split into parts that each fit in a single payload
+ * encryption. The parts are encrypted as a batch and described by a
+ * manifest recording their order, sizes and SHA-256 hashes, plus the hash
+ * of the whole plaintext. Decryption reverses this and verifies every hash
+ * before returning the original.
+ *
+ * Manifests are plain JSON-serializable objects and can be stored anywhere.
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import type { ChainId, OutputFormat } from '../types/common.js';
+import type { SignerAdapter, ReadClient } from '../types/adapters.js';
+import {
+  encryptPayloads,
+  decryptPayloads,
+  type BatchOptions,
+  type BatchItemResult,
+} from './batch.js';
+import { normalizeDigest } from '../internal/streams/index.js';
+import { toHexDigits } from '../internal/encoding/index.js';
+import { LargePayloadIntegrityError } from '../internal/errors/index.js';
+
+/**
+ * Current large payload manifest version
+ */
+export const LARGE_PAYLOAD_MANIFEST_VERSION = 1;
+
+/**
+ * Default plaintext bytes per part.
+ *
+ * Parts are encrypted as bytes (base64 on the wire), so 12000 bytes
+ * encode to just under the 16KB payload limit.
+ */
+export const DEFAULT_LARGE_PAYLOAD_PART_BYTES = 12_000;
+
+/**
+ * One encrypted part of a large payload
+ */
+export interface LargePayloadPart {
+  /** Position of the part in the plaintext (0-based) */
+  index: number;
+  /** Plaintext bytes in this part */
+  size: number;
+  /** SHA-256 of the part's plaintext bytes (lowercase hex, no 0x prefix) */
+  hash: string;
+  /** The CIFER envelope */
+  cifer: string;
+  /** The AES-encrypted message */
+  encryptedMessage: string;
+}
+
+/**
+ * Describes a plaintext that was encrypted in several parts
+ */
+export interface LargePayloadManifest {
+  /** Manifest format version */
+  version: number;
+  /** Whether the plaintext was a string or bytes */
+  encoding: 'text' | 'bytes';
+  /** Format of the part cifers and encrypted messages */
+  outputFormat: OutputFormat;
+  /** Total plaintext bytes */
+  totalSize: number;
+  /** SHA-256 of the whole plaintext (lowercase hex, no 0x prefix) */
+  hash: string;
+  /** Number of parts */
+  partCount: number;
+  /** The encrypted parts, in order */
+  parts: LargePayloadPart[];
+}
+
+/**
+ * Parameters for encrypting a large payload
+ */
+export interface EncryptLargePayloadParams extends BatchOptions {
+  /** Chain ID where the secret exists */
+  chainId: ChainId;
+  /** Secret ID to use for encryption */
+  secretId: bigint | number;
+  /** The plaintext to encrypt (a string, or bytes for binary data) */
+  plaintext: string | Uint8Array;
+  /** Plaintext bytes per part (default: 12000) */
+  partSize?: number;
+  /** Signer for authentication */
+  signer: SignerAdapter;
+  /** Read client for fetching block numbers */
+  readClient: ReadClient;
+  /** Blackbox URL */
+  blackboxUrl: string;
+  /** Output format (default: 'hex') */
+  outputFormat?: OutputFormat;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Parameters for decrypting a large payload
+ */
+export interface DecryptLargePayloadParams extends BatchOptions {
+  /** Chain ID where the secret exists */
+  chainId: ChainId;
+  /** Secret ID used for encryption */
+  secretId: bigint | number;
+  /** The manifest returned by encryptLargePayload() */
+  manifest: LargePayloadManifest;
+  /** Signer for authentication (must be owner or delegate) */
+  signer: SignerAdapter;
+  /** Read client for fetching block numbers */
+  readClient: ReadClient;
+  /** Blackbox URL */
+  blackboxUrl: string;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Result of decrypting a large payload
+ */
+export interface DecryptLargePayloadResult {
+  /** Whether the plaintext was a string or bytes */
+  encoding: 'text' | 'bytes';
+  /** The verified plaintext, restored to its original type */
+  plaintext: string | Uint8Array;
+  /** SHA-256 of the plaintext (lowercase hex, no 0x prefix) */
+  hash: string;
+}
+
+/**
+ * Encrypt a plaintext of any size as several payload encryptions
+ *
+ * Unlike file encryption this is synchronous from the caller's point of
+ * view: no job is created and the result is available immediately. Each
+ * part counts against data consumption like a normal payload.
+ *
+ * If any part fails, the error of the first failed part is thrown.
+ *
+ * @param params - Encryption parameters
+ * @returns The manifest needed to decrypt the payload
+ *
+ * @example
+ * ```typescript
+ * const manifest = await encryptLargePayload({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   plaintext: largeDocument,
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ * });
+ *
+ * await storage.put('document.manifest.json', JSON.stringify(manifest));
+ * ```
+ */
+export async function encryptLargePayload(
+  params: EncryptLargePayloadParams
+): Promise<LargePayloadManifest> {
+  const {
+    chainId,
+    secretId,
+    plaintext,
+    partSize = DEFAULT_LARGE_PAYLOAD_PART_BYTES,
+    outputFormat = 'hex',
+  } = params;
+
+  if (!Number.isInteger(partSize) || partSize <= 0) {
+    throw new RangeError(`partSize must be a positive integer, got ${partSize}`);
+  }
+
+  const bytes = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
+
+  // An empty plaintext is still stored as one (empty) part
+  const slices: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length || slices.length === 0; offset += partSize) {
+    slices.push(bytes.subarray(offset, offset + partSize));
+  }
+
+  const batch = await encryptPayloads({
+    chainId,
+    items: slices.map((slice) => ({ secretId, plaintext: slice })),
+    signer: params.signer,
+    readClient: params.readClient,
+    blackboxUrl: params.blackboxUrl,
+    outputFormat,
+    concurrency: params.concurrency,
+    blockReuseMs: params.blockReuseMs,
+    onProgress: params.onProgress,
+    quota: params.quota,
+    fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
+  });
+
+  const results = unwrapBatch(batch.results);
+
+  return {
+    version: LARGE_PAYLOAD_MANIFEST_VERSION,
+    encoding: typeof plaintext === 'string' ? 'text' : 'bytes',
+    outputFormat,
+    totalSize: bytes.length,
+    hash: sha256Hex(bytes),
+    partCount: slices.length,
+    parts: slices.map((slice, index) => ({
+      index,
+      size: slice.length,
+      hash: sha256Hex(slice),
+      cifer: results[index].cifer,
+      encryptedMessage: results[index].encryptedMessage,
+    })),
+  };
+}
+
+/**
+ * Decrypt and reassemble a payload encrypted with encryptLargePayload()
+ *
+ * The manifest is checked before anything is sent to the blackbox. After
+ * decryption every part is verified against its recorded size and hash,
+ * and the reassembled plaintext against the overall hash.
+ *
+ * @param params - Decryption parameters
+ * @returns The verified plaintext in its original type
+ * @throws LargePayloadIntegrityError if the manifest is malformed or verification fails
+ *
+ * @example
+ * ```typescript
+ * const manifest = JSON.parse(await storage.get('document.manifest.json'));
+ *
+ * const { plaintext } = await decryptLargePayload({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   manifest,
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ * });
+ * ```
+ */
+export async function decryptLargePayload(
+  params: DecryptLargePayloadParams
+): Promise<DecryptLargePayloadResult> {
+  const { chainId, secretId, manifest } = params;
+
+  const manifestIssues = validateManifest(manifest);
+  if (manifestIssues.length > 0) {
+    throw new LargePayloadIntegrityError(manifestIssues);
+  }
+
+  const parts = [...manifest.parts].sort((a, b) => a.index - b.index);
+
+  const batch = await decryptPayloads({
+    chainId,
+    items: parts.map((part) => ({
+      secretId,
+      cifer: part.cifer,
+      encryptedMessage: part.encryptedMessage,
+    })),
+    signer: params.signer,
+    readClient: params.readClient,
+    blackboxUrl: params.blackboxUrl,
+    inputFormat: manifest.outputFormat,
+    concurrency: params.concurrency,
+    blockReuseMs: params.blockReuseMs,
+    onProgress: params.onProgress,
+    quota: params.quota,
+    fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
+  });
+
+  const results = unwrapBatch(batch.results);
+  const issues: string[] = [];
+  const output = new Uint8Array(manifest.totalSize);
+  let offset = 0;
+
+  parts.forEach((part, i) => {
+    const result = results[i];
+    if (result.encoding !== 'bytes') {
+      issues.push(`part ${part.index} decrypted as ${result.encoding}, expected bytes`);
+      return;
+    }
+    const bytes = result.value;
+    if (bytes.length !== part.size) {
+      issues.push(`part ${part.index} is ${bytes.length} bytes, expected ${part.size}`);
+    } else if (sha256Hex(bytes) !== normalizeDigest(part.hash)) {
+      issues.push(`part ${part.index} hash mismatch`);
+    }
+    if (offset + bytes.length <= output.length) {
+      output.set(bytes, offset);
+    }
+    offset += bytes.length;
+  });
+
+  if (issues.length === 0) {
+    const hash = sha256Hex(output);
+    if (offset !== manifest.totalSize) {
+      issues.push(`reassembled ${offset} bytes, expected ${manifest.totalSize}`);
+    } else if (hash !== normalizeDigest(manifest.hash)) {
+      issues.push(`payload hash mismatch: expected ${normalizeDigest(manifest.hash)}, got ${hash}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new LargePayloadIntegrityError(issues);
+  }
+
+  return {
+    encoding: manifest.encoding,
+    plaintext: manifest.encoding === 'text' ? new TextDecoder().decode(output) : output,
+    hash: normalizeDigest(manifest.hash),
+  };
+}
+
+/**
+ * Check a manifest's structure before decrypting it
+ */
+function validateManifest(manifest: LargePayloadManifest): string[] {
+  const issues: string[] = [];
+
+  if (manifest.version !== LARGE_PAYLOAD_MANIFEST_VERSION) {
+    issues.push(`unsupported manifest version ${manifest.version}`);
+    return issues;
+  }
+  if (manifest.encoding !== 'text' && manifest.encoding !== 'bytes') {
+    issues.push(`unknown encoding ${String(manifest.encoding)}`);
+  }
+  if (!Array.isArray(manifest.parts) || manifest.parts.length === 0) {
+    issues.push('manifest has no parts');
+    return issues;
+  }
+  if (manifest.partCount !== manifest.parts.length) {
+    issues.push(`partCount is ${manifest.partCount} but manifest lists ${manifest.parts.length} parts`);
+  }
+
+  const seen = new Set<number>();
+  let total = 0;
+  for (const part of manifest.parts) {
+    if (!Number.isInteger(part.index) || part.index < 0 || part.index >= manifest.parts.length) {
+      issues.push(`part index ${part.index} is out of range`);
+    } else if (seen.has(part.index)) {
+      issues.push(`part ${part.index} is listed more than once`);
+    }
+    seen.add(part.index);
+    total += part.size;
+  }
+
+  if (total !== manifest.totalSize) {
+    issues.push(`part sizes add up to ${total}, expected totalSize ${manifest.totalSize}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Return the results of a fully successful batch, or throw its first error
+ */
+function unwrapBatch<T>(results: BatchItemResult<T>[]): T[] {
+  return results.map((item) => {
+    if (!item.success) {
+      throw item.error;
+    }
+    return item.result;
+  });
+}
+
+function sha256Hex(bytes: Uint8Array): string {
+  return toHexDigits(sha256(bytes));
+}
@@ -1,9 +1,19 @@
 /**
  * @module blackbox/payload
  * @description Payload encryption and decryption via the blackbox API
+ *
+ * Plaintexts may be strings, bytes or (via encryptJson) JSON values. Bytes
+ * and JSON are tagged before encryption so decryptPayload() can restore the
+ * original type; untagged strings decrypt as text.
  */
 
-import type { ChainId, OutputFormat, InputFormat } from '../types/common.js';
+import type {
+  ChainId,
+  OutputFormat,
+  InputFormat,
+  PayloadEncoding,
+  RequestOptions,
+} from '../types/common.js';
 import type { SignerAdapter, ReadClient } from '../types/adapters.js';
 import {
   buildEncryptPayloadDataString,
@@ -11,11 +21,22 @@ import {
 } from '../internal/auth/data-string.js';
 import { withBlockFreshRetry } from '../internal/auth/block-freshness.js';
 import { signDataString } from '../internal/auth/signer.js';
+import { sealEnvelope } from '../internal/crypto/index.js';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  encodePlaintext,
+  encodeJsonPlaintext,
+  decodePlaintext,
+} from '../internal/encoding/index.js';
+import { bytesToHex } from '../commitments/metadata.js';
+import { resolvePublicKey } from './publicKey.js';
+import type { QuotaGuard } from './quota.js';
 import {
   EncryptionError,
   DecryptionError,
-  parseBlackboxErrorResponse,
 } from '../internal/errors/index.js';
+import { blackboxRequest, createDeadline } from '../internal/http/index.js';
 
 /**
  * Result of encrypting a payload
@@ -35,22 +56,40 @@ export interface EncryptPayloadResult {
 
 /**
  * Result of decrypting a payload
+ *
+ * Check `encoding` to narrow `value`: a string for `'text'`, a Uint8Array
+ * for `'bytes'`, or the parsed value for `'json'`.
  */
-export interface DecryptPayloadResult {
-  /** The decrypted plaintext message */
+export type DecryptPayloadResult = DecryptPayloadResultBase &
+  (
+    | { encoding: 'text'; value: string }
+    | { encoding: 'bytes'; value: Uint8Array }
+    | { encoding: 'json'; value: unknown }
+  );
+
+/**
+ * Fields shared by every DecryptPayloadResult
+ */
+export interface DecryptPayloadResultBase {
+  /**
+   * The decrypted plaintext exactly as it was encrypted. For bytes and JSON
+   * payloads this is the tagged string; use `value` for the restored data.
+   */
   decryptedMessage: string;
+  /** How the plaintext was encoded when it was encrypted */
+  encoding: PayloadEncoding;
 }
 
 /**
  * Parameters for encrypting a payload
  */
-export interface EncryptPayloadParams {
+export interface EncryptPayloadParams extends RequestOptions {
   /** Chain ID where the secret exists */
   chainId: ChainId;
   /** Secret ID to use for encryption */
   secretId: bigint | number;
-  /** The plaintext to encrypt */
-  plaintext: string;
+  /** The plaintext to encrypt (a string, or bytes for binary data) */
+  plaintext: string | Uint8Array;
   /** Signer for authentication */
   signer: SignerAdapter;
   /** Read client for fetching block numbers */
@@ -59,6 +98,8 @@ export interface EncryptPayloadParams {
   blackboxUrl: string;
   /** Output format (default: 'hex') */
   outputFormat?: OutputFormat;
+  /** Check the encryption quota before sending (throws QuotaExceededError) */
+  quota?: QuotaGuard;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
 }
@@ -85,25 +126,47 @@ export interface EncryptPayloadParams {
  *
  * console.log('Cifer:', result.cifer);
  * console.log('Encrypted message:', result.encryptedMessage);
+ *
+ * // Binary data is restored as bytes by decryptPayload()
+ * await encryptPayload({ ...params, plaintext: new Uint8Array([1, 2, 3]) });
  * ```
  */
 export async function encryptPayload(
   params: EncryptPayloadParams
+): Promise<EncryptPayloadResult> {
+  return requestEncryptPayload(params, encodePlaintext(params.plaintext));
+}
+
+/**
+ * Send an already-encoded plaintext to /encrypt-payload
+ */
+async function requestEncryptPayload(
+  params: Omit<EncryptPayloadParams, 'plaintext'>,
+  plaintext: string
 ): Promise<EncryptPayloadResult> {
   const {
     chainId,
     secretId,
-    plaintext,
     signer,
     readClient,
     blackboxUrl,
     outputFormat = 'hex',
   } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   const secretIdBigInt = BigInt(secretId);
 
-  return withBlockFreshRetry(
+  // The preflight runs under the same deadline as the request, so
+  // timeoutMs and signal cover both
+  const preflight = async () => {
+    if (params.quota) {
+      const bytes = new TextEncoder().encode(plaintext).length;
+      await params.quota.preflight('encryption', bytes, { signal: deadline.signal });
+    }
+  };
+
+  return deadline.run(preflight().then(() => withBlockFreshRetry(
     async (getFreshBlock) => {
       // Get fresh block number
       const blockNumber = await getFreshBlock();
@@ -125,27 +188,26 @@ export async function encryptPayload(
 
       // Make the API call
       const url = `${blackboxUrl.replace(/\/$/, '')}/encrypt-payload`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/encrypt-payload',
+        chainId,
+        secretId: secretIdBigInt,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            data: signed.data,
+            signature: signed.signature,
+            outputFormat,
+          }),
         },
-        body: JSON.stringify({
-          data: signed.data,
-          signature: signed.signature,
-          outputFormat,
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/encrypt-payload'
-        );
-      }
-
       const result = (await response.json()) as {
         success: boolean;
         cifer: string;
@@ -169,14 +231,107 @@ export async function encryptPayload(
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    { maxRetries: 3, signal: deadline.signal }
+  )));
+}
+
+/**
+ * Parameters for encrypting a payload locally
+ */
+export interface EncryptPayloadLocallyParams extends RequestOptions {
+  /** Chain ID where the secret exists */
+  chainId: ChainId;
+  /** Secret ID to use for encryption */
+  secretId: bigint | number;
+  /** The plaintext to encrypt (a string, or bytes for binary data) */
+  plaintext: string | Uint8Array;
+  /**
+   * Base64 ML-KEM-768 public key of the secret.
+   * When omitted, it is fetched with getSecretPublicKey(), which requires
+   * signer, readClient and blackboxUrl.
+   */
+  publicKey?: string;
+  /** Signer for authentication (only needed to fetch the public key) */
+  signer?: SignerAdapter;
+  /** Read client for fetching block numbers (only needed to fetch the public key) */
+  readClient?: ReadClient;
+  /** Blackbox URL (only needed to fetch the public key) */
+  blackboxUrl?: string;
+  /** Output format (default: 'hex') */
+  outputFormat?: OutputFormat;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Encrypt a payload locally using the secret's ML-KEM-768 public key
+ *
+ * Performs the ML-KEM encapsulation and AES-256-GCM encryption in-process,
+ * so the plaintext never reaches the blackbox and the operation does not
+ * count against data consumption limits. The result has the same shape as
+ * encryptPayload() and can be passed to decryptPayload() or stored on-chain.
+ *
+ * If `publicKey` is not provided, it is fetched from the blackbox first
+ * (the plaintext is still encrypted locally).
+ *
+ * @param params - Encryption parameters
+ * @returns Encrypted data (cifer and encryptedMessage)
+ *
+ * @example
+ * ```typescript
+ * const { publicKey } = await getSecretPublicKey({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ * });
+ *
+ * // Reuse the public key for as many payloads as needed
+ * const result = await encryptPayloadLocally({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   plaintext: 'My secret message',
+ *   publicKey,
+ * });
+ * ```
+ */
+export async function encryptPayloadLocally(
+  params: EncryptPayloadLocallyParams
+): Promise<EncryptPayloadResult> {
+  const { chainId, secretId, plaintext, outputFormat = 'hex' } = params;
+  const secretIdBigInt = BigInt(secretId);
+
+  const publicKey = await resolvePublicKey(params);
+
+  let sealed;
+  try {
+    sealed = sealEnvelope(
+      base64ToBytes(publicKey),
+      new TextEncoder().encode(encodePlaintext(plaintext))
+    );
+  } catch (error) {
+    throw new EncryptionError(
+      `Local encryption failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const encode = outputFormat === 'base64' ? bytesToBase64 : bytesToHex;
+
+  return {
+    cifer: encode(sealed.cifer),
+    encryptedMessage: encode(sealed.encryptedMessage),
+    chainId,
+    secretId: secretIdBigInt,
+    outputFormat,
+  };
 }
 
 /**
  * Parameters for decrypting a payload
  */
-export interface DecryptPayloadParams {
+export interface DecryptPayloadParams extends RequestOptions {
   /** Chain ID where the secret exists */
   chainId: ChainId;
   /** Secret ID used for encryption */
@@ -193,6 +348,8 @@ export interface DecryptPayloadParams {
   blackboxUrl: string;
   /** Input format (default: 'hex') */
   inputFormat?: InputFormat;
+  /** Check the decryption quota before sending (throws QuotaExceededError) */
+  quota?: QuotaGuard;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
 }
@@ -206,7 +363,7 @@ export interface DecryptPayloadParams {
  * The signer must be the secret owner or delegate.
  *
  * @param params - Decryption parameters
- * @returns Decrypted plaintext message
+ * @returns Decrypted plaintext message and its restored value
  *
  * @example
  * ```typescript
@@ -222,6 +379,11 @@ export interface DecryptPayloadParams {
  * });
  *
  * console.log('Decrypted:', result.decryptedMessage);
+ *
+ * // Binary and JSON payloads come back in their original type
+ * if (result.encoding === 'bytes') {
+ *   const bytes: Uint8Array = result.value;
+ * }
  * ```
  */
 export async function decryptPayload(
@@ -238,10 +400,18 @@ export async function decryptPayload(
     inputFormat = 'hex',
   } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
 
   const secretIdBigInt = BigInt(secretId);
 
-  return withBlockFreshRetry(
+  const preflight = async () => {
+    if (params.quota) {
+      const bytes = encodedByteLength(encryptedMessage, inputFormat);
+      await params.quota.preflight('decryption', bytes, { signal: deadline.signal });
+    }
+  };
+
+  return deadline.run(preflight().then(() => withBlockFreshRetry(
     async (getFreshBlock) => {
       // Get fresh block number
       const blockNumber = await getFreshBlock();
@@ -263,28 +433,27 @@ export async function decryptPayload(
 
       // Make the API call
       const url = `${blackboxUrl.replace(/\/$/, '')}/decrypt-payload`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/decrypt-payload',
+        chainId,
+        secretId: secretIdBigInt,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            cifer,
+            data: signed.data,
+            signature: signed.signature,
+            inputFormat,
+          }),
         },
-        body: JSON.stringify({
-          cifer,
-          data: signed.data,
-          signature: signed.signature,
-          inputFormat,
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({})) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/decrypt-payload'
-        );
-      }
-
       const result = (await response.json()) as {
         success: boolean;
         decryptedMessage: string;
@@ -296,10 +465,177 @@ export async function decryptPayload(
 
       return {
         decryptedMessage: result.decryptedMessage,
+        ...decodePlaintext(result.decryptedMessage),
       };
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
+    { maxRetries: 3, signal: deadline.signal }
+  )));
+}
+
+/**
+ * Decrypt a payload and return its plaintext as bytes
+ *
+ * Bytes payloads are returned as encrypted; text and JSON payloads are
+ * returned as their UTF-8 encoding.
+ *
+ * @param params - Decryption parameters
+ * @returns Decrypted plaintext bytes
+ *
+ * @example
+ * ```typescript
+ * const bytes = await decryptPayloadBytes({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   encryptedMessage,
+ *   cifer,
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ * });
+ * ```
+ */
+export async function decryptPayloadBytes(
+  params: DecryptPayloadParams
+): Promise<Uint8Array> {
+  const result = await decryptPayload(params);
+
+  if (result.encoding === 'bytes') {
+    return result.value;
+  }
+  return new TextEncoder().encode(
+    result.encoding === 'json' ? JSON.stringify(result.value) : result.value
   );
 }
+
+/**
+ * Validator for decrypted JSON values
+ *
+ * Either a function that returns the typed value (throwing if invalid), or
+ * an object with a `parse` method, such as a zod schema.
+ */
+export type PayloadSchema<T> =
+  | ((value: unknown) => T)
+  | { parse(value: unknown): T };
+
+/**
+ * Parameters for encrypting a JSON value
+ */
+export interface EncryptJsonParams<T> extends Omit<EncryptPayloadParams, 'plaintext'> {
+  /** The JSON-serializable value to encrypt */
+  value: T;
+}
+
+/**
+ * Encrypt a JSON-serializable value using the blackbox API
+ *
+ * The value is serialized and tagged as JSON, so decryptPayload() and
+ * decryptJson() return it parsed.
+ *
+ * @param params - Encryption parameters
+ * @returns Encrypted data (cifer and encryptedMessage)
+ * @throws EncryptionError if the value cannot be serialized
+ *
+ * @example
+ * ```typescript
+ * const result = await encryptJson({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   value: { apiKey: 'sk-...', scopes: ['read'] },
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ * });
+ * ```
+ */
+export async function encryptJson<T>(
+  params: EncryptJsonParams<T>
+): Promise<EncryptPayloadResult> {
+  const { value, ...rest } = params;
+
+  let encoded: string;
+  try {
+    encoded = encodeJsonPlaintext(value);
+  } catch (error) {
+    throw new EncryptionError(
+      `Cannot encrypt value as JSON: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return requestEncryptPayload(rest, encoded);
+}
+
+/**
+ * Parameters for decrypting a JSON value
+ */
+export interface DecryptJsonParams<T> extends DecryptPayloadParams {
+  /** Optional validator applied to the parsed value */
+  schema?: PayloadSchema<T>;
+}
+
+/**
+ * Decrypt a payload that was encrypted with encryptJson()
+ *
+ * @param params - Decryption parameters, with an optional schema
+ * @returns The parsed (and validated, if a schema is given) value
+ * @throws DecryptionError if the payload is not JSON or fails validation
+ *
+ * @example
+ * ```typescript
+ * interface Credentials { apiKey: string; scopes: string[] }
+ *
+ * const creds = await decryptJson<Credentials>({
+ *   chainId: 752025,
+ *   secretId: 123n,
+ *   encryptedMessage,
+ *   cifer,
+ *   signer,
+ *   readClient,
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ *   schema: (value) => {
+ *     if (typeof (value as Credentials).apiKey !== 'string') {
+ *       throw new Error('apiKey missing');
+ *     }
+ *     return value as Credentials;
+ *   },
+ * });
+ * ```
+ */
+export async function decryptJson<T = unknown>(
+  params: DecryptJsonParams<T>
+): Promise<T> {
+  const { schema, ...rest } = params;
+  const result = await decryptPayload(rest);
+
+  if (result.encoding !== 'json') {
+    throw new DecryptionError(
+      `Expected a JSON payload but it was encrypted as ${result.encoding}`
+    );
+  }
+
+  if (!schema) {
+    return result.value as T;
+  }
+
+  try {
+    return typeof schema === 'function' ? schema(result.value) : schema.parse(result.value);
+  } catch (error) {
+    throw new DecryptionError(
+      `Decrypted JSON failed schema validation: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Decoded size of a hex or base64 string, for quota estimates
+ */
+function encodedByteLength(value: string, format: InputFormat): number {
+  if (format === 'hex') {
+    return Math.floor(value.replace(/^0x/i, '').length / 2);
+  }
+  const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0;
+  return Math.floor((value.length * 3) / 4) - padding;
+}
@@ -3,17 +3,18 @@
  * @description Fetch ML-KEM public keys from the blackbox local store
  */
 
-import type { ChainId } from '../types/common.js';
+import type { ChainId, RequestOptions } from '../types/common.js';
 import type { SignerAdapter, ReadClient } from '../types/adapters.js';
 import { buildFileOperationDataString } from '../internal/auth/data-string.js';
 import { withBlockFreshRetry } from '../internal/auth/block-freshness.js';
 import { signDataString } from '../internal/auth/signer.js';
-import { parseBlackboxErrorResponse } from '../internal/errors/index.js';
+import { EncryptionError } from '../internal/errors/index.js';
+import { blackboxRequest, createDeadline } from '../internal/http/index.js';
 
 /**
  * Parameters for fetching a secret's public key
  */
-export interface GetSecretPublicKeyParams {
+export interface GetSecretPublicKeyParams extends RequestOptions {
   /** Chain ID where the secret exists */
   chainId: ChainId;
   /** Secret ID to fetch */
@@ -53,9 +54,10 @@ export async function getSecretPublicKey(
 ): Promise<GetSecretPublicKeyResult> {
   const { chainId, secretId, signer, readClient, blackboxUrl } = params;
   const fetchFn = params.fetch ?? fetch;
+  const deadline = createDeadline(params);
   const secretIdBigInt = BigInt(secretId);
 
-  return withBlockFreshRetry(
+  return deadline.run(withBlockFreshRetry(
     async (getFreshBlock) => {
       const blockNumber = await getFreshBlock();
       const signerAddress = await signer.getAddress();
@@ -70,28 +72,27 @@ export async function getSecretPublicKey(
       const signed = await signDataString(dataString, signer);
 
       const url = `${blackboxUrl.replace(/\/$/, '')}/secret-public-key`;
-      const response = await fetchFn(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/secret-public-key',
+        chainId,
+        secretId: secretIdBigInt,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            data: signed.data,
+            signature: signed.signature,
+            chainId,
+            secretId: Number(secretIdBigInt),
+          }),
         },
-        body: JSON.stringify({
-          data: signed.data,
-          signature: signed.signature,
-          chainId,
-          secretId: Number(secretIdBigInt),
-        }),
+        fetch: fetchFn,
+        signal: deadline.signal,
       });
 
-      if (!response.ok) {
-        const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-        throw parseBlackboxErrorResponse(
-          errorBody as { error?: string; message?: string },
-          response.status,
-          '/secret-public-key'
-        );
-      }
-
       const body = (await response.json()) as {
         success: boolean;
         chainId: number;
@@ -107,6 +108,58 @@ export async function getSecretPublicKey(
     },
     readClient,
     chainId,
-    { maxRetries: 3 }
-  );
+    { maxRetries: 3, signal: deadline.signal }
+  ));
+}
+
+/**
+ * Options for resolving a public key for local encryption
+ *
+ * @internal
+ */
+export interface ResolvePublicKeyParams extends RequestOptions {
+  /** Chain ID where the secret exists */
+  chainId: ChainId;
+  /** Secret ID */
+  secretId: bigint | number;
+  /** Base64 public key, if already known */
+  publicKey?: string;
+  /** Signer for authentication */
+  signer?: SignerAdapter;
+  /** Read client for fetching block numbers */
+  readClient?: ReadClient;
+  /** Blackbox URL */
+  blackboxUrl?: string;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Return the given public key, or fetch it from the blackbox when absent.
+ *
+ * @internal
+ */
+export async function resolvePublicKey(params: ResolvePublicKeyParams): Promise<string> {
+  if (params.publicKey !== undefined) {
+    return params.publicKey;
+  }
+
+  const { chainId, secretId, signer, readClient, blackboxUrl } = params;
+  if (!signer || !readClient || !blackboxUrl) {
+    throw new EncryptionError(
+      'Local encryption requires either publicKey or signer, readClient and blackboxUrl'
+    );
+  }
+
+  const result = await getSecretPublicKey({
+    chainId,
+    secretId,
+    signer,
+    readClient,
+    blackboxUrl,
+    fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
+  });
+  return result.publicKey;
 }
@@ -0,0 +1,300 @@
+/**
+ * @module blackbox/quota
+ * @description Quota preflight and client-side rate limiting
+ *
+ * The blackbox enforces a data limit, a request limit and a rate limit per
+ * billing cycle. A QuotaGuard reads them with dataConsumption(), caches the
+ * result briefly, and rejects requests that would not fit with a
+ * QuotaExceededError before anything is uploaded. Pass it as the `quota`
+ * option of the payload, batch and file operations.
+ */
+
+import type { DataConsumption, UsageStats, RequestOptions } from '../types/common.js';
+import { QuotaExceededError } from '../internal/errors/index.js';
+import { abortableSleep, throwIfAborted } from '../internal/http/index.js';
+import { dataConsumption, type DataConsumptionParams } from './jobs.js';
+
+/**
+ * Which quota a request counts against
+ */
+export type QuotaDirection = 'encryption' | 'decryption';
+
+/**
+ * Default time usage is cached for (30 seconds)
+ */
+export const DEFAULT_QUOTA_CACHE_MS = 30_000;
+
+/**
+ * Options for creating a TokenBucket
+ */
+export interface TokenBucketOptions {
+  /** Tokens added per second */
+  ratePerSecond: number;
+  /** Maximum tokens held at once (default: `ratePerSecond`, at least 1) */
+  capacity?: number;
+}
+
+/**
+ * Token-bucket rate limiter
+ *
+ * Starts full. Each request takes one token; tokens refill continuously at
+ * `ratePerSecond`.
+ *
+ * @example
+ * ```typescript
+ * const bucket = new TokenBucket({ ratePerSecond: 5 });
+ * for (const item of items) {
+ *   await bucket.acquire();
+ *   await send(item);
+ * }
+ * ```
+ */
+export class TokenBucket {
+  private ratePerSecond: number;
+  private capacity: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  /**
+   * Create a token bucket
+   *
+   * @param options - Rate and capacity
+   */
+  constructor(options: TokenBucketOptions) {
+    if (!(options.ratePerSecond > 0)) {
+      throw new Error('ratePerSecond must be greater than 0');
+    }
+    this.ratePerSecond = options.ratePerSecond;
+    this.capacity = Math.max(1, options.capacity ?? options.ratePerSecond);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Tokens currently available
+   */
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Take a token if one is available
+   *
+   * @returns Whether a token was taken
+   */
+  tryAcquire(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Wait for a token and take it
+   *
+   * @param options - Cancellation
+   */
+  async acquire(options?: Pick<RequestOptions, 'signal'>): Promise<void> {
+    throwIfAborted(options?.signal);
+    while (!this.tryAcquire()) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      await abortableSleep(Math.max(1, waitMs), options?.signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+    this.refilledAt = now;
+  }
+}
+
+/**
+ * Options for creating a QuotaGuard
+ */
+export interface QuotaGuardOptions extends Omit<DataConsumptionParams, 'signal' | 'timeoutMs'> {
+  /** How long fetched usage is reused, in milliseconds (default: 30000) */
+  cacheTtlMs?: number;
+  /**
+   * Wait for a token from the direction's rate limiter in preflight(), so
+   * requests stay under the plan's `rateLimit` (default: false)
+   */
+  throttle?: boolean;
+}
+
+/**
+ * Check requests against the account's quota before sending them
+ *
+ * Usage is fetched with dataConsumption() and cached for `cacheTtlMs`.
+ * Every request that passes preflight() is added to the cached usage, so a
+ * burst of requests inside the cache window cannot overshoot the limit.
+ * The server stays authoritative; sizes are estimates of what it counts.
+ *
+ * @example
+ * ```typescript
+ * const quota = new QuotaGuard({ chainId: 752025, signer, readClient, blackboxUrl });
+ *
+ * try {
+ *   await blackbox.files.encryptFile({ ...params, file, quota });
+ * } catch (error) {
+ *   if (error instanceof QuotaExceededError) {
+ *     console.log(`Needs ${error.requested} bytes, ${error.limit - error.used} left`);
+ *   }
+ * }
+ * ```
+ */
+export class QuotaGuard {
+  private options: QuotaGuardOptions;
+  private cacheTtlMs: number;
+  private usage?: { value: DataConsumption; fetchedAt: number };
+  private fetching?: Promise<DataConsumption>;
+  private limiters: Partial<Record<QuotaDirection, TokenBucket | null>> = {};
+
+  /**
+   * Create a quota guard
+   *
+   * @param options - Account to check and caching behavior
+   */
+  constructor(options: QuotaGuardOptions) {
+    this.options = options;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_QUOTA_CACHE_MS;
+  }
+
+  /**
+   * Get the account's usage, from the cache when it is fresh
+   *
+   * Includes requests reserved by preflight() since the last fetch.
+   *
+   * @param options - Cancellation, and `refresh` to bypass the cache
+   * @returns Usage statistics
+   */
+  async getUsage(options?: RequestOptions & { refresh?: boolean }): Promise<DataConsumption> {
+    return cloneUsage(await this.load(options));
+  }
+
+  /**
+   * Check that a request fits the remaining quota and reserve it
+   *
+   * @param direction - Which quota the request counts against
+   * @param bytes - Bytes the request sends, when known; without it only the
+   *   request limit is checked
+   * @param options - Cancellation
+   * @returns Usage for the direction, including this request
+   * @throws QuotaExceededError when the request would exceed the data or request limit
+   */
+  async preflight(
+    direction: QuotaDirection,
+    bytes: number | undefined,
+    options?: RequestOptions
+  ): Promise<UsageStats> {
+    const stats = (await this.load(options))[direction];
+
+    if (bytes !== undefined && bytes > stats.remaining) {
+      throw new QuotaExceededError({
+        direction,
+        unit: 'bytes',
+        requested: bytes,
+        used: stats.used,
+        limit: stats.limit,
+      });
+    }
+    // A request limit of 0 means the plan does not cap requests
+    if (stats.requestLimit > 0 && stats.count + 1 > stats.requestLimit) {
+      throw new QuotaExceededError({
+        direction,
+        unit: 'requests',
+        requested: 1,
+        used: stats.count,
+        limit: stats.requestLimit,
+      });
+    }
+
+    // Reserve before waiting for the limiter, so concurrent checks see it
+    const reserved = { ...stats };
+    stats.used += bytes ?? 0;
+    stats.remaining = Math.max(0, stats.remaining - (bytes ?? 0));
+    stats.count += 1;
+    const result = { ...stats };
+
+    if (this.options.throttle) {
+      try {
+        await (await this.getLimiter(direction, options))?.acquire(options);
+      } catch (error) {
+        stats.used -= result.used - reserved.used;
+        stats.remaining += reserved.remaining - result.remaining;
+        stats.count -= 1;
+        throw error;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the rate limiter for a direction
+   *
+   * The bucket is created from the plan's `rateLimit` the first time it is
+   * requested and shared by every later call.
+   *
+   * @param direction - Which quota's rate limit to use
+   * @param options - Cancellation for the usage fetch
+   * @returns The limiter, or null when the plan has no rate limit
+   */
+  async getLimiter(
+    direction: QuotaDirection,
+    options?: RequestOptions
+  ): Promise<TokenBucket | null> {
+    if (this.limiters[direction] === undefined) {
+      const { rateLimit } = (await this.load(options))[direction];
+      this.limiters[direction] ??=
+        rateLimit > 0 ? new TokenBucket({ ratePerSecond: rateLimit }) : null;
+    }
+    return this.limiters[direction] ?? null;
+  }
+
+  /**
+   * Drop cached usage, so the next call fetches it again
+   */
+  invalidate(): void {
+    this.usage = undefined;
+  }
+
+  /**
+   * Return cached usage, fetching it when stale
+   *
+   * Concurrent callers share one in-flight fetch.
+   */
+  private async load(options?: RequestOptions & { refresh?: boolean }): Promise<DataConsumption> {
+    if (
+      !options?.refresh &&
+      this.usage &&
+      Date.now() - this.usage.fetchedAt < this.cacheTtlMs
+    ) {
+      return this.usage.value;
+    }
+
+    this.fetching ??= dataConsumption({
+      chainId: this.options.chainId,
+      signer: this.options.signer,
+      readClient: this.options.readClient,
+      blackboxUrl: this.options.blackboxUrl,
+      fetch: this.options.fetch,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    })
+      .then((value) => {
+        this.usage = { value, fetchedAt: Date.now() };
+        return value;
+      })
+      .finally(() => {
+        this.fetching = undefined;
+      });
+    return this.fetching;
+  }
+}
+
+function cloneUsage(usage: DataConsumption): DataConsumption {
+  return { ...usage, encryption: { ...usage.encryption }, decryption: { ...usage.decryption } };
+}
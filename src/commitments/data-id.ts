@@ -0,0 +1,181 @@
+/**
+ * @module commitments/data-id
+ * @description Off-chain dataId computation and key derivation
+ *
+ * Contracts built on CiferEncryptedBase derive each dataId from the data
+ * owner and a bytes32 key in `_computeDataId()`. These helpers reproduce
+ * the derivations described in the contract docs, so apps can look up
+ * metadata and logs without an RPC round-trip.
+ */
+
+import type { Address, Bytes32, Hex } from '../types/common.js';
+import { CommitmentsError } from '../internal/errors/index.js';
+import { encodeAbiParameters } from '../internal/abi/codec.js';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes } from './metadata.js';
+
+/**
+ * How a contract derives a dataId in `_computeDataId(dataOwner, key)`
+ *
+ * - `owner-key`: `keccak256(abi.encodePacked(dataOwner, key))` (CiferVaultOnChain)
+ * - `contract-owner-key`: `keccak256(abi.encodePacked(address(this), dataOwner, key))`
+ * - `key`: the key itself, for admin-controlled contracts
+ */
+export type DataIdScheme = 'owner-key' | 'contract-owner-key' | 'key';
+
+/**
+ * Options for computeDataId()
+ */
+export interface ComputeDataIdOptions {
+  /** Derivation used by the contract (default: `owner-key`) */
+  scheme?: DataIdScheme;
+  /** Contract address, required for `contract-owner-key` */
+  contractAddress?: Address;
+}
+
+/**
+ * Compute a dataId the way the contract's `_computeDataId()` does
+ *
+ * @param owner - The data owner (the sender of the store transaction)
+ * @param key - The owner's key (bytes32)
+ * @param options - Derivation scheme and contract address
+ * @returns The dataId used by getCIFERMetadata() and the CIFERData* events
+ * @throws CommitmentsError when an address or the key is malformed
+ *
+ * @example
+ * ```typescript
+ * const dataId = commitments.computeDataId(userAddress, key);
+ * const metadata = await commitments.getCIFERMetadata(params, dataId);
+ *
+ * // keccak256(abi.encodePacked(address(this), dataOwner, key))
+ * const scoped = commitments.computeDataId(userAddress, key, {
+ *   scheme: 'contract-owner-key',
+ *   contractAddress,
+ * });
+ * ```
+ */
+export function computeDataId(
+  owner: Address,
+  key: Bytes32,
+  options: ComputeDataIdOptions = {}
+): Bytes32 {
+  const { scheme = 'owner-key', contractAddress } = options;
+  const keyHex = fixedHex(key, 32, 'key');
+
+  switch (scheme) {
+    case 'key':
+      return `0x${keyHex}` as Bytes32;
+    case 'owner-key':
+      return keccakHex(`0x${fixedHex(owner, 20, 'owner')}${keyHex}` as Hex);
+    case 'contract-owner-key': {
+      if (!contractAddress) {
+        throw new CommitmentsError('contractAddress is required for the contract-owner-key scheme');
+      }
+      const contractHex = fixedHex(contractAddress, 20, 'contractAddress');
+      return keccakHex(`0x${contractHex}${fixedHex(owner, 20, 'owner')}${keyHex}` as Hex);
+    }
+    default:
+      throw new CommitmentsError(`Unknown dataId scheme: ${String(scheme)}`);
+  }
+}
+
+/**
+ * Derive a bytes32 key from a namespace and a string
+ *
+ * The key is `keccak256(abi.encode(namespace, value))`, so keys in
+ * different namespaces never collide and contracts can derive the same
+ * key on-chain.
+ *
+ * @param namespace - Application namespace (e.g. `invoices`)
+ * @param value - The string key
+ * @returns The bytes32 key
+ *
+ * @example
+ * ```typescript
+ * const key = commitments.deriveKey('profile', 'avatar');
+ * const dataId = commitments.computeDataId(userAddress, key);
+ * ```
+ */
+export function deriveKey(namespace: string, value: string): Bytes32 {
+  return keccakHex(encodeAbiParameters([{ type: 'string' }, { type: 'string' }], [namespace, value]));
+}
+
+/**
+ * Solidity types accepted as structured key fields
+ */
+export type KeyFieldType =
+  | 'address'
+  | 'bool'
+  | 'string'
+  | 'bytes'
+  | `bytes${number}`
+  | `uint${number}`
+  | `int${number}`;
+
+/**
+ * TypeScript value type for a key field type
+ */
+export type KeyFieldValue<T extends KeyFieldType> = T extends 'address'
+  ? Address
+  : T extends 'bool'
+    ? boolean
+    : T extends 'string'
+      ? string
+      : T extends `uint${number}` | `int${number}`
+        ? bigint | number
+        : Hex;
+
+/**
+ * A function that derives bytes32 keys for one namespace
+ */
+export type KeyDeriver<F extends Record<string, KeyFieldType>> = (value: {
+  [K in keyof F]: KeyFieldValue<F[K]>;
+}) => Bytes32;
+
+/**
+ * Create a typed key deriver for structured keys
+ *
+ * The key is `keccak256(abi.encode(namespace, field1, field2, ...))`,
+ * with fields encoded in the order they are declared in `fields`.
+ *
+ * @param namespace - Application namespace
+ * @param fields - Field names and their Solidity types, in encoding order
+ * @returns A function from field values to the bytes32 key
+ * @throws AbiCodingError (from the returned function) when a value does not fit its type
+ *
+ * @example
+ * ```typescript
+ * const invoiceKey = commitments.createKeyDeriver('invoice', {
+ *   customer: 'address',
+ *   number: 'uint64',
+ * });
+ *
+ * const key = invoiceKey({ customer: '0x...', number: 1042n });
+ * ```
+ */
+export function createKeyDeriver<F extends Record<string, KeyFieldType>>(
+  namespace: string,
+  fields: F
+): KeyDeriver<F> {
+  const names = Object.keys(fields);
+  const params = [{ type: 'string' }, ...names.map((name) => ({ name, type: fields[name] }))];
+
+  return (value) =>
+    keccakHex(encodeAbiParameters(params, [namespace, ...names.map((name) => value[name])]));
+}
+
+/**
+ * Hex digits of a fixed-size value, lower-cased and without the prefix
+ */
+function fixedHex(value: string, size: number, label: string): string {
+  if (typeof value !== 'string' || !new RegExp(`^0x[0-9a-fA-F]{${size * 2}}$`).test(value)) {
+    throw new CommitmentsError(
+      `Invalid ${label}: expected ${size} bytes of hex, got ${String(value)}`
+    );
+  }
+  return value.slice(2).toLowerCase();
+}
+
+function keccakHex(data: Hex): Bytes32 {
+  return bytesToHex(keccak_256(hexToBytes(data))) as Bytes32;
+}
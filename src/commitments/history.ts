@@ -0,0 +1,189 @@
+/**
+ * @module commitments/history
+ * @description Version history of an encrypted commitment from event logs
+ */
+
+import type {
+  Address,
+  Bytes32,
+  ChainId,
+  CommitmentData,
+  Hex,
+  Log,
+  RequestOptions,
+} from '../types/common.js';
+import type { ReadClient } from '../types/adapters.js';
+import {
+  getCIFERDataStoredTopic,
+  getCIFERDataUpdatedTopic,
+  getCIFERDataDeletedTopic,
+  decodeCIFERDataEvent,
+} from '../internal/abi/cifer-encrypted.js';
+import { CommitmentsError, RequestAbortedError } from '../internal/errors/index.js';
+import { isCIFERDataDeletedEvent } from './logs.js';
+
+/**
+ * Parameters for getCommitmentHistory()
+ */
+export interface CommitmentHistoryParams extends RequestOptions {
+  /** Chain ID */
+  chainId: ChainId;
+  /** Contract address implementing ICiferEncrypted */
+  contractAddress: Address;
+  /** The data ID to trace */
+  dataId: Bytes32;
+  /** Read client for log queries */
+  readClient: ReadClient;
+  /** First block to search (default: 0) */
+  fromBlock?: number;
+  /** Last block to search (default: `'latest'`) */
+  toBlock?: number | 'latest';
+}
+
+/**
+ * Where an event sits on-chain
+ */
+interface HistoryEventPosition {
+  /** Block number of the event */
+  blockNumber: number;
+  /** Transaction that emitted the event */
+  transactionHash: Hex;
+  /** Log index within the block */
+  logIndex: number;
+}
+
+/**
+ * A write to the commitment (CIFERDataStored or CIFERDataUpdated)
+ */
+export interface CommitmentWriteEntry extends HistoryEventPosition, CommitmentData {
+  /** `stored` for the first write, `updated` for overwrites */
+  type: 'stored' | 'updated';
+  /** Secret ID the payload was encrypted with */
+  secretId: bigint;
+}
+
+/**
+ * A deletion of the commitment (CIFERDataDeleted)
+ */
+export interface CommitmentDeleteEntry extends HistoryEventPosition {
+  type: 'deleted';
+}
+
+/**
+ * One event in a commitment's history
+ */
+export type CommitmentHistoryEntry = CommitmentWriteEntry | CommitmentDeleteEntry;
+
+/**
+ * A commitment's history, oldest event first
+ */
+export interface CommitmentHistory {
+  /** The data ID */
+  dataId: Bytes32;
+  /**
+   * Current state: `active` when the last event is a write, `deleted`
+   * when it is a deletion, `not-found` when there are no events
+   */
+  state: 'active' | 'deleted' | 'not-found';
+  /** Events ordered by block number and log index */
+  entries: CommitmentHistoryEntry[];
+}
+
+/**
+ * Get every stored, updated and deleted event for a data ID
+ *
+ * Each write carries its payload, so earlier versions can be decrypted
+ * with the secret ID recorded at the time. Writes after a deletion start
+ * a new `stored` entry.
+ *
+ * @param params - History parameters
+ * @returns The ordered timeline and the current state
+ *
+ * @example
+ * ```typescript
+ * const history = await commitments.getCommitmentHistory({
+ *   chainId: 752025,
+ *   contractAddress: '0x...',
+ *   dataId,
+ *   readClient,
+ * });
+ *
+ * if (history.state === 'deleted') {
+ *   console.log('Deleted in tx', history.entries.at(-1)?.transactionHash);
+ * }
+ *
+ * for (const entry of history.entries) {
+ *   if (entry.type !== 'deleted') {
+ *     console.log(entry.blockNumber, entry.secretId, entry.cifer.length);
+ *   }
+ * }
+ * ```
+ */
+export async function getCommitmentHistory(
+  params: CommitmentHistoryParams
+): Promise<CommitmentHistory> {
+  const {
+    chainId,
+    contractAddress,
+    dataId,
+    readClient,
+    fromBlock = 0,
+    toBlock = 'latest',
+  } = params;
+
+  const storedTopic = getCIFERDataStoredTopic();
+  const updatedTopic = getCIFERDataUpdatedTopic();
+  const deletedTopic = getCIFERDataDeletedTopic();
+
+  try {
+    const logs: Log[] = [];
+    for (const topic of [storedTopic, updatedTopic, deletedTopic]) {
+      logs.push(
+        ...(await readClient.getLogs(chainId, {
+          address: contractAddress,
+          topics: [topic, dataId],
+          fromBlock,
+          toBlock,
+        }, params))
+      );
+    }
+
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    const entries = logs.map((log): CommitmentHistoryEntry => {
+      const position = {
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      };
+      if (isCIFERDataDeletedEvent(log)) {
+        return { type: 'deleted', ...position };
+      }
+      const decoded = decodeCIFERDataEvent(log.topics, log.data);
+      return {
+        type: log.topics[0].toLowerCase() === storedTopic.toLowerCase() ? 'stored' : 'updated',
+        ...position,
+        secretId: decoded.secretId,
+        cifer: decoded.cifer,
+        encryptedMessage: decoded.encryptedMessage,
+        ciferHash: decoded.ciferHash,
+        encryptedMessageHash: decoded.encryptedMessageHash,
+      };
+    });
+
+    const last = entries[entries.length - 1];
+    return {
+      dataId,
+      state: !last ? 'not-found' : last.type === 'deleted' ? 'deleted' : 'active',
+      entries,
+    };
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
+    throw new CommitmentsError(
+      `Failed to fetch commitment history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
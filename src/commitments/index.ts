@@ -4,7 +4,11 @@
  *
  * This module provides functions for:
  * - Reading commitment metadata from contracts implementing ICiferEncrypted
+ * - Computing dataIds and deriving keys off-chain
  * - Fetching encrypted data from event logs
+ * - Extracting written commitments from a transaction receipt
+ * - Tracing a commitment's stored, updated and deleted events
+ * - Indexing every commitment a contract holds, resumably
  * - Verifying data integrity
  * - Building store transactions (requires app-specific ABI)
  *
@@ -50,21 +54,56 @@ export {
   type CommitmentReadParams,
 } from './metadata.js';
 
+// DataId computation and key derivation
+export {
+  computeDataId,
+  deriveKey,
+  createKeyDeriver,
+  type DataIdScheme,
+  type ComputeDataIdOptions,
+  type KeyFieldType,
+  type KeyFieldValue,
+  type KeyDeriver,
+} from './data-id.js';
+
 // Log retrieval
 export {
   fetchCommitmentFromLogs,
   fetchCommitmentWithRetry,
   parseCommitmentLog,
+  extractCommitmentsFromReceipt,
   isCIFERDataEvent,
+  isCIFERDataDeletedEvent,
   type FetchCommitmentParams,
+  type ReceiptCommitment,
 } from './logs.js';
 
+// Version history
+export {
+  getCommitmentHistory,
+  type CommitmentHistoryParams,
+  type CommitmentHistory,
+  type CommitmentHistoryEntry,
+  type CommitmentWriteEntry,
+  type CommitmentDeleteEntry,
+} from './history.js';
+
+// Contract-wide indexing
+export {
+  CommitmentIndexer,
+  COMMITMENT_INDEXER_STATE_VERSION,
+  type CommitmentIndexerOptions,
+  type CommitmentIndexerEvents,
+  type IndexedCommitment,
+} from './indexer.js';
+
 // Integrity verification
 export {
   verifyCommitmentIntegrity,
   assertCommitmentIntegrity,
   validateForStorage,
   type IntegrityResult,
+  type IntegrityOptions,
 } from './integrity.js';
 
 // Transaction builders
@@ -73,4 +112,5 @@ export {
   COMMON_STORE_FUNCTIONS,
   type BuildStoreCommitmentParams,
   type AbiFunction,
+  type CommitmentArgName,
 } from './tx-builders.js';
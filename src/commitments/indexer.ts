@@ -0,0 +1,554 @@
+/**
+ * @module commitments/indexer
+ * @description Resumable index of every commitment a contract holds
+ *
+ * A CommitmentIndexer scans an ICiferEncrypted contract's
+ * CIFERDataStored, CIFERDataUpdated and CIFERDataDeleted logs in block
+ * ranges and keeps the latest version of each dataId. The index and the
+ * next block to scan are saved through a StorageAdapter after every
+ * range, so a new indexer created after a restart continues where the
+ * old one stopped.
+ */
+
+import type { Address, Bytes32, ChainId, Hex, Log, RequestOptions } from '../types/common.js';
+import type { ReadClient, StorageAdapter } from '../types/adapters.js';
+import { MemoryStorageAdapter } from '../internal/adapters/storage.js';
+import {
+  getCIFERDataStoredTopic,
+  getCIFERDataUpdatedTopic,
+  getCIFERDataDeletedTopic,
+  decodeCIFERDataEvent,
+} from '../internal/abi/cifer-encrypted.js';
+import { CommitmentsError, RequestAbortedError } from '../internal/errors/index.js';
+import { isCIFERDataDeletedEvent } from './logs.js';
+
+/**
+ * Version of the persisted indexer state
+ */
+export const COMMITMENT_INDEXER_STATE_VERSION = 1;
+
+/**
+ * Options for creating a CommitmentIndexer
+ */
+export interface CommitmentIndexerOptions {
+  /** Chain ID */
+  chainId: ChainId;
+  /** Contract address implementing ICiferEncrypted */
+  contractAddress: Address;
+  /** Read client for block numbers and log queries */
+  readClient: ReadClient;
+  /** Where to save the index and cursor (default: in memory) */
+  storage?: StorageAdapter;
+  /**
+   * Storage key (default: `cifer:commitment-indexer:<chainId>:<contractAddress>`)
+   */
+  storageKey?: string;
+  /** First block to scan when there is no saved cursor, e.g. the deployment block (default: 0) */
+  fromBlock?: number;
+  /** Blocks per log query (default: 5000) */
+  batchSize?: number;
+  /**
+   * Blocks to stay behind the chain head, so reorged blocks are not
+   * indexed (default: 0)
+   */
+  confirmations?: number;
+  /**
+   * Only report commitments whose latest write used this secret. Every
+   * write is still scanned, so a commitment re-encrypted under another
+   * secret drops out of get(), getAll() and getBySecretId().
+   */
+  secretId?: bigint;
+  /** Polling interval for start() in milliseconds (default: 12000) */
+  intervalMs?: number;
+}
+
+/**
+ * The latest state of one commitment
+ */
+export interface IndexedCommitment {
+  /** The data ID */
+  dataId: Bytes32;
+  /** Secret ID of the latest write */
+  secretId: bigint;
+  /** Block of the latest write */
+  storedAtBlock: number;
+  /** Transaction of the latest write */
+  transactionHash: Hex;
+  /** Log index of the latest write */
+  logIndex: number;
+  /** keccak256 of the latest cifer */
+  ciferHash: Bytes32;
+  /** keccak256 of the latest encrypted message */
+  encryptedMessageHash: Bytes32;
+  /** Number of writes seen (stored and updated) */
+  versions: number;
+  /** Whether the last event was a deletion */
+  deleted: boolean;
+  /** Block of the deletion, when deleted */
+  deletedAtBlock?: number;
+}
+
+/**
+ * Events emitted by a CommitmentIndexer
+ */
+export interface CommitmentIndexerEvents {
+  /** A commitment was stored, updated or deleted */
+  commitment: (commitment: IndexedCommitment) => void;
+  /** A block range was indexed; `cursor` is the next block to scan */
+  synced: (cursor: number, head: number) => void;
+  /** A background sync started by start() failed, or the saved state was unreadable */
+  error: (error: Error) => void;
+}
+
+/**
+ * Persisted indexer state (bigints as decimal strings)
+ */
+interface CommitmentIndexerState {
+  version: number;
+  cursor: number;
+  commitments: Array<Omit<IndexedCommitment, 'secretId'> & { secretId: string }>;
+}
+
+type Listeners = { [E in keyof CommitmentIndexerEvents]: Set<CommitmentIndexerEvents[E]> };
+
+/**
+ * Index a contract's commitments and resume after a restart
+ *
+ * Call sync() to catch up to the chain head once, or start() to keep
+ * following it. Payloads are not kept; fetch them with
+ * fetchCommitmentFromLogs() using `storedAtBlock`.
+ *
+ * @example
+ * ```typescript
+ * const indexer = new CommitmentIndexer({
+ *   chainId: 752025,
+ *   contractAddress: '0x...',
+ *   readClient,
+ *   storage: new FileStorageAdapter('./commitments.json'),
+ *   fromBlock: 1_200_000,
+ * });
+ *
+ * indexer.on('commitment', (c) => console.log(c.dataId, c.deleted ? 'deleted' : c.secretId));
+ *
+ * await indexer.sync();
+ * const active = await indexer.getAll();
+ * const forSecret = await indexer.getBySecretId(123n);
+ * ```
+ */
+export class CommitmentIndexer {
+  private chainId: ChainId;
+  private contractAddress: Address;
+  private readClient: ReadClient;
+  private storage: StorageAdapter;
+  private storageKey: string;
+  private fromBlock: number;
+  private batchSize: number;
+  private confirmations: number;
+  private secretId?: bigint;
+  private intervalMs: number;
+
+  private cursor?: number;
+  private commitments = new Map<string, IndexedCommitment>();
+  private loaded?: Promise<void>;
+  private syncing?: Promise<number>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+  private listeners: Listeners = {
+    commitment: new Set(),
+    synced: new Set(),
+    error: new Set(),
+  };
+
+  /**
+   * Create a commitment indexer
+   *
+   * @param options - Indexer options
+   */
+  constructor(options: CommitmentIndexerOptions) {
+    this.chainId = options.chainId;
+    this.contractAddress = options.contractAddress;
+    this.readClient = options.readClient;
+    this.storage = options.storage ?? new MemoryStorageAdapter();
+    this.storageKey =
+      options.storageKey ??
+      `cifer:commitment-indexer:${options.chainId}:${options.contractAddress.toLowerCase()}`;
+    this.fromBlock = options.fromBlock ?? 0;
+    this.batchSize = Math.max(1, options.batchSize ?? 5000);
+    this.confirmations = options.confirmations ?? 0;
+    this.secretId = options.secretId;
+    this.intervalMs = options.intervalMs ?? 12000;
+  }
+
+  /**
+   * Whether start() is following the chain
+   */
+  get running(): boolean {
+    return this.controller !== undefined;
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @param event - The event name
+   * @param listener - The listener
+   * @returns A function that removes the listener
+   */
+  on<E extends keyof CommitmentIndexerEvents>(
+    event: E,
+    listener: CommitmentIndexerEvents[E]
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove an event listener
+   *
+   * @param event - The event name
+   * @param listener - The listener passed to on()
+   */
+  off<E extends keyof CommitmentIndexerEvents>(
+    event: E,
+    listener: CommitmentIndexerEvents[E]
+  ): void {
+    this.listeners[event].delete(listener);
+  }
+
+  /**
+   * Scan from the saved cursor to the chain head
+   *
+   * The index and cursor are saved after each range, so an aborted or
+   * failed sync keeps the ranges it completed. Concurrent calls share one
+   * scan.
+   *
+   * @param options - Cancellation and the last block to scan (default:
+   *   head minus `confirmations`)
+   * @returns The next block to scan
+   * @throws CommitmentsError when a block number or log query fails
+   */
+  sync(options?: RequestOptions & { toBlock?: number }): Promise<number> {
+    this.syncing ??= this.scan(options).finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Load the saved index and keep syncing every `intervalMs`
+   *
+   * The first sync runs immediately. Failures are emitted as 'error' and
+   * retried on the next interval.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (this.controller) {
+      return;
+    }
+    this.controller = new AbortController();
+    this.schedule(0, this.controller);
+  }
+
+  /**
+   * Stop following the chain and cancel an in-flight sync
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.controller?.abort();
+    this.controller = undefined;
+    await this.syncing?.catch(() => {});
+  }
+
+  /**
+   * The next block to scan
+   */
+  async getCursor(): Promise<number> {
+    await this.load();
+    return this.cursor ?? this.fromBlock;
+  }
+
+  /**
+   * Get one commitment, including deleted ones
+   *
+   * @param dataId - The data ID
+   */
+  async get(dataId: Bytes32): Promise<IndexedCommitment | undefined> {
+    await this.load();
+    const commitment = this.commitments.get(dataId.toLowerCase());
+    return commitment && this.matches(commitment) ? { ...commitment } : undefined;
+  }
+
+  /**
+   * List indexed commitments in order of their latest write
+   *
+   * @param options - Whether to include deleted commitments (default: false)
+   */
+  async getAll(options?: { includeDeleted?: boolean }): Promise<IndexedCommitment[]> {
+    await this.load();
+    return [...this.commitments.values()]
+      .filter((c) => this.matches(c) && (options?.includeDeleted || !c.deleted))
+      .sort((a, b) => a.storedAtBlock - b.storedAtBlock || a.logIndex - b.logIndex)
+      .map((c) => ({ ...c }));
+  }
+
+  /**
+   * List commitments whose latest write used a secret
+   *
+   * @param secretId - The secret ID
+   * @param options - Whether to include deleted commitments (default: false)
+   */
+  async getBySecretId(
+    secretId: bigint,
+    options?: { includeDeleted?: boolean }
+  ): Promise<IndexedCommitment[]> {
+    return (await this.getAll(options)).filter((c) => c.secretId === secretId);
+  }
+
+  /**
+   * Forget the index and cursor, so the next sync starts at `fromBlock`
+   */
+  async reset(): Promise<void> {
+    await this.load();
+    this.commitments.clear();
+    this.cursor = undefined;
+    await this.storage.removeItem(this.storageKey);
+  }
+
+  private async scan(options?: RequestOptions & { toBlock?: number }): Promise<number> {
+    await this.load();
+    const request = { signal: options?.signal, timeoutMs: options?.timeoutMs };
+
+    let head: number;
+    try {
+      head =
+        options?.toBlock ??
+        (await this.readClient.getBlockNumber(this.chainId, request)) - this.confirmations;
+    } catch (error) {
+      throw this.wrap('Failed to get the block number', error);
+    }
+
+    let cursor = this.cursor ?? this.fromBlock;
+    while (cursor <= head) {
+      const toBlock = Math.min(head, cursor + this.batchSize - 1);
+      const logs = await this.fetchLogs(cursor, toBlock, request);
+      const changed = this.apply(logs);
+
+      cursor = toBlock + 1;
+      this.cursor = cursor;
+      await this.save();
+
+      for (const { commitment, matched } of changed) {
+        // Report a commitment moving to another secret, but not its later changes
+        if (matched || this.matches(commitment)) {
+          this.emit('commitment', { ...commitment });
+        }
+      }
+      this.emit('synced', cursor, head);
+    }
+    return cursor;
+  }
+
+  /**
+   * Fetch the stored, updated and deleted logs of one range, in chain order
+   */
+  private async fetchLogs(
+    fromBlock: number,
+    toBlock: number,
+    options: RequestOptions
+  ): Promise<Log[]> {
+    const filters: Array<(Hex | null)[]> = [
+      [getCIFERDataStoredTopic()],
+      [getCIFERDataUpdatedTopic()],
+      [getCIFERDataDeletedTopic()],
+    ];
+
+    const logs: Log[] = [];
+    try {
+      for (const topics of filters) {
+        logs.push(
+          ...(await this.readClient.getLogs(this.chainId, {
+            address: this.contractAddress,
+            topics,
+            fromBlock,
+            toBlock,
+          }, options))
+        );
+      }
+    } catch (error) {
+      throw this.wrap(`Failed to fetch logs for blocks ${fromBlock}-${toBlock}`, error);
+    }
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Apply logs to the index
+   *
+   * @returns The commitments that changed, and whether each matched the
+   *   secretId filter before the range
+   */
+  private apply(logs: Log[]): Array<{ commitment: IndexedCommitment; matched: boolean }> {
+    const changed = new Set<IndexedCommitment>();
+    const matchedBefore = new Map<string, boolean>();
+
+    for (const log of logs) {
+      const dataId = log.topics[1]?.toLowerCase() as Bytes32 | undefined;
+      if (!dataId) {
+        continue;
+      }
+      const existing = this.commitments.get(dataId);
+      if (!matchedBefore.has(dataId)) {
+        matchedBefore.set(dataId, existing !== undefined && this.matches(existing));
+      }
+
+      if (isCIFERDataDeletedEvent(log)) {
+        if (existing) {
+          existing.deleted = true;
+          existing.deletedAtBlock = log.blockNumber;
+          changed.add(existing);
+        }
+        continue;
+      }
+
+      const decoded = decodeCIFERDataEvent(log.topics, log.data);
+      const commitment: IndexedCommitment = {
+        dataId,
+        secretId: decoded.secretId,
+        storedAtBlock: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        ciferHash: decoded.ciferHash,
+        encryptedMessageHash: decoded.encryptedMessageHash,
+        versions: (existing?.versions ?? 0) + 1,
+        deleted: false,
+      };
+      if (existing) {
+        changed.delete(existing);
+      }
+      this.commitments.set(dataId, commitment);
+      changed.add(commitment);
+    }
+    return [...changed].map((commitment) => ({
+      commitment,
+      matched: matchedBefore.get(commitment.dataId) ?? false,
+    }));
+  }
+
+  /**
+   * Whether a commitment passes the secretId filter
+   */
+  private matches(commitment: IndexedCommitment): boolean {
+    return this.secretId === undefined || commitment.secretId === this.secretId;
+  }
+
+  private wrap(message: string, error: unknown): Error {
+    if (error instanceof RequestAbortedError) {
+      return error;
+    }
+    return new CommitmentsError(
+      `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  private emit<E extends keyof CommitmentIndexerEvents>(
+    event: E,
+    ...args: Parameters<CommitmentIndexerEvents[E]>
+  ): void {
+    for (const listener of [...this.listeners[event]]) {
+      try {
+        (listener as (...a: Parameters<CommitmentIndexerEvents[E]>) => void)(...args);
+      } catch {
+        // A throwing listener must not stop indexing or other listeners
+      }
+    }
+  }
+
+  /**
+   * Sync after `delayMs`, then keep syncing while `controller` is the active
+   * one
+   *
+   * Tying the loop to its controller means a stop() followed by a quick
+   * start() ends the old loop instead of running two side by side. A sync
+   * still running from the old loop is waited out rather than joined.
+   */
+  private schedule(delayMs: number, controller: AbortController): void {
+    this.timer = setTimeout(() => {
+      void Promise.resolve(this.syncing?.catch(() => {}))
+        .then(() =>
+          this.controller === controller ? this.sync({ signal: controller.signal }) : undefined
+        )
+        .catch((error: unknown) => {
+          if (!controller.signal.aborted) {
+            this.emit('error', error instanceof Error ? error : new Error(String(error)));
+          }
+        })
+        .finally(() => {
+          if (this.controller === controller) {
+            this.schedule(this.intervalMs, controller);
+          }
+        });
+    }, delayMs);
+  }
+
+  /**
+   * Load saved state once
+   *
+   * Unreadable state is reported as 'error' and indexing starts over from
+   * `fromBlock`. A failed read is retried on the next call.
+   */
+  private load(): Promise<void> {
+    this.loaded ??= this.storage.getItem(this.storageKey).then(
+      (text) => {
+        if (text !== null) {
+          this.restore(text);
+        }
+      },
+      (error: unknown) => {
+        this.loaded = undefined;
+        throw this.wrap('Failed to read saved indexer state', error);
+      }
+    );
+    return this.loaded;
+  }
+
+  /**
+   * Restore the index from saved state, or start empty if it is corrupt
+   */
+  private restore(text: string): void {
+    let cursor: number;
+    const commitments = new Map<string, IndexedCommitment>();
+    try {
+      const state = JSON.parse(text) as CommitmentIndexerState;
+      if (state.version !== COMMITMENT_INDEXER_STATE_VERSION || !Array.isArray(state.commitments)) {
+        return;
+      }
+      if (!Number.isInteger(state.cursor)) {
+        throw new Error('missing cursor');
+      }
+      cursor = state.cursor;
+      for (const saved of state.commitments) {
+        commitments.set(saved.dataId, { ...saved, secretId: BigInt(saved.secretId) });
+      }
+    } catch (error) {
+      this.emit('error', this.wrap('Discarded unreadable saved indexer state', error));
+      return;
+    }
+    this.cursor = cursor;
+    this.commitments = commitments;
+  }
+
+  /**
+   * Save the index and cursor
+   */
+  private save(): Promise<void> {
+    const state: CommitmentIndexerState = {
+      version: COMMITMENT_INDEXER_STATE_VERSION,
+      cursor: this.cursor ?? this.fromBlock,
+      commitments: [...this.commitments.values()].map((c) => ({
+        ...c,
+        secretId: c.secretId.toString(),
+      })),
+    };
+    return this.storage.setItem(this.storageKey, JSON.stringify(state));
+  }
+}
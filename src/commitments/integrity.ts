@@ -14,7 +14,7 @@ import {
   InvalidCiferSizeError,
   PayloadTooLargeError,
 } from '../internal/errors/index.js';
-import { hexToBytes } from './metadata.js';
+import { hexToBytes, keccak256 } from './metadata.js';
 
 /**
  * Result of integrity verification
@@ -32,9 +32,30 @@ export interface IntegrityResult {
     ciferHash?: { valid: boolean; expected?: string; actual?: string };
     /** Encrypted message hash matches (if metadata provided) */
     encryptedMessageHash?: { valid: boolean; expected?: string; actual?: string };
+    /** keccak256 of the cifer bytes matches the event's ciferHash (strict mode) */
+    ciferBytesVsEvent?: { valid: boolean; expected: string; actual: string };
+    /** keccak256 of the cifer bytes matches the on-chain ciferHash (strict mode with metadata) */
+    ciferBytesVsMetadata?: { valid: boolean; expected: string; actual: string };
+    /** keccak256 of the encrypted message matches the event's hash (strict mode) */
+    encryptedMessageBytesVsEvent?: { valid: boolean; expected: string; actual: string };
+    /** keccak256 of the encrypted message matches the on-chain hash (strict mode with metadata) */
+    encryptedMessageBytesVsMetadata?: { valid: boolean; expected: string; actual: string };
   };
 }
 
+/**
+ * Options for integrity verification
+ */
+export interface IntegrityOptions {
+  /**
+   * Hash the cifer and encrypted message bytes and compare them with the
+   * event hashes and, if provided, the on-chain metadata (default: false).
+   * Without this, only the hash fields are compared, so an RPC node that
+   * returns tampered bytes with the original hashes goes unnoticed.
+   */
+  strict?: boolean;
+}
+
 /**
  * Verify the integrity of commitment data
  *
@@ -42,9 +63,12 @@ export interface IntegrityResult {
  * 1. Cifer size is exactly 1104 bytes
  * 2. Encrypted message size is within limits (≤ 16KB, > 0)
  * 3. If metadata is provided, hashes match
+ * 4. In strict mode, the keccak256 of the bytes matches the event hashes
+ *    and the metadata hashes
  *
  * @param data - The commitment data to verify
  * @param metadata - Optional metadata for hash verification
+ * @param options - Verification options
  * @returns Integrity check result
  *
  * @example
@@ -62,7 +86,8 @@ export interface IntegrityResult {
  */
 export function verifyCommitmentIntegrity(
   data: CommitmentData,
-  metadata?: CIFERMetadata
+  metadata?: CIFERMetadata,
+  options: IntegrityOptions = {}
 ): IntegrityResult {
   const ciferBytes = hexToBytes(data.cifer);
   const encryptedMessageBytes = hexToBytes(data.encryptedMessage);
@@ -108,6 +133,40 @@ export function verifyCommitmentIntegrity(
     }
   }
 
+  // Recompute the hashes from the bytes themselves
+  if (options.strict) {
+    const ciferBytesHash = keccak256(ciferBytes);
+    const encryptedMessageBytesHash = keccak256(encryptedMessageBytes);
+    const compare = (expected: string, actual: string) => ({
+      valid: expected.toLowerCase() === actual.toLowerCase(),
+      expected,
+      actual,
+    });
+
+    const { checks } = result;
+    checks.ciferBytesVsEvent = compare(data.ciferHash, ciferBytesHash);
+    checks.encryptedMessageBytesVsEvent = compare(
+      data.encryptedMessageHash,
+      encryptedMessageBytesHash
+    );
+    if (metadata) {
+      checks.ciferBytesVsMetadata = compare(metadata.ciferHash, ciferBytesHash);
+      checks.encryptedMessageBytesVsMetadata = compare(
+        metadata.encryptedMessageHash,
+        encryptedMessageBytesHash
+      );
+    }
+
+    if (
+      !checks.ciferBytesVsEvent.valid ||
+      !checks.encryptedMessageBytesVsEvent.valid ||
+      checks.ciferBytesVsMetadata?.valid === false ||
+      checks.encryptedMessageBytesVsMetadata?.valid === false
+    ) {
+      result.valid = false;
+    }
+  }
+
   return result;
 }
 
@@ -116,15 +175,23 @@ export function verifyCommitmentIntegrity(
  *
  * @param data - The commitment data to verify
  * @param metadata - Optional metadata for hash verification
+ * @param options - Verification options
  * @throws InvalidCiferSizeError if cifer size is wrong
  * @throws PayloadTooLargeError if payload is too large
  * @throws IntegrityError if hash verification fails
+ *
+ * @example
+ * ```typescript
+ * // Also hash the bytes returned by the RPC node
+ * assertCommitmentIntegrity(commitment, metadata, { strict: true });
+ * ```
  */
 export function assertCommitmentIntegrity(
   data: CommitmentData,
-  metadata?: CIFERMetadata
+  metadata?: CIFERMetadata,
+  options?: IntegrityOptions
 ): void {
-  const result = verifyCommitmentIntegrity(data, metadata);
+  const result = verifyCommitmentIntegrity(data, metadata, options);
 
   if (!result.checks.ciferSize.valid) {
     throw new InvalidCiferSizeError(
@@ -158,6 +225,19 @@ export function assertCommitmentIntegrity(
       result.checks.encryptedMessageHash.actual!
     );
   }
+
+  const byteChecks = [
+    ['cifer', result.checks.ciferBytesVsEvent],
+    ['cifer', result.checks.ciferBytesVsMetadata],
+    ['encryptedMessage', result.checks.encryptedMessageBytesVsEvent],
+    ['encryptedMessage', result.checks.encryptedMessageBytesVsMetadata],
+  ] as const;
+
+  for (const [field, check] of byteChecks) {
+    if (check && !check.valid) {
+      throw new IntegrityError(field, check.expected, check.actual);
+    }
+  }
 }
 
 /**
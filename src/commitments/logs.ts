@@ -3,19 +3,35 @@
  * @description Log retrieval for encrypted commitment data
  */
 
-import type { Address, Bytes32, ChainId, CommitmentData, Log } from '../types/common.js';
+import type {
+  Address,
+  Bytes32,
+  ChainId,
+  CommitmentData,
+  Log,
+  RequestOptions,
+  TransactionReceipt,
+} from '../types/common.js';
 import type { ReadClient } from '../types/adapters.js';
 import {
   getCIFERDataStoredTopic,
   getCIFERDataUpdatedTopic,
+  getCIFERDataDeletedTopic,
   decodeCIFERDataEvent,
+  type DecodedCIFERDataEvent,
 } from '../internal/abi/cifer-encrypted.js';
-import { CommitmentsError, CommitmentNotFoundError } from '../internal/errors/index.js';
+import {
+  CommitmentsError,
+  CommitmentNotFoundError,
+  RequestAbortedError,
+} from '../internal/errors/index.js';
+import { assertCommitmentIntegrity } from './integrity.js';
+import type { CommitmentWriteEntry } from './history.js';
 
 /**
  * Parameters for fetching commitment data from logs
  */
-export interface FetchCommitmentParams {
+export interface FetchCommitmentParams extends RequestOptions {
   /** Chain ID */
   chainId: ChainId;
   /** Contract address implementing ICiferEncrypted */
@@ -76,7 +92,7 @@ export async function fetchCommitmentFromLogs(
       topics: [storedTopic, dataId],
       fromBlock: storedAtBlock,
       toBlock: storedAtBlock,
-    });
+    }, params);
 
     // If not found, try CIFERDataUpdated
     if (logs.length === 0) {
@@ -85,7 +101,7 @@ export async function fetchCommitmentFromLogs(
         topics: [updatedTopic, dataId],
         fromBlock: storedAtBlock,
         toBlock: storedAtBlock,
-      });
+      }, params);
     }
 
     if (logs.length === 0) {
@@ -107,7 +123,7 @@ export async function fetchCommitmentFromLogs(
       encryptedMessageHash: decoded.encryptedMessageHash,
     };
   } catch (error) {
-    if (error instanceof CommitmentNotFoundError) {
+    if (error instanceof CommitmentNotFoundError || error instanceof RequestAbortedError) {
       throw error;
     }
     throw new CommitmentsError(
@@ -151,7 +167,7 @@ export async function fetchCommitmentWithRetry(
       topics: [storedTopic, dataId],
       fromBlock,
       toBlock,
-    });
+    }, params);
 
     // Also search for updated events
     const updatedLogs = await readClient.getLogs(chainId, {
@@ -159,7 +175,7 @@ export async function fetchCommitmentWithRetry(
       topics: [updatedTopic, dataId],
       fromBlock,
       toBlock,
-    });
+    }, params);
 
     logs = [...logs, ...updatedLogs];
 
@@ -194,7 +210,7 @@ export async function fetchCommitmentWithRetry(
       encryptedMessageHash: decoded.encryptedMessageHash,
     };
   } catch (error) {
-    if (error instanceof CommitmentNotFoundError) {
+    if (error instanceof CommitmentNotFoundError || error instanceof RequestAbortedError) {
       throw error;
     }
     throw new CommitmentsError(
@@ -223,6 +239,9 @@ export function parseCommitmentLog(log: Log): CommitmentData {
       encryptedMessageHash: decoded.encryptedMessageHash,
     };
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     throw new CommitmentsError(
       `Failed to parse commitment log: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error instanceof Error ? error : undefined
@@ -230,6 +249,84 @@ export function parseCommitmentLog(log: Log): CommitmentData {
   }
 }
 
+/**
+ * A commitment written by a transaction, decoded from its receipt
+ */
+export interface ReceiptCommitment extends CommitmentWriteEntry {
+  /** The data ID that was written */
+  dataId: Bytes32;
+}
+
+/**
+ * Extract the commitments written by a transaction from its receipt
+ *
+ * Decodes every CIFERDataStored and CIFERDataUpdated event the contract
+ * emitted, so a store transaction's payload can be used straight away
+ * without fetching metadata and logs again.
+ *
+ * @param receipt - The transaction receipt
+ * @param contractAddress - Contract address implementing ICiferEncrypted
+ * @returns The written commitments in log order
+ * @throws CommitmentsError if the receipt has no stored or updated event
+ * @throws InvalidCiferSizeError if a cifer is not 1104 bytes
+ * @throws PayloadTooLargeError if an encrypted message exceeds the limit
+ *
+ * @example
+ * ```typescript
+ * const receipt = await waitForReceipt(txHash);
+ * const [commitment] = commitments.extractCommitmentsFromReceipt(receipt, contractAddress);
+ *
+ * console.log('Stored', commitment.dataId, 'with secret', commitment.secretId);
+ * ```
+ */
+export function extractCommitmentsFromReceipt(
+  receipt: TransactionReceipt,
+  contractAddress: Address
+): ReceiptCommitment[] {
+  const storedTopic = getCIFERDataStoredTopic().toLowerCase();
+
+  const commitments = receipt.logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === contractAddress.toLowerCase() && isCIFERDataEvent(log)
+    )
+    .sort((a, b) => a.logIndex - b.logIndex)
+    .map((log): ReceiptCommitment => {
+      let decoded: DecodedCIFERDataEvent;
+      try {
+        decoded = decodeCIFERDataEvent(log.topics, log.data);
+      } catch (error) {
+        throw new CommitmentsError(
+          `Failed to parse commitment log: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      const commitment: ReceiptCommitment = {
+        type: log.topics[0].toLowerCase() === storedTopic ? 'stored' : 'updated',
+        dataId: decoded.dataId,
+        secretId: decoded.secretId,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        cifer: decoded.cifer,
+        encryptedMessage: decoded.encryptedMessage,
+        ciferHash: decoded.ciferHash,
+        encryptedMessageHash: decoded.encryptedMessageHash,
+      };
+      assertCommitmentIntegrity(commitment);
+      return commitment;
+    });
+
+  if (commitments.length === 0) {
+    throw new CommitmentsError(
+      'No CIFERDataStored or CIFERDataUpdated event found in transaction receipt'
+    );
+  }
+
+  return commitments;
+}
+
 /**
  * Check if a log is a CIFER data event (stored or updated)
  *
@@ -243,3 +340,13 @@ export function isCIFERDataEvent(log: Log): boolean {
     topic0 === getCIFERDataUpdatedTopic().toLowerCase()
   );
 }
+
+/**
+ * Check if a log is a CIFERDataDeleted event
+ *
+ * @param log - The log to check
+ * @returns True if it's a CIFER data deletion
+ */
+export function isCIFERDataDeletedEvent(log: Log): boolean {
+  return log.topics[0]?.toLowerCase() === getCIFERDataDeletedTopic().toLowerCase();
+}
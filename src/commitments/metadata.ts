@@ -3,7 +3,7 @@
  * @description Read operations for CIFER encrypted commitments
  */
 
-import type { Address, Bytes32, ChainId, Hex, CIFERMetadata } from '../types/common.js';
+import type { Address, Bytes32, ChainId, Hex, CIFERMetadata, RequestOptions } from '../types/common.js';
 import type { ReadClient } from '../types/adapters.js';
 import {
   CIFER_ENVELOPE_BYTES,
@@ -13,7 +13,11 @@ import {
   decodeGetCIFERMetadata,
   decodeCiferDataExists,
 } from '../internal/abi/cifer-encrypted.js';
-import { CommitmentsError, CommitmentNotFoundError } from '../internal/errors/index.js';
+import {
+  CommitmentsError,
+  CommitmentNotFoundError,
+  RequestAbortedError,
+} from '../internal/errors/index.js';
 import { keccak_256 } from '@noble/hashes/sha3';
 
 /**
@@ -30,7 +34,7 @@ export { MAX_PAYLOAD_BYTES };
 /**
  * Parameters for commitment read operations
  */
-export interface CommitmentReadParams {
+export interface CommitmentReadParams extends RequestOptions {
   /** Chain ID */
   chainId: ChainId;
   /** Contract address implementing ICiferEncrypted */
@@ -80,7 +84,7 @@ export async function getCIFERMetadata(
     const result = await readClient.call(chainId, {
       to: contractAddress,
       data,
-    });
+    }, params);
 
     const decoded = decodeGetCIFERMetadata(result);
 
@@ -96,7 +100,7 @@ export async function getCIFERMetadata(
       encryptedMessageHash: decoded.encryptedMessageHash,
     };
   } catch (error) {
-    if (error instanceof CommitmentNotFoundError) {
+    if (error instanceof CommitmentNotFoundError || error instanceof RequestAbortedError) {
       throw error;
     }
     throw new CommitmentsError(
@@ -130,10 +134,13 @@ export async function ciferDataExists(
     const result = await readClient.call(chainId, {
       to: contractAddress,
       data,
-    });
+    }, params);
 
     return decodeCiferDataExists(result);
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     throw new CommitmentsError(
       `Failed to check data existence: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error instanceof Error ? error : undefined
@@ -168,13 +175,4 @@ export function hexToBytes(hex: Hex): Uint8Array {
   return bytes;
 }
 
-/**
- * Convert bytes to hex string
- */
-export function bytesToHex(bytes: Uint8Array): Hex {
-  let hex = '0x';
-  for (const byte of bytes) {
-    hex += byte.toString(16).padStart(2, '0');
-  }
-  return hex as Hex;
-}
+export { bytesToHex } from '../internal/encoding/index.js';
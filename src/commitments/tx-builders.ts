@@ -9,6 +9,7 @@
 import type { Address, Bytes32, ChainId, Hex } from '../types/common.js';
 import type { TxIntentWithMeta } from '../types/tx-intent.js';
 import { CommitmentsError } from '../internal/errors/index.js';
+import { encodeFunctionData, type AbiParameter } from '../internal/abi/codec.js';
 import { validateForStorage } from './integrity.js';
 
 /**
@@ -20,14 +21,23 @@ export interface AbiFunction {
   inputs: Array<{
     name: string;
     type: string;
+    /** Tuple components, for `tuple` types */
+    components?: AbiParameter[];
   }>;
   outputs?: Array<{
     name: string;
     type: string;
+    /** Tuple components, for `tuple` types */
+    components?: AbiParameter[];
   }>;
   stateMutability?: string;
 }
 
+/**
+ * Commitment fields that can fill a store function input
+ */
+export type CommitmentArgName = 'key' | 'secretId' | 'encryptedMessage' | 'cifer';
+
 /**
  * Parameters for building a store commitment transaction
  */
@@ -49,6 +59,18 @@ export interface BuildStoreCommitmentParams {
     /** CIFER envelope bytes */
     cifer: Hex;
   };
+  /**
+   * Values for the function's other inputs, keyed by input name (or by
+   * position, e.g. `'2'`, for unnamed inputs). Any Solidity type is
+   * accepted; see encodeAbiParameters() for the value formats.
+   */
+  extraArgs?: Record<string, unknown>;
+  /**
+   * Which commitment field fills each input, keyed by input name, for
+   * contracts whose input names differ from `key`, `secretId`,
+   * `encryptedMessage` and `cifer` (e.g. `{ id: 'key', blob: 'encryptedMessage' }`)
+   */
+  argMapping?: Record<string, CommitmentArgName>;
   /** Whether to validate sizes before building (default: true) */
   validate?: boolean;
 }
@@ -87,6 +109,19 @@ export interface BuildStoreCommitmentParams {
  *   },
  * });
  * ```
+ *
+ * @example Extra arguments
+ * ```typescript
+ * // store(bytes32 id, bytes blob, bytes cifer, string[] tags, uint64 expiry)
+ * const txIntent = buildStoreCommitmentTx({
+ *   chainId: 752025,
+ *   contractAddress: '0x...',
+ *   storeFunction,
+ *   args: { key, secretId, encryptedMessage, cifer },
+ *   argMapping: { id: 'key', blob: 'encryptedMessage' },
+ *   extraArgs: { tags: ['invoice', '2024'], expiry: 1767225600n },
+ * });
+ * ```
  */
 export function buildStoreCommitmentTx(
   params: BuildStoreCommitmentParams
@@ -96,6 +131,8 @@ export function buildStoreCommitmentTx(
     contractAddress,
     storeFunction,
     args,
+    extraArgs = {},
+    argMapping = {},
     validate = true,
   } = params;
 
@@ -105,7 +142,7 @@ export function buildStoreCommitmentTx(
   }
 
   // Build calldata based on the function signature
-  const calldata = encodeStoreCall(storeFunction, args);
+  const calldata = encodeStoreCall(storeFunction, args, extraArgs, argMapping);
 
   return {
     chainId,
@@ -122,136 +159,54 @@ export function buildStoreCommitmentTx(
   };
 }
 
+/**
+ * Input names each commitment field fills when no mapping is given
+ */
+const DEFAULT_ARG_NAMES: Record<string, CommitmentArgName> = {
+  key: 'key',
+  secretId: 'secretId',
+  encryptedMessage: 'encryptedMessage',
+  cifer: 'cifer',
+  // Common alternative names
+  _key: 'key',
+  _secretId: 'secretId',
+  _encryptedMessage: 'encryptedMessage',
+  _cifer: 'cifer',
+  data: 'encryptedMessage',
+  message: 'encryptedMessage',
+  payload: 'encryptedMessage',
+};
+
 /**
  * Encode a store function call
  *
- * This is a simplified encoder that handles common patterns.
- * For complex ABIs, consider using a full ABI encoding library.
+ * Each input takes its value from `extraArgs` (by name, then position),
+ * then from the commitment field named in `argMapping`, then from the
+ * commitment field matching its name.
  */
 function encodeStoreCall(
   fn: AbiFunction,
-  args: {
-    key: Bytes32;
-    secretId: bigint;
-    encryptedMessage: Hex;
-    cifer: Hex;
-  }
+  args: BuildStoreCommitmentParams['args'],
+  extraArgs: Record<string, unknown>,
+  argMapping: Record<string, CommitmentArgName>
 ): Hex {
-  // Compute function selector
-  const selector = computeFunctionSelector(fn);
-
-  // Map argument names to values
-  const argMap: Record<string, string | bigint | Hex> = {
-    key: args.key,
-    secretId: args.secretId,
-    encryptedMessage: args.encryptedMessage,
-    cifer: args.cifer,
-    // Common alternative names
-    _key: args.key,
-    _secretId: args.secretId,
-    _encryptedMessage: args.encryptedMessage,
-    _cifer: args.cifer,
-    data: args.encryptedMessage,
-    message: args.encryptedMessage,
-    payload: args.encryptedMessage,
-  };
-
-  // Encode each argument
-  const encodedArgs: string[] = [];
-  const dynamicData: string[] = [];
-  let dynamicOffset = fn.inputs.length * 32; // Start of dynamic data area
-
-  for (const input of fn.inputs) {
-    const value = argMap[input.name];
-    if (value === undefined) {
-      throw new CommitmentsError(
-        `Missing argument '${input.name}' for function ${fn.name}`
-      );
+  const values = fn.inputs.map((input, i) => {
+    for (const key of [input.name, String(i)]) {
+      if (key && Object.prototype.hasOwnProperty.call(extraArgs, key)) {
+        return extraArgs[key];
+      }
     }
-
-    if (input.type === 'bytes32') {
-      // Static: bytes32
-      encodedArgs.push(padHex(value as string, 64));
-    } else if (input.type === 'uint256') {
-      // Static: uint256
-      encodedArgs.push(encodeBigInt(value as bigint));
-    } else if (input.type === 'bytes') {
-      // Dynamic: bytes - encode offset
-      encodedArgs.push(encodeBigInt(BigInt(dynamicOffset)));
-      // Add to dynamic data
-      const bytesData = encodeBytes(value as Hex);
-      dynamicData.push(bytesData);
-      dynamicOffset += bytesData.length / 2;
-    } else if (input.type === 'address') {
-      // Static: address
-      encodedArgs.push(padHex(value as string, 64));
-    } else {
+    const field = argMapping[input.name] ?? DEFAULT_ARG_NAMES[input.name];
+    if (field === undefined) {
       throw new CommitmentsError(
-        `Unsupported argument type '${input.type}' for encoding`
+        `Missing argument '${input.name || i}' for function ${fn.name}. ` +
+          'Pass it in extraArgs or map it to a commitment field with argMapping.'
       );
     }
-  }
-
-  return `0x${selector}${encodedArgs.join('')}${dynamicData.join('')}` as Hex;
-}
-
-/**
- * Compute the function selector (first 4 bytes of keccak256)
- */
-function computeFunctionSelector(fn: AbiFunction): string {
-  // Build signature: name(type1,type2,...)
-  const signature = `${fn.name}(${fn.inputs.map(i => i.type).join(',')})`;
-  
-  // For a proper implementation, we'd use keccak256
-  // This is a simplified version that returns a placeholder
-  // In production, use a proper hashing library
-  
-  // Common function selectors (pre-computed)
-  const knownSelectors: Record<string, string> = {
-    'store(bytes32,bytes,bytes)': 'e4f32d63',
-    'store(bytes32,uint256,bytes,bytes)': 'a1b2c3d4',
-    'storeEncrypted(bytes32,bytes,bytes)': 'b2c3d4e5',
-  };
-
-  const known = knownSelectors[signature];
-  if (known) {
-    return known;
-  }
+    return args[field];
+  });
 
-  // Fallback: simple hash (NOT keccak256 - use proper library in production)
-  let hash = 0;
-  for (let i = 0; i < signature.length; i++) {
-    hash = ((hash << 5) - hash) + signature.charCodeAt(i);
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16).padStart(8, '0').slice(0, 8);
-}
-
-/**
- * Encode a bigint as 32 bytes hex
- */
-function encodeBigInt(value: bigint): string {
-  return value.toString(16).padStart(64, '0');
-}
-
-/**
- * Encode bytes with length prefix
- */
-function encodeBytes(hex: Hex): string {
-  const clean = hex.replace('0x', '');
-  const length = clean.length / 2;
-  const lengthHex = encodeBigInt(BigInt(length));
-  // Pad data to 32-byte boundary
-  const paddedData = clean.padEnd(Math.ceil(clean.length / 64) * 64, '0');
-  return lengthHex + paddedData;
-}
-
-/**
- * Pad a hex string to specified length
- */
-function padHex(hex: string, length: number): string {
-  const clean = hex.replace('0x', '');
-  return clean.padStart(length, '0');
+  return encodeFunctionData(fn, values);
 }
 
 /**
@@ -20,6 +20,7 @@ import {
 import { getSecretCreationFee, getSecret, buildCreateSecretTx } from '../keyManagement/index.js';
 import { extractSecretIdFromReceipt } from '../keyManagement/events.js';
 import { FlowError, FlowAbortedError, FlowTimeoutError } from '../internal/errors/index.js';
+import { resolveLogger } from '../internal/logging/index.js';
 
 /**
  * Result of createSecretAndWaitReady flow
@@ -111,12 +112,12 @@ export async function createSecretAndWaitReady(
   validateExecutionContext(ctx);
 
   const updateStep = createStepUpdater(steps, options?.onStepProgress);
-  const log = ctx.logger ?? (() => {});
+  const log = resolveLogger(ctx.logger, 'flows.createSecretAndWaitReady');
 
   try {
     // Step 1: Read fee
     updateStep('read_fee', { status: 'in_progress' });
-    log('Reading secret creation fee...');
+    log.info('Reading secret creation fee...');
 
     const fee = await getSecretCreationFee({
       chainId: ctx.chainId,
@@ -125,11 +126,11 @@ export async function createSecretAndWaitReady(
     });
 
     updateStep('read_fee', { status: 'completed', result: fee });
-    log(`Fee: ${fee} wei`);
+    log.info(`Fee: ${fee} wei`, { chainId: ctx.chainId, fee });
 
     // Step 2: Create secret transaction
     updateStep('create_secret_tx', { status: 'in_progress' });
-    log('Creating secret...');
+    log.info('Creating secret...');
 
     const txIntent = buildCreateSecretTx({
       chainId: ctx.chainId,
@@ -140,7 +141,7 @@ export async function createSecretAndWaitReady(
     updateStep('create_secret_tx', { txIntent });
 
     const txResult = await ctx.txExecutor!(txIntent);
-    log(`Transaction submitted: ${txResult.hash}`);
+    log.info(`Transaction submitted: ${txResult.hash}`, { txHash: txResult.hash });
 
     const receipt = await txResult.waitReceipt();
     if (receipt.status !== 1) {
@@ -153,11 +154,11 @@ export async function createSecretAndWaitReady(
 
     const secretId = extractSecretIdFromReceipt(receipt.logs);
     updateStep('create_secret_tx', { status: 'completed', result: { secretId, receipt } });
-    log(`Secret created: ${secretId}`);
+    log.info(`Secret created: ${secretId}`, { chainId: ctx.chainId, secretId });
 
     // Step 3: Wait for sync
     updateStep('wait_sync', { status: 'in_progress' });
-    log('Waiting for secret to sync...');
+    log.info('Waiting for secret to sync...');
 
     let state: SecretState | null = null;
     let attempts = 0;
@@ -181,7 +182,10 @@ export async function createSecretAndWaitReady(
       }
 
       attempts++;
-      log(`Waiting... (attempt ${attempts}/${pollingStrategy.maxAttempts})`);
+      log.info(`Waiting... (attempt ${attempts}/${pollingStrategy.maxAttempts})`, {
+        secretId,
+        attempt: attempts,
+      });
 
       await sleepWithAbort(pollingStrategy.intervalMs, ctx.abortSignal);
     }
@@ -195,7 +199,7 @@ export async function createSecretAndWaitReady(
     }
 
     updateStep('wait_sync', { status: 'completed', result: state });
-    log('Secret is ready!');
+    log.info('Secret is ready!');
 
     return {
       success: true,
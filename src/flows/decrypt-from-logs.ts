@@ -3,7 +3,7 @@
  * @description Flow for retrieving and decrypting data from on-chain logs
  */
 
-import type { Address, Bytes32 } from '../types/common.js';
+import type { Address, Bytes32, PayloadEncoding } from '../types/common.js';
 import type {
   FlowContext,
   FlowOptions,
@@ -16,6 +16,7 @@ import { getCIFERMetadata } from '../commitments/metadata.js';
 import { fetchCommitmentFromLogs } from '../commitments/logs.js';
 import { assertCommitmentIntegrity } from '../commitments/integrity.js';
 import { decryptPayload } from '../blackbox/payload.js';
+import { resolveLogger } from '../internal/logging/index.js';
 // FlowError available for future error handling enhancements
 
 /**
@@ -32,6 +33,8 @@ export interface RetrieveAndDecryptParams {
   storedAtBlock?: number;
   /** Skip integrity verification (default: false) */
   skipIntegrityCheck?: boolean;
+  /** Hash the retrieved bytes during integrity verification (default: false) */
+  strictIntegrity?: boolean;
 }
 
 /**
@@ -40,6 +43,10 @@ export interface RetrieveAndDecryptParams {
 export interface RetrieveAndDecryptResult {
   /** The decrypted plaintext */
   decryptedMessage: string;
+  /** How the plaintext was encoded when it was encrypted */
+  encoding: PayloadEncoding;
+  /** The plaintext restored to its original type (string, bytes or parsed JSON) */
+  value: unknown;
   /** The secret ID used */
   secretId: bigint;
   /** Block where the commitment was stored */
@@ -134,7 +141,7 @@ export async function retrieveFromLogsThenDecrypt(
   }
 
   const updateStep = createStepUpdater(steps, options?.onStepProgress);
-  const log = ctx.logger ?? (() => {});
+  const log = resolveLogger(ctx.logger, 'flows.retrieveFromLogsThenDecrypt');
 
   try {
     let storedAtBlock = params.storedAtBlock;
@@ -143,7 +150,7 @@ export async function retrieveFromLogsThenDecrypt(
     // Step 1: Read metadata (if block not provided)
     if (!storedAtBlock) {
       updateStep('read_metadata', { status: 'in_progress' });
-      log('Reading commitment metadata...');
+      log.info('Reading commitment metadata...');
 
       metadata = await getCIFERMetadata(
         {
@@ -156,12 +163,12 @@ export async function retrieveFromLogsThenDecrypt(
 
       storedAtBlock = metadata.storedAtBlock;
       updateStep('read_metadata', { status: 'completed', result: metadata });
-      log(`Found at block ${storedAtBlock}`);
+      log.info(`Found at block ${storedAtBlock}`, { blockNumber: storedAtBlock });
     }
 
     // Step 2: Fetch logs
     updateStep('fetch_logs', { status: 'in_progress' });
-    log('Fetching encrypted data from logs...');
+    log.info('Fetching encrypted data from logs...');
 
     const commitment = await fetchCommitmentFromLogs({
       chainId: ctx.chainId,
@@ -172,12 +179,12 @@ export async function retrieveFromLogsThenDecrypt(
     });
 
     updateStep('fetch_logs', { status: 'completed', result: commitment });
-    log('Encrypted data retrieved');
+    log.info('Encrypted data retrieved');
 
     // Step 3: Verify integrity (if not skipped)
     if (!skipIntegrity) {
       updateStep('verify_integrity', { status: 'in_progress' });
-      log('Verifying data integrity...');
+      log.info('Verifying data integrity...');
 
       // Get metadata if we don't have it
       if (!metadata) {
@@ -191,15 +198,15 @@ export async function retrieveFromLogsThenDecrypt(
         );
       }
 
-      assertCommitmentIntegrity(commitment, metadata);
+      assertCommitmentIntegrity(commitment, metadata, { strict: params.strictIntegrity });
 
       updateStep('verify_integrity', { status: 'completed' });
-      log('Integrity verified');
+      log.info('Integrity verified');
     }
 
     // Step 4: Decrypt
     updateStep('decrypt', { status: 'in_progress' });
-    log('Decrypting data...');
+    log.info('Decrypting data...');
 
     const decrypted = await decryptPayload({
       chainId: ctx.chainId,
@@ -211,16 +218,19 @@ export async function retrieveFromLogsThenDecrypt(
       blackboxUrl: ctx.blackboxUrl,
       inputFormat: 'hex',
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('decrypt', { status: 'completed', result: decrypted });
-    log('Decryption complete');
+    log.info('Decryption complete');
 
     return {
       success: true,
       plan,
       data: {
         decryptedMessage: decrypted.decryptedMessage,
+        encoding: decrypted.encoding,
+        value: decrypted.value,
         secretId: params.secretId,
         storedAtBlock,
       },
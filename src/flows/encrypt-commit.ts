@@ -14,8 +14,13 @@ import type {
 } from './types.js';
 import { createStepUpdater } from './types.js';
 import { encryptPayload } from '../blackbox/payload.js';
-import { buildStoreCommitmentTx, type AbiFunction } from '../commitments/tx-builders.js';
+import {
+  buildStoreCommitmentTx,
+  type AbiFunction,
+  type BuildStoreCommitmentParams,
+} from '../commitments/tx-builders.js';
 import { validateForStorage } from '../commitments/integrity.js';
+import { resolveLogger } from '../internal/logging/index.js';
 // FlowError available for future error handling enhancements
 
 /**
@@ -24,14 +29,18 @@ import { validateForStorage } from '../commitments/integrity.js';
 export interface EncryptThenCommitParams {
   /** Secret ID to use for encryption */
   secretId: bigint;
-  /** The plaintext to encrypt */
-  plaintext: string;
+  /** The plaintext to encrypt (a string, or bytes for binary data) */
+  plaintext: string | Uint8Array;
   /** Key for the commitment (bytes32) */
   key: Bytes32;
   /** Contract address for storing the commitment */
   commitmentContract: `0x${string}`;
   /** Store function ABI (optional - uses default if not provided) */
   storeFunction?: AbiFunction;
+  /** Values for the store function's other inputs (see buildStoreCommitmentTx) */
+  extraArgs?: BuildStoreCommitmentParams['extraArgs'];
+  /** Input name to commitment field mapping (see buildStoreCommitmentTx) */
+  argMapping?: BuildStoreCommitmentParams['argMapping'];
 }
 
 /**
@@ -123,12 +132,12 @@ export async function encryptThenPrepareCommitTx(
   }
 
   const updateStep = createStepUpdater(steps, options?.onStepProgress);
-  const log = ctx.logger ?? (() => {});
+  const log = resolveLogger(ctx.logger, 'flows.encryptThenPrepareCommitTx');
 
   try {
     // Step 1: Encrypt
     updateStep('encrypt', { status: 'in_progress' });
-    log('Encrypting data...');
+    log.info('Encrypting data...');
 
     const encrypted = await encryptPayload({
       chainId: ctx.chainId,
@@ -139,14 +148,15 @@ export async function encryptThenPrepareCommitTx(
       blackboxUrl: ctx.blackboxUrl,
       outputFormat: 'hex',
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('encrypt', { status: 'completed', result: encrypted });
-    log('Encryption complete');
+    log.info('Encryption complete');
 
     // Step 2: Validate
     updateStep('validate', { status: 'in_progress' });
-    log('Validating data sizes...');
+    log.info('Validating data sizes...');
 
     validateForStorage(
       encrypted.cifer as Hex,
@@ -154,11 +164,11 @@ export async function encryptThenPrepareCommitTx(
     );
 
     updateStep('validate', { status: 'completed' });
-    log('Validation passed');
+    log.info('Validation passed');
 
     // Step 3: Build transaction
     updateStep('build_tx', { status: 'in_progress' });
-    log('Building transaction...');
+    log.info('Building transaction...');
 
     const defaultStoreFunction: AbiFunction = {
       type: 'function',
@@ -180,11 +190,13 @@ export async function encryptThenPrepareCommitTx(
         encryptedMessage: encrypted.encryptedMessage as Hex,
         cifer: encrypted.cifer as Hex,
       },
+      extraArgs: params.extraArgs,
+      argMapping: params.argMapping,
       validate: false, // Already validated
     });
 
     updateStep('build_tx', { status: 'completed', txIntent, result: txIntent });
-    log('Transaction ready');
+    log.info('Transaction ready');
 
     return {
       success: true,
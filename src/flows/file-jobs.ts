@@ -17,7 +17,10 @@ import {
 } from './types.js';
 import { encryptFile, decryptFile, decryptExistingFile } from '../blackbox/files.js';
 import { download, pollUntilComplete } from '../blackbox/jobs.js';
+import { assertValidCiferFile } from '../blackbox/cifer-file.js';
 import { FlowError } from '../internal/errors/index.js';
+import { resolveLogger } from '../internal/logging/index.js';
+import { normalizeDigest } from '../internal/streams/index.js';
 
 /**
  * Parameters for file encryption flow
@@ -94,12 +97,12 @@ export async function encryptFileJobFlow(
   }
 
   const updateStep = createStepUpdater(steps, options?.onStepProgress);
-  const log = ctx.logger ?? (() => {});
+  const log = resolveLogger(ctx.logger, 'flows.encryptFileJobFlow');
 
   try {
     // Step 1: Upload
     updateStep('upload', { status: 'in_progress' });
-    log('Uploading file for encryption...');
+    log.info('Uploading file for encryption...');
 
     const jobResult = await encryptFile({
       chainId: ctx.chainId,
@@ -109,21 +112,23 @@ export async function encryptFileJobFlow(
       readClient: ctx.readClient,
       blackboxUrl: ctx.blackboxUrl,
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('upload', { status: 'completed', result: jobResult });
-    log(`Job started: ${jobResult.jobId}`);
+    log.info(`Job started: ${jobResult.jobId}`, { jobId: jobResult.jobId });
 
     // Step 2: Poll
     updateStep('poll', { status: 'in_progress' });
-    log('Waiting for encryption to complete...');
+    log.info('Waiting for encryption to complete...');
 
     const finalJob = await pollUntilComplete(jobResult.jobId, ctx.blackboxUrl, {
       intervalMs: pollingStrategy.intervalMs,
       maxAttempts: pollingStrategy.maxAttempts,
-      abortSignal: ctx.abortSignal,
       fetch: ctx.fetch,
-      onProgress: (job) => log(`Progress: ${job.progress}%`),
+      signal: ctx.abortSignal,
+      onProgress: (job) =>
+        log.info(`Progress: ${job.progress}%`, { jobId: job.id, progress: job.progress }),
     });
 
     if (finalJob.status === 'failed') {
@@ -135,19 +140,20 @@ export async function encryptFileJobFlow(
     }
 
     updateStep('poll', { status: 'completed', result: finalJob });
-    log('Encryption complete');
+    log.info('Encryption complete');
 
     // Step 3: Download
     updateStep('download', { status: 'in_progress' });
-    log('Downloading encrypted file...');
+    log.info('Downloading encrypted file...');
 
     const blob = await download(jobResult.jobId, {
       blackboxUrl: ctx.blackboxUrl,
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('download', { status: 'completed' });
-    log('Download complete');
+    log.info('Download complete');
 
     return {
       success: true,
@@ -183,6 +189,13 @@ export interface DecryptFileFlowParams {
   secretId: bigint;
   /** The encrypted .cifer file */
   file: File | Blob;
+  /**
+   * Verify the decrypted file against the original hash. The hash is read
+   * from the .cifer `metadata.json` unless `originalHash` is given.
+   */
+  verify?: boolean;
+  /** Expected SHA-256 of the decrypted file (hex) */
+  originalHash?: string;
 }
 
 /**
@@ -195,6 +208,8 @@ export interface DecryptFileFlowResult {
   job: JobInfo;
   /** The decrypted file blob */
   decryptedFile: Blob;
+  /** SHA-256 the decrypted file was verified against, lower-case without `0x` (when `verify` is set) */
+  verifiedHash?: string;
 }
 
 /**
@@ -205,6 +220,10 @@ export interface DecryptFileFlowResult {
  * 2. Polls until the job completes
  * 3. Downloads the decrypted result (requires auth)
  *
+ * With `verify: true`, the .cifer file is validated before upload and the
+ * download is hashed and compared with its `originalHash`; a mismatch fails
+ * the flow with a FileIntegrityError.
+ *
  * @param ctx - Flow context
  * @param params - Decryption parameters
  * @param options - Flow options
@@ -233,7 +252,9 @@ export async function decryptFileJobFlow(
     },
     {
       id: 'download',
-      description: 'Download decrypted file',
+      description: params.verify
+        ? 'Download decrypted file and verify its hash'
+        : 'Download decrypted file',
       type: 'api_call',
       status: 'pending',
     },
@@ -250,12 +271,23 @@ export async function decryptFileJobFlow(
   }
 
   const updateStep = createStepUpdater(steps, options?.onStepProgress);
-  const log = ctx.logger ?? (() => {});
+  const log = resolveLogger(ctx.logger, 'flows.decryptFileJobFlow');
 
   try {
     // Step 1: Upload
     updateStep('upload', { status: 'in_progress' });
-    log('Uploading encrypted file for decryption...');
+
+    // Check the container (and learn its hash) before spending an upload
+    let originalHash = params.originalHash;
+    if (params.verify && originalHash === undefined) {
+      log.info('Reading original hash from .cifer metadata...');
+      const metadata = await assertValidCiferFile(params.file, {
+        expectedSecretId: params.secretId,
+      });
+      originalHash = metadata.originalHash;
+    }
+
+    log.info('Uploading encrypted file for decryption...');
 
     const jobResult = await decryptFile({
       chainId: ctx.chainId,
@@ -265,21 +297,23 @@ export async function decryptFileJobFlow(
       readClient: ctx.readClient,
       blackboxUrl: ctx.blackboxUrl,
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('upload', { status: 'completed', result: jobResult });
-    log(`Job started: ${jobResult.jobId}`);
+    log.info(`Job started: ${jobResult.jobId}`, { jobId: jobResult.jobId });
 
     // Step 2: Poll
     updateStep('poll', { status: 'in_progress' });
-    log('Waiting for decryption to complete...');
+    log.info('Waiting for decryption to complete...');
 
     const finalJob = await pollUntilComplete(jobResult.jobId, ctx.blackboxUrl, {
       intervalMs: pollingStrategy.intervalMs,
       maxAttempts: pollingStrategy.maxAttempts,
-      abortSignal: ctx.abortSignal,
       fetch: ctx.fetch,
-      onProgress: (job) => log(`Progress: ${job.progress}%`),
+      signal: ctx.abortSignal,
+      onProgress: (job) =>
+        log.info(`Progress: ${job.progress}%`, { jobId: job.id, progress: job.progress }),
     });
 
     if (finalJob.status === 'failed') {
@@ -291,11 +325,11 @@ export async function decryptFileJobFlow(
     }
 
     updateStep('poll', { status: 'completed', result: finalJob });
-    log('Decryption complete');
+    log.info('Decryption complete');
 
     // Step 3: Download (requires auth for decrypt jobs)
     updateStep('download', { status: 'in_progress' });
-    log('Downloading decrypted file...');
+    log.info('Downloading decrypted file...');
 
     const blob = await download(jobResult.jobId, {
       blackboxUrl: ctx.blackboxUrl,
@@ -303,11 +337,14 @@ export async function decryptFileJobFlow(
       secretId: params.secretId,
       signer: ctx.signer,
       readClient: ctx.readClient,
+      verify: params.verify,
+      originalHash,
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('download', { status: 'completed' });
-    log('Download complete');
+    log.info(params.verify ? 'Download complete, hash verified' : 'Download complete');
 
     return {
       success: true,
@@ -316,6 +353,10 @@ export async function decryptFileJobFlow(
         jobId: jobResult.jobId,
         job: finalJob,
         decryptedFile: blob,
+        verifiedHash:
+          params.verify && originalHash !== undefined
+            ? normalizeDigest(originalHash)
+            : undefined,
       },
     };
   } catch (error) {
@@ -393,12 +434,12 @@ export async function decryptExistingFileJobFlow(
   }
 
   const updateStep = createStepUpdater(steps, options?.onStepProgress);
-  const log = ctx.logger ?? (() => {});
+  const log = resolveLogger(ctx.logger, 'flows.decryptExistingFileJobFlow');
 
   try {
     // Step 1: Create job
     updateStep('create_job', { status: 'in_progress' });
-    log('Creating decrypt job...');
+    log.info('Creating decrypt job...');
 
     const jobResult = await decryptExistingFile({
       chainId: ctx.chainId,
@@ -408,21 +449,23 @@ export async function decryptExistingFileJobFlow(
       readClient: ctx.readClient,
       blackboxUrl: ctx.blackboxUrl,
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('create_job', { status: 'completed', result: jobResult });
-    log(`Job started: ${jobResult.jobId}`);
+    log.info(`Job started: ${jobResult.jobId}`, { jobId: jobResult.jobId });
 
     // Step 2: Poll
     updateStep('poll', { status: 'in_progress' });
-    log('Waiting for decryption to complete...');
+    log.info('Waiting for decryption to complete...');
 
     const finalJob = await pollUntilComplete(jobResult.jobId, ctx.blackboxUrl, {
       intervalMs: pollingStrategy.intervalMs,
       maxAttempts: pollingStrategy.maxAttempts,
-      abortSignal: ctx.abortSignal,
       fetch: ctx.fetch,
-      onProgress: (job) => log(`Progress: ${job.progress}%`),
+      signal: ctx.abortSignal,
+      onProgress: (job) =>
+        log.info(`Progress: ${job.progress}%`, { jobId: job.id, progress: job.progress }),
     });
 
     if (finalJob.status === 'failed') {
@@ -434,11 +477,11 @@ export async function decryptExistingFileJobFlow(
     }
 
     updateStep('poll', { status: 'completed', result: finalJob });
-    log('Decryption complete');
+    log.info('Decryption complete');
 
     // Step 3: Download
     updateStep('download', { status: 'in_progress' });
-    log('Downloading decrypted file...');
+    log.info('Downloading decrypted file...');
 
     const blob = await download(jobResult.jobId, {
       blackboxUrl: ctx.blackboxUrl,
@@ -447,10 +490,11 @@ export async function decryptExistingFileJobFlow(
       signer: ctx.signer,
       readClient: ctx.readClient,
       fetch: ctx.fetch,
+      signal: ctx.abortSignal,
     });
 
     updateStep('download', { status: 'completed' });
-    log('Download complete');
+    log.info('Download complete');
 
     return {
       success: true,
@@ -7,6 +7,7 @@ import type { Address, ChainId } from '../types/common.js';
 import type { SignerAdapter, ReadClient } from '../types/adapters.js';
 import type { TxIntent, TxExecutor } from '../types/tx-intent.js';
 import type { TransactionReceipt } from '../types/common.js';
+import type { LoggerInput } from '../types/logging.js';
 
 /**
  * Flow execution mode
@@ -106,12 +107,14 @@ export interface FlowContext {
   pollingStrategy?: PollingStrategy;
 
   /**
-   * Logger for progress updates
+   * Logger for progress updates (defaults to the logger configured with
+   * `configureLogger()`)
    */
-  logger?: (message: string) => void;
+  logger?: LoggerInput;
 
   /**
-   * Abort signal for cancellation
+   * Abort signal for cancellation (also cancels in-flight requests,
+   * which reject with RequestAbortedError)
    */
   abortSignal?: AbortSignal;
 
@@ -10,6 +10,7 @@
  * - **keyManagement**: Secret creation, delegation, and ownership management
  * - **blackbox**: Payload and file encryption/decryption via the blackbox API
  * - **commitments**: On-chain encrypted data storage and retrieval
+ * - **vault**: Typed reads, transactions and errors for CiferVaultOnChain
  * - **flows**: High-level orchestrated operations
  *
  * ## Getting Started
@@ -130,6 +131,19 @@ export * as blackbox from './blackbox/index.js';
  */
 export * as commitments from './commitments/index.js';
 
+/**
+ * Typed operations for the CiferVaultOnChain contract.
+ *
+ * @remarks
+ * This namespace provides functions for:
+ * - Reading user secret IDs, metadata and data IDs
+ * - Building store, delete, setSecretId and ownership transactions
+ * - Decoding the vault's custom errors
+ *
+ * @public
+ */
+export * as vault from './vault/index.js';
+
 /**
  * High-level orchestrated flows for common operations.
  *
@@ -175,6 +189,12 @@ export {
   resolveAllChains,
   getRpcUrl,
   getSecretsControllerAddress,
+  BlackboxPool,
+  isFailoverError,
+  type BlackboxPoolOptions,
+  type BlackboxPoolEvents,
+  verifyDiscovery,
+  type VerifyDiscoveryOptions,
 } from './internal/config/index.js';
 
 // Auth (for custom integrations)
@@ -197,8 +217,33 @@ export {
   RpcReadClient,
   createReadClientFromDiscovery,
   PrivateKeySignerAdapter,
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  FileStorageAdapter,
+  type WebStorageLike,
 } from './internal/adapters/index.js';
 
+// Blackbox HTTP retry policy and lifecycle hooks
+export {
+  configureBlackboxHttp,
+  configureHooks,
+  MetricsCollector,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  type MetricsCollectorOptions,
+  type MetricsSnapshot,
+  type EndpointMetrics,
+  type LatencyHistogram,
+} from './internal/http/index.js';
+
+// Structured logging
+export {
+  createLogger,
+  configureLogger,
+  redactFields,
+  DEFAULT_REDACTED_FIELDS,
+  type CreateLoggerOptions,
+} from './internal/logging/index.js';
+
 // Errors
 export * from './internal/errors/index.js';
 
@@ -206,24 +251,44 @@ export * from './internal/errors/index.js';
 export {
   SECRETS_CONTROLLER_ABI,
   CIFER_ENCRYPTED_ABI,
+  CIFER_VAULT_ABI,
   CIFER_ENVELOPE_BYTES,
   MAX_PAYLOAD_BYTES,
+  encodeAbiParameters,
+  decodeAbiParameters,
+  encodeFunctionData,
+  decodeFunctionResult,
+  getFunctionSignature,
+  getFunctionSelector,
+  type AbiParameter,
+  type AbiFunctionLike,
 } from './internal/abi/index.js';
 
 // ============================================================================
 // SDK Factory
 // ============================================================================
 
-import type { ChainId, Address } from './types/common.js';
+import type { ChainId, Address, RequestOptions } from './types/common.js';
 import type { CiferSdkConfig, DiscoveryResult } from './types/config.js';
+import type { Logger } from './types/logging.js';
 import type { SignerAdapter, ReadClient } from './types/adapters.js';
-import { discover, resolveChain } from './internal/config/index.js';
+import type { FlowContext, FlowResult } from './flows/types.js';
+import {
+  discover,
+  resolveChain,
+  verifyDiscovery,
+  isFailoverError,
+  BlackboxPool,
+} from './internal/config/index.js';
 import { RpcReadClient, createReadClientFromDiscovery } from './internal/adapters/index.js';
 import { ConfigError } from './internal/errors/index.js';
+import { configureBlackboxHttp, configureHooks } from './internal/http/index.js';
+import { configureLogger, createLogger, getLogger } from './internal/logging/index.js';
 
 import * as keyManagementNs from './keyManagement/index.js';
 import * as blackboxNs from './blackbox/index.js';
 import * as commitmentsNs from './commitments/index.js';
+import * as vaultNs from './vault/index.js';
 import * as flowsNs from './flows/index.js';
 
 /**
@@ -253,6 +318,15 @@ export interface CiferSdk {
    *
    * @remarks
    * Provides namespaces for payload, file, and job operations.
+   *
+   * With `blackboxUrls`, calls addressed to a pool endpoint (such as
+   * `sdk.blackboxUrl`) run through `blackboxPool.run()`: they go to a
+   * healthy endpoint and fail over when one errors. `files.encryptFile()`
+   * and `decryptFile()` go to a healthy endpoint but never fail over, since
+   * a retry would start a second job; poll and download the job on the
+   * `blackboxUrl` they return. Job calls (`jobs`, `JobWatcher`,
+   * `decryptExistingFile`) stay on the URL they are given, since a job
+   * lives on the endpoint that created it.
    */
   readonly blackbox: typeof blackboxNs;
 
@@ -265,20 +339,48 @@ export interface CiferSdk {
    */
   readonly commitments: typeof commitmentsNs;
 
+  /**
+   * CiferVaultOnChain operations.
+   *
+   * @remarks
+   * Provides typed reads, transaction builders and custom error decoding
+   * for the vault contract.
+   */
+  readonly vault: typeof vaultNs;
+
   /**
    * High-level orchestrated flows.
    *
    * @remarks
    * Provides complete workflows for common operations like creating
    * secrets, encrypting data, and decrypting from logs.
+   *
+   * With `blackboxUrls`, flows whose context points at a pool endpoint run
+   * through `blackboxPool.run()` like the `blackbox` calls, and are retried
+   * on the next endpoint when they fail with a network or server error.
+   * The file job flows go to a healthy endpoint without failover.
    */
   readonly flows: typeof flowsNs;
 
   /**
    * The configured blackbox URL.
+   *
+   * @remarks
+   * With `blackboxUrls`, this is the preferred healthy endpoint and can
+   * change between reads.
    */
   readonly blackboxUrl: string;
 
+  /**
+   * The health-checked endpoint pool (only with `blackboxUrls`).
+   *
+   * @remarks
+   * The `blackbox` and `flows` namespaces already fail over through it. Use
+   * `blackboxPool.run()` for your own requests and
+   * `blackboxPool.on('change', ...)` to watch for endpoint changes.
+   */
+  readonly blackboxPool?: BlackboxPool;
+
   /**
    * The discovery result (null if discovery was not performed).
    */
@@ -327,6 +429,8 @@ export interface CiferSdk {
    *
    * @throws {@link ConfigError} When called on an SDK created without blackboxUrl
    * @throws {@link DiscoveryError} When the discovery request fails
+   * @throws {@link TrustVerificationError} When `trust` is set and the new
+   *   result fails verification (the previous result is kept)
    */
   refreshDiscovery(): Promise<void>;
 }
@@ -337,11 +441,17 @@ export interface CiferSdk {
  * This is the main entry point for the SDK. It performs discovery
  * (if blackboxUrl is provided) and sets up the default read client.
  *
+ * `retryPolicy`, `hooks` and `logger` configure process-wide state shared
+ * by every instance; the last SDK created with one of them wins.
+ *
  * @param config - SDK configuration options
  * @returns A promise resolving to the configured SDK instance
  *
- * @throws {@link ConfigError} When neither blackboxUrl nor readClient is provided
+ * @throws {@link ConfigError} When neither blackboxUrl nor readClient is provided,
+ *   or when `trust` is set without a readClient or `chainOverrides` RPC URL
+ *   for a verified chain
  * @throws {@link DiscoveryError} When discovery fails
+ * @throws {@link TrustVerificationError} When `trust` is set and discovery fails verification
  *
  * @example Basic usage with discovery
  * ```typescript
@@ -367,19 +477,52 @@ export interface CiferSdk {
  */
 export async function createCiferSdk(config: CiferSdkConfig): Promise<CiferSdk> {
   const fetchFn = config.fetch ?? globalThis.fetch.bind(globalThis);
-  const log = config.logger ?? (() => {});
+  const log = createSdkLogger(config);
+
+  if (config.retryPolicy) {
+    configureBlackboxHttp(config.retryPolicy);
+  }
+  if (config.hooks) {
+    configureHooks(config.hooks);
+  }
 
   let discovery: DiscoveryResult | null = null;
   let readClient: ReadClient;
 
+  // Refuse to continue with an unverified discovery result
+  const trustReadClient = config.trust ? createTrustReadClient(config, fetchFn) : undefined;
+  const verify = async (result: DiscoveryResult, options?: RequestOptions) => {
+    if (config.trust) {
+      assertIndependentRpc(config, result);
+      const chainIds = await verifyDiscovery(result, {
+        ...config.trust,
+        ...options,
+        controllerAddresses: getTrustedControllerAddresses(config),
+        readClient: trustReadClient!,
+      });
+      log.info(`Trust verification passed for chains: ${chainIds.join(', ')}`, { chainIds });
+    }
+  };
+
+  const pool = createBlackboxPool(config, fetchFn, log, config.trust ? verify : undefined);
+  if (pool) {
+    await pool.checkHealth();
+    pool.start();
+  }
+  const runDiscovery = (forceRefresh: boolean) => {
+    const options = { cacheTtlMs: config.discoveryCacheTtlMs, forceRefresh, fetch: fetchFn };
+    return pool
+      ? pool.run((url) => discover(url, options))
+      : discover(config.blackboxUrl!, options);
+  };
+
   // Perform discovery if blackboxUrl is provided
-  if (config.blackboxUrl) {
-    log('Performing discovery...');
-    discovery = await discover(config.blackboxUrl, {
-      cacheTtlMs: config.discoveryCacheTtlMs,
-      fetch: fetchFn,
+  if (config.blackboxUrl || pool) {
+    log.info('Performing discovery...', { blackboxUrl: config.blackboxUrl });
+    discovery = await runDiscovery(false);
+    log.info(`Discovery complete. Supported chains: ${discovery.supportedChains.join(', ')}`, {
+      supportedChains: discovery.supportedChains,
     });
-    log(`Discovery complete. Supported chains: ${discovery.supportedChains.join(', ')}`);
 
     // Create read client from discovery if not provided
     if (!config.readClient) {
@@ -404,16 +547,24 @@ export async function createCiferSdk(config: CiferSdkConfig): Promise<CiferSdk>
     }
   }
 
+  if (discovery) {
+    await verify(discovery);
+  }
+
   const blackboxUrl = config.blackboxUrl ?? '';
 
   // Build the SDK instance
   const sdk: CiferSdk = {
     keyManagement: keyManagementNs,
-    blackbox: blackboxNs,
+    blackbox: pool ? createPooledBlackbox(pool) : blackboxNs,
     commitments: commitmentsNs,
-    flows: flowsNs,
+    vault: vaultNs,
+    flows: pool ? createPooledFlows(pool) : flowsNs,
 
-    blackboxUrl,
+    get blackboxUrl() {
+      return pool?.url ?? blackboxUrl;
+    },
+    blackboxPool: pool,
     discovery,
     signer: config.signer,
     readClient,
@@ -439,15 +590,13 @@ export async function createCiferSdk(config: CiferSdkConfig): Promise<CiferSdk>
     },
 
     async refreshDiscovery(): Promise<void> {
-      if (!blackboxUrl) {
+      if (!blackboxUrl && !pool) {
         throw new ConfigError('Cannot refresh discovery: no blackboxUrl configured');
       }
-      discovery = await discover(blackboxUrl, {
-        cacheTtlMs: config.discoveryCacheTtlMs,
-        forceRefresh: true,
-        fetch: fetchFn,
-      });
-      log('Discovery refreshed');
+      const refreshed = await runDiscovery(true);
+      await verify(refreshed);
+      discovery = refreshed;
+      log.info('Discovery refreshed');
     },
   };
 
@@ -486,13 +635,30 @@ export function createCiferSdkSync(
     readClient: ReadClient;
   }
 ): CiferSdk {
+  if (config.retryPolicy) {
+    configureBlackboxHttp(config.retryPolicy);
+  }
+  if (config.hooks) {
+    configureHooks(config.hooks);
+  }
+
+  const log = createSdkLogger(config);
+
+  // Without an initial check, endpoints count as healthy until checked
+  const pool = createBlackboxPool(config, config.fetch, log);
+  pool?.start();
+
   const sdk: CiferSdk = {
     keyManagement: keyManagementNs,
-    blackbox: blackboxNs,
+    blackbox: pool ? createPooledBlackbox(pool) : blackboxNs,
     commitments: commitmentsNs,
-    flows: flowsNs,
+    vault: vaultNs,
+    flows: pool ? createPooledFlows(pool) : flowsNs,
 
-    blackboxUrl: config.blackboxUrl ?? '',
+    get blackboxUrl() {
+      return pool?.url ?? config.blackboxUrl ?? '';
+    },
+    blackboxPool: pool,
     discovery: null,
     signer: config.signer,
     readClient: config.readClient,
@@ -531,3 +697,270 @@ export function createCiferSdkSync(
 
   return sdk;
 }
+
+/**
+ * Apply `logger`, `logLevel` and `redactFields`, returning the SDK's own logger
+ */
+function createSdkLogger(config: CiferSdkConfig): Logger {
+  if (!config.logger) {
+    return getLogger('sdk');
+  }
+  const options = { level: config.logLevel, redactFields: config.redactFields };
+  configureLogger(config.logger, options);
+  return createLogger(config.logger, { ...options, fields: { module: 'sdk' } });
+}
+
+/**
+ * Read client for trust checks: the caller's own, or one built from the
+ * `chainOverrides` RPC URLs, never from the discovery being checked
+ */
+function createTrustReadClient(config: CiferSdkConfig, fetchFn: typeof fetch): ReadClient {
+  if (config.readClient) {
+    return config.readClient;
+  }
+  const rpcUrlByChainId: Record<ChainId, string> = {};
+  for (const [chainIdStr, override] of Object.entries(config.chainOverrides ?? {})) {
+    if (override.rpcUrl) {
+      rpcUrlByChainId[parseInt(chainIdStr, 10)] = override.rpcUrl;
+    }
+  }
+  return new RpcReadClient({ rpcUrlByChainId, fetch: fetchFn });
+}
+
+/**
+ * Controller addresses to verify against: `trust.controllerAddresses`,
+ * falling back to `chainOverrides[].secretsControllerAddress`
+ */
+function getTrustedControllerAddresses(config: CiferSdkConfig): Record<ChainId, Address> {
+  const addresses: Record<ChainId, Address> = {};
+  for (const [chainIdStr, override] of Object.entries(config.chainOverrides ?? {})) {
+    if (override.secretsControllerAddress) {
+      addresses[parseInt(chainIdStr, 10)] = override.secretsControllerAddress;
+    }
+  }
+  return { ...addresses, ...config.trust?.controllerAddresses };
+}
+
+/**
+ * Fail when a chain's enclave check would have to use an RPC URL reported
+ * by the blackbox under verification
+ */
+function assertIndependentRpc(config: CiferSdkConfig, result: DiscoveryResult): void {
+  if (config.readClient || config.trust?.verifyEnclave === false) {
+    return;
+  }
+  const missing = result.chains
+    .map((chain) => chain.chainId)
+    .filter((chainId) => !config.trust?.chainIds || config.trust.chainIds.includes(chainId))
+    .filter((chainId) => !config.chainOverrides?.[chainId]?.rpcUrl);
+  if (missing.length > 0) {
+    throw new ConfigError(
+      `Trust verification needs a readClient or a chainOverrides rpcUrl for chain ${missing.join(', ')}: ` +
+        'RPC URLs from /healthz come from the blackbox being verified'
+    );
+  }
+}
+
+/**
+ * Wrap a call that takes `{ blackboxUrl }` so calls addressed to a pool
+ * endpoint run through pool.run(); other URLs are used as given
+ *
+ * With `failover: false` (calls that start a job, which must not be sent
+ * twice), the call goes to the pool's current endpoint only, and a failure
+ * marks that endpoint unhealthy for the next call.
+ */
+function routeThroughPool<F extends (params: never, ...rest: never[]) => Promise<unknown>>(
+  pool: BlackboxPool,
+  fn: F,
+  options: { failover: boolean } = { failover: true }
+): F {
+  const call = fn as unknown as (
+    params: { blackboxUrl?: string },
+    ...rest: unknown[]
+  ) => Promise<unknown>;
+  return (async (params: { blackboxUrl?: string }, ...rest: unknown[]) => {
+    if (!isPoolEndpoint(pool, params.blackboxUrl)) {
+      return call(params, ...rest);
+    }
+    if (options.failover) {
+      return pool.run((blackboxUrl) => call({ ...params, blackboxUrl }, ...rest));
+    }
+    const blackboxUrl = pool.url;
+    try {
+      return await call({ ...params, blackboxUrl }, ...rest);
+    } catch (error) {
+      if (isFailoverError(error)) {
+        pool.reportFailure(blackboxUrl, error);
+      }
+      throw error;
+    }
+  }) as unknown as F;
+}
+
+/**
+ * Wrap a flow like routeThroughPool(), failing over on a failed result
+ *
+ * Flows report errors in their result instead of throwing, so a result
+ * whose error would fail over is rethrown inside pool.run(). When every
+ * endpoint fails, the last result is returned.
+ */
+function routeFlowThroughPool<A extends unknown[], T>(
+  pool: BlackboxPool,
+  flow: (ctx: FlowContext, ...rest: A) => Promise<FlowResult<T>>,
+  options: { failover: boolean } = { failover: true }
+): (ctx: FlowContext, ...rest: A) => Promise<FlowResult<T>> {
+  return async (ctx, ...rest) => {
+    if (!isPoolEndpoint(pool, ctx.blackboxUrl)) {
+      return flow(ctx, ...rest);
+    }
+    if (!options.failover) {
+      const blackboxUrl = pool.url;
+      const result = await flow({ ...ctx, blackboxUrl }, ...rest);
+      if (!result.success && isFailoverError(result.error)) {
+        pool.reportFailure(blackboxUrl, result.error);
+      }
+      return result;
+    }
+    let failed: FlowResult<T> | undefined;
+    try {
+      return await pool.run(async (blackboxUrl) => {
+        const result = await flow({ ...ctx, blackboxUrl }, ...rest);
+        if (!result.success && isFailoverError(result.error)) {
+          failed = result;
+          throw result.error;
+        }
+        return result;
+      });
+    } catch (error) {
+      if (failed && error === failed.error) {
+        return failed;
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Routing for calls that start a blackbox job
+ */
+const NO_FAILOVER = { failover: false };
+
+function isPoolEndpoint(pool: BlackboxPool, url: string | undefined): boolean {
+  if (!url) {
+    return false;
+  }
+  const normalized = url.replace(/\/$/, '');
+  return pool.getEndpoints().some((endpoint) => endpoint.url === normalized);
+}
+
+/**
+ * The blackbox namespace with endpoint-independent calls routed through the pool
+ */
+function createPooledBlackbox(pool: BlackboxPool): typeof blackboxNs {
+  const { payload, batch, largePayload, files, ciferFile, publicKey } = blackboxNs;
+  const route = <F extends (params: never, ...rest: never[]) => Promise<unknown>>(fn: F) =>
+    routeThroughPool(pool, fn);
+  const pooledCiferFile = {
+    ...ciferFile,
+    encryptFileLocally: route(ciferFile.encryptFileLocally),
+  };
+  const pooledPublicKey = {
+    ...publicKey,
+    getSecretPublicKey: route(publicKey.getSecretPublicKey),
+  };
+  return {
+    ...blackboxNs,
+    payload: {
+      ...payload,
+      encryptPayload: route(payload.encryptPayload),
+      encryptPayloadLocally: route(payload.encryptPayloadLocally),
+      decryptPayload: route(payload.decryptPayload),
+      decryptPayloadBytes: route(payload.decryptPayloadBytes),
+      encryptJson: route(payload.encryptJson),
+      decryptJson: route(payload.decryptJson),
+    },
+    batch: {
+      ...batch,
+      encryptPayloads: route(batch.encryptPayloads),
+      decryptPayloads: route(batch.decryptPayloads),
+    },
+    largePayload: {
+      ...largePayload,
+      encryptLargePayload: route(largePayload.encryptLargePayload),
+      decryptLargePayload: route(largePayload.decryptLargePayload),
+    },
+    files: {
+      ...files,
+      encryptFile: routeThroughPool(pool, files.encryptFile, NO_FAILOVER),
+      decryptFile: routeThroughPool(pool, files.decryptFile, NO_FAILOVER),
+    },
+    ciferFile: pooledCiferFile,
+    encryptFileLocally: pooledCiferFile.encryptFileLocally,
+    publicKey: pooledPublicKey,
+    getSecretPublicKey: pooledPublicKey.getSecretPublicKey,
+  };
+}
+
+/**
+ * The flows namespace with blackbox flows routed through the pool
+ *
+ * File job flows go to one endpoint without failover, since a retry would
+ * start a second job. decryptExistingFileJobFlow() is left alone: its job
+ * lives on one endpoint.
+ */
+function createPooledFlows(pool: BlackboxPool): typeof flowsNs {
+  return {
+    ...flowsNs,
+    encryptThenPrepareCommitTx: routeFlowThroughPool(pool, flowsNs.encryptThenPrepareCommitTx),
+    retrieveFromLogsThenDecrypt: routeFlowThroughPool(pool, flowsNs.retrieveFromLogsThenDecrypt),
+    encryptFileJobFlow: routeFlowThroughPool(pool, flowsNs.encryptFileJobFlow, NO_FAILOVER),
+    decryptFileJobFlow: routeFlowThroughPool(pool, flowsNs.decryptFileJobFlow, NO_FAILOVER),
+  };
+}
+
+/**
+ * Create the endpoint pool for `blackboxUrls`, logging health changes
+ */
+function createBlackboxPool(
+  config: CiferSdkConfig,
+  fetchFn: typeof fetch | undefined,
+  log: Logger,
+  verify?: (discovery: DiscoveryResult, options: RequestOptions) => Promise<void>
+): BlackboxPool | undefined {
+  if (!config.blackboxUrls?.length) {
+    return undefined;
+  }
+
+  const urls = config.blackboxUrl
+    ? [config.blackboxUrl, ...config.blackboxUrls]
+    : config.blackboxUrls;
+  const pool = new BlackboxPool({
+    urls,
+    healthCheckIntervalMs: config.healthCheckIntervalMs,
+    fetch: fetchFn,
+    verify,
+  });
+
+  pool.on('healthChange', (endpoint) => {
+    const fields = { url: endpoint.url, status: endpoint.status, error: endpoint.lastError };
+    if (endpoint.healthy) {
+      log.info(`Blackbox ${endpoint.url} is healthy`, fields);
+    } else {
+      log.warn(`Blackbox ${endpoint.url} is unhealthy`, fields);
+    }
+  });
+  // With trust, the pool has already re-verified a changed endpoint
+  pool.on('change', (endpoint, previous) =>
+    log.warn(
+      `Blackbox ${endpoint.url} changed: status ${endpoint.status}, enclave ${endpoint.enclaveWalletAddress}`,
+      {
+        url: endpoint.url,
+        status: endpoint.status,
+        enclaveWalletAddress: endpoint.enclaveWalletAddress,
+        previousStatus: previous.status,
+        previousEnclaveWalletAddress: previous.enclaveWalletAddress,
+      }
+    )
+  );
+  return pool;
+}
@@ -0,0 +1,248 @@
+/**
+ * @module internal/abi/cifer-vault
+ * @description ABI and encoding utilities for CiferVaultOnChain
+ *
+ * CiferVaultOnChain implements ICiferEncrypted and stores one commitment
+ * per (user, key) pair. Events are shared with ICiferEncrypted; see
+ * CIFER_ENCRYPTED_ABI.
+ */
+
+import type { Hex } from '../../types/common.js';
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeFunctionData,
+  getFunctionSelector,
+  type AbiParameter,
+} from './codec.js';
+
+/**
+ * CiferVaultOnChain ABI - functions and custom errors
+ *
+ * Matches docs/CiferVaultOnChain.abi.json, without events and the
+ * proxy-only `initialize()`.
+ */
+export const CIFER_VAULT_ABI = [
+  // Constants
+  {
+    type: 'function',
+    name: 'CIFER_ENVELOPE_BYTES',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'MAX_PAYLOAD_BYTES',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+  },
+  // Reads
+  {
+    type: 'function',
+    name: 'ciferDataExists',
+    inputs: [{ name: 'dataId', type: 'bytes32' }],
+    outputs: [{ name: 'exists', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'computeDataId',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'key', type: 'bytes32' },
+    ],
+    outputs: [{ name: 'dataId', type: 'bytes32' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'function',
+    name: 'getCIFERMetadata',
+    inputs: [{ name: 'dataId', type: 'bytes32' }],
+    outputs: [
+      { name: 'secretId', type: 'uint256' },
+      { name: 'storedAtBlock', type: 'uint64' },
+      { name: 'ciferHash', type: 'bytes32' },
+      { name: 'encryptedMessageHash', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getUserMetadata',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'key', type: 'bytes32' },
+    ],
+    outputs: [
+      { name: 'secretId', type: 'uint256' },
+      { name: 'storedAtBlock', type: 'uint64' },
+      { name: 'ciferHash', type: 'bytes32' },
+      { name: 'encryptedMessageHash', type: 'bytes32' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'hasData',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'key', type: 'bytes32' },
+    ],
+    outputs: [{ name: 'exists', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'userSecretId',
+    inputs: [{ name: '', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  // Writes
+  {
+    type: 'function',
+    name: 'deleteData',
+    inputs: [{ name: 'key', type: 'bytes32' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setSecretId',
+    inputs: [{ name: 'secretId', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'store',
+    inputs: [
+      { name: 'key', type: 'bytes32' },
+      { name: 'encryptedMessage', type: 'bytes' },
+      { name: 'cifer', type: 'bytes' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'storeWithSecretId',
+    inputs: [
+      { name: 'key', type: 'bytes32' },
+      { name: 'secretId', type: 'uint256' },
+      { name: 'encryptedMessage', type: 'bytes' },
+      { name: 'cifer', type: 'bytes' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'transferOwnership',
+    inputs: [{ name: 'newOwner', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  // Errors
+  { type: 'error', name: 'AlreadyOwner', inputs: [] },
+  {
+    type: 'error',
+    name: 'BadEnvelopeSize',
+    inputs: [
+      { name: 'got', type: 'uint256' },
+      { name: 'expected', type: 'uint256' },
+    ],
+  },
+  { type: 'error', name: 'DataNotFound', inputs: [] },
+  { type: 'error', name: 'EmptyEnvelope', inputs: [] },
+  { type: 'error', name: 'EmptyPayload', inputs: [] },
+  { type: 'error', name: 'InvalidDataId', inputs: [] },
+  { type: 'error', name: 'InvalidInitialization', inputs: [] },
+  { type: 'error', name: 'InvalidSecretId', inputs: [] },
+  { type: 'error', name: 'NotInitializing', inputs: [] },
+  { type: 'error', name: 'NotOwner', inputs: [] },
+  {
+    type: 'error',
+    name: 'PayloadTooLarge',
+    inputs: [
+      { name: 'got', type: 'uint256' },
+      { name: 'maxAllowed', type: 'uint256' },
+    ],
+  },
+  { type: 'error', name: 'SecretIdNotSet', inputs: [] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+] as const;
+
+type VaultAbiItem = (typeof CIFER_VAULT_ABI)[number];
+
+/**
+ * Names of CiferVaultOnChain functions
+ */
+export type VaultFunctionName = Extract<VaultAbiItem, { type: 'function' }>['name'];
+
+/**
+ * Names of CiferVaultOnChain custom errors
+ */
+export type VaultErrorName = Extract<VaultAbiItem, { type: 'error' }>['name'];
+
+function vaultFunction(name: VaultFunctionName) {
+  return CIFER_VAULT_ABI.find((item) => item.type === 'function' && item.name === name)!;
+}
+
+/**
+ * Encode a CiferVaultOnChain call
+ *
+ * @param name - Function name
+ * @param args - One value per input
+ */
+export function encodeVaultCall(name: VaultFunctionName, args: readonly unknown[]): Hex {
+  return encodeFunctionData(vaultFunction(name), args);
+}
+
+/**
+ * Decode a CiferVaultOnChain function's return data
+ *
+ * @param name - Function name
+ * @param data - Return data from `eth_call`
+ */
+export function decodeVaultResult(name: VaultFunctionName, data: Hex): unknown[] {
+  return decodeFunctionResult(vaultFunction(name), data);
+}
+
+const VAULT_ERRORS = new Map<string, { name: VaultErrorName; inputs: readonly AbiParameter[] }>(
+  CIFER_VAULT_ABI.filter((item) => item.type === 'error').map((item) => [
+    getFunctionSelector(item),
+    { name: item.name as VaultErrorName, inputs: item.inputs },
+  ])
+);
+
+/**
+ * Decode CiferVaultOnChain revert data
+ *
+ * @param data - Revert data (selector followed by the error arguments)
+ * @returns The error name and arguments keyed by input name, or undefined
+ *   when the selector is not a vault error
+ */
+export function decodeVaultRevertData(
+  data: Hex
+): { name: VaultErrorName; args: Record<string, unknown> } | undefined {
+  const error = VAULT_ERRORS.get(data.slice(0, 10).toLowerCase());
+  if (!error) {
+    return undefined;
+  }
+  const values = decodeAbiParameters(error.inputs, `0x${data.slice(10)}` as Hex);
+  const args: Record<string, unknown> = {};
+  error.inputs.forEach((input, i) => {
+    args[input.name ?? String(i)] = values[i];
+  });
+  return { name: error.name, args };
+}
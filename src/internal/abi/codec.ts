@@ -0,0 +1,487 @@
+/**
+ * @module internal/abi/codec
+ * @description General Solidity ABI encoder and decoder
+ *
+ * Supports `uint<N>`, `int<N>`, `address`, `bool`, `bytes<N>`, `bytes`,
+ * `string`, fixed and dynamic arrays (`T[k]`, `T[]`) and tuples, nested to
+ * any depth, following the Solidity contract ABI specification.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import type { Hex } from '../../types/common.js';
+import { AbiCodingError } from '../errors/index.js';
+import { bytesToHex, toHexDigits } from '../encoding/index.js';
+
+/**
+ * A function input or output, as it appears in a JSON ABI
+ */
+export interface AbiParameter {
+  /** Parameter name (may be empty) */
+  name?: string;
+  /** Solidity type, e.g. `uint64`, `string[]` or `tuple` */
+  type: string;
+  /** Tuple components, for `tuple`, `tuple[]` and `tuple[k]` */
+  components?: readonly AbiParameter[];
+}
+
+/**
+ * A function description: enough of a JSON ABI item to encode a call
+ */
+export interface AbiFunctionLike {
+  /** Function name */
+  name: string;
+  /** Function inputs */
+  inputs: readonly AbiParameter[];
+  /** Function outputs */
+  outputs?: readonly AbiParameter[];
+}
+
+type ParsedType =
+  | { kind: 'uint' | 'int'; bits: number; canonical: string }
+  | { kind: 'address' | 'bool' | 'bytes' | 'string'; canonical: string }
+  | { kind: 'fixedBytes'; size: number; canonical: string }
+  | { kind: 'array'; element: ParsedType; length?: number; canonical: string }
+  | {
+      kind: 'tuple';
+      components: Array<{ name?: string; type: ParsedType }>;
+      canonical: string;
+    };
+
+const WORD_CHARS = 64;
+const TWO_256 = 1n << 256n;
+
+/**
+ * ABI-encode values for a list of parameters
+ *
+ * Values by type:
+ * - integers: `bigint`, safe-integer `number`, or a decimal/hex string
+ * - `address`, `bytes<N>`: hex strings; `bytes`: hex string or Uint8Array
+ * - `bool`: boolean; `string`: string
+ * - arrays: arrays
+ * - tuples: arrays in component order, or objects keyed by component name
+ *
+ * @param params - Parameter types
+ * @param values - One value per parameter
+ * @returns The encoding, without a selector
+ * @throws AbiCodingError when a value does not fit its type
+ *
+ * @example
+ * ```typescript
+ * encodeAbiParameters(
+ *   [{ type: 'string' }, { type: 'uint64' }],
+ *   ['hello', 1700000000n]
+ * );
+ * ```
+ */
+export function encodeAbiParameters(
+  params: readonly AbiParameter[],
+  values: readonly unknown[]
+): Hex {
+  if (params.length !== values.length) {
+    throw new AbiCodingError(
+      `expected ${params.length} values, got ${values.length}`,
+      `(${params.map((p) => p.type).join(',')})`
+    );
+  }
+  return `0x${encodeSequence(params.map(parseParameter), values)}` as Hex;
+}
+
+/**
+ * Decode ABI-encoded data for a list of parameters
+ *
+ * Integers decode to `bigint`, addresses and bytes to lower-case hex
+ * strings, tuples to objects keyed by component name (arrays when any
+ * component is unnamed).
+ *
+ * @param params - Parameter types
+ * @param data - The encoded data, without a selector
+ * @returns One value per parameter
+ * @throws AbiCodingError when the data is malformed or too short
+ */
+export function decodeAbiParameters(params: readonly AbiParameter[], data: Hex): unknown[] {
+  const clean = data.startsWith('0x') ? data.slice(2) : data;
+  return decodeSequence(params.map(parseParameter), clean.toLowerCase(), 0);
+}
+
+/**
+ * Get the canonical signature of a function, e.g. `store(bytes32,(string,uint64)[])`
+ *
+ * @param fn - The function
+ */
+export function getFunctionSignature(fn: Pick<AbiFunctionLike, 'name' | 'inputs'>): string {
+  return `${fn.name}(${fn.inputs.map((input) => parseParameter(input).canonical).join(',')})`;
+}
+
+/**
+ * Get a function's 4-byte selector: the first bytes of keccak256 of its signature
+ *
+ * @param fn - The function
+ * @returns The selector as `0x`-prefixed hex
+ */
+export function getFunctionSelector(fn: Pick<AbiFunctionLike, 'name' | 'inputs'>): Hex {
+  const hash = keccak_256(new TextEncoder().encode(getFunctionSignature(fn)));
+  return bytesToHex(hash.subarray(0, 4));
+}
+
+/**
+ * Encode a function call: selector followed by the encoded arguments
+ *
+ * @param fn - The function
+ * @param args - One value per input
+ * @returns Calldata
+ * @throws AbiCodingError when an argument does not fit its type
+ */
+export function encodeFunctionData(fn: AbiFunctionLike, args: readonly unknown[]): Hex {
+  return `${getFunctionSelector(fn)}${encodeAbiParameters(fn.inputs, args).slice(2)}` as Hex;
+}
+
+/**
+ * Decode a function's return data
+ *
+ * @param fn - The function (its `outputs` are used)
+ * @param data - Return data from `eth_call`
+ * @returns One value per output
+ * @throws AbiCodingError when the data is malformed or too short
+ */
+export function decodeFunctionResult(fn: AbiFunctionLike, data: Hex): unknown[] {
+  return decodeAbiParameters(fn.outputs ?? [], data);
+}
+
+// ============================================================================
+// Type parsing
+// ============================================================================
+
+function parseParameter(param: AbiParameter): ParsedType {
+  return parseType(param.type, param.components);
+}
+
+function parseType(type: string, components?: readonly AbiParameter[]): ParsedType {
+  const array = /^(.*)\[(\d*)\]$/.exec(type);
+  if (array) {
+    const element = parseType(array[1], components);
+    const length = array[2] === '' ? undefined : Number(array[2]);
+    return { kind: 'array', element, length, canonical: `${element.canonical}[${array[2]}]` };
+  }
+
+  if (type === 'tuple') {
+    if (!components) {
+      throw new AbiCodingError('tuple has no components', type);
+    }
+    const parsed = components.map((c) => ({ name: c.name, type: parseParameter(c) }));
+    return {
+      kind: 'tuple',
+      components: parsed,
+      canonical: `(${parsed.map((c) => c.type.canonical).join(',')})`,
+    };
+  }
+
+  if (type === 'address' || type === 'bool' || type === 'bytes' || type === 'string') {
+    return { kind: type, canonical: type };
+  }
+
+  const integer = /^(u?)int(\d*)$/.exec(type);
+  if (integer) {
+    const bits = integer[2] === '' ? 256 : Number(integer[2]);
+    if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+      throw new AbiCodingError('invalid integer size', type);
+    }
+    const kind = integer[1] === 'u' ? 'uint' : 'int';
+    return { kind, bits, canonical: `${kind}${bits}` };
+  }
+
+  const fixedBytes = /^bytes(\d+)$/.exec(type);
+  if (fixedBytes) {
+    const size = Number(fixedBytes[1]);
+    if (size < 1 || size > 32) {
+      throw new AbiCodingError('invalid bytes size', type);
+    }
+    return { kind: 'fixedBytes', size, canonical: type };
+  }
+
+  throw new AbiCodingError('unsupported type', type);
+}
+
+function isDynamic(type: ParsedType): boolean {
+  switch (type.kind) {
+    case 'bytes':
+    case 'string':
+      return true;
+    case 'array':
+      return type.length === undefined || isDynamic(type.element);
+    case 'tuple':
+      return type.components.some((c) => isDynamic(c.type));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Size of a static type's encoding, in bytes
+ */
+function staticSize(type: ParsedType): number {
+  if (type.kind === 'tuple') {
+    return type.components.reduce((size, c) => size + staticSize(c.type), 0);
+  }
+  if (type.kind === 'array') {
+    return type.length! * staticSize(type.element);
+  }
+  return 32;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function encodeSequence(types: ParsedType[], values: readonly unknown[]): string {
+  const heads: string[] = [];
+  const tails: string[] = [];
+  let offset = types.reduce((size, type) => size + (isDynamic(type) ? 32 : staticSize(type)), 0);
+
+  types.forEach((type, i) => {
+    const encoded = encodeValue(type, values[i]);
+    if (isDynamic(type)) {
+      heads.push(encodeWord(BigInt(offset)));
+      tails.push(encoded);
+      offset += encoded.length / 2;
+    } else {
+      heads.push(encoded);
+    }
+  });
+
+  return heads.join('') + tails.join('');
+}
+
+function encodeValue(type: ParsedType, value: unknown): string {
+  switch (type.kind) {
+    case 'uint':
+    case 'int': {
+      const n = toBigInt(value, type.canonical);
+      const limit = 1n << BigInt(type.kind === 'uint' ? type.bits : type.bits - 1);
+      const min = type.kind === 'uint' ? 0n : -limit;
+      if (n < min || n >= limit) {
+        throw new AbiCodingError(`value ${n} out of range`, type.canonical);
+      }
+      return encodeWord(n < 0n ? n + TWO_256 : n);
+    }
+    case 'address': {
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+        throw new AbiCodingError(`expected a 20-byte hex address, got ${describe(value)}`, 'address');
+      }
+      return value.slice(2).toLowerCase().padStart(WORD_CHARS, '0');
+    }
+    case 'bool': {
+      if (typeof value !== 'boolean') {
+        throw new AbiCodingError(`expected a boolean, got ${describe(value)}`, 'bool');
+      }
+      return encodeWord(value ? 1n : 0n);
+    }
+    case 'fixedBytes': {
+      const hex = toHexData(value, type.canonical);
+      if (hex.length !== type.size * 2) {
+        throw new AbiCodingError(`expected ${type.size} bytes, got ${hex.length / 2}`, type.canonical);
+      }
+      return hex.padEnd(WORD_CHARS, '0');
+    }
+    case 'bytes':
+      return encodeDynamicBytes(toHexData(value, 'bytes'));
+    case 'string': {
+      if (typeof value !== 'string') {
+        throw new AbiCodingError(`expected a string, got ${describe(value)}`, 'string');
+      }
+      return encodeDynamicBytes(toHexDigits(new TextEncoder().encode(value)));
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        throw new AbiCodingError(`expected an array, got ${describe(value)}`, type.canonical);
+      }
+      if (type.length !== undefined && value.length !== type.length) {
+        throw new AbiCodingError(
+          `expected ${type.length} elements, got ${value.length}`,
+          type.canonical
+        );
+      }
+      const elements = encodeSequence(
+        value.map(() => type.element),
+        value
+      );
+      return type.length === undefined ? encodeWord(BigInt(value.length)) + elements : elements;
+    }
+    case 'tuple':
+      return encodeSequence(
+        type.components.map((c) => c.type),
+        tupleValues(type, value)
+      );
+  }
+}
+
+/**
+ * Tuple values in component order, from an array or an object keyed by name
+ */
+function tupleValues(
+  type: Extract<ParsedType, { kind: 'tuple' }>,
+  value: unknown
+): readonly unknown[] {
+  if (Array.isArray(value)) {
+    if (value.length !== type.components.length) {
+      throw new AbiCodingError(
+        `expected ${type.components.length} components, got ${value.length}`,
+        type.canonical
+      );
+    }
+    return value;
+  }
+  if (value === null || typeof value !== 'object') {
+    throw new AbiCodingError(`expected an array or object, got ${describe(value)}`, type.canonical);
+  }
+  const record = value as Record<string, unknown>;
+  return type.components.map((c) => {
+    if (!c.name || !(c.name in record)) {
+      throw new AbiCodingError(`missing component '${c.name ?? ''}'`, type.canonical);
+    }
+    return record[c.name];
+  });
+}
+
+function encodeDynamicBytes(hex: string): string {
+  const padded = hex.padEnd(Math.ceil(hex.length / WORD_CHARS) * WORD_CHARS, '0');
+  return encodeWord(BigInt(hex.length / 2)) + padded;
+}
+
+function encodeWord(value: bigint): string {
+  return value.toString(16).padStart(WORD_CHARS, '0');
+}
+
+function toBigInt(value: unknown, type: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value)) {
+    return BigInt(value);
+  }
+  throw new AbiCodingError(`expected an integer, got ${describe(value)}`, type);
+}
+
+/**
+ * Hex digits (no prefix) of a hex string or byte array
+ */
+function toHexData(value: unknown, type: string): string {
+  if (value instanceof Uint8Array) {
+    return toHexDigits(value);
+  }
+  if (typeof value === 'string' && /^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    return value.slice(2).toLowerCase();
+  }
+  throw new AbiCodingError(`expected hex bytes, got ${describe(value)}`, type);
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.length > 20 ? `'${value.slice(0, 20)}...'` : `'${value}'`;
+  }
+  return value === null ? 'null' : typeof value;
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode a head/tail sequence starting at `start` (in hex chars)
+ */
+function decodeSequence(types: ParsedType[], data: string, start: number): unknown[] {
+  let position = start;
+  return types.map((type) => {
+    if (isDynamic(type)) {
+      const offset = readLength(data, position, type.canonical);
+      position += WORD_CHARS;
+      return decodeValue(type, data, start + offset * 2);
+    }
+    const value = decodeValue(type, data, position);
+    position += staticSize(type) * 2;
+    return value;
+  });
+}
+
+function decodeValue(type: ParsedType, data: string, position: number): unknown {
+  switch (type.kind) {
+    case 'uint':
+      return BigInt(`0x${readWord(data, position, type.canonical)}`);
+    case 'int': {
+      const n = BigInt(`0x${readWord(data, position, type.canonical)}`);
+      return n >= TWO_256 / 2n ? n - TWO_256 : n;
+    }
+    case 'address':
+      return `0x${readWord(data, position, 'address').slice(24)}`;
+    case 'bool':
+      return BigInt(`0x${readWord(data, position, 'bool')}`) !== 0n;
+    case 'fixedBytes':
+      return `0x${readWord(data, position, type.canonical).slice(0, type.size * 2)}`;
+    case 'bytes':
+      return `0x${readDynamicBytes(data, position, 'bytes')}`;
+    case 'string':
+      return new TextDecoder().decode(fromHex(readDynamicBytes(data, position, 'string')));
+    case 'array': {
+      let start = position;
+      let length = type.length;
+      if (length === undefined) {
+        length = readLength(data, position, type.canonical);
+        start += WORD_CHARS;
+      }
+      // Every element takes at least one word, which bounds a bogus length
+      if (start + length * WORD_CHARS > data.length) {
+        throw new AbiCodingError('data too short for array length', type.canonical);
+      }
+      return decodeSequence(
+        Array.from({ length }, () => type.element),
+        data,
+        start
+      );
+    }
+    case 'tuple': {
+      const values = decodeSequence(
+        type.components.map((c) => c.type),
+        data,
+        position
+      );
+      if (type.components.some((c) => !c.name)) {
+        return values;
+      }
+      return Object.fromEntries(type.components.map((c, i) => [c.name, values[i]]));
+    }
+  }
+}
+
+function readWord(data: string, position: number, type: string): string {
+  if (position < 0 || position + WORD_CHARS > data.length) {
+    throw new AbiCodingError('data too short', type);
+  }
+  return data.slice(position, position + WORD_CHARS);
+}
+
+function readLength(data: string, position: number, type: string): number {
+  const n = BigInt(`0x${readWord(data, position, type)}`);
+  if (n > BigInt(data.length)) {
+    throw new AbiCodingError(`offset or length ${n} out of bounds`, type);
+  }
+  return Number(n);
+}
+
+function readDynamicBytes(data: string, position: number, type: string): string {
+  const length = readLength(data, position, type);
+  const start = position + WORD_CHARS;
+  if (start + length * 2 > data.length) {
+    throw new AbiCodingError('data too short', type);
+  }
+  return data.slice(start, start + length * 2);
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
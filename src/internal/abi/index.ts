@@ -16,12 +16,16 @@ export {
   encodeGetDelegate,
   encodeGetSecretsByWallet,
   encodeGetSecretsCountByWallet,
+  encodeIsBlackBoxWhitelisted,
+  encodeGetAllBlackBoxes,
   decodeSecretCreationFee,
   decodeGetSecretState,
   decodeGetSecretOwner,
   decodeGetDelegate,
   decodeGetSecretsByWallet,
   decodeGetSecretsCountByWallet,
+  decodeIsBlackBoxWhitelisted,
+  decodeGetAllBlackBoxes,
   decodeSecretCreatedEvent,
   decodeSecretSyncedEvent,
   decodeDelegateUpdatedEvent,
@@ -52,3 +56,23 @@ export {
   type DecodedCIFERDataEvent,
   type DecodedCIFERDataDeletedEvent,
 } from './cifer-encrypted.js';
+
+export {
+  CIFER_VAULT_ABI,
+  encodeVaultCall,
+  decodeVaultResult,
+  decodeVaultRevertData,
+  type VaultFunctionName,
+  type VaultErrorName,
+} from './cifer-vault.js';
+
+export {
+  encodeAbiParameters,
+  decodeAbiParameters,
+  encodeFunctionData,
+  decodeFunctionResult,
+  getFunctionSignature,
+  getFunctionSelector,
+  type AbiParameter,
+  type AbiFunctionLike,
+} from './codec.js';
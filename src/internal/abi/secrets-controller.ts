@@ -80,6 +80,20 @@ export const SECRETS_CONTROLLER_ABI = [
     ],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'isBlackBoxWhitelisted',
+    inputs: [{ name: 'blackBox', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getAllBlackBoxes',
+    inputs: [],
+    outputs: [{ name: '', type: 'address[]' }],
+    stateMutability: 'view',
+  },
   // Write functions
   {
     type: 'function',
@@ -159,6 +173,8 @@ export const SECRETS_CONTROLLER_SELECTORS = {
   getDelegate: '0xdcc66cc2' as Hex,
   getSecretsByWallet: '0xfb618966' as Hex,
   getSecretsCountByWallet: '0xe55a2c36' as Hex,
+  isBlackBoxWhitelisted: '0xbe67261d' as Hex,
+  getAllBlackBoxes: '0x7b21452d' as Hex,
   // Writes
   createSecret: '0xc9354af2' as Hex,
   setDelegate: '0x94dcf2e6' as Hex,
@@ -282,6 +298,22 @@ export function encodeGetSecretsCountByWallet(wallet: Address): Hex {
   return `0x${selector}${walletEncoded}` as Hex;
 }
 
+/**
+ * Encode isBlackBoxWhitelisted(address blackBox) call data
+ */
+export function encodeIsBlackBoxWhitelisted(blackBox: Address): Hex {
+  const selector = SECRETS_CONTROLLER_SELECTORS.isBlackBoxWhitelisted.slice(2);
+  const blackBoxEncoded = encodeAddress(blackBox);
+  return `0x${selector}${blackBoxEncoded}` as Hex;
+}
+
+/**
+ * Encode getAllBlackBoxes() call data
+ */
+export function encodeGetAllBlackBoxes(): Hex {
+  return SECRETS_CONTROLLER_SELECTORS.getAllBlackBoxes;
+}
+
 // ============================================================================
 // ABI Decoding Utilities
 // ============================================================================
@@ -454,6 +486,31 @@ export function decodeGetSecretsCountByWallet(
   };
 }
 
+/**
+ * Decode isBlackBoxWhitelisted() return value
+ */
+export function decodeIsBlackBoxWhitelisted(data: Hex): boolean {
+  const clean = data.replace('0x', '');
+  return decodeBool(clean.slice(0, 64));
+}
+
+/**
+ * Decode getAllBlackBoxes() return value
+ */
+export function decodeGetAllBlackBoxes(data: Hex): Address[] {
+  const clean = data.replace('0x', '');
+
+  const offset = Number(decodeUint256(clean.slice(0, 64))) * 2;
+  const length = Number(decodeUint256(clean.slice(offset, offset + 64)));
+  const blackBoxes: Address[] = [];
+  for (let i = 0; i < length; i++) {
+    blackBoxes.push(
+      decodeAddress(clean.slice(offset + 64 + i * 64, offset + 128 + i * 64))
+    );
+  }
+  return blackBoxes;
+}
+
 // ============================================================================
 // Event Decoding
 // ============================================================================
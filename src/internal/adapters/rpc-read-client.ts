@@ -3,7 +3,7 @@
  * @description RPC read client for blockchain queries
  */
 
-import type { Address, ChainId, Hex, Log, LogFilter } from '../../types/common.js';
+import type { Address, ChainId, Hex, Log, LogFilter, RequestOptions } from '../../types/common.js';
 import { WEB2_CHAIN_ID } from '../../types/common.js';
 import type {
   ReadClient,
@@ -11,6 +11,7 @@ import type {
   RpcReadClientConfig,
 } from '../../types/adapters.js';
 import { ConfigError } from '../errors/index.js';
+import { createDeadline, withHooks, originOf } from '../http/index.js';
 
 /**
  * JSON-RPC request structure
@@ -62,6 +63,10 @@ interface JsonRpcResponse<T = unknown> {
 export class RpcReadClient implements ReadClient {
   private rpcUrlByChainId: Record<ChainId, string>;
   private fetchFn: typeof fetch;
+  private timeoutMs?: number;
+  private maxBlockRange?: number;
+  private maxBlockRangeByChainId: Record<ChainId, number>;
+  private learnedBlockRange: Record<ChainId, number> = {};
   private requestId = 0;
 
   /**
@@ -72,6 +77,9 @@ export class RpcReadClient implements ReadClient {
   constructor(config: RpcReadClientConfig) {
     this.rpcUrlByChainId = { ...config.rpcUrlByChainId };
     this.fetchFn = config.fetch ?? globalThis.fetch.bind(globalThis);
+    this.timeoutMs = config.timeoutMs;
+    this.maxBlockRange = config.maxBlockRange;
+    this.maxBlockRangeByChainId = { ...config.maxBlockRangeByChainId };
   }
 
   /**
@@ -84,6 +92,21 @@ export class RpcReadClient implements ReadClient {
     this.rpcUrlByChainId[chainId] = rpcUrl;
   }
 
+  /**
+   * Set the largest block span sent in one eth_getLogs for a chain
+   *
+   * @param chainId - The chain ID
+   * @param maxBlockRange - The span in blocks, or undefined to remove the limit
+   */
+  setMaxBlockRange(chainId: ChainId, maxBlockRange: number | undefined): void {
+    if (maxBlockRange === undefined) {
+      delete this.maxBlockRangeByChainId[chainId];
+    } else {
+      this.maxBlockRangeByChainId[chainId] = maxBlockRange;
+    }
+    delete this.learnedBlockRange[chainId];
+  }
+
   /**
    * Get the current block number for a chain.
    *
@@ -92,24 +115,128 @@ export class RpcReadClient implements ReadClient {
    * timestamp-based freshness value the blackbox expects.
    *
    * @param chainId - The chain ID
+   * @param options - Optional cancellation (`signal`, `timeoutMs`)
    * @returns The current block number (or timestamp for Web2)
    */
-  async getBlockNumber(chainId: ChainId): Promise<number> {
+  async getBlockNumber(chainId: ChainId, options?: RequestOptions): Promise<number> {
     if (chainId === WEB2_CHAIN_ID) {
       return Date.now();
     }
-    const result = await this.rpcCall<Hex>(chainId, 'eth_blockNumber', []);
+    const result = await this.rpcCall<Hex>(chainId, 'eth_blockNumber', [], options);
     return parseInt(result, 16);
   }
 
   /**
    * Get logs matching a filter
    *
+   * Ranges wider than the chain's max block range are split into
+   * consecutive queries. When the node rejects a range as too wide or as
+   * returning too many results, the range is halved until it succeeds;
+   * after a too-wide error, later queries on the chain use the smaller
+   * span. Results are merged in block order.
+   *
    * @param chainId - The chain ID
    * @param filter - The log filter
+   * @param options - Optional cancellation (`signal`, `timeoutMs` for the whole call)
    * @returns Array of matching logs
    */
-  async getLogs(chainId: ChainId, filter: LogFilter): Promise<Log[]> {
+  async getLogs(
+    chainId: ChainId,
+    filter: LogFilter,
+    options?: RequestOptions
+  ): Promise<Log[]> {
+    const { fromBlock, toBlock } = filter;
+    if (typeof fromBlock !== 'number') {
+      return this.fetchLogs(chainId, filter, options);
+    }
+
+    const deadline = createDeadline({ signal: options?.signal, timeoutMs: options?.timeoutMs });
+    const callOptions = { signal: deadline.signal };
+
+    return deadline.run(
+      (async () => {
+        if (typeof toBlock === 'number') {
+          return this.getLogsInRange(chainId, filter, fromBlock, toBlock, callOptions);
+        }
+        // Open-ended range: only resolve the head when the range may need splitting
+        if (this.getMaxBlockRange(chainId) === undefined) {
+          try {
+            return await this.fetchLogs(chainId, filter, callOptions);
+          } catch (error) {
+            if (!getLogRangeLimit(error)) {
+              throw error;
+            }
+          }
+        }
+        const head = await this.getBlockNumber(chainId, callOptions);
+        return this.getLogsInRange(chainId, filter, fromBlock, head, callOptions);
+      })()
+    );
+  }
+
+  /**
+   * Get logs for fromBlock..toBlock, splitting the range as needed
+   */
+  private async getLogsInRange(
+    chainId: ChainId,
+    filter: LogFilter,
+    fromBlock: number,
+    toBlock: number,
+    options: RequestOptions
+  ): Promise<Log[]> {
+    const maxRange = this.getMaxBlockRange(chainId);
+    if (maxRange !== undefined && toBlock - fromBlock + 1 > maxRange) {
+      const logs: Log[] = [];
+      for (let start = fromBlock; start <= toBlock; start += maxRange) {
+        const end = Math.min(toBlock, start + maxRange - 1);
+        logs.push(...(await this.getLogsInRange(chainId, filter, start, end, options)));
+      }
+      return logs;
+    }
+
+    try {
+      return await this.fetchLogs(chainId, { ...filter, fromBlock, toBlock }, options);
+    } catch (error) {
+      const limit = getLogRangeLimit(error);
+      if (fromBlock >= toBlock || !limit) {
+        throw error;
+      }
+      const middle = fromBlock + Math.floor((toBlock - fromBlock) / 2);
+      // A span limit applies to every range on the chain; a result limit
+      // only to this busy one
+      if (limit === 'span') {
+        this.learnedBlockRange[chainId] = Math.min(
+          this.learnedBlockRange[chainId] ?? Infinity,
+          middle - fromBlock + 1
+        );
+      }
+      return [
+        ...(await this.getLogsInRange(chainId, filter, fromBlock, middle, options)),
+        ...(await this.getLogsInRange(chainId, filter, middle + 1, toBlock, options)),
+      ];
+    }
+  }
+
+  /**
+   * The smaller of the configured and learned max block range for a chain
+   */
+  private getMaxBlockRange(chainId: ChainId): number | undefined {
+    const configured = this.maxBlockRangeByChainId[chainId] ?? this.maxBlockRange;
+    const learned = this.learnedBlockRange[chainId];
+    if (configured === undefined || learned === undefined) {
+      return configured ?? learned;
+    }
+    return Math.min(configured, learned);
+  }
+
+  /**
+   * Send one eth_getLogs request
+   */
+  private async fetchLogs(
+    chainId: ChainId,
+    filter: LogFilter,
+    options?: RequestOptions
+  ): Promise<Log[]> {
     const rpcFilter: Record<string, unknown> = {};
 
     if (filter.address) {
@@ -134,9 +261,12 @@ export class RpcReadClient implements ReadClient {
           : `0x${filter.toBlock.toString(16)}`;
     }
 
-    const result = await this.rpcCall<RpcLog[]>(chainId, 'eth_getLogs', [
-      rpcFilter,
-    ]);
+    const result = await this.rpcCall<RpcLog[]>(
+      chainId,
+      'eth_getLogs',
+      [rpcFilter],
+      options
+    );
 
     return result.map((log) => ({
       address: log.address as Address,
@@ -154,9 +284,14 @@ export class RpcReadClient implements ReadClient {
    *
    * @param chainId - The chain ID
    * @param callRequest - The call request
+   * @param options - Optional cancellation (`signal`, `timeoutMs`)
    * @returns The return data as a hex string
    */
-  async call(chainId: ChainId, callRequest: CallRequest): Promise<Hex> {
+  async call(
+    chainId: ChainId,
+    callRequest: CallRequest,
+    options?: RequestOptions
+  ): Promise<Hex> {
     const rpcCall: Record<string, unknown> = {
       to: callRequest.to,
       data: callRequest.data,
@@ -169,10 +304,12 @@ export class RpcReadClient implements ReadClient {
           ? `0x${callRequest.blockTag.toString(16)}`
           : callRequest.blockTag;
 
-    const result = await this.rpcCall<Hex>(chainId, 'eth_call', [
-      rpcCall,
-      blockTag,
-    ]);
+    const result = await this.rpcCall<Hex>(
+      chainId,
+      'eth_call',
+      [rpcCall, blockTag],
+      options
+    );
 
     return result;
   }
@@ -197,9 +334,32 @@ export class RpcReadClient implements ReadClient {
   private async rpcCall<T>(
     chainId: ChainId,
     method: string,
-    params: unknown[]
+    params: unknown[],
+    options?: RequestOptions
   ): Promise<T> {
     const rpcUrl = this.getRpcUrl(chainId);
+    const deadline = createDeadline({
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs ?? this.timeoutMs,
+    });
+    return withHooks(
+      { kind: 'rpc', endpoint: method, origin: originOf(rpcUrl), chainId, attempt: 1 },
+      (onResponse) =>
+        deadline.run(this.send<T>(chainId, rpcUrl, method, params, deadline.signal, onResponse))
+    );
+  }
+
+  /**
+   * Send a JSON-RPC request and unwrap its result
+   */
+  private async send<T>(
+    chainId: ChainId,
+    rpcUrl: string,
+    method: string,
+    params: unknown[],
+    signal: AbortSignal | undefined,
+    onResponse: (status: number) => void
+  ): Promise<T> {
     const id = ++this.requestId;
 
     const request: JsonRpcRequest = {
@@ -217,6 +377,7 @@ export class RpcReadClient implements ReadClient {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(request),
+        signal,
       });
     } catch (error) {
       throw new ConfigError(
@@ -224,6 +385,7 @@ export class RpcReadClient implements ReadClient {
         error instanceof Error ? error : undefined
       );
     }
+    onResponse(response.status);
 
     if (!response.ok) {
       throw new ConfigError(
@@ -242,8 +404,11 @@ export class RpcReadClient implements ReadClient {
     }
 
     if (json.error) {
+      // Keep the node's error object as the cause so revert data
+      // (`error.data`) stays available to decoders like vault.decodeVaultError()
       throw new ConfigError(
-        `RPC error: ${json.error.message} (code: ${json.error.code})`
+        `RPC error: ${json.error.message} (code: ${json.error.code})`,
+        Object.assign(new Error(json.error.message), json.error)
       );
     }
 
@@ -255,6 +420,53 @@ export class RpcReadClient implements ReadClient {
   }
 }
 
+/**
+ * Messages nodes use when an eth_getLogs block span is over their limit
+ * (geth-style "exceed maximum block range", Ankr, QuickNode and others)
+ */
+const BLOCK_SPAN_LIMIT_PATTERN = new RegExp(
+  [
+    'exceeds? (the )?max(imum)? block range',
+    'block range (is )?too (large|wide|big)',
+    'limited to a [\\d,]+ (block )?range',
+    'too many blocks',
+  ].join('|'),
+  'i'
+);
+
+/**
+ * Messages nodes use when an eth_getLogs result is over their limit
+ * (Infura's "query returned more than 10000 results", Alchemy and others)
+ */
+const RESULT_LIMIT_PATTERN = new RegExp(
+  [
+    'returned more than [\\d,]+ results',
+    'log response size exceeded',
+    'response size (is )?(larger|too large)',
+    'too many (results|logs)',
+  ].join('|'),
+  'i'
+);
+
+/**
+ * Why an eth_getLogs request failed, if the range should be split
+ *
+ * @returns `span` when the node limits the block span, `results` when it
+ *   limits the result size, undefined for other errors
+ */
+function getLogRangeLimit(error: unknown): 'span' | 'results' | undefined {
+  if (!(error instanceof ConfigError)) {
+    return undefined;
+  }
+  if (BLOCK_SPAN_LIMIT_PATTERN.test(error.message)) {
+    return 'span';
+  }
+  if (RESULT_LIMIT_PATTERN.test(error.message) || error.message.includes('status 413')) {
+    return 'results';
+  }
+  return undefined;
+}
+
 /**
  * Raw RPC log structure
  */
@@ -0,0 +1,167 @@
+/**
+ * @module internal/adapters/storage
+ * @description Built-in key-value storage adapters
+ */
+
+import type { StorageAdapter } from '../../types/adapters.js';
+import { importNodeFs } from '../streams/node.js';
+
+/**
+ * Storage adapter that keeps values in memory
+ *
+ * State is lost when the process exits. This is the default storage for
+ * helpers that accept a `storage` option.
+ *
+ * @example
+ * ```typescript
+ * const storage = new MemoryStorageAdapter();
+ * await storage.setItem('key', 'value');
+ * ```
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private values = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * The subset of the Web Storage API used by LocalStorageAdapter
+ */
+export interface WebStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Storage adapter backed by browser `localStorage`
+ *
+ * @example
+ * ```typescript
+ * const watcher = new JobWatcher({
+ *   blackboxUrl,
+ *   storage: new LocalStorageAdapter(),
+ * });
+ * ```
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: WebStorageLike;
+
+  /**
+   * Create a localStorage adapter
+   *
+   * @param storage - Storage to use instead of `globalThis.localStorage`
+   *   (e.g. `sessionStorage`)
+   * @throws Error when no storage is given and `localStorage` is unavailable
+   */
+  constructor(storage?: WebStorageLike) {
+    const resolved =
+      storage ?? (globalThis as { localStorage?: WebStorageLike }).localStorage;
+    if (!resolved) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    this.storage = resolved;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Storage adapter backed by a JSON file (Node.js only)
+ *
+ * All keys are kept in one file. Writes go to a temporary file that is
+ * then renamed over the original, so a crash never leaves a partial file.
+ *
+ * @example
+ * ```typescript
+ * const watcher = new JobWatcher({
+ *   blackboxUrl,
+ *   storage: new FileStorageAdapter('./.cifer-state.json'),
+ * });
+ * ```
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private path: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a file storage adapter
+   *
+   * @param path - Path of the JSON file (created on first write)
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await this.pending;
+    const values = await this.read();
+    return values[key] ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.update((values) => {
+      values[key] = value;
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.update((values) => {
+      delete values[key];
+    });
+  }
+
+  /**
+   * Apply a change to the file, one change at a time
+   */
+  private update(change: (values: Record<string, string>) => void): Promise<void> {
+    const next = this.pending.then(async () => {
+      const values = await this.read();
+      change(values);
+      await this.write(values);
+    });
+    this.pending = next.catch(() => {});
+    return next;
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    const fs = await importNodeFs();
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+    return text.trim() === '' ? {} : (JSON.parse(text) as Record<string, string>);
+  }
+
+  private async write(values: Record<string, string>): Promise<void> {
+    const fs = await importNodeFs();
+    const tempPath = `${this.path}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(values, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, this.path);
+  }
+}
@@ -7,13 +7,17 @@
  * and retrying operations when block numbers become stale.
  */
 
-import type { ChainId } from '../../types/common.js';
+import type { ChainId, RequestOptions } from '../../types/common.js';
 import type { ReadClient } from '../../types/adapters.js';
 import {
   AuthError,
   BlockStaleError,
   isBlockStaleError,
 } from '../errors/index.js';
+import { toAbortError, abortableSleep, emitHook } from '../http/index.js';
+import { getLogger } from '../logging/index.js';
+
+const log = getLogger('block-freshness');
 
 /**
  * Default freshness window: approximately 10 minutes
@@ -39,6 +43,7 @@ const DEFAULT_RETRY_DELAY_MS = 1000;
  *
  * @param chainId - The chain ID
  * @param readClient - Read client for fetching block number
+ * @param options - Optional cancellation, passed to the read client
  * @returns The current block number
  *
  * @example
@@ -55,11 +60,18 @@ const DEFAULT_RETRY_DELAY_MS = 1000;
  */
 export async function getFreshBlockNumber(
   chainId: ChainId,
-  readClient: ReadClient
+  readClient: ReadClient,
+  options?: RequestOptions
 ): Promise<number> {
   try {
-    return await readClient.getBlockNumber(chainId);
+    // Only pass options when given, so existing read clients see the same call
+    return await (options
+      ? readClient.getBlockNumber(chainId, options)
+      : readClient.getBlockNumber(chainId));
   } catch (error) {
+    if (options?.signal?.aborted) {
+      throw toAbortError(options.signal);
+    }
     throw new AuthError(
       `Failed to fetch block number for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error instanceof Error ? error : undefined
@@ -77,6 +89,8 @@ export interface RetryOptions {
   retryDelayMs?: number;
   /** Callback when a retry is about to happen */
   onRetry?: (attempt: number, error: BlockStaleError) => void;
+  /** Signal that cancels block lookups and retry waits */
+  signal?: AbortSignal;
 }
 
 /**
@@ -127,7 +141,8 @@ export async function withBlockFreshRetry<T>(
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       // Provide a fresh block number getter
-      const getFreshBlock = () => getFreshBlockNumber(chainId, readClient);
+      const getFreshBlock = () =>
+        getFreshBlockNumber(chainId, readClient, options?.signal && { signal: options.signal });
       return await fn(getFreshBlock);
     } catch (error) {
       if (isBlockStaleError(error) && attempt < maxRetries) {
@@ -135,9 +150,23 @@ export async function withBlockFreshRetry<T>(
 
         // Call retry callback if provided
         options?.onRetry?.(attempt + 1, error);
+        log.warn('Block number went stale, retrying with a fresh block', {
+          chainId,
+          attempt: attempt + 1,
+          blockNumber: error.blockNumber,
+          currentBlock: error.currentBlock,
+          maxWindow: error.maxWindow,
+        });
+        emitHook('onBlockStale', {
+          chainId,
+          attempt: attempt + 1,
+          blockNumber: error.blockNumber,
+          currentBlock: error.currentBlock,
+          maxWindow: error.maxWindow,
+        });
 
         // Wait before retrying
-        await sleep(retryDelayMs);
+        await abortableSleep(retryDelayMs, options?.signal);
         continue;
       }
 
@@ -217,10 +246,3 @@ export function parseBlockFreshnessError(
 
   return null;
 }
-
-/**
- * Sleep helper
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
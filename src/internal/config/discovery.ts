@@ -6,6 +6,10 @@
 import type { Address, ChainId } from '../../types/common.js';
 import type { ChainConfig, DiscoveryResult } from '../../types/config.js';
 import { DiscoveryError } from '../errors/index.js';
+import { withDeadline, withHooks, originOf } from '../http/index.js';
+import { getLogger } from '../logging/index.js';
+
+const log = getLogger('discovery');
 
 /**
  * Raw response shape from /healthz endpoint
@@ -87,6 +91,10 @@ export async function discover(
     forceRefresh?: boolean;
     /** Custom fetch implementation */
     fetch?: typeof fetch;
+    /** Signal that cancels the request */
+    signal?: AbortSignal;
+    /** Request deadline in milliseconds */
+    timeoutMs?: number;
   }
 ): Promise<DiscoveryResult> {
   const cacheTtlMs = options?.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
@@ -101,11 +109,70 @@ export async function discover(
   if (!forceRefresh) {
     const cached = discoveryCache.get(cacheKey);
     if (cached && Date.now() < cached.expiresAt) {
+      log.debug('Using cached discovery', { blackboxUrl: normalizedUrl });
       return cached.result;
     }
   }
 
   // Fetch from blackbox
+  log.debug('Fetching /healthz', { blackboxUrl: normalizedUrl });
+  const data = await withHooks(
+    { kind: 'blackbox', endpoint: '/healthz', origin: originOf(normalizedUrl), attempt: 1 },
+    (onResponse) =>
+      withDeadline(options, (signal) =>
+        fetchHealthz(normalizedUrl, blackboxUrl, fetchFn, signal, onResponse)
+      )
+  ).catch((error: unknown) => {
+    log.warn('Discovery failed', { blackboxUrl: normalizedUrl, error });
+    throw error;
+  });
+
+  // Normalize the response
+  const result: DiscoveryResult = {
+    status: data.status,
+    enclaveWalletAddress: data.enclaveWalletAddress as Address,
+    supportedChains: data.supportedChains,
+    chains: data.configurations.chains.map(
+      (chain): ChainConfig => ({
+        chainId: chain.chainId,
+        name: chain.name,
+        rpcUrl: chain.rpcUrl,
+        wsRpcUrl: chain.wsRpcUrl,
+        secretsControllerAddress: chain.secretsControllerAddress as Address,
+        blockTimeMs: chain.blockTimeMs,
+      })
+    ),
+    ipfsGatewayUrl: data.configurations.ipfsGatewayUrl,
+    fetchedAt: Date.now(),
+    serverTime: data.serverTime,
+  };
+
+  log.debug('Discovery complete', {
+    blackboxUrl: normalizedUrl,
+    status: result.status,
+    enclaveWalletAddress: result.enclaveWalletAddress,
+    supportedChains: result.supportedChains,
+  });
+
+  // Cache the result
+  discoveryCache.set(cacheKey, {
+    result,
+    expiresAt: Date.now() + cacheTtlMs,
+  });
+
+  return result;
+}
+
+/**
+ * Fetch and parse the /healthz response
+ */
+async function fetchHealthz(
+  normalizedUrl: string,
+  blackboxUrl: string,
+  fetchFn: typeof fetch,
+  signal: AbortSignal | undefined,
+  onResponse: (status: number) => void
+): Promise<HealthzResponse> {
   const healthzUrl = `${normalizedUrl}/healthz`;
 
   let response: Response;
@@ -115,6 +182,7 @@ export async function discover(
       headers: {
         Accept: 'application/json',
       },
+      signal,
     });
   } catch (error) {
     throw new DiscoveryError(
@@ -123,6 +191,7 @@ export async function discover(
       error instanceof Error ? error : undefined
     );
   }
+  onResponse(response.status);
 
   if (!response.ok) {
     throw new DiscoveryError(
@@ -131,9 +200,8 @@ export async function discover(
     );
   }
 
-  let data: HealthzResponse;
   try {
-    data = (await response.json()) as HealthzResponse;
+    return (await response.json()) as HealthzResponse;
   } catch (error) {
     throw new DiscoveryError(
       'Failed to parse discovery response as JSON',
@@ -141,34 +209,6 @@ export async function discover(
       error instanceof Error ? error : undefined
     );
   }
-
-  // Normalize the response
-  const result: DiscoveryResult = {
-    status: data.status,
-    enclaveWalletAddress: data.enclaveWalletAddress as Address,
-    supportedChains: data.supportedChains,
-    chains: data.configurations.chains.map(
-      (chain): ChainConfig => ({
-        chainId: chain.chainId,
-        name: chain.name,
-        rpcUrl: chain.rpcUrl,
-        wsRpcUrl: chain.wsRpcUrl,
-        secretsControllerAddress: chain.secretsControllerAddress as Address,
-        blockTimeMs: chain.blockTimeMs,
-      })
-    ),
-    ipfsGatewayUrl: data.configurations.ipfsGatewayUrl,
-    fetchedAt: Date.now(),
-    serverTime: data.serverTime,
-  };
-
-  // Cache the result
-  discoveryCache.set(cacheKey, {
-    result,
-    expiresAt: Date.now() + cacheTtlMs,
-  });
-
-  return result;
 }
 
 /**
@@ -17,3 +17,12 @@ export {
   getSecretsControllerAddress,
   estimateBlockFreshnessWindow,
 } from './resolver.js';
+
+export {
+  BlackboxPool,
+  isFailoverError,
+  type BlackboxPoolOptions,
+  type BlackboxPoolEvents,
+} from './pool.js';
+
+export { verifyDiscovery, type VerifyDiscoveryOptions } from './trust.js';
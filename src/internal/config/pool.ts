@@ -0,0 +1,449 @@
+/**
+ * @module internal/config/pool
+ * @description Health-checked pool of blackbox endpoints with failover
+ */
+
+import type { RequestOptions } from '../../types/common.js';
+import type { BlackboxEndpointHealth, DiscoveryResult } from '../../types/config.js';
+import {
+  BlackboxError,
+  CiferError,
+  CircuitOpenError,
+  ConfigError,
+  DiscoveryError,
+} from '../errors/index.js';
+import { discover } from './discovery.js';
+
+/**
+ * Default interval between background health checks: 30 seconds
+ */
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * Default deadline for one health check: 5 seconds
+ */
+const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 5_000;
+
+/**
+ * Options for creating a BlackboxPool
+ */
+export interface BlackboxPoolOptions {
+  /** Blackbox URLs, in order of preference */
+  urls: string[];
+  /** Interval between background health checks in ms (default: 30000) */
+  healthCheckIntervalMs?: number;
+  /** Deadline for each health check in ms (default: 5000) */
+  healthCheckTimeoutMs?: number;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /**
+   * Verify an endpoint's `/healthz` result before using it (e.g. trust
+   * verification). Runs on an endpoint's first successful check and again
+   * whenever its status or enclave changes; endpoints that have not passed
+   * are never used.
+   */
+  verify?: (discovery: DiscoveryResult, options: RequestOptions) => Promise<unknown>;
+}
+
+/**
+ * Events emitted by a BlackboxPool
+ */
+export interface BlackboxPoolEvents {
+  /**
+   * An endpoint reported a different `status` or `enclaveWalletAddress`
+   * than in its previous successful health check
+   */
+  change: (current: BlackboxEndpointHealth, previous: BlackboxEndpointHealth) => void;
+  /** An endpoint became healthy or unhealthy */
+  healthChange: (endpoint: BlackboxEndpointHealth) => void;
+}
+
+type Listeners = { [E in keyof BlackboxPoolEvents]: Set<BlackboxPoolEvents[E]> };
+
+/**
+ * Error codes of connection failures (Node.js sockets and undici)
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED',
+]);
+
+/**
+ * Messages of the TypeError fetch rejects with when no response arrives
+ * (Node.js, Chrome, Firefox, Safari)
+ */
+const FETCH_FAILURE_MESSAGE = /fetch failed|failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Whether another endpoint might succeed where this error occurred
+ *
+ * Network failures (fetch's TypeError, connection errors and timeouts from
+ * the transport), retryable 5xx responses, open circuits and failed
+ * discovery fail over. Everything else does not: client errors (4xx), auth
+ * errors and cancellations would fail the same way everywhere, and caller
+ * bugs, signer rejections or throwing hooks say nothing about the endpoint.
+ *
+ * @param error - The error a request failed with
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError || error instanceof DiscoveryError) {
+    return true;
+  }
+  if (error instanceof BlackboxError) {
+    // 501 and 505 mean the server can't handle the request at all
+    const status = error.statusCode;
+    return status !== undefined && status >= 500 && status !== 501 && status !== 505;
+  }
+  return isNetworkError(error);
+}
+
+/**
+ * Whether an error is a transport failure rather than an SDK or caller error
+ */
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error) || error instanceof CiferError) {
+    return false;
+  }
+  if (error.name === 'TimeoutError') {
+    return true;
+  }
+  if (hasNetworkErrorCode(error) || hasNetworkErrorCode((error as { cause?: unknown }).cause)) {
+    return true;
+  }
+  return error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(error.message);
+}
+
+function hasNetworkErrorCode(error: unknown): boolean {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * A pool of blackbox endpoints with background health checks
+ *
+ * Endpoints are checked through `/healthz`. `url` returns the first healthy
+ * endpoint in order of preference, and run() retries a request on the next
+ * endpoint when one fails with a network or server error. With `verify`,
+ * only endpoints whose latest result passed verification are used.
+ *
+ * Jobs live on the endpoint that created them: poll and download a job on
+ * the URL that run() passed to the call that started it.
+ *
+ * @example
+ * ```typescript
+ * const pool = new BlackboxPool({
+ *   urls: ['https://bb1.example.com:3010', 'https://bb2.example.com:3010'],
+ * });
+ * await pool.checkHealth();
+ * pool.start();
+ *
+ * pool.on('change', (current, previous) => {
+ *   console.warn(`${current.url} enclave changed`, previous.enclaveWalletAddress, current.enclaveWalletAddress);
+ * });
+ *
+ * const encrypted = await pool.run((blackboxUrl) =>
+ *   blackbox.payload.encryptPayload({ ...params, blackboxUrl })
+ * );
+ * ```
+ */
+export class BlackboxPool {
+  private endpoints: BlackboxEndpointHealth[];
+  private healthCheckIntervalMs: number;
+  private healthCheckTimeoutMs: number;
+  private fetchFn?: typeof fetch;
+  private verify?: BlackboxPoolOptions['verify'];
+  private timer?: ReturnType<typeof setTimeout>;
+  private listeners: Listeners = {
+    change: new Set(),
+    healthChange: new Set(),
+  };
+
+  /**
+   * Create a blackbox pool
+   *
+   * Endpoints count as healthy until a check or request says otherwise,
+   * except with `verify`, where they are unusable until a check passes.
+   *
+   * @param options - Pool options
+   * @throws ConfigError when no URLs are given
+   */
+  constructor(options: BlackboxPoolOptions) {
+    const urls = [...new Set(options.urls.map((url) => url.replace(/\/$/, '')))];
+    if (urls.length === 0) {
+      throw new ConfigError('BlackboxPool requires at least one URL');
+    }
+
+    this.verify = options.verify;
+    this.endpoints = urls.map((url) =>
+      this.verify ? { url, healthy: false, verified: false } : { url, healthy: true }
+    );
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+    this.healthCheckTimeoutMs = options.healthCheckTimeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+    this.fetchFn = options.fetch;
+  }
+
+  /**
+   * The preferred healthy endpoint (the first usable one if none is healthy)
+   *
+   * @throws ConfigError with `verify`, when no endpoint has passed verification
+   */
+  get url(): string {
+    const usable = this.getUsableEndpoints();
+    return (usable.find((endpoint) => endpoint.healthy) ?? usable[0]).url;
+  }
+
+  /**
+   * Whether background health checks are running
+   */
+  get running(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Current health of every endpoint, in order of preference
+   */
+  getEndpoints(): BlackboxEndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({ ...endpoint }));
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @param event - The event name
+   * @param listener - The listener
+   * @returns A function that removes the listener
+   */
+  on<E extends keyof BlackboxPoolEvents>(event: E, listener: BlackboxPoolEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove an event listener
+   *
+   * @param event - The event name
+   * @param listener - The listener passed to on()
+   */
+  off<E extends keyof BlackboxPoolEvents>(event: E, listener: BlackboxPoolEvents[E]): void {
+    this.listeners[event].delete(listener);
+  }
+
+  /**
+   * Start checking endpoints in the background
+   *
+   * The first check runs after one interval; call checkHealth() first for
+   * an immediate one. The timer does not keep a Node.js process alive.
+   */
+  start(): void {
+    if (!this.timer) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Stop background health checks
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Check every endpoint's `/healthz` now
+   *
+   * Successful checks also refresh the discovery cache for that endpoint.
+   *
+   * @param options - Cancellation and deadline (default deadline: 5000ms)
+   * @returns The health of every endpoint
+   */
+  async checkHealth(options?: RequestOptions): Promise<BlackboxEndpointHealth[]> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const result = await discover(endpoint.url, {
+            forceRefresh: true,
+            fetch: this.fetchFn,
+            signal: options?.signal,
+            timeoutMs: options?.timeoutMs ?? this.healthCheckTimeoutMs,
+          });
+          const reported = {
+            status: result.status,
+            enclaveWalletAddress: result.enclaveWalletAddress,
+            checkedAt: Date.now(),
+          };
+
+          if (this.verify) {
+            const changed =
+              endpoint.status !== result.status ||
+              endpoint.enclaveWalletAddress?.toLowerCase() !==
+                result.enclaveWalletAddress.toLowerCase();
+            if (!endpoint.verified || changed) {
+              try {
+                await this.verify(result, { signal: options?.signal });
+              } catch (error) {
+                if (options?.signal?.aborted) {
+                  return;
+                }
+                this.update(endpoint, {
+                  ...reported,
+                  healthy: false,
+                  verified: false,
+                  lastError: error instanceof Error ? error : new Error(String(error)),
+                });
+                return;
+              }
+            }
+          }
+
+          this.update(endpoint, {
+            ...reported,
+            healthy: result.status === 'ok',
+            ...(this.verify && { verified: true }),
+            lastError: undefined,
+          });
+        } catch (error) {
+          if (options?.signal?.aborted) {
+            return;
+          }
+          this.update(endpoint, {
+            healthy: false,
+            checkedAt: Date.now(),
+            lastError: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      })
+    );
+    return this.getEndpoints();
+  }
+
+  /**
+   * Run a request against the pool, failing over between endpoints
+   *
+   * Healthy endpoints are tried first, in order of preference, then the
+   * unhealthy ones. An endpoint whose request fails with a failover error
+   * (see isFailoverError()) is marked unhealthy until its next successful
+   * health check.
+   *
+   * @param request - The request to run, given an endpoint URL
+   * @returns The first successful result
+   * @throws The last error when every endpoint fails, or the first error
+   *   that does not fail over
+   * @throws ConfigError with `verify`, when no endpoint has passed verification
+   */
+  async run<T>(request: (blackboxUrl: string) => Promise<T>): Promise<T> {
+    const usable = this.getUsableEndpoints();
+    const ordered = [
+      ...usable.filter((endpoint) => endpoint.healthy),
+      ...usable.filter((endpoint) => !endpoint.healthy),
+    ];
+
+    let lastError: unknown;
+    for (const endpoint of ordered) {
+      try {
+        return await request(endpoint.url);
+      } catch (error) {
+        if (!isFailoverError(error)) {
+          throw error;
+        }
+        lastError = error;
+        this.reportFailure(endpoint.url, error);
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Mark an endpoint unhealthy after a failed request
+   *
+   * For callers that use `url` directly instead of run().
+   *
+   * @param url - The endpoint URL
+   * @param error - The failure
+   */
+  reportFailure(url: string, error: unknown): void {
+    const endpoint = this.endpoints.find((e) => e.url === url.replace(/\/$/, ''));
+    if (endpoint) {
+      this.update(endpoint, {
+        healthy: false,
+        lastError: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  /**
+   * Endpoints that may receive requests
+   */
+  private getUsableEndpoints(): BlackboxEndpointHealth[] {
+    if (!this.verify) {
+      return this.endpoints;
+    }
+    const verified = this.endpoints.filter((endpoint) => endpoint.verified);
+    if (verified.length === 0) {
+      throw new ConfigError(
+        'No blackbox endpoint has passed verification',
+        this.endpoints.find((endpoint) => endpoint.lastError)?.lastError
+      );
+    }
+    return verified;
+  }
+
+  /**
+   * Apply a health update and emit the matching events
+   */
+  private update(endpoint: BlackboxEndpointHealth, next: Partial<BlackboxEndpointHealth>): void {
+    const previous = { ...endpoint };
+    Object.assign(endpoint, next);
+
+    // Only compare against a previous successful check
+    const checkedBefore = previous.status !== undefined;
+    const reported = next.status !== undefined;
+    if (
+      checkedBefore &&
+      reported &&
+      (previous.status !== endpoint.status ||
+        previous.enclaveWalletAddress?.toLowerCase() !==
+          endpoint.enclaveWalletAddress?.toLowerCase())
+    ) {
+      this.emit('change', { ...endpoint }, previous);
+    }
+    if (previous.healthy !== endpoint.healthy) {
+      this.emit('healthChange', { ...endpoint });
+    }
+  }
+
+  private emit<E extends keyof BlackboxPoolEvents>(
+    event: E,
+    ...args: Parameters<BlackboxPoolEvents[E]>
+  ): void {
+    for (const listener of [...this.listeners[event]]) {
+      try {
+        (listener as (...a: Parameters<BlackboxPoolEvents[E]>) => void)(...args);
+      } catch {
+        // A throwing listener must not stop health checks or other listeners
+      }
+    }
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      void this.checkHealth().finally(() => {
+        if (this.timer) {
+          this.schedule();
+        }
+      });
+    }, this.healthCheckIntervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * @module internal/config/trust
+ * @description Verify discovered blackbox configuration against the chain
+ */
+
+import type { ChainId, RequestOptions } from '../../types/common.js';
+import type { DiscoveryResult, TrustConfig } from '../../types/config.js';
+import type { ReadClient } from '../../types/adapters.js';
+import {
+  encodeIsBlackBoxWhitelisted,
+  decodeIsBlackBoxWhitelisted,
+} from '../abi/secrets-controller.js';
+import { RequestAbortedError, TrustVerificationError } from '../errors/index.js';
+
+/**
+ * Options for verifyDiscovery()
+ */
+export interface VerifyDiscoveryOptions extends TrustConfig, RequestOptions {
+  /** Read client for the on-chain checks (needs call()) */
+  readClient: ReadClient;
+}
+
+/**
+ * Verify a discovery result before trusting it
+ *
+ * For each chain, checks the reported SecretsController address against
+ * the pinned one, then checks on the pinned controller that the reported
+ * enclave address is whitelisted. Chains run in parallel.
+ *
+ * Every chain needs a pinned controller: an address taken from the
+ * discovery result itself would let the blackbox under verification vouch
+ * for itself.
+ *
+ * @param discovery - The discovery result to verify
+ * @param options - Pinned addresses, chains to check and the read client
+ * @returns The chain IDs that were verified
+ * @throws TrustVerificationError when a chain has no pinned controller or
+ *   is missing from the discovery result, on a mismatch, a non-whitelisted
+ *   enclave, or when an on-chain check fails
+ *
+ * @example
+ * ```typescript
+ * const discovery = await discover(blackboxUrl);
+ * await verifyDiscovery(discovery, {
+ *   readClient: new RpcReadClient({ rpcUrlByChainId: { 752025: myRpcUrl } }),
+ *   controllerAddresses: { 752025: '0x...' },
+ *   chainIds: [752025],
+ * });
+ * ```
+ */
+export async function verifyDiscovery(
+  discovery: DiscoveryResult,
+  options: VerifyDiscoveryOptions
+): Promise<ChainId[]> {
+  const { readClient, controllerAddresses, verifyEnclave = true } = options;
+  const chainIds = options.chainIds ?? discovery.chains.map((chain) => chain.chainId);
+
+  await Promise.all(
+    chainIds.map(async (chainId) => {
+      const chain = discovery.chains.find((c) => c.chainId === chainId);
+      if (!chain) {
+        throw new TrustVerificationError('chain-missing', { chainId });
+      }
+
+      const pinned = controllerAddresses?.[chainId];
+      if (!pinned) {
+        throw new TrustVerificationError('controller-not-pinned', {
+          chainId,
+          actual: chain.secretsControllerAddress,
+        });
+      }
+      if (pinned.toLowerCase() !== chain.secretsControllerAddress.toLowerCase()) {
+        throw new TrustVerificationError('controller-mismatch', {
+          chainId: chain.chainId,
+          expected: pinned,
+          actual: chain.secretsControllerAddress,
+        });
+      }
+
+      if (!verifyEnclave) {
+        return;
+      }
+
+      let whitelisted: boolean;
+      try {
+        if (!readClient.call) {
+          throw new Error('ReadClient does not support eth_call');
+        }
+        const result = await readClient.call(
+          chain.chainId,
+          {
+            to: pinned,
+            data: encodeIsBlackBoxWhitelisted(discovery.enclaveWalletAddress),
+          },
+          options
+        );
+        whitelisted = decodeIsBlackBoxWhitelisted(result);
+      } catch (error) {
+        if (error instanceof RequestAbortedError) {
+          throw error;
+        }
+        throw new TrustVerificationError(
+          'check-failed',
+          { chainId: chain.chainId, actual: discovery.enclaveWalletAddress },
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      if (!whitelisted) {
+        throw new TrustVerificationError('enclave-not-whitelisted', {
+          chainId: chain.chainId,
+          actual: discovery.enclaveWalletAddress,
+        });
+      }
+    })
+  );
+
+  return chainIds;
+}
@@ -0,0 +1,76 @@
+/**
+ * @module internal/crypto/envelope
+ * @description Client-side construction of CIFER envelopes
+ *
+ * A CIFER envelope is the ML-KEM-768 ciphertext (1088 bytes) followed by the
+ * AES-256-GCM authentication tag (16 bytes) — 1104 bytes in total. The
+ * encrypted message is the AES-GCM ciphertext without its tag.
+ *
+ * The AES key is the 32-byte ML-KEM shared secret. Because every
+ * encapsulation yields a fresh key that is used for exactly one message,
+ * the GCM nonce is fixed to all zeros.
+ */
+
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
+import { gcm } from '@noble/ciphers/aes';
+import { CIFER_ENVELOPE_BYTES } from '../abi/cifer-encrypted.js';
+
+/** Size of an ML-KEM-768 public key in bytes */
+export const ML_KEM_768_PUBLIC_KEY_BYTES = 1184;
+
+/** Size of an ML-KEM-768 ciphertext in bytes */
+export const ML_KEM_768_CIPHERTEXT_BYTES = 1088;
+
+/** Size of the AES-GCM authentication tag in bytes */
+export const AES_GCM_TAG_BYTES = 16;
+
+/** Size of the AES-GCM nonce in bytes */
+export const AES_GCM_NONCE_BYTES = 12;
+
+/**
+ * Output of sealing a plaintext into a CIFER envelope
+ */
+export interface SealedEnvelope {
+  /** ML-KEM ciphertext followed by the AES-GCM tag (1104 bytes) */
+  cifer: Uint8Array;
+  /** AES-GCM ciphertext without the tag (same length as the plaintext) */
+  encryptedMessage: Uint8Array;
+}
+
+/**
+ * Encrypt bytes for the holder of an ML-KEM-768 secret key
+ *
+ * @param publicKey - Raw ML-KEM-768 public key (1184 bytes)
+ * @param plaintext - Bytes to encrypt
+ * @returns The CIFER envelope and encrypted message
+ * @throws Error if the public key has the wrong length
+ */
+export function sealEnvelope(
+  publicKey: Uint8Array,
+  plaintext: Uint8Array
+): SealedEnvelope {
+  if (publicKey.length !== ML_KEM_768_PUBLIC_KEY_BYTES) {
+    throw new Error(
+      `Invalid ML-KEM-768 public key: expected ${ML_KEM_768_PUBLIC_KEY_BYTES} bytes, got ${publicKey.length}`
+    );
+  }
+
+  const { cipherText, sharedSecret } = ml_kem768.encapsulate(publicKey);
+
+  try {
+    const nonce = new Uint8Array(AES_GCM_NONCE_BYTES);
+    const sealed = gcm(sharedSecret, nonce).encrypt(plaintext);
+    const tagOffset = sealed.length - AES_GCM_TAG_BYTES;
+
+    const cifer = new Uint8Array(CIFER_ENVELOPE_BYTES);
+    cifer.set(cipherText, 0);
+    cifer.set(sealed.subarray(tagOffset), ML_KEM_768_CIPHERTEXT_BYTES);
+
+    return {
+      cifer,
+      encryptedMessage: sealed.slice(0, tagOffset),
+    };
+  } finally {
+    sharedSecret.fill(0);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * @module internal/crypto
+ * @description Client-side cryptographic primitives
+ */
+
+export {
+  sealEnvelope,
+  ML_KEM_768_PUBLIC_KEY_BYTES,
+  ML_KEM_768_CIPHERTEXT_BYTES,
+  AES_GCM_TAG_BYTES,
+  AES_GCM_NONCE_BYTES,
+  type SealedEnvelope,
+} from './envelope.js';
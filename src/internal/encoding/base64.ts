@@ -0,0 +1,87 @@
+/**
+ * @module internal/encoding/base64
+ * @description Dependency-free base64 helpers
+ *
+ * `btoa`/`atob` and `Buffer` are not available in every runtime the SDK
+ * targets, so the conversion is done by hand.
+ */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP: Record<string, number> = {};
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET[i]] = i;
+}
+// Accept the URL-safe alphabet on input as well
+LOOKUP['-'] = 62;
+LOOKUP['_'] = 63;
+
+/**
+ * Encode bytes as standard (padded) base64
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let out = '';
+  let i = 0;
+
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out +=
+      ALPHABET[(n >> 18) & 63] +
+      ALPHABET[(n >> 12) & 63] +
+      ALPHABET[(n >> 6) & 63] +
+      ALPHABET[n & 63];
+  }
+
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const n = bytes[i] << 16;
+    out += ALPHABET[(n >> 18) & 63] + ALPHABET[(n >> 12) & 63] + '==';
+  } else if (remaining === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out +=
+      ALPHABET[(n >> 18) & 63] +
+      ALPHABET[(n >> 12) & 63] +
+      ALPHABET[(n >> 6) & 63] +
+      '=';
+  }
+
+  return out;
+}
+
+/**
+ * Decode a base64 (standard or URL-safe, padded or not) string
+ *
+ * @param value - Base64 string
+ * @returns Decoded bytes
+ * @throws Error if the string contains characters outside the base64 alphabet
+ */
+export function base64ToBytes(value: string): Uint8Array {
+  const clean = value.replace(/\s+/g, '').replace(/=+$/, '');
+
+  if (clean.length % 4 === 1) {
+    throw new Error('Invalid base64 string: bad length');
+  }
+
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (const char of clean) {
+    const sextet = LOOKUP[char];
+    if (sextet === undefined) {
+      throw new Error(`Invalid base64 character: ${char}`);
+    }
+    buffer = (buffer << 6) | sextet;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return out;
+}
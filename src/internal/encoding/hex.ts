@@ -0,0 +1,24 @@
+/**
+ * @module internal/encoding/hex
+ * @description Hex encoding shared by the SDK modules
+ */
+
+import type { Hex } from '../../types/common.js';
+
+/**
+ * Hex digits of a byte array, lowercase and without a `0x` prefix
+ */
+export function toHexDigits(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Convert bytes to hex string
+ */
+export function bytesToHex(bytes: Uint8Array): Hex {
+  return `0x${toHexDigits(bytes)}` as Hex;
+}
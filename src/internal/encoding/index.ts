@@ -0,0 +1,15 @@
+/**
+ * @module internal/encoding
+ * @description Byte/string encoding utilities
+ */
+
+export { bytesToBase64, base64ToBytes } from './base64.js';
+
+export { bytesToHex, toHexDigits } from './hex.js';
+
+export {
+  encodePlaintext,
+  encodeJsonPlaintext,
+  decodePlaintext,
+  type DecodedPlaintext,
+} from './plaintext.js';
@@ -0,0 +1,83 @@
+/**
+ * @module internal/encoding/plaintext
+ * @description Tagged plaintext encoding for payload encryption
+ *
+ * The blackbox encrypts UTF-8 strings. To carry binary and structured data,
+ * non-text plaintexts are encoded into a string with a type tag that is
+ * recognized again after decryption:
+ *
+ * - text:  stored as-is
+ * - bytes: `cifer:bytes:` + base64
+ * - json:  `cifer:json:` + JSON text
+ *
+ * Text is never altered, so other decryptors see exactly what was
+ * encrypted. A tag whose body does not parse (e.g. text stored by an
+ * earlier version that happens to start with one) decodes as text.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './base64.js';
+
+const BYTES_PREFIX = 'cifer:bytes:';
+const JSON_PREFIX = 'cifer:json:';
+
+/**
+ * Padded standard base64, as written by bytesToBase64()
+ */
+const CANONICAL_BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * Encode a text or binary plaintext for encryption
+ *
+ * @param plaintext - Text or bytes
+ * @returns Encoded string
+ */
+export function encodePlaintext(plaintext: string | Uint8Array): string {
+  return typeof plaintext === 'string' ? plaintext : BYTES_PREFIX + bytesToBase64(plaintext);
+}
+
+/**
+ * Encode a JSON-serializable value for encryption
+ *
+ * @param value - Value to serialize
+ * @returns Encoded string
+ * @throws Error if the value cannot be serialized
+ */
+export function encodeJsonPlaintext(value: unknown): string {
+  const json = JSON.stringify(value);
+  if (json === undefined) {
+    throw new Error('Value is not JSON-serializable');
+  }
+  return JSON_PREFIX + json;
+}
+
+/**
+ * A decoded plaintext
+ */
+export type DecodedPlaintext =
+  | { encoding: 'text'; value: string }
+  | { encoding: 'bytes'; value: Uint8Array }
+  | { encoding: 'json'; value: unknown };
+
+/**
+ * Decode a decrypted string back to its original type
+ *
+ * Never throws: anything that is not a well-formed tagged payload is text.
+ *
+ * @param encoded - The decrypted string
+ * @returns The encoding and the restored value
+ */
+export function decodePlaintext(encoded: string): DecodedPlaintext {
+  if (encoded.startsWith(BYTES_PREFIX)) {
+    const base64 = encoded.slice(BYTES_PREFIX.length);
+    if (CANONICAL_BASE64.test(base64)) {
+      return { encoding: 'bytes', value: base64ToBytes(base64) };
+    }
+  } else if (encoded.startsWith(JSON_PREFIX)) {
+    try {
+      return { encoding: 'json', value: JSON.parse(encoded.slice(JSON_PREFIX.length)) };
+    } catch {
+      // Not JSON, so not written by encodeJsonPlaintext()
+    }
+  }
+  return { encoding: 'text', value: encoded };
+}
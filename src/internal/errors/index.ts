@@ -53,6 +53,7 @@ export class CiferError extends Error {
    * - `KEY_MANAGEMENT_ERROR` - SecretsController errors
    * - `COMMITMENTS_ERROR` - On-chain commitment errors
    * - `FLOW_ERROR` - Flow execution errors
+   * - `REQUEST_ABORTED` - Cancelled or timed-out network calls
    */
   readonly code: string;
 
@@ -147,6 +148,68 @@ export class ChainNotSupportedError extends ConfigError {
   }
 }
 
+/**
+ * Why trust verification failed.
+ *
+ * @public
+ */
+export type TrustVerificationFailure =
+  | 'controller-not-pinned'
+  | 'chain-missing'
+  | 'controller-mismatch'
+  | 'enclave-not-whitelisted'
+  | 'check-failed';
+
+/**
+ * Error thrown when discovered configuration fails trust verification.
+ *
+ * @remarks
+ * Raised when a chain to verify has no pinned SecretsController address or
+ * is missing from the discovery result, when a blackbox reports a
+ * SecretsController address that differs from the pinned one, an enclave
+ * address that is not whitelisted on the controller, or when the on-chain
+ * check could not be made. The SDK refuses to use the discovery result in
+ * all of these cases.
+ *
+ * @public
+ */
+export class TrustVerificationError extends ConfigError {
+  /** Why verification failed */
+  readonly reason: TrustVerificationFailure;
+  /** The chain that failed verification */
+  readonly chainId: number;
+  /** The pinned or on-chain value that was expected */
+  readonly expected?: string;
+  /** The value the blackbox reported */
+  readonly actual?: string;
+
+  /**
+   * @param reason - Why verification failed
+   * @param details - The chain and the mismatching values
+   * @param cause - Original error, when the on-chain check failed
+   */
+  constructor(
+    reason: TrustVerificationFailure,
+    details: { chainId: number; expected?: string; actual?: string },
+    cause?: Error
+  ) {
+    const { chainId, expected, actual } = details;
+    const messages: Record<TrustVerificationFailure, string> = {
+      'controller-not-pinned': `No trusted SecretsController address for chain ${chainId}: pin one instead of trusting the reported ${actual}`,
+      'chain-missing': `Chain ${chainId} is not reported by the blackbox and cannot be verified`,
+      'controller-mismatch': `SecretsController for chain ${chainId} does not match the pinned address: expected ${expected}, got ${actual}`,
+      'enclave-not-whitelisted': `Enclave ${actual} is not whitelisted on the SecretsController for chain ${chainId}`,
+      'check-failed': `Could not verify the blackbox enclave on chain ${chainId}: ${cause?.message ?? 'Unknown error'}`,
+    };
+    super(messages[reason], cause);
+    this.name = 'TrustVerificationError';
+    this.reason = reason;
+    this.chainId = chainId;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
 // ============================================================================
 // Authentication Errors
 // ============================================================================
@@ -357,6 +420,221 @@ export class SecretNotReadyError extends BlackboxError {
   }
 }
 
+/**
+ * Error thrown when a `.cifer` container fails local validation.
+ *
+ * @remarks
+ * Raised before upload, so problems the blackbox would reject with a
+ * `400 Invalid ZIP format` are caught without spending bandwidth or quota.
+ *
+ * @public
+ */
+export class InvalidCiferFileError extends BlackboxError {
+  /** Human-readable description of every problem found */
+  readonly issues: string[];
+
+  /**
+   * @param issues - The problems found in the container
+   * @param cause - Original error (e.g. a ZIP parse failure)
+   */
+  constructor(issues: string[], cause?: Error) {
+    super(`Invalid .cifer file: ${issues.join('; ')}`, { cause });
+    this.name = 'InvalidCiferFileError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when a downloaded file does not match its expected hash.
+ *
+ * @remarks
+ * Raised by verified downloads when the SHA-256 of the received bytes
+ * differs from the `originalHash` recorded in the `.cifer` metadata.
+ * Any data already written to a destination must be discarded.
+ *
+ * @public
+ */
+export class FileIntegrityError extends BlackboxError {
+  /** The job whose output failed verification */
+  readonly jobId: string;
+  /** The expected SHA-256 (lowercase hex) */
+  readonly expectedHash: string;
+  /** The SHA-256 of the received bytes (lowercase hex) */
+  readonly actualHash: string;
+
+  /**
+   * @param jobId - The job whose output failed verification
+   * @param expectedHash - The expected SHA-256
+   * @param actualHash - The SHA-256 of the received bytes
+   */
+  constructor(jobId: string, expectedHash: string, actualHash: string) {
+    super(
+      `Downloaded file for job ${jobId} failed integrity check: expected SHA-256 ${expectedHash}, got ${actualHash}`
+    );
+    this.name = 'FileIntegrityError';
+    this.jobId = jobId;
+    this.expectedHash = expectedHash;
+    this.actualHash = actualHash;
+  }
+}
+
+/**
+ * Error thrown when a chunked large payload cannot be reassembled.
+ *
+ * @remarks
+ * Raised when a large payload manifest is malformed, or when the decrypted
+ * parts do not match the count, sizes or SHA-256 hashes it records.
+ *
+ * @public
+ */
+export class LargePayloadIntegrityError extends BlackboxError {
+  /** Human-readable description of every problem found */
+  readonly issues: string[];
+
+  /**
+   * @param issues - The problems found
+   */
+  constructor(issues: string[]) {
+    super(`Large payload failed integrity check: ${issues.join('; ')}`);
+    this.name = 'LargePayloadIntegrityError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when the blackbox rate-limits a request (HTTP 429).
+ *
+ * @remarks
+ * A 429 reporting a plan limit (`limitType`) or a cooldown
+ * (`retryAfterSeconds`) is raised at once, since re-sending cannot succeed.
+ * Other rate-limited requests are retried automatically after the
+ * `Retry-After` delay. This error is raised once retries are exhausted,
+ * the requested delay exceeds the retry policy's `maxRetryAfterMs`, or the
+ * request body cannot be re-sent.
+ *
+ * @public
+ */
+export class RateLimitedError extends BlackboxError {
+  /** Delay requested by the server (`Retry-After` or `retryAfterSeconds`), in ms */
+  readonly retryAfterMs?: number;
+  /** Server explanation of the limit (if sent) */
+  readonly detail?: string;
+  /** Which plan limit was exceeded (if sent) */
+  readonly limitType?: string;
+
+  /**
+   * @param endpoint - The endpoint that was rate-limited
+   * @param retryAfterMs - Delay requested by the server, in ms
+   * @param body - The 429 response body
+   */
+  constructor(
+    endpoint: string,
+    retryAfterMs?: number,
+    body: { error?: string; detail?: string; limitType?: string } = {}
+  ) {
+    const reasons = [
+      body.detail || body.error,
+      retryAfterMs === undefined ? undefined : `retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+    ].filter(Boolean);
+    super(
+      reasons.length === 0
+        ? `Rate limited by blackbox on ${endpoint}`
+        : `Rate limited by blackbox on ${endpoint}: ${reasons.join('; ')}`,
+      { statusCode: 429, endpoint }
+    );
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+    this.detail = body.detail;
+    this.limitType = body.limitType;
+  }
+}
+
+/**
+ * Error thrown when requests to a blackbox are short-circuited.
+ *
+ * @remarks
+ * After repeated server errors or network failures the circuit breaker
+ * for that blackbox origin opens, and requests fail immediately with this
+ * error until `retryAt`. The next request after that is let through as a
+ * trial; success closes the circuit again.
+ *
+ * @public
+ */
+export class CircuitOpenError extends BlackboxError {
+  /** The blackbox origin whose circuit is open */
+  readonly origin: string;
+  /** Unix timestamp (ms) after which a trial request is allowed */
+  readonly retryAt: number;
+
+  /**
+   * @param origin - The blackbox origin
+   * @param retryAt - When a trial request is allowed (Unix ms)
+   * @param endpoint - The endpoint that was requested
+   */
+  constructor(origin: string, retryAt: number, endpoint?: string) {
+    super(
+      `Circuit open for ${origin} after repeated failures; retry after ${new Date(retryAt).toISOString()}`,
+      { endpoint }
+    );
+    this.name = 'CircuitOpenError';
+    this.origin = origin;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Error thrown when a request would exceed the account's blackbox quota.
+ *
+ * @remarks
+ * Raised by the optional quota preflight (`QuotaGuard`) before anything is
+ * sent, using the usage reported by `jobs.dataConsumption()`. `unit` tells
+ * whether the data limit (`'bytes'`) or the per-cycle request limit
+ * (`'requests'`) would be exceeded.
+ *
+ * @public
+ */
+export class QuotaExceededError extends BlackboxError {
+  /** Which quota would be exceeded */
+  readonly direction: 'encryption' | 'decryption';
+  /** Whether the data limit or the request limit would be exceeded */
+  readonly unit: 'bytes' | 'requests';
+  /** Bytes (or requests) the request needs */
+  readonly requested: number;
+  /** Bytes (or requests) already used this billing cycle */
+  readonly used: number;
+  /** Limit for this billing cycle */
+  readonly limit: number;
+  /** Usage after this request, if it were sent */
+  readonly projected: number;
+
+  /**
+   * @param details - The quota and the usage that would exceed it
+   */
+  constructor(details: {
+    direction: 'encryption' | 'decryption';
+    unit: 'bytes' | 'requests';
+    requested: number;
+    used: number;
+    limit: number;
+  }) {
+    const { direction, unit, requested, used, limit } = details;
+    const projected = used + requested;
+    const label = direction === 'encryption' ? 'Encryption' : 'Decryption';
+    super(
+      unit === 'bytes'
+        ? `${label} quota exceeded: ${requested} bytes requested, ${used} of ${limit} bytes used (projected ${projected})`
+        : `${label} request limit reached: ${used} of ${limit} requests used this billing cycle`
+    );
+    this.name = 'QuotaExceededError';
+    this.direction = direction;
+    this.unit = unit;
+    this.requested = requested;
+    this.used = used;
+    this.limit = limit;
+    this.projected = projected;
+  }
+}
+
 // ============================================================================
 // Key Management Errors
 // ============================================================================
@@ -474,14 +752,14 @@ export class CommitmentNotFoundError extends CommitmentsError {
 export class IntegrityError extends CommitmentsError {
   /** Which field failed verification ('cifer' or 'encryptedMessage') */
   readonly field: 'cifer' | 'encryptedMessage';
-  /** Expected hash from on-chain metadata */
+  /** Expected hash from on-chain metadata or, in strict mode, the event */
   readonly expectedHash: string;
   /** Actual hash computed from retrieved data */
   readonly actualHash: string;
 
   /**
    * @param field - The field that failed integrity check
-   * @param expectedHash - Hash from on-chain metadata
+   * @param expectedHash - Hash from on-chain metadata or the event
    * @param actualHash - Hash computed from retrieved data
    * @param cause - Original error
    */
@@ -532,6 +810,27 @@ export class InvalidCiferSizeError extends CommitmentsError {
   }
 }
 
+/**
+ * Error thrown when values cannot be ABI-encoded or return data cannot be decoded.
+ *
+ * @public
+ */
+export class AbiCodingError extends CommitmentsError {
+  /** The Solidity type being encoded or decoded (e.g. `uint64`, `(string,bool)[]`) */
+  readonly abiType: string;
+
+  /**
+   * @param message - What was wrong with the value or data
+   * @param abiType - The Solidity type involved
+   * @param cause - Original error
+   */
+  constructor(message: string, abiType: string, cause?: Error) {
+    super(`ABI ${abiType}: ${message}`, cause);
+    this.name = 'AbiCodingError';
+    this.abiType = abiType;
+  }
+}
+
 /**
  * Error thrown when encrypted message is too large.
  *
@@ -562,6 +861,34 @@ export class PayloadTooLargeError extends CommitmentsError {
   }
 }
 
+/**
+ * Error thrown when a CiferVaultOnChain call reverts with one of the
+ * contract's custom errors.
+ *
+ * @public
+ */
+export class VaultRevertError extends CommitmentsError {
+  /** The custom error name (e.g. `SecretIdNotSet`) */
+  readonly errorName: string;
+  /** The error arguments keyed by name (e.g. `{ got, maxAllowed }`) */
+  readonly args: Record<string, unknown>;
+
+  /**
+   * @param errorName - The custom error name
+   * @param args - The decoded error arguments
+   * @param cause - Original RPC or wallet error
+   */
+  constructor(errorName: string, args: Record<string, unknown>, cause?: Error) {
+    const detail = Object.entries(args)
+      .map(([name, value]) => `${name}=${String(value)}`)
+      .join(', ');
+    super(`Vault reverted with ${errorName}(${detail})`, cause);
+    this.name = 'VaultRevertError';
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
 // ============================================================================
 // Flow Errors
 // ============================================================================
@@ -649,6 +976,44 @@ export class FlowTimeoutError extends FlowError {
   }
 }
 
+// ============================================================================
+// Request Errors
+// ============================================================================
+
+/**
+ * Error thrown when a network call is cancelled.
+ *
+ * @remarks
+ * Raised when the `signal` passed to an SDK call is aborted, or when the
+ * call exceeds its `timeoutMs` deadline. Check `reason` to tell them apart.
+ *
+ * @public
+ */
+export class RequestAbortedError extends CiferError {
+  /** Why the call was cancelled */
+  readonly reason: 'aborted' | 'timeout';
+  /** The deadline that was exceeded, for timeouts */
+  readonly timeoutMs?: number;
+
+  /**
+   * @param reason - Why the call was cancelled
+   * @param timeoutMs - The deadline that was exceeded, for timeouts
+   * @param cause - The abort reason, if it was an error
+   */
+  constructor(reason: 'aborted' | 'timeout', timeoutMs?: number, cause?: Error) {
+    super(
+      reason === 'timeout'
+        ? `Request timed out after ${timeoutMs}ms`
+        : 'Request was aborted',
+      'REQUEST_ABORTED',
+      cause
+    );
+    this.name = 'RequestAbortedError';
+    this.reason = reason;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 // ============================================================================
 // Web2 Errors
 // ============================================================================
@@ -704,13 +1069,18 @@ export class Web2SessionError extends Web2Error {
  * @public
  */
 export class Web2AuthError extends Web2Error {
+  /** Cooldown before the request may be repeated, in ms (resend-otp, forgot-password) */
+  readonly retryAfterMs?: number;
+
   /**
    * @param message - Description of the auth error
    * @param cause - Original error
+   * @param retryAfterMs - Cooldown reported by the server, in ms
    */
-  constructor(message: string, cause?: Error) {
+  constructor(message: string, cause?: Error, retryAfterMs?: number) {
     super(message, cause);
     this.name = 'Web2AuthError';
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -769,6 +1139,18 @@ export function isSecretNotReadyError(
   return error instanceof SecretNotReadyError;
 }
 
+/**
+ * Check if an error indicates a cancelled or timed-out call.
+ *
+ * @param error - The error to check
+ * @returns `true` if the error is an instance of {@link RequestAbortedError}
+ *
+ * @public
+ */
+export function isRequestAbortedError(error: unknown): error is RequestAbortedError {
+  return error instanceof RequestAbortedError;
+}
+
 /**
  * Check if an error is a Web2-specific error.
  *
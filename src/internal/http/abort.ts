@@ -0,0 +1,137 @@
+/**
+ * @module internal/http/abort
+ * @description Cancellation and deadlines for network calls
+ */
+
+import type { RequestOptions } from '../../types/common.js';
+import { RequestAbortedError } from '../errors/index.js';
+
+/**
+ * A deadline covering one SDK call
+ */
+export interface RequestDeadline {
+  /** Signal to pass to fetch and nested calls (undefined if no cancellation was requested) */
+  signal?: AbortSignal;
+  /**
+   * Settle a call under this deadline: aborts reject with
+   * RequestAbortedError and the timer is cleared
+   */
+  run<T>(operation: Promise<T>): Promise<T>;
+}
+
+/**
+ * Start a deadline from a call's `signal` and `timeoutMs` options
+ *
+ * @param options - The call's cancellation options
+ * @returns The combined signal and a runner that settles the call
+ */
+export function createDeadline(options?: RequestOptions): RequestDeadline {
+  const { signal: parent, timeoutMs } = options ?? {};
+
+  if (!parent && timeoutMs === undefined) {
+    return { signal: undefined, run: (operation) => operation };
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(
+        () => controller.abort(new RequestAbortedError('timeout', timeoutMs)),
+        timeoutMs
+      );
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    // Settle as soon as the signal aborts, even if the operation ignores it
+    run: (operation) =>
+      new Promise((resolve, reject) => {
+        const onAbort = () => reject(toAbortError(controller.signal));
+        const cleanup = () => {
+          clearTimeout(timer);
+          parent?.removeEventListener('abort', onParentAbort);
+          controller.signal.removeEventListener('abort', onAbort);
+        };
+
+        if (controller.signal.aborted) {
+          onAbort();
+        } else {
+          controller.signal.addEventListener('abort', onAbort, { once: true });
+        }
+
+        operation.then(
+          (value) => {
+            cleanup();
+            resolve(value);
+          },
+          (error: unknown) => {
+            cleanup();
+            reject(controller.signal.aborted ? toAbortError(controller.signal) : error);
+          }
+        );
+      }),
+  };
+}
+
+/**
+ * Run an operation under a deadline built from a call's options
+ *
+ * @param options - The call's cancellation options
+ * @param operation - The operation, given the signal to pass down
+ * @returns The operation's result
+ */
+export function withDeadline<T>(
+  options: RequestOptions | undefined,
+  operation: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+  const deadline = createDeadline(options);
+  return deadline.run(operation(deadline.signal));
+}
+
+/**
+ * Build the RequestAbortedError for an aborted signal
+ */
+export function toAbortError(signal: AbortSignal): RequestAbortedError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof RequestAbortedError) {
+    return reason;
+  }
+  return new RequestAbortedError('aborted', undefined, reason instanceof Error ? reason : undefined);
+}
+
+/**
+ * Throw a RequestAbortedError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Wait for `ms`, rejecting early with RequestAbortedError if the signal aborts
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
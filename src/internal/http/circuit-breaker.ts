@@ -0,0 +1,90 @@
+/**
+ * @module internal/http/circuit-breaker
+ * @description Per-origin circuit breaker for blackbox requests
+ */
+
+/**
+ * Resolved circuit breaker settings
+ */
+export interface CircuitBreakerSettings {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open, in ms */
+  resetTimeoutMs: number;
+}
+
+interface CircuitState {
+  /** Consecutive failures since the last success */
+  failures: number;
+  /** When the circuit opened (undefined while closed) */
+  openedAt?: number;
+  /** Whether a trial request is in flight while half-open */
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+/**
+ * Ask whether a request to an origin may proceed
+ *
+ * @returns `undefined` if allowed, otherwise when the circuit allows a trial (Unix ms)
+ */
+export function acquireCircuit(
+  origin: string,
+  settings: CircuitBreakerSettings
+): number | undefined {
+  const state = circuits.get(origin);
+  if (!state || state.openedAt === undefined) {
+    return undefined;
+  }
+
+  const retryAt = state.openedAt + settings.resetTimeoutMs;
+  if (Date.now() < retryAt || state.trialInFlight) {
+    return Math.max(retryAt, Date.now());
+  }
+
+  // Half-open: let a single trial request through
+  state.trialInFlight = true;
+  return undefined;
+}
+
+/**
+ * Record a successful exchange with an origin, closing its circuit
+ */
+export function recordCircuitSuccess(origin: string): void {
+  circuits.delete(origin);
+}
+
+/**
+ * Record a server error or network failure for an origin
+ */
+export function recordCircuitFailure(
+  origin: string,
+  settings: CircuitBreakerSettings
+): void {
+  const state = circuits.get(origin) ?? { failures: 0, trialInFlight: false };
+  state.failures++;
+
+  if (state.trialInFlight || state.failures >= settings.failureThreshold) {
+    state.openedAt = Date.now();
+  }
+  state.trialInFlight = false;
+  circuits.set(origin, state);
+}
+
+/**
+ * Release a half-open trial that ended without a verdict (e.g. aborted)
+ */
+export function releaseCircuit(origin: string): void {
+  const state = circuits.get(origin);
+  if (state) {
+    state.trialInFlight = false;
+  }
+}
+
+/**
+ * Close all circuits
+ */
+export function resetCircuits(): void {
+  circuits.clear();
+}
@@ -0,0 +1,346 @@
+/**
+ * @module internal/http/client
+ * @description Shared HTTP layer for blackbox requests
+ *
+ * Every blackbox call goes through blackboxRequest(), which:
+ * - retries `429` responses after the `Retry-After` delay, except plan
+ *   limits and cooldowns, which are raised at once
+ * - retries `5xx` responses and network errors with jittered exponential
+ *   backoff, unless the request is not idempotent
+ * - short-circuits requests to an origin whose circuit breaker is open
+ * - turns error responses into typed SDK errors
+ * - stops retrying and rejects with RequestAbortedError once the signal aborts
+ * - reports each attempt, retry and failure to the configured hooks
+ *
+ * Requests with a streamed body are sent once, since the body cannot be
+ * replayed.
+ */
+
+import type { ChainId, SecretId } from '../../types/common.js';
+import type { RetryPolicy } from '../../types/config.js';
+import type { RequestHookEvent } from '../../types/hooks.js';
+import {
+  RateLimitedError,
+  CircuitOpenError,
+  parseBlackboxErrorResponse,
+} from '../errors/index.js';
+import {
+  acquireCircuit,
+  recordCircuitSuccess,
+  recordCircuitFailure,
+  releaseCircuit,
+  type CircuitBreakerSettings,
+} from './circuit-breaker.js';
+import { toAbortError, throwIfAborted, abortableSleep } from './abort.js';
+import { emitHook, originOf } from './hooks.js';
+
+/**
+ * Error body returned by the blackbox
+ */
+export interface BlackboxErrorBody {
+  error?: string;
+  message?: string;
+  /** Explanation of an exceeded plan limit (429) */
+  detail?: string;
+  /** Which plan limit was exceeded (429) */
+  limitType?: string;
+  /** Cooldown before the request may be repeated (429) */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * A request to the blackbox
+ */
+export interface BlackboxRequest {
+  /** Full request URL */
+  url: string;
+  /** Endpoint path, used in error messages (e.g. '/encrypt-payload') */
+  endpoint: string;
+  /** Request options passed to fetch */
+  init: RequestInit;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /** Signal that cancels the request (overrides `init.signal`) */
+  signal?: AbortSignal;
+  /** Chain the request is for, reported to hooks */
+  chainId?: ChainId;
+  /** Secret the request is for, reported to hooks */
+  secretId?: SecretId;
+  /** Whether the request may be re-sent (default: true unless the body is a stream) */
+  retryable?: boolean;
+  /**
+   * Whether sending the request twice is safe (default: true). When false,
+   * 5xx responses and network errors are not retried, since the first
+   * attempt may already have been applied.
+   */
+  idempotent?: boolean;
+  /**
+   * Map an error response to the error to throw. Returning undefined
+   * falls back to parseBlackboxErrorResponse().
+   */
+  mapError?: (response: Response, body: BlackboxErrorBody) => Error | undefined;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 60_000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+let globalPolicy: RetryPolicy = {};
+
+/**
+ * Set the retry policy used for all blackbox HTTP requests
+ *
+ * Replaces any previously configured policy; unset fields use defaults.
+ * `createCiferSdk()` calls this when `retryPolicy` is provided.
+ *
+ * @param policy - The retry policy
+ *
+ * @example
+ * ```typescript
+ * import { configureBlackboxHttp } from 'cifer-sdk';
+ *
+ * configureBlackboxHttp({
+ *   maxRetries: 5,
+ *   circuitBreaker: { failureThreshold: 10, resetTimeoutMs: 60_000 },
+ * });
+ * ```
+ *
+ * @public
+ */
+export function configureBlackboxHttp(policy: RetryPolicy): void {
+  globalPolicy = { ...policy };
+}
+
+/**
+ * Send a request to the blackbox with retries and error mapping
+ *
+ * @param request - The request
+ * @returns The successful (2xx) response
+ * @throws RateLimitedError if rate-limited by a plan limit or beyond the retry policy
+ * @throws CircuitOpenError if the origin's circuit breaker is open
+ * @throws RequestAbortedError if the signal aborts
+ * @throws BlackboxError (or the mapped error) for other error responses
+ */
+export async function blackboxRequest(request: BlackboxRequest): Promise<Response> {
+  const hook: HookState = {
+    event: {
+      kind: request.endpoint.startsWith('/web2/') ? 'web2' : 'blackbox',
+      endpoint: request.endpoint,
+      origin: originOf(request.url),
+      chainId: request.chainId,
+      secretId: request.secretId,
+      attempt: 1,
+    },
+  };
+  const startedAt = Date.now();
+
+  try {
+    return await sendWithRetries(request, hook);
+  } catch (error) {
+    emitHook('onError', {
+      ...hook.event,
+      error: error instanceof Error ? error : new Error(String(error)),
+      status: hook.status,
+      latencyMs: Date.now() - startedAt,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Hook event for the current attempt, and the status it received
+ */
+interface HookState {
+  event: RequestHookEvent;
+  status?: number;
+}
+
+/**
+ * The retry loop behind blackboxRequest(), keeping `hook` up to date
+ */
+async function sendWithRetries(request: BlackboxRequest, hook: HookState): Promise<Response> {
+  const { url, endpoint } = request;
+  const signal = request.signal ?? request.init.signal ?? undefined;
+  const init: RequestInit = signal ? { ...request.init, signal } : request.init;
+  const fetchFn = request.fetch ?? fetch;
+  const maxRetries = (request.retryable ?? !hasStreamBody(init))
+    ? Math.max(0, globalPolicy.maxRetries ?? DEFAULT_MAX_RETRIES)
+    : 0;
+  // A rejected 429 was never applied, but a 5xx or lost response may have been
+  const maxFailureRetries = request.idempotent === false ? 0 : maxRetries;
+  const breaker = resolveCircuitBreaker(globalPolicy);
+  const origin = getOrigin(url);
+
+  for (let attempt = 0; ; attempt++) {
+    hook.event = { ...hook.event, attempt: attempt + 1 };
+    hook.status = undefined;
+    throwIfAborted(signal);
+
+    if (breaker) {
+      const retryAt = acquireCircuit(origin, breaker);
+      if (retryAt !== undefined) {
+        throw new CircuitOpenError(origin, retryAt, endpoint);
+      }
+    }
+
+    emitHook('onRequest', hook.event);
+    const sentAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetchFn(url, init);
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        releaseCircuit(origin);
+        throw signal?.aborted ? toAbortError(signal) : error;
+      }
+      if (breaker) recordCircuitFailure(origin, breaker);
+      if (attempt >= maxFailureRetries) throw error;
+      const delay = backoffDelay(attempt);
+      emitHook('onRetry', {
+        ...hook.event,
+        delayMs: delay,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      await abortableSleep(delay, signal);
+      continue;
+    }
+
+    hook.status = response.status;
+    emitHook('onResponse', {
+      ...hook.event,
+      status: response.status,
+      latencyMs: Date.now() - sentAt,
+    });
+
+    if (response.status >= 500) {
+      if (breaker) recordCircuitFailure(origin, breaker);
+      if (attempt < maxFailureRetries) {
+        const delay = backoffDelay(attempt);
+        await discardBody(response);
+        emitHook('onRetry', { ...hook.event, delayMs: delay, status: response.status });
+        await abortableSleep(delay, signal);
+        continue;
+      }
+      throw await toError(request, response);
+    }
+
+    // The server answered, so it is reachable
+    recordCircuitSuccess(origin);
+
+    if (response.status === 429) {
+      const body = await readErrorBody(response);
+      const retryAfterMs =
+        typeof body.retryAfterSeconds === 'number'
+          ? body.retryAfterSeconds * 1000
+          : parseRetryAfter(response.headers.get('Retry-After'));
+      const maxWait = globalPolicy.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+      const delay = retryAfterMs ?? backoffDelay(attempt);
+      // Plan limits and cooldowns do not clear within the retry window
+      const isFinal = body.limitType !== undefined || body.retryAfterSeconds !== undefined;
+      if (isFinal || attempt >= maxRetries || delay > maxWait) {
+        throw (
+          request.mapError?.(response, body) ??
+          new RateLimitedError(endpoint, retryAfterMs, body)
+        );
+      }
+      emitHook('onRetry', { ...hook.event, delayMs: delay, status: 429 });
+      await abortableSleep(delay, signal);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw await toError(request, response);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Send a request to the blackbox and parse the JSON response
+ *
+ * @param request - The request
+ * @returns The parsed response body
+ */
+export async function blackboxJson<T>(request: BlackboxRequest): Promise<T> {
+  const response = await blackboxRequest(request);
+  return (await response.json()) as T;
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) to ms
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (header === null || header.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build the error for a failed response
+ */
+async function toError(request: BlackboxRequest, response: Response): Promise<Error> {
+  const body = await readErrorBody(response);
+  return (
+    request.mapError?.(response, body) ??
+    parseBlackboxErrorResponse(body, response.status, request.endpoint)
+  );
+}
+
+/**
+ * Read an error response's JSON body, or an empty body if it is not JSON
+ */
+async function readErrorBody(response: Response): Promise<BlackboxErrorBody> {
+  const body: unknown = await response.json().catch(() => ({}));
+  return typeof body === 'object' && body !== null ? (body as BlackboxErrorBody) : {};
+}
+
+/**
+ * Delay before retry number `attempt + 1`: exponential with equal jitter
+ */
+function backoffDelay(attempt: number): number {
+  const base = globalPolicy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = globalPolicy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const delay = Math.min(max, base * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function resolveCircuitBreaker(policy: RetryPolicy): CircuitBreakerSettings | undefined {
+  if (policy.circuitBreaker === false) {
+    return undefined;
+  }
+  return {
+    failureThreshold: policy.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+    resetTimeoutMs: policy.circuitBreaker?.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS,
+  };
+}
+
+function hasStreamBody(init: RequestInit): boolean {
+  return typeof ReadableStream !== 'undefined' && init.body instanceof ReadableStream;
+}
+
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+async function discardBody(response: Response): Promise<void> {
+  await response.body?.cancel().catch(() => {});
+}
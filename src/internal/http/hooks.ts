@@ -0,0 +1,93 @@
+/**
+ * @module internal/http/hooks
+ * @description Global lifecycle hooks for SDK network calls
+ */
+
+import type { RequestHookEvent, SdkHooks } from '../../types/hooks.js';
+
+let globalHooks: SdkHooks[] = [];
+
+/**
+ * Set the lifecycle hooks called for all blackbox, web2 and RPC calls
+ *
+ * Replaces any previously configured hooks; pass an empty array to remove
+ * them. `createCiferSdk()` calls this when `hooks` is provided.
+ *
+ * @param hooks - One set of hooks, or several called in order
+ *
+ * @example
+ * ```typescript
+ * import { configureHooks, MetricsCollector } from 'cifer-sdk';
+ *
+ * const metrics = new MetricsCollector();
+ * configureHooks([metrics, { onRetry: (e) => console.warn('retrying', e.endpoint) }]);
+ * ```
+ *
+ * @public
+ */
+export function configureHooks(hooks: SdkHooks | SdkHooks[]): void {
+  globalHooks = Array.isArray(hooks) ? [...hooks] : [hooks];
+}
+
+/**
+ * Call a hook on every configured set of hooks
+ *
+ * Exceptions thrown by hooks are ignored.
+ */
+export function emitHook<K extends keyof SdkHooks>(
+  name: K,
+  event: Parameters<NonNullable<SdkHooks[K]>>[0]
+): void {
+  for (const hooks of globalHooks) {
+    try {
+      (hooks[name] as ((e: typeof event) => void) | undefined)?.(event);
+    } catch {
+      // A throwing hook must not break the request it observes
+    }
+  }
+}
+
+/**
+ * Reduce a URL to its origin, so hooks never see paths or query strings
+ */
+export function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Report a single-attempt request to the hooks
+ *
+ * Emits onRequest, then onError if `send` throws. `send` reports the
+ * response status through its callback, which emits onResponse.
+ *
+ * @param event - The request event
+ * @param send - Sends the request
+ * @returns The result of `send`
+ */
+export async function withHooks<T>(
+  event: RequestHookEvent,
+  send: (onResponse: (status: number) => void) => Promise<T>
+): Promise<T> {
+  let status: number | undefined;
+  emitHook('onRequest', event);
+  const sentAt = Date.now();
+
+  try {
+    return await send((received) => {
+      status = received;
+      emitHook('onResponse', { ...event, status: received, latencyMs: Date.now() - sentAt });
+    });
+  } catch (error) {
+    emitHook('onError', {
+      ...event,
+      error: error instanceof Error ? error : new Error(String(error)),
+      status,
+      latencyMs: Date.now() - sentAt,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * @module internal/http
+ * @description Shared HTTP layer for blackbox requests
+ */
+
+export {
+  blackboxRequest,
+  blackboxJson,
+  configureBlackboxHttp,
+  parseRetryAfter,
+  type BlackboxRequest,
+  type BlackboxErrorBody,
+} from './client.js';
+
+export { resetCircuits } from './circuit-breaker.js';
+
+export { configureHooks, emitHook, originOf, withHooks } from './hooks.js';
+
+export {
+  MetricsCollector,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  type MetricsCollectorOptions,
+  type MetricsSnapshot,
+  type EndpointMetrics,
+  type LatencyHistogram,
+} from './metrics.js';
+
+export {
+  createDeadline,
+  withDeadline,
+  toAbortError,
+  throwIfAborted,
+  abortableSleep,
+  type RequestDeadline,
+} from './abort.js';
@@ -0,0 +1,263 @@
+/**
+ * @module internal/http/metrics
+ * @description Built-in hooks that aggregate latency histograms and error counts
+ */
+
+import type {
+  BlockStaleHookEvent,
+  ErrorHookEvent,
+  RequestHookEvent,
+  RequestKind,
+  ResponseHookEvent,
+  RetryHookEvent,
+  SdkHooks,
+} from '../../types/hooks.js';
+import { CiferError } from '../errors/index.js';
+
+/**
+ * Default latency bucket upper bounds, in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+/**
+ * Options for creating a MetricsCollector
+ */
+export interface MetricsCollectorOptions {
+  /** Latency bucket upper bounds in ms, ascending (default: 25ms to 30s) */
+  latencyBucketsMs?: number[];
+}
+
+/**
+ * Cumulative latency histogram, in the Prometheus style
+ */
+export interface LatencyHistogram {
+  /** Responses at or under each bound, ending with `le: Infinity` */
+  buckets: Array<{ le: number; count: number }>;
+  /** Number of observed responses */
+  count: number;
+  /** Sum of observed latencies in ms */
+  sumMs: number;
+}
+
+/**
+ * Metrics for one endpoint
+ */
+export interface EndpointMetrics {
+  /** Which service the endpoint belongs to */
+  kind: RequestKind;
+  /** Endpoint path with job IDs replaced by `:jobId`, or the JSON-RPC method */
+  endpoint: string;
+  /** Attempts sent, including retries */
+  requests: number;
+  /** Responses received, by HTTP status */
+  responses: Record<number, number>;
+  /** Retries scheduled */
+  retries: number;
+  /** Requests that failed, by error code (`BLACKBOX_ERROR`, `TypeError`, ...) */
+  errors: Record<string, number>;
+  /** Latency of received responses */
+  latency: LatencyHistogram;
+}
+
+/**
+ * Everything a MetricsCollector has observed
+ */
+export interface MetricsSnapshot {
+  /** Per-endpoint metrics */
+  endpoints: EndpointMetrics[];
+  /** Stale-block retries, by chain ID */
+  blockStale: Record<number, number>;
+  /** When collection started or was last reset (unix ms) */
+  since: number;
+}
+
+/**
+ * Hooks that aggregate request metrics in memory
+ *
+ * Records per-endpoint request, response, retry and error counts and a
+ * latency histogram, plus stale-block retries per chain. Read them with
+ * snapshot(), or as Prometheus text with toPrometheus().
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ * const sdk = await createCiferSdk({ blackboxUrl, hooks: metrics });
+ *
+ * // e.g. in a /metrics handler
+ * res.end(metrics.toPrometheus());
+ * ```
+ *
+ * @public
+ */
+export class MetricsCollector implements SdkHooks {
+  private bounds: number[];
+  private endpoints = new Map<string, EndpointMetrics>();
+  private blockStale: Record<number, number> = {};
+  private since = Date.now();
+
+  /**
+   * Create a metrics collector
+   *
+   * @param options - Histogram buckets
+   */
+  constructor(options?: MetricsCollectorOptions) {
+    this.bounds = [...(options?.latencyBucketsMs ?? DEFAULT_LATENCY_BUCKETS_MS)].sort(
+      (a, b) => a - b
+    );
+  }
+
+  /** Count an attempt */
+  onRequest = (event: RequestHookEvent): void => {
+    this.get(event).requests += 1;
+  };
+
+  /** Count a response and record its latency */
+  onResponse = (event: ResponseHookEvent): void => {
+    const metrics = this.get(event);
+    metrics.responses[event.status] = (metrics.responses[event.status] ?? 0) + 1;
+
+    const { latency } = metrics;
+    latency.count += 1;
+    latency.sumMs += event.latencyMs;
+    for (const bucket of latency.buckets) {
+      if (event.latencyMs <= bucket.le) {
+        bucket.count += 1;
+      }
+    }
+  };
+
+  /** Count a retry */
+  onRetry = (event: RetryHookEvent): void => {
+    this.get(event).retries += 1;
+  };
+
+  /** Count a failed request by error code */
+  onError = (event: ErrorHookEvent): void => {
+    const { errors } = this.get(event);
+    const code = event.error instanceof CiferError ? event.error.code : event.error.name;
+    errors[code] = (errors[code] ?? 0) + 1;
+  };
+
+  /** Count a stale-block retry */
+  onBlockStale = (event: BlockStaleHookEvent): void => {
+    this.blockStale[event.chainId] = (this.blockStale[event.chainId] ?? 0) + 1;
+  };
+
+  /**
+   * Get a copy of everything observed so far
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      endpoints: [...this.endpoints.values()].map((metrics) => ({
+        ...metrics,
+        responses: { ...metrics.responses },
+        errors: { ...metrics.errors },
+        latency: {
+          ...metrics.latency,
+          buckets: metrics.latency.buckets.map((bucket) => ({ ...bucket })),
+        },
+      })),
+      blockStale: { ...this.blockStale },
+      since: this.since,
+    };
+  }
+
+  /**
+   * Discard everything observed so far
+   */
+  reset(): void {
+    this.endpoints.clear();
+    this.blockStale = {};
+    this.since = Date.now();
+  }
+
+  /**
+   * Render the metrics in the Prometheus text exposition format
+   *
+   * @param prefix - Metric name prefix (default: `cifer_sdk`)
+   */
+  toPrometheus(prefix = 'cifer_sdk'): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+    };
+    const labels = (m: EndpointMetrics, extra = '') =>
+      `{kind="${m.kind}",endpoint="${escapeLabel(m.endpoint)}"${extra}}`;
+    const endpoints = [...this.endpoints.values()];
+
+    metric('requests_total', 'counter', 'Attempts sent, including retries');
+    for (const m of endpoints) {
+      lines.push(`${prefix}_requests_total${labels(m)} ${m.requests}`);
+    }
+
+    metric('responses_total', 'counter', 'Responses received by HTTP status');
+    for (const m of endpoints) {
+      for (const [status, count] of Object.entries(m.responses)) {
+        lines.push(`${prefix}_responses_total${labels(m, `,status="${status}"`)} ${count}`);
+      }
+    }
+
+    metric('retries_total', 'counter', 'Retries scheduled');
+    for (const m of endpoints) {
+      lines.push(`${prefix}_retries_total${labels(m)} ${m.retries}`);
+    }
+
+    metric('errors_total', 'counter', 'Failed requests by error code');
+    for (const m of endpoints) {
+      for (const [code, count] of Object.entries(m.errors)) {
+        lines.push(`${prefix}_errors_total${labels(m, `,code="${escapeLabel(code)}"`)} ${count}`);
+      }
+    }
+
+    metric('latency_ms', 'histogram', 'Response latency in milliseconds');
+    for (const m of endpoints) {
+      for (const bucket of m.latency.buckets) {
+        const le = bucket.le === Infinity ? '+Inf' : String(bucket.le);
+        lines.push(`${prefix}_latency_ms_bucket${labels(m, `,le="${le}"`)} ${bucket.count}`);
+      }
+      lines.push(`${prefix}_latency_ms_sum${labels(m)} ${m.latency.sumMs}`);
+      lines.push(`${prefix}_latency_ms_count${labels(m)} ${m.latency.count}`);
+    }
+
+    metric('block_stale_total', 'counter', 'Stale-block retries by chain');
+    for (const [chainId, count] of Object.entries(this.blockStale)) {
+      lines.push(`${prefix}_block_stale_total{chain_id="${chainId}"} ${count}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private get(event: RequestHookEvent): EndpointMetrics {
+    const endpoint = toRoute(event.endpoint);
+    const key = `${event.kind} ${endpoint}`;
+    let metrics = this.endpoints.get(key);
+    if (!metrics) {
+      metrics = {
+        kind: event.kind,
+        endpoint,
+        requests: 0,
+        responses: {},
+        retries: 0,
+        errors: {},
+        latency: {
+          buckets: [...this.bounds, Infinity].map((le) => ({ le, count: 0 })),
+          count: 0,
+          sumMs: 0,
+        },
+      };
+      this.endpoints.set(key, metrics);
+    }
+    return metrics;
+  }
+}
+
+/**
+ * Replace the job ID in `/jobs/{id}/...` paths, so every job shares one series
+ */
+function toRoute(endpoint: string): string {
+  return endpoint.replace(/^\/jobs\/[^/]+\/(status|download|delete)$/, '/jobs/:jobId/$1');
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,15 @@
+/**
+ * @module internal/logging
+ * @description Structured logging shared by every SDK module
+ */
+
+export {
+  createLogger,
+  configureLogger,
+  getLogger,
+  resolveLogger,
+  redactFields,
+  DEFAULT_REDACTED_FIELDS,
+  REDACTED,
+  type CreateLoggerOptions,
+} from './logger.js';
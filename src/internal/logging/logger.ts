@@ -0,0 +1,191 @@
+/**
+ * @module internal/logging/logger
+ * @description Leveled, structured logging with secret redaction
+ */
+
+import type { LogFields, LogLevel, Logger, LoggerInput } from '../../types/logging.js';
+
+/**
+ * Field names whose values are always replaced with `[REDACTED]`
+ *
+ * Matched case-insensitively, at any depth.
+ */
+export const DEFAULT_REDACTED_FIELDS: readonly string[] = [
+  'plaintext',
+  'decryptedMessage',
+  'sessionPrivateKey',
+  'privateKey',
+  'password',
+  'newPassword',
+  'otp',
+  'signature',
+  'mnemonic',
+  'seed',
+];
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Options for createLogger()
+ */
+export interface CreateLoggerOptions {
+  /**
+   * Minimum level passed on (default: `debug` for Logger objects, `info`
+   * for plain callbacks)
+   */
+  level?: LogLevel;
+  /** Field names to redact in addition to DEFAULT_REDACTED_FIELDS */
+  redactFields?: string[];
+  /** Fields attached to every message */
+  fields?: LogFields;
+}
+
+const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+let globalLogger: Logger = noopLogger;
+
+/**
+ * Wrap a logger with level filtering and redaction
+ *
+ * Plain `(message) => void` callbacks receive the message only. Exceptions
+ * thrown by the target are ignored, so logging never breaks an operation.
+ *
+ * @param target - The logger or callback to write to
+ * @param options - Level, extra redacted fields and bound fields
+ * @returns A logger that redacts fields before passing them on
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger(console, { level: 'info', redactFields: ['apiKey'] });
+ * logger.info('Encrypting', { secretId: 42, plaintext: 'hi' });
+ * // console.info('Encrypting', { secretId: 42, plaintext: '[REDACTED]' })
+ * ```
+ *
+ * @public
+ */
+export function createLogger(target: LoggerInput, options?: CreateLoggerOptions): Logger {
+  const callback = typeof target === 'function';
+  const minLevel = LEVELS[options?.level ?? (callback ? 'info' : 'debug')];
+  const redacted = new Set(
+    [...DEFAULT_REDACTED_FIELDS, ...(options?.redactFields ?? [])].map((f) => f.toLowerCase())
+  );
+  const bound = options?.fields;
+
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVELS[level] < minLevel) {
+      return;
+    }
+    try {
+      if (callback) {
+        target(message);
+        return;
+      }
+      const merged = bound || fields ? redactFields({ ...bound, ...fields }, redacted) : undefined;
+      target[level](message, merged);
+    } catch {
+      // A failing logger must not break the operation it reports on
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Set the logger used by every SDK module
+ *
+ * Discovery, block-freshness retries, web2 session renewal and flows
+ * without their own `logger` write to it. `createCiferSdk()` calls this
+ * when `logger` is provided. Pass undefined to turn logging off.
+ *
+ * @param logger - The logger or callback
+ * @param options - Level and extra redacted fields
+ *
+ * @public
+ */
+export function configureLogger(logger: LoggerInput | undefined, options?: CreateLoggerOptions): void {
+  globalLogger = logger ? createLogger(logger, options) : noopLogger;
+}
+
+/**
+ * Get a logger for an SDK module
+ *
+ * Writes to whatever logger is configured at call time, adding a
+ * `module` field.
+ *
+ * @param module - Module name (e.g. `discovery`)
+ */
+export function getLogger(module: string): Logger {
+  const forward = (level: LogLevel) => (message: string, fields?: LogFields) =>
+    globalLogger[level](message, { module, ...fields });
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+  };
+}
+
+/**
+ * Use a caller-provided logger when there is one, else the module logger
+ *
+ * @param logger - Logger passed to a function (e.g. `FlowContext.logger`)
+ * @param module - Module name
+ */
+export function resolveLogger(logger: LoggerInput | undefined, module: string): Logger {
+  return logger ? createLogger(logger, { fields: { module } }) : getLogger(module);
+}
+
+/**
+ * Copy fields, replacing the values of redacted names at any depth
+ *
+ * @param fields - The fields to redact
+ * @param names - Lower-case field names to redact (default: DEFAULT_REDACTED_FIELDS)
+ * @returns A redacted copy
+ */
+export function redactFields(
+  fields: LogFields,
+  names: ReadonlySet<string> = new Set(DEFAULT_REDACTED_FIELDS.map((f) => f.toLowerCase()))
+): LogFields {
+  const seen = new WeakSet<object>();
+
+  const visit = (value: unknown): unknown => {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message };
+    }
+    if (value instanceof Uint8Array || value instanceof Date) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    const copy: LogFields = {};
+    for (const [key, child] of Object.entries(value)) {
+      copy[key] = names.has(key.toLowerCase()) ? REDACTED : visit(child);
+    }
+    return copy;
+  };
+
+  return visit(fields) as LogFields;
+}
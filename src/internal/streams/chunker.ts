@@ -0,0 +1,99 @@
+/**
+ * @module internal/streams/chunker
+ * @description Read a byte source in fixed-size chunks
+ */
+
+/**
+ * Byte sources that can be read in chunks
+ */
+export type ChunkSource = Blob | ReadableStream<Uint8Array> | Uint8Array;
+
+/**
+ * Reads the next chunk, or resolves to `null` once the source is exhausted.
+ * Every chunk except the last one is exactly `chunkSize` bytes long.
+ */
+export type ChunkReader = () => Promise<Uint8Array | null>;
+
+/**
+ * Create a reader that yields a source in fixed-size chunks
+ *
+ * Blobs are read with `slice()` and streams are re-buffered, so at most
+ * one chunk (plus one upstream read) is held in memory at a time.
+ *
+ * @param source - The bytes to read
+ * @param chunkSize - Chunk size in bytes
+ * @returns Chunk reader
+ */
+export function createChunkReader(source: ChunkSource, chunkSize: number): ChunkReader {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid chunk size: ${chunkSize}`);
+  }
+
+  if (source instanceof Uint8Array) {
+    let offset = 0;
+    return async () => {
+      if (offset >= source.length) return null;
+      const chunk = source.subarray(offset, offset + chunkSize);
+      offset += chunk.length;
+      return chunk;
+    };
+  }
+
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    let offset = 0;
+    return async () => {
+      if (offset >= source.size) return null;
+      const slice = source.slice(offset, offset + chunkSize);
+      offset += slice.size;
+      return new Uint8Array(await slice.arrayBuffer());
+    };
+  }
+
+  return createStreamChunkReader(source as ReadableStream<Uint8Array>, chunkSize);
+}
+
+function createStreamChunkReader(
+  stream: ReadableStream<Uint8Array>,
+  chunkSize: number
+): ChunkReader {
+  const reader = stream.getReader();
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let done = false;
+
+  return async () => {
+    while (!done && pendingBytes < chunkSize) {
+      const result = await reader.read();
+      if (result.done) {
+        done = true;
+        break;
+      }
+      if (result.value.length > 0) {
+        pending.push(result.value);
+        pendingBytes += result.value.length;
+      }
+    }
+
+    if (pendingBytes === 0) return null;
+
+    const size = Math.min(chunkSize, pendingBytes);
+    const chunk = new Uint8Array(size);
+    let filled = 0;
+    const rest: Uint8Array[] = [];
+
+    for (const part of pending) {
+      if (filled < size) {
+        const take = Math.min(part.length, size - filled);
+        chunk.set(part.subarray(0, take), filled);
+        filled += take;
+        if (take < part.length) rest.push(part.subarray(take));
+      } else {
+        rest.push(part);
+      }
+    }
+
+    pending = rest;
+    pendingBytes -= size;
+    return chunk;
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * @module internal/streams/digest
+ * @description Incremental hashing of streamed data
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { toHexDigits } from '../encoding/index.js';
+
+/**
+ * A stream that hashes the bytes passing through it
+ */
+export interface HashingStream {
+  /** The same bytes as the source */
+  stream: ReadableStream<Uint8Array>;
+  /** SHA-256 of everything read so far (lowercase hex, no 0x prefix) */
+  digest(): string;
+}
+
+/**
+ * Pass a stream through unchanged while computing its SHA-256
+ *
+ * @param source - Source stream
+ * @returns The pass-through stream and a digest accessor
+ */
+export function sha256Through(source: ReadableStream<Uint8Array>): HashingStream {
+  const hasher = sha256.create();
+
+  const stream = source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hasher.update(chunk);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  return {
+    stream,
+    digest: () => toHexDigits(hasher.clone().digest()),
+  };
+}
+
+/**
+ * Normalize a hex digest for comparison (lowercase, no 0x prefix)
+ */
+export function normalizeDigest(hash: string): string {
+  return hash.trim().replace(/^0x/i, '').toLowerCase();
+}
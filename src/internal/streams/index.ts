@@ -0,0 +1,32 @@
+/**
+ * @module internal/streams
+ * @description Stream and chunking utilities
+ */
+
+export {
+  createChunkReader,
+  type ChunkSource,
+  type ChunkReader,
+} from './chunker.js';
+
+export {
+  openFileSource,
+  isReplayableSource,
+  getSourceSize,
+  iterableToStream,
+  type OpenedSource,
+} from './sources.js';
+
+export { trackProgress } from './progress.js';
+
+export { sha256Through, normalizeDigest, type HashingStream } from './digest.js';
+
+export {
+  createMultipartBody,
+  type MultipartFile,
+  type MultipartBody,
+} from './multipart.js';
+
+export { writeToDestination } from './sinks.js';
+
+export { isNodeRuntime } from './node.js';
@@ -0,0 +1,94 @@
+/**
+ * @module internal/streams/multipart
+ * @description Streaming `multipart/form-data` bodies
+ *
+ * `FormData` needs the whole file as a Blob. This builds the same body as a
+ * stream so large files can be uploaded without buffering them.
+ */
+
+import { iterableToStream } from './sources.js';
+
+/**
+ * The file part of a multipart body
+ */
+export interface MultipartFile {
+  /** Form field name */
+  field: string;
+  /** File name sent in Content-Disposition */
+  fileName: string;
+  /** File contents */
+  stream: ReadableStream<Uint8Array>;
+  /** File size in bytes, when known */
+  size?: number;
+}
+
+/**
+ * A streamed multipart body with its headers
+ */
+export interface MultipartBody {
+  /** The encoded body */
+  body: ReadableStream<Uint8Array>;
+  /** Value for the Content-Type header (includes the boundary) */
+  contentType: string;
+  /** Total body size, when the file size is known */
+  contentLength?: number;
+}
+
+function escapeQuoted(value: string): string {
+  return value.replace(/[\r\n"]/g, (char) => encodeURIComponent(char));
+}
+
+/**
+ * Build a streamed `multipart/form-data` body
+ *
+ * Text fields are written before the file so servers that parse
+ * incrementally see them first.
+ *
+ * @param fields - Text fields, in order
+ * @param file - The file part
+ * @returns Body stream, content type and (if known) length
+ */
+export function createMultipartBody(
+  fields: Array<[name: string, value: string]>,
+  file: MultipartFile
+): MultipartBody {
+  const boundary = `----CiferFormBoundary${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`;
+  const encoder = new TextEncoder();
+
+  let head = '';
+  for (const [name, value] of fields) {
+    head +=
+      `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="${escapeQuoted(name)}"\r\n\r\n` +
+      `${value}\r\n`;
+  }
+  head +=
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="${escapeQuoted(file.field)}"; filename="${escapeQuoted(file.fileName)}"\r\n` +
+    'Content-Type: application/octet-stream\r\n\r\n';
+
+  const headBytes = encoder.encode(head);
+  const tailBytes = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  async function* parts(): AsyncGenerator<Uint8Array> {
+    yield headBytes;
+    const reader = file.stream.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+    yield tailBytes;
+  }
+
+  return {
+    body: iterableToStream(parts()),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength:
+      file.size === undefined ? undefined : headBytes.length + file.size + tailBytes.length,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * @module internal/streams/node
+ * @description Lazy access to Node.js built-ins
+ *
+ * The SDK also runs in browsers, so Node.js modules are imported on demand
+ * (and only when a filesystem path is used) instead of at module load.
+ */
+
+import type { NodeWritableLike } from '../../types/common.js';
+
+/**
+ * The subset of `node:fs` used by the SDK
+ */
+export interface NodeFsModule {
+  createReadStream(path: string): AsyncIterable<Uint8Array>;
+  createWriteStream(path: string): NodeWritableLike;
+  promises: {
+    stat(path: string): Promise<{ size: number }>;
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+    writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+  };
+}
+
+/**
+ * Whether the SDK is running under Node.js
+ */
+export function isNodeRuntime(): boolean {
+  const runtime = globalThis as { process?: { versions?: { node?: string } } };
+  return typeof runtime.process?.versions?.node === 'string';
+}
+
+/**
+ * Import `node:fs`
+ *
+ * @throws Error when not running under Node.js
+ */
+export async function importNodeFs(): Promise<NodeFsModule> {
+  // A non-literal specifier keeps bundlers from trying to resolve it
+  const specifier = 'node:fs';
+  try {
+    return (await import(/* webpackIgnore: true */ /* @vite-ignore */ specifier)) as NodeFsModule;
+  } catch {
+    throw new Error('Filesystem paths are only supported in Node.js');
+  }
+}
+
+/**
+ * Last segment of a filesystem path
+ */
+export function basename(path: string): string {
+  return path.split(/[\\/]/).filter(Boolean).pop() ?? path;
+}
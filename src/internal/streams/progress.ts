@@ -0,0 +1,32 @@
+/**
+ * @module internal/streams/progress
+ * @description Byte counting for streamed transfers
+ */
+
+import type { TransferProgress } from '../../types/common.js';
+
+/**
+ * Pass a stream through unchanged, reporting the bytes read so far
+ *
+ * @param stream - Source stream
+ * @param onProgress - Called after every chunk
+ * @param total - Total size in bytes, when known
+ * @returns The same bytes, counted
+ */
+export function trackProgress(
+  stream: ReadableStream<Uint8Array>,
+  onProgress: (progress: TransferProgress) => void,
+  total?: number
+): ReadableStream<Uint8Array> {
+  let loaded = 0;
+
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.length;
+        controller.enqueue(chunk);
+        onProgress({ loaded, total });
+      },
+    })
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * @module internal/streams/sinks
+ * @description Write streams to WHATWG writables, Node.js writables or files
+ */
+
+import type { DownloadDestination, NodeWritableLike } from '../../types/common.js';
+import { importNodeFs } from './node.js';
+
+function isWritableStream(value: unknown): value is WritableStream<Uint8Array> {
+  return typeof (value as WritableStream).getWriter === 'function';
+}
+
+/**
+ * Write a stream to a destination and wait until it is flushed
+ *
+ * @param stream - Bytes to write
+ * @param destination - WritableStream, Node.js writable or filesystem path
+ */
+export async function writeToDestination(
+  stream: ReadableStream<Uint8Array>,
+  destination: DownloadDestination
+): Promise<void> {
+  if (typeof destination === 'string') {
+    const fs = await importNodeFs();
+    await writeToNodeWritable(stream, fs.createWriteStream(destination));
+    return;
+  }
+
+  if (isWritableStream(destination)) {
+    await stream.pipeTo(destination);
+    return;
+  }
+
+  await writeToNodeWritable(stream, destination);
+}
+
+/**
+ * Pipe into a Node.js writable, respecting backpressure
+ */
+async function writeToNodeWritable(
+  stream: ReadableStream<Uint8Array>,
+  writable: NodeWritableLike
+): Promise<void> {
+  let failure: Error | undefined;
+  let wake: (() => void) | undefined;
+  const onError = (error: Error) => {
+    failure = error;
+    wake?.();
+  };
+  writable.once('error', onError);
+
+  // Resolves on the given event, or early if the writable errors
+  const waitFor = (start: (resolve: () => void) => void) =>
+    new Promise<void>((resolve) => {
+      wake = resolve;
+      start(resolve);
+    }).then(() => {
+      wake = undefined;
+      if (failure) throw failure;
+    });
+
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (failure) throw failure;
+
+      if (!writable.write(value)) {
+        await waitFor((resolve) => writable.once('drain', resolve));
+      }
+    }
+
+    await waitFor((resolve) => writable.end(() => resolve()));
+  } catch (error) {
+    await reader.cancel(error).catch(() => undefined);
+    throw error;
+  } finally {
+    writable.removeListener('error', onError);
+  }
+}
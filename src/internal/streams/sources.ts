@@ -0,0 +1,96 @@
+/**
+ * @module internal/streams/sources
+ * @description Normalize upload inputs to WHATWG streams
+ */
+
+import type { FileSource } from '../../types/common.js';
+import { importNodeFs, basename } from './node.js';
+
+/**
+ * An upload input opened for reading
+ */
+export interface OpenedSource {
+  /** The bytes to upload */
+  stream: ReadableStream<Uint8Array>;
+  /** Size in bytes, when known */
+  size?: number;
+  /** File name, when the source carries one */
+  name?: string;
+}
+
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+/**
+ * Whether a source can be opened more than once (and the upload retried)
+ */
+export function isReplayableSource(source: FileSource): boolean {
+  return typeof source === 'string' || isBlob(source);
+}
+
+/**
+ * Size of a source in bytes, without reading it
+ *
+ * @returns The size for Blobs and paths, undefined for streams
+ */
+export async function getSourceSize(source: FileSource): Promise<number | undefined> {
+  if (typeof source === 'string') {
+    const fs = await importNodeFs();
+    return (await fs.promises.stat(source)).size;
+  }
+  return isBlob(source) ? source.size : undefined;
+}
+
+/**
+ * Convert an async iterable (e.g. a Node.js Readable) to a ReadableStream
+ */
+export function iterableToStream(iterable: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const result = await iterator.next();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
+
+/**
+ * Open an upload source for streaming
+ *
+ * @param source - Blob, stream, async iterable or filesystem path
+ * @returns The stream, plus size and name when known
+ */
+export async function openFileSource(source: FileSource): Promise<OpenedSource> {
+  if (typeof source === 'string') {
+    const fs = await importNodeFs();
+    const { size } = await fs.promises.stat(source);
+    return {
+      stream: iterableToStream(fs.createReadStream(source)),
+      size,
+      name: basename(source),
+    };
+  }
+
+  if (isBlob(source)) {
+    return {
+      stream: source.stream(),
+      size: source.size,
+      name: typeof File !== 'undefined' && source instanceof File ? source.name : undefined,
+    };
+  }
+
+  if (typeof (source as ReadableStream<Uint8Array>).getReader === 'function') {
+    return { stream: source as ReadableStream<Uint8Array> };
+  }
+
+  return { stream: iterableToStream(source as AsyncIterable<Uint8Array>) };
+}
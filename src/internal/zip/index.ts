@@ -0,0 +1,12 @@
+/**
+ * @module internal/zip
+ * @description ZIP archive utilities
+ */
+
+export {
+  readZipDirectory,
+  readZipEntry,
+  ZipFormatError,
+  type ZipEntry,
+  type ZipSource,
+} from './reader.js';
@@ -0,0 +1,223 @@
+/**
+ * @module internal/zip/reader
+ * @description Random-access ZIP reader
+ *
+ * Only the central directory and the requested entries are read, so large
+ * archives (e.g. 1GB `.cifer` files) can be inspected without loading them
+ * into memory.
+ */
+
+import { inflateSync } from 'fflate';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD64_LOCATOR_SIGNATURE = 0x07064b50;
+const EOCD64_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_MIN_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+/** Compression method: stored (no compression) */
+const METHOD_STORED = 0;
+/** Compression method: deflate */
+const METHOD_DEFLATE = 8;
+
+/**
+ * Byte sources a ZIP can be read from
+ */
+export type ZipSource = Blob | Uint8Array;
+
+/**
+ * A file entry from the ZIP central directory
+ */
+export interface ZipEntry {
+  /** Entry name (path inside the archive) */
+  name: string;
+  /** Compression method (0 = stored, 8 = deflate) */
+  method: number;
+  /** Size of the entry data as stored in the archive */
+  compressedSize: number;
+  /** Size of the entry once decompressed */
+  uncompressedSize: number;
+  /** Offset of the entry's local file header */
+  localHeaderOffset: number;
+}
+
+/**
+ * Error raised for archives that cannot be parsed
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+type ByteReader = (start: number, end: number) => Promise<Uint8Array>;
+
+function createByteReader(source: ZipSource): { size: number; read: ByteReader } {
+  if (source instanceof Uint8Array) {
+    return {
+      size: source.length,
+      read: async (start, end) => source.subarray(start, end),
+    };
+  }
+  return {
+    size: source.size,
+    read: async (start, end) => new Uint8Array(await source.slice(start, end).arrayBuffer()),
+  };
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Read the central directory of a ZIP archive
+ *
+ * @param source - The archive
+ * @returns Entries keyed by name
+ * @throws ZipFormatError if the archive is malformed
+ */
+export async function readZipDirectory(source: ZipSource): Promise<Map<string, ZipEntry>> {
+  const { size, read } = createByteReader(source);
+
+  if (size < EOCD_MIN_BYTES) {
+    throw new ZipFormatError('Not a ZIP archive: too small');
+  }
+
+  // The end-of-central-directory record sits at the end, before an optional comment
+  const tailStart = Math.max(0, size - EOCD_MIN_BYTES - MAX_COMMENT_BYTES);
+  const tail = await read(tailStart, size);
+  const tailView = view(tail);
+
+  let eocd = -1;
+  for (let i = tail.length - EOCD_MIN_BYTES; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new ZipFormatError('Not a ZIP archive: end of central directory not found');
+  }
+
+  let entryCount = tailView.getUint16(eocd + 10, true);
+  let directorySize = tailView.getUint32(eocd + 12, true);
+  let directoryOffset = tailView.getUint32(eocd + 16, true);
+
+  if (directoryOffset === ZIP64_MARKER || directorySize === ZIP64_MARKER || entryCount === 0xffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tailView.getUint32(locator, true) !== EOCD64_LOCATOR_SIGNATURE) {
+      throw new ZipFormatError('Invalid ZIP64 archive: locator not found');
+    }
+    const eocd64Offset = Number(tailView.getBigUint64(locator + 8, true));
+    const eocd64 = view(await read(eocd64Offset, eocd64Offset + 56));
+    if (eocd64.getUint32(0, true) !== EOCD64_SIGNATURE) {
+      throw new ZipFormatError('Invalid ZIP64 archive: end of central directory not found');
+    }
+    entryCount = Number(eocd64.getBigUint64(32, true));
+    directorySize = Number(eocd64.getBigUint64(40, true));
+    directoryOffset = Number(eocd64.getBigUint64(48, true));
+  }
+
+  if (directoryOffset + directorySize > size) {
+    throw new ZipFormatError('Invalid ZIP archive: central directory out of bounds');
+  }
+
+  const directory = await read(directoryOffset, directoryOffset + directorySize);
+  const directoryView = view(directory);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > directory.length || directoryView.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const method = directoryView.getUint16(offset + 10, true);
+    let compressedSize = directoryView.getUint32(offset + 20, true);
+    let uncompressedSize = directoryView.getUint32(offset + 24, true);
+    const nameLength = directoryView.getUint16(offset + 28, true);
+    const extraLength = directoryView.getUint16(offset + 30, true);
+    const commentLength = directoryView.getUint16(offset + 32, true);
+    let localHeaderOffset = directoryView.getUint32(offset + 42, true);
+
+    const nameStart = offset + 46;
+    const name = decoder.decode(directory.subarray(nameStart, nameStart + nameLength));
+
+    // ZIP64 extended information: present fields appear in a fixed order
+    const extraStart = nameStart + nameLength;
+    let extra = extraStart;
+    while (extra + 4 <= extraStart + extraLength) {
+      const headerId = directoryView.getUint16(extra, true);
+      const dataSize = directoryView.getUint16(extra + 2, true);
+      if (headerId === 0x0001) {
+        let field = extra + 4;
+        if (uncompressedSize === ZIP64_MARKER) {
+          uncompressedSize = Number(directoryView.getBigUint64(field, true));
+          field += 8;
+        }
+        if (compressedSize === ZIP64_MARKER) {
+          compressedSize = Number(directoryView.getBigUint64(field, true));
+          field += 8;
+        }
+        if (localHeaderOffset === ZIP64_MARKER) {
+          localHeaderOffset = Number(directoryView.getBigUint64(field, true));
+        }
+      }
+      extra += 4 + dataSize;
+    }
+
+    entries.set(name, { name, method, compressedSize, uncompressedSize, localHeaderOffset });
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read and decompress a single ZIP entry
+ *
+ * @param source - The archive
+ * @param entry - Entry from readZipDirectory()
+ * @returns The entry contents
+ * @throws ZipFormatError if the entry is malformed or uses an unsupported compression method
+ */
+export async function readZipEntry(source: ZipSource, entry: ZipEntry): Promise<Uint8Array> {
+  const { size, read } = createByteReader(source);
+
+  const header = view(await read(entry.localHeaderOffset, entry.localHeaderOffset + 30));
+  if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ZipFormatError(`Invalid ZIP entry ${entry.name}: local header not found`);
+  }
+
+  const dataStart =
+    entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const dataEnd = dataStart + entry.compressedSize;
+  if (dataEnd > size) {
+    throw new ZipFormatError(`Invalid ZIP entry ${entry.name}: data out of bounds`);
+  }
+
+  const data = await read(dataStart, dataEnd);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATE:
+      try {
+        return inflateSync(data, { out: new Uint8Array(entry.uncompressedSize) });
+      } catch (error) {
+        throw new ZipFormatError(
+          `Invalid ZIP entry ${entry.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    default:
+      throw new ZipFormatError(
+        `Unsupported compression method ${entry.method} for ZIP entry ${entry.name}`
+      );
+  }
+}
@@ -4,6 +4,7 @@
  *
  * This module provides functions for:
  * - Reading secret state from the SecretsController contract
+ * - Checking which blackbox enclaves are whitelisted
  * - Building transaction intents for creating, delegating, and transferring secrets
  * - Parsing events from transaction receipts
  *
@@ -34,6 +35,8 @@ export {
   getSecretsCountByWallet,
   isSecretReady,
   isAuthorized,
+  isBlackBoxWhitelisted,
+  getAllBlackBoxes,
   type ReadParams,
   type SecretsByWallet,
   type SecretsCountByWallet,
@@ -3,7 +3,7 @@
  * @description Read operations for the SecretsController contract
  */
 
-import type { Address, ChainId, SecretState } from '../types/common.js';
+import type { Address, ChainId, SecretState, RequestOptions } from '../types/common.js';
 import type { ReadClient } from '../types/adapters.js';
 import {
   encodeSecretCreationFee,
@@ -12,19 +12,27 @@ import {
   encodeGetDelegate,
   encodeGetSecretsByWallet,
   encodeGetSecretsCountByWallet,
+  encodeIsBlackBoxWhitelisted,
+  encodeGetAllBlackBoxes,
   decodeSecretCreationFee,
   decodeGetSecretState,
   decodeGetSecretOwner,
   decodeGetDelegate,
   decodeGetSecretsByWallet,
   decodeGetSecretsCountByWallet,
+  decodeIsBlackBoxWhitelisted,
+  decodeGetAllBlackBoxes,
 } from '../internal/abi/secrets-controller.js';
-import { KeyManagementError, SecretNotFoundError } from '../internal/errors/index.js';
+import {
+  KeyManagementError,
+  SecretNotFoundError,
+  RequestAbortedError,
+} from '../internal/errors/index.js';
 
 /**
  * Parameters for read operations
  */
-export interface ReadParams {
+export interface ReadParams extends RequestOptions {
   /** Chain ID */
   chainId: ChainId;
   /** SecretsController contract address */
@@ -65,9 +73,12 @@ export async function getSecretCreationFee(params: ReadParams): Promise<bigint>
     const result = await readClient.call(chainId, {
       to: controllerAddress,
       data,
-    });
+    }, params);
     return decodeSecretCreationFee(result);
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     throw new KeyManagementError(
       `Failed to get secret creation fee: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error instanceof Error ? error : undefined
@@ -113,7 +124,7 @@ export async function getSecret(
     const result = await readClient.call(chainId, {
       to: controllerAddress,
       data,
-    });
+    }, params);
 
     const decoded = decodeGetSecretState(result);
 
@@ -131,7 +142,7 @@ export async function getSecret(
       publicKeyCid: decoded.publicKeyCid,
     };
   } catch (error) {
-    if (error instanceof SecretNotFoundError) {
+    if (error instanceof SecretNotFoundError || error instanceof RequestAbortedError) {
       throw error;
     }
 
@@ -172,9 +183,12 @@ export async function getSecretOwner(
     const result = await readClient.call(chainId, {
       to: controllerAddress,
       data,
-    });
+    }, params);
     return decodeGetSecretOwner(result);
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     if (error instanceof Error && error.message.includes('Secret not found')) {
       throw new SecretNotFoundError(secretId, error);
     }
@@ -210,9 +224,12 @@ export async function getDelegate(
     const result = await readClient.call(chainId, {
       to: controllerAddress,
       data,
-    });
+    }, params);
     return decodeGetDelegate(result);
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     if (error instanceof Error && error.message.includes('Secret not found')) {
       throw new SecretNotFoundError(secretId, error);
     }
@@ -272,9 +289,12 @@ export async function getSecretsByWallet(
     const result = await readClient.call(chainId, {
       to: controllerAddress,
       data,
-    });
+    }, params);
     return decodeGetSecretsByWallet(result);
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     throw new KeyManagementError(
       `Failed to get secrets by wallet: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error instanceof Error ? error : undefined
@@ -318,9 +338,12 @@ export async function getSecretsCountByWallet(
     const result = await readClient.call(chainId, {
       to: controllerAddress,
       data,
-    });
+    }, params);
     return decodeGetSecretsCountByWallet(result);
   } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
     throw new KeyManagementError(
       `Failed to get secrets count: ${error instanceof Error ? error.message : 'Unknown error'}`,
       error instanceof Error ? error : undefined
@@ -328,6 +351,89 @@ export async function getSecretsCountByWallet(
   }
 }
 
+/**
+ * Check if a blackbox enclave address is whitelisted on the SecretsController
+ *
+ * Only whitelisted enclaves can mark secrets as synced. Use this to check
+ * the `enclaveWalletAddress` reported by a blackbox's `/healthz`.
+ *
+ * @param params - Read parameters
+ * @param blackBox - The enclave wallet address to check
+ * @returns True if the address is whitelisted
+ *
+ * @example
+ * ```typescript
+ * const discovery = await discover(blackboxUrl);
+ * const trusted = await isBlackBoxWhitelisted({
+ *   chainId: 752025,
+ *   controllerAddress: '0x...',
+ *   readClient,
+ * }, discovery.enclaveWalletAddress);
+ * ```
+ */
+export async function isBlackBoxWhitelisted(
+  params: ReadParams,
+  blackBox: Address
+): Promise<boolean> {
+  const { chainId, controllerAddress, readClient } = params;
+
+  if (!readClient.call) {
+    throw new KeyManagementError(
+      'ReadClient does not support eth_call. Provide a client with call() method.'
+    );
+  }
+
+  try {
+    const data = encodeIsBlackBoxWhitelisted(blackBox);
+    const result = await readClient.call(chainId, {
+      to: controllerAddress,
+      data,
+    }, params);
+    return decodeIsBlackBoxWhitelisted(result);
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
+    throw new KeyManagementError(
+      `Failed to check blackbox whitelist: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Get every whitelisted blackbox enclave address
+ *
+ * @param params - Read parameters
+ * @returns The whitelisted enclave wallet addresses
+ */
+export async function getAllBlackBoxes(params: ReadParams): Promise<Address[]> {
+  const { chainId, controllerAddress, readClient } = params;
+
+  if (!readClient.call) {
+    throw new KeyManagementError(
+      'ReadClient does not support eth_call. Provide a client with call() method.'
+    );
+  }
+
+  try {
+    const data = encodeGetAllBlackBoxes();
+    const result = await readClient.call(chainId, {
+      to: controllerAddress,
+      data,
+    }, params);
+    return decodeGetAllBlackBoxes(result);
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
+    throw new KeyManagementError(
+      `Failed to get whitelisted blackboxes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 /**
  * Check if a secret is ready (not syncing)
  *
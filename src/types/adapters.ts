@@ -12,12 +12,13 @@
  * Built-in implementations:
  * - {@link Eip1193SignerAdapter} - For browser wallets (MetaMask, WalletConnect, etc.)
  * - {@link RpcReadClient} - For JSON-RPC providers
+ * - {@link MemoryStorageAdapter}, {@link LocalStorageAdapter}, {@link FileStorageAdapter} - For persisted state
  *
  * @packageDocumentation
  * @module types/adapters
  */
 
-import type { Address, ChainId, Hex, Log, LogFilter } from './common.js';
+import type { Address, ChainId, Hex, Log, LogFilter, RequestOptions } from './common.js';
 import type { TxIntent, TxExecutionResult } from './tx-intent.js';
 
 /**
@@ -144,22 +145,24 @@ export interface ReadClient {
    * Get the current block number for a chain.
    *
    * @param chainId - The chain ID to query
+   * @param options - Optional cancellation (`signal`, `timeoutMs`)
    * @returns A promise resolving to the current block number
    *
    * @throws {@link AuthError} When the RPC call fails
    */
-  getBlockNumber(chainId: ChainId): Promise<number>;
+  getBlockNumber(chainId: ChainId, options?: RequestOptions): Promise<number>;
 
   /**
    * Get logs matching a filter.
    *
    * @param chainId - The chain ID to query
    * @param filter - The log filter criteria
+   * @param options - Optional cancellation (`signal`, `timeoutMs`)
    * @returns A promise resolving to an array of matching logs
    *
    * @throws {@link CommitmentsError} When the RPC call fails
    */
-  getLogs(chainId: ChainId, filter: LogFilter): Promise<Log[]>;
+  getLogs(chainId: ChainId, filter: LogFilter, options?: RequestOptions): Promise<Log[]>;
 
   /**
    * Optional: Make an eth_call for reading contract state.
@@ -171,11 +174,12 @@ export interface ReadClient {
    *
    * @param chainId - The chain ID to query
    * @param callRequest - The call request with target address and calldata
+   * @param options - Optional cancellation (`signal`, `timeoutMs`)
    * @returns A promise resolving to the return data as a hex string
    *
    * @throws {@link KeyManagementError} or {@link CommitmentsError} When the call fails
    */
-  call?(chainId: ChainId, callRequest: CallRequest): Promise<Hex>;
+  call?(chainId: ChainId, callRequest: CallRequest, options?: RequestOptions): Promise<Hex>;
 }
 
 /**
@@ -228,4 +232,82 @@ export interface RpcReadClientConfig {
    * Useful for testing or environments without native fetch.
    */
   fetch?: typeof fetch;
+
+  /**
+   * Optional: Default deadline for each RPC call in milliseconds.
+   *
+   * @remarks
+   * Per-call `timeoutMs` takes precedence. Timed-out calls reject with
+   * `RequestAbortedError`.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Optional: Largest block span sent in one `eth_getLogs`, for every chain.
+   *
+   * @remarks
+   * Larger `getLogs` ranges are split into consecutive queries and the
+   * results merged in order. Ranges the node rejects as too large or too
+   * full are also split, whether or not this is set.
+   */
+  maxBlockRange?: number;
+
+  /**
+   * Optional: Largest block span per chain, overriding `maxBlockRange`.
+   *
+   * @example
+   * ```typescript
+   * { 1: 10_000, 752025: 2_000 }
+   * ```
+   */
+  maxBlockRangeByChainId?: Record<ChainId, number>;
+}
+
+/**
+ * Minimal key-value storage interface for persisting SDK state.
+ *
+ * @remarks
+ * Used by long-running helpers such as `JobWatcher` to save their state,
+ * so it survives a browser reload or process restart. Values are strings
+ * (the SDK stores JSON).
+ *
+ * Built-in implementations:
+ * - {@link MemoryStorageAdapter} - In-process only (the default)
+ * - {@link LocalStorageAdapter} - Browser `localStorage`
+ * - {@link FileStorageAdapter} - A JSON file (Node.js only)
+ *
+ * @example Custom storage implementation
+ * ```typescript
+ * const redisStorage: StorageAdapter = {
+ *   getItem: (key) => redis.get(key),
+ *   setItem: async (key, value) => { await redis.set(key, value); },
+ *   removeItem: async (key) => { await redis.del(key); },
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface StorageAdapter {
+  /**
+   * Read a value.
+   *
+   * @param key - The storage key
+   * @returns The stored value, or null if there is none
+   */
+  getItem(key: string): Promise<string | null>;
+
+  /**
+   * Write a value, replacing any existing one.
+   *
+   * @param key - The storage key
+   * @param value - The value to store
+   */
+  setItem(key: string, value: string): Promise<void>;
+
+  /**
+   * Delete a value. Deleting a missing key is not an error.
+   *
+   * @param key - The storage key
+   */
+  removeItem(key: string): Promise<void>;
 }
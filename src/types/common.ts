@@ -136,6 +136,41 @@ export type OutputFormat = 'hex' | 'base64';
  */
 export type InputFormat = 'hex' | 'base64';
 
+/**
+ * Cancellation options accepted by every network call.
+ *
+ * @remarks
+ * Both options reach the underlying `fetch`. `timeoutMs` is a deadline for
+ * the whole call, including block number lookups, signing and retries.
+ * Cancelled calls reject with `RequestAbortedError`.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * await blackbox.payload.encryptPayload({ ...params, signal: controller.signal, timeoutMs: 5000 });
+ * ```
+ *
+ * @public
+ */
+export interface RequestOptions {
+  /** Signal that cancels the call when aborted */
+  signal?: AbortSignal;
+  /** Deadline for the whole call in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * How a payload's plaintext was encoded before encryption.
+ *
+ * @remarks
+ * - `'text'` - A UTF-8 string
+ * - `'bytes'` - Binary data (Uint8Array)
+ * - `'json'` - A JSON-serialized value
+ *
+ * @public
+ */
+export type PayloadEncoding = 'text' | 'bytes' | 'json';
+
 /**
  * Job status as returned by the blackbox.
  *
@@ -390,3 +425,68 @@ export interface DataConsumption {
   /** Decryption usage statistics */
   decryption: UsageStats;
 }
+
+/**
+ * Byte-level progress of an upload or download.
+ *
+ * @public
+ */
+export interface TransferProgress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes, when known (file size or `Content-Length`) */
+  total?: number;
+}
+
+/**
+ * Minimal shape of a Node.js `Writable` stream.
+ *
+ * @remarks
+ * Declared structurally so the SDK does not depend on Node.js typings;
+ * `fs.WriteStream`, `http.ServerResponse` and other writables match it.
+ *
+ * @public
+ */
+export interface NodeWritableLike {
+  write(chunk: Uint8Array, callback?: (error?: Error | null) => void): boolean;
+  end(callback?: () => void): unknown;
+  once(event: 'drain' | 'finish' | 'close', listener: () => void): unknown;
+  once(event: 'error', listener: (error: Error) => void): unknown;
+  removeListener(event: string, listener: (...args: never[]) => void): unknown;
+}
+
+/**
+ * Input accepted by file upload operations.
+ *
+ * @remarks
+ * - `File` / `Blob`: browser or Node.js 18+ blobs
+ * - `ReadableStream`: WHATWG byte streams (e.g. `response.body`)
+ * - `AsyncIterable`: Node.js `Readable` streams and async generators
+ * - `string`: a filesystem path (Node.js only)
+ *
+ * Streams and async iterables can only be read once, so uploads from them
+ * are not retried when the signed block number goes stale.
+ *
+ * @public
+ */
+export type FileSource =
+  | File
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | string;
+
+/**
+ * Destination accepted by streaming downloads.
+ *
+ * @remarks
+ * - `WritableStream`: WHATWG writable streams
+ * - `NodeWritableLike`: Node.js `Writable` streams
+ * - `string`: a filesystem path to create or overwrite (Node.js only)
+ *
+ * @public
+ */
+export type DownloadDestination =
+  | WritableStream<Uint8Array>
+  | NodeWritableLike
+  | string;
@@ -10,6 +10,8 @@
 
 import type { Address, ChainId } from './common.js';
 import type { SignerAdapter, ReadClient } from './adapters.js';
+import type { SdkHooks } from './hooks.js';
+import type { LogLevel, Logger, LoggerInput } from './logging.js';
 
 /**
  * Per-chain configuration from discovery or overrides.
@@ -81,6 +83,147 @@ export interface DiscoveryResult {
   serverTime?: number;
 }
 
+/**
+ * Health of one endpoint in a blackbox pool.
+ *
+ * @remarks
+ * An endpoint is healthy when its last `/healthz` check returned
+ * `status: 'ok'` and no request has failed over from it since.
+ *
+ * @public
+ */
+export interface BlackboxEndpointHealth {
+  /** Endpoint URL (without trailing slash) */
+  url: string;
+  /** Whether requests are sent to this endpoint */
+  healthy: boolean;
+  /** `status` from the last successful `/healthz` check */
+  status?: string;
+  /** `enclaveWalletAddress` from the last successful `/healthz` check */
+  enclaveWalletAddress?: Address;
+  /** Whether the last `/healthz` result passed verification (pools with `verify` only) */
+  verified?: boolean;
+  /** Unix timestamp (ms) of the last `/healthz` check */
+  checkedAt?: number;
+  /** The last health check or request failure, cleared by a successful check */
+  lastError?: Error;
+}
+
+/**
+ * Trust verification of discovery results.
+ *
+ * @remarks
+ * `/healthz` is served by the blackbox itself, so a compromised endpoint or
+ * a man-in-the-middle could report its own enclave or controller. With
+ * trust verification, the SDK checks the reported values on-chain and
+ * against pinned addresses before using them.
+ *
+ * The enclave check reads the chain through your own `readClient`, or
+ * through the `chainOverrides` RPC URLs. RPC URLs from `/healthz` are never
+ * used, since they come from the endpoint being checked: SDK creation fails
+ * with a `ConfigError` when a verified chain has neither. With
+ * `blackboxUrls`, every endpoint is verified before it is used, and again
+ * when its status or enclave changes.
+ *
+ * @public
+ */
+export interface TrustConfig {
+  /**
+   * Expected SecretsController address per chain. A discovered address
+   * that differs is rejected.
+   *
+   * @remarks
+   * Every verified chain needs one. `createCiferSdk()` falls back to
+   * `chainOverrides[].secretsControllerAddress`; a chain with neither fails
+   * verification, since the address reported by the blackbox can't vouch
+   * for the blackbox itself.
+   */
+  controllerAddresses?: Record<ChainId, Address>;
+
+  /**
+   * Check that `enclaveWalletAddress` is whitelisted on each chain's
+   * SecretsController (`isBlackBoxWhitelisted`).
+   *
+   * @defaultValue true
+   */
+  verifyEnclave?: boolean;
+
+  /**
+   * Chains to verify.
+   *
+   * @defaultValue all discovered chains
+   */
+  chainIds?: ChainId[];
+}
+
+/**
+ * Retry behavior for blackbox HTTP requests.
+ *
+ * @remarks
+ * Applies to every blackbox call (payload, files, jobs, public key and the
+ * Web2 endpoints):
+ *
+ * - `429` responses are retried after the `Retry-After` delay
+ * - `5xx` responses and network errors are retried with jittered
+ *   exponential backoff
+ * - Repeated `5xx`/network failures open a per-origin circuit breaker
+ *
+ * Requests with a streamed body cannot be re-sent and are never retried.
+ * All fields are optional; unset fields keep their defaults.
+ *
+ * @public
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum retries per request (not counting the first attempt).
+   *
+   * @defaultValue 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Base backoff delay in milliseconds, doubled on each retry.
+   *
+   * @defaultValue 250
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for a single backoff delay in milliseconds.
+   *
+   * @defaultValue 10000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Longest `Retry-After` delay the SDK will wait, in milliseconds.
+   * Longer delays fail immediately with `RateLimitedError`.
+   *
+   * @defaultValue 60000
+   */
+  maxRetryAfterMs?: number;
+
+  /**
+   * Circuit breaker settings, or `false` to disable it.
+   */
+  circuitBreaker?:
+    | false
+    | {
+        /**
+         * Consecutive `5xx`/network failures that open the circuit.
+         *
+         * @defaultValue 5
+         */
+        failureThreshold?: number;
+        /**
+         * How long the circuit stays open before a trial request, in ms.
+         *
+         * @defaultValue 30000
+         */
+        resetTimeoutMs?: number;
+      };
+}
+
 /**
  * SDK configuration options.
  *
@@ -130,6 +273,24 @@ export interface CiferSdkConfig {
    */
   blackboxUrl?: string;
 
+  /**
+   * Several blackbox URLs, in order of preference.
+   *
+   * @remarks
+   * The SDK checks each endpoint's `/healthz` in the background and
+   * `sdk.blackboxUrl` returns the first healthy one. Use `sdk.blackboxPool`
+   * to run requests with failover and to listen for endpoint changes.
+   * When `blackboxUrl` is also set, it is tried first.
+   */
+  blackboxUrls?: string[];
+
+  /**
+   * Interval between background health checks of `blackboxUrls`, in ms.
+   *
+   * @defaultValue 30000
+   */
+  healthCheckIntervalMs?: number;
+
   /**
    * Default signer adapter to use for signing operations.
    *
@@ -172,6 +333,27 @@ export interface CiferSdkConfig {
    */
   chainOverrides?: Record<ChainId, Partial<ChainConfig>>;
 
+  /**
+   * Verify discovery results before using them.
+   *
+   * @remarks
+   * SDK creation and `refreshDiscovery()` fail with a
+   * `TrustVerificationError` when a verified chain has no pinned
+   * controller address or is not reported, when a pinned controller
+   * address does not match, or when the enclave is not whitelisted
+   * on-chain.
+   *
+   * @example
+   * ```typescript
+   * {
+   *   trust: {
+   *     controllerAddresses: { 752025: '0x...' },
+   *   },
+   * }
+   * ```
+   */
+  trust?: TrustConfig;
+
   /**
    * Discovery cache TTL in milliseconds.
    *
@@ -191,19 +373,75 @@ export interface CiferSdkConfig {
   fetch?: typeof fetch;
 
   /**
-   * Logger function for debugging.
+   * Retry policy for blackbox HTTP requests.
    *
    * @remarks
-   * Called with progress messages during SDK operations.
+   * Applied globally via `configureBlackboxHttp()` when the SDK is created,
+   * so it also covers the standalone `blackbox.*` and `web2.*` functions.
+   * The setting is process-wide, not per instance: creating another SDK
+   * with `retryPolicy` replaces this one's for every instance.
    *
    * @example
    * ```typescript
    * {
-   *   logger: console.log,
+   *   retryPolicy: { maxRetries: 5, circuitBreaker: false },
    * }
    * ```
    */
-  logger?: (message: string) => void;
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Lifecycle hooks for blackbox, web2 and RPC calls.
+   *
+   * @remarks
+   * Applied globally via `configureHooks()` when the SDK is created, like
+   * `retryPolicy`, so another SDK created with `hooks` replaces them for
+   * every instance. Pass an array to combine several, e.g. your own hooks
+   * and a `MetricsCollector`.
+   *
+   * @example
+   * ```typescript
+   * const metrics = new MetricsCollector();
+   * {
+   *   hooks: [metrics, { onError: (e) => console.error(e.endpoint, e.error) }],
+   * }
+   * ```
+   */
+  hooks?: SdkHooks | SdkHooks[];
+
+  /**
+   * Logger for SDK operations.
+   *
+   * @remarks
+   * A {@link Logger} receives leveled messages with structured fields, with
+   * secret fields redacted. A plain callback receives `info` and higher
+   * messages only, as before. Applied globally via `configureLogger()`, so
+   * discovery, block-freshness retries and web2 session renewal log to it too.
+   * Like `retryPolicy` and `hooks`, it is process-wide: another SDK created
+   * with `logger` replaces it (with its `logLevel` and `redactFields`).
+   *
+   * @example
+   * ```typescript
+   * {
+   *   logger: console,
+   *   logLevel: 'info',
+   * }
+   * ```
+   */
+  logger?: LoggerInput;
+
+  /**
+   * Minimum level passed to `logger`.
+   *
+   * @defaultValue `'debug'` for Logger objects, `'info'` for callbacks
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Field names to redact from log fields, in addition to the defaults
+   * (`plaintext`, `decryptedMessage`, `sessionPrivateKey`, `password`, ...).
+   */
+  redactFields?: string[];
 }
 
 /**
@@ -242,5 +480,5 @@ export interface SdkContext {
   /** Fetch implementation */
   fetch: typeof fetch;
   /** Logger */
-  logger: (message: string) => void;
+  logger: Logger;
 }
@@ -0,0 +1,135 @@
+/**
+ * Lifecycle hook types for observing SDK network calls.
+ *
+ * @module types/hooks
+ */
+
+import type { ChainId, SecretId } from './common.js';
+
+/**
+ * Which service a request goes to.
+ *
+ * - `blackbox` - blackbox API calls (`/encrypt-payload`, `/jobs`, `/healthz`, ...)
+ * - `web2` - blackbox `/web2/*` account and secret management calls
+ * - `rpc` - JSON-RPC calls made by `RpcReadClient`
+ *
+ * @public
+ */
+export type RequestKind = 'blackbox' | 'web2' | 'rpc';
+
+/**
+ * A request about to be sent.
+ *
+ * @remarks
+ * Events never carry request or response bodies, so plaintexts, keys and
+ * signatures stay out of hooks. URLs are reduced to their origin, since RPC
+ * URLs often embed API keys.
+ *
+ * @public
+ */
+export interface RequestHookEvent {
+  /** Which service the request goes to */
+  kind: RequestKind;
+  /** Endpoint path (e.g. `/encrypt-payload`) or JSON-RPC method (e.g. `eth_call`) */
+  endpoint: string;
+  /** Origin of the request URL (e.g. `https://blackbox.cifersecurity.com:3010`) */
+  origin: string;
+  /** Chain the request is for, when known */
+  chainId?: ChainId;
+  /** Secret the request is for, when known */
+  secretId?: SecretId;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+}
+
+/**
+ * A response was received, whatever its status.
+ *
+ * @public
+ */
+export interface ResponseHookEvent extends RequestHookEvent {
+  /** HTTP status code */
+  status: number;
+  /** Time from sending this attempt to receiving the response, in ms */
+  latencyMs: number;
+}
+
+/**
+ * A request failed and the error is about to reach the caller.
+ *
+ * @public
+ */
+export interface ErrorHookEvent extends RequestHookEvent {
+  /** The error thrown to the caller */
+  error: Error;
+  /** HTTP status code, when the failure was an error response */
+  status?: number;
+  /** Time from the first attempt to the failure, in ms */
+  latencyMs: number;
+}
+
+/**
+ * A failed attempt is about to be retried.
+ *
+ * @public
+ */
+export interface RetryHookEvent extends RequestHookEvent {
+  /** Delay before the next attempt, in ms */
+  delayMs: number;
+  /** HTTP status that caused the retry (`429` or `5xx`) */
+  status?: number;
+  /** Network error that caused the retry */
+  error?: Error;
+}
+
+/**
+ * A signed request was rejected because its block number went stale, and
+ * is about to be signed again with a fresh block.
+ *
+ * @public
+ */
+export interface BlockStaleHookEvent {
+  /** Chain the block number belongs to */
+  chainId: ChainId;
+  /** Retry number, starting at 1 */
+  attempt: number;
+  /** The block number that was signed */
+  blockNumber: number;
+  /** The current block number reported by the server */
+  currentBlock: number;
+  /** Maximum allowed block difference */
+  maxWindow: number;
+}
+
+/**
+ * Structured hooks called for every blackbox, web2 and `RpcReadClient` call.
+ *
+ * @remarks
+ * Hooks are called synchronously; exceptions they throw are ignored. Keep
+ * them fast and hand slow work (exporting, I/O) off to a queue.
+ *
+ * @example
+ * ```typescript
+ * const sdk = await createCiferSdk({
+ *   blackboxUrl: 'https://blackbox.cifersecurity.com:3010',
+ *   hooks: {
+ *     onResponse: (e) => console.log(`${e.kind} ${e.endpoint} ${e.status} ${e.latencyMs}ms`),
+ *     onError: (e) => console.error(`${e.endpoint} failed`, e.error),
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export interface SdkHooks {
+  /** Called before each attempt is sent */
+  onRequest?: (event: RequestHookEvent) => void;
+  /** Called when an attempt receives a response */
+  onResponse?: (event: ResponseHookEvent) => void;
+  /** Called when a request fails */
+  onError?: (event: ErrorHookEvent) => void;
+  /** Called before a failed attempt is retried */
+  onRetry?: (event: RetryHookEvent) => void;
+  /** Called before a signed request is retried with a fresh block */
+  onBlockStale?: (event: BlockStaleHookEvent) => void;
+}
@@ -25,4 +25,6 @@ export * from './common.js';
 export * from './tx-intent.js';
 export * from './adapters.js';
 export * from './config.js';
-export * from './web2.js';
\ No newline at end of file
+export * from './web2.js';
+export * from './hooks.js';
+export * from './logging.js';
\ No newline at end of file
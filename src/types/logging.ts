@@ -0,0 +1,65 @@
+/**
+ * Structured logging types.
+ *
+ * @module types/logging
+ */
+
+/**
+ * Log severity, from most to least verbose.
+ *
+ * @public
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context attached to a log message.
+ *
+ * @remarks
+ * Fields named like secrets (`plaintext`, `decryptedMessage`,
+ * `sessionPrivateKey`, `password`, ...) are replaced with `[REDACTED]`
+ * before they reach a logger, at any depth.
+ *
+ * @public
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A leveled, structured logger.
+ *
+ * @remarks
+ * Compatible with most logging libraries' method shapes once wrapped, e.g.
+ * `{ info: (msg, fields) => pino.info(fields, msg), ... }`.
+ *
+ * @example
+ * ```typescript
+ * const logger: Logger = {
+ *   debug: () => {},
+ *   info: (message, fields) => console.info(message, fields),
+ *   warn: (message, fields) => console.warn(message, fields),
+ *   error: (message, fields) => console.error(message, fields),
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface Logger {
+  /** Detailed diagnostics (cache hits, retries) */
+  debug(message: string, fields?: LogFields): void;
+  /** Progress of SDK operations */
+  info(message: string, fields?: LogFields): void;
+  /** Recoverable problems */
+  warn(message: string, fields?: LogFields): void;
+  /** Failures */
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * A logger, or a plain callback that receives messages only.
+ *
+ * @remarks
+ * Plain callbacks are the original logging API; they receive `info` and
+ * higher messages, without fields.
+ *
+ * @public
+ */
+export type LoggerInput = Logger | ((message: string) => void);
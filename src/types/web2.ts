@@ -8,7 +8,7 @@
  * @module types/web2
  */
 
-import type { Address } from './common.js';
+import type { Address, RequestOptions } from './common.js';
 import type { SignerAdapter } from './adapters.js';
 
 // ============================================================================
@@ -67,7 +67,7 @@ export interface Ed25519Signer {
  *
  * @public
  */
-export interface RegisterParams {
+export interface RegisterParams extends RequestOptions {
   /** Email address (must contain @) */
   email: string;
   /** Password (minimum 8 characters) */
@@ -95,7 +95,7 @@ export interface RegisterResult {
  *
  * @public
  */
-export interface VerifyEmailParams {
+export interface VerifyEmailParams extends RequestOptions {
   /** Email address */
   email: string;
   /** OTP code received via email */
@@ -123,7 +123,7 @@ export interface VerifyEmailResult {
  *
  * @public
  */
-export interface RegisterKeyParams {
+export interface RegisterKeyParams extends RequestOptions {
   /** Principal UUID from registration */
   principalId: string;
   /** Password for verification */
@@ -165,7 +165,7 @@ export interface RegisterKeyResult {
  *
  * @public
  */
-export interface ResendOtpParams {
+export interface ResendOtpParams extends RequestOptions {
   /** Email address */
   email: string;
   /** Blackbox URL */
@@ -179,7 +179,7 @@ export interface ResendOtpParams {
  *
  * @public
  */
-export interface ForgotPasswordParams {
+export interface ForgotPasswordParams extends RequestOptions {
   /** Email address */
   email: string;
   /** Blackbox URL */
@@ -193,7 +193,7 @@ export interface ForgotPasswordParams {
  *
  * @public
  */
-export interface ResetPasswordParams {
+export interface ResetPasswordParams extends RequestOptions {
   /** Email address */
   email: string;
   /** OTP received via email */
@@ -214,7 +214,7 @@ export interface ResetPasswordParams {
  *
  * @public
  */
-export interface VerifyCredentialsParams {
+export interface VerifyCredentialsParams extends RequestOptions {
   /** Email address */
   email: string;
   /** Password */
@@ -246,7 +246,7 @@ export interface VerifyCredentialsResult {
  *
  * @public
  */
-export interface RequestAccountDeletionParams {
+export interface RequestAccountDeletionParams extends RequestOptions {
   /** Account email address. */
   email: string;
   /** Account password (bcrypt-verified server-side). */
@@ -264,7 +264,7 @@ export interface RequestAccountDeletionParams {
  *
  * @public
  */
-export interface ConfirmAccountDeletionParams {
+export interface ConfirmAccountDeletionParams extends RequestOptions {
   /** Account email address. */
   email: string;
   /** The 6-digit deletion-confirmation OTP emailed to the user. */
@@ -292,7 +292,7 @@ export interface ConfirmAccountDeletionResult {
  *
  * @public
  */
-export interface RetryNodeRegistrationParams {
+export interface RetryNodeRegistrationParams extends RequestOptions {
   /** Principal UUID */
   principalId: string;
   /** Blackbox URL */
@@ -347,7 +347,7 @@ export interface NodeRegistrationStatusResult {
  *
  * @public
  */
-export interface CreateManagedSessionParams {
+export interface CreateManagedSessionParams extends RequestOptions {
   /** Principal UUID */
   principalId: string;
   /** Ed25519 signer for session creation/renewal */
@@ -459,7 +459,7 @@ export interface Web2Session {
  *
  * @public
  */
-export interface CreateWeb2SecretParams {
+export interface CreateWeb2SecretParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Blackbox URL */
@@ -495,7 +495,7 @@ export interface CreateWeb2SecretResult {
  *
  * @public
  */
-export interface ListWeb2SecretsParams {
+export interface ListWeb2SecretsParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Blackbox URL */
@@ -551,7 +551,7 @@ export interface ListWeb2SecretsResult {
  *
  * @public
  */
-export interface SetWeb2DelegateParams {
+export interface SetWeb2DelegateParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID to set delegate for */
@@ -594,7 +594,7 @@ export type PermitAction = 'rotate' | 'transfer' | 'delegate';
  *
  * @public
  */
-export interface RequestRotatePermitParams {
+export interface RequestRotatePermitParams extends RequestOptions {
   /** Action type */
   action: 'rotate';
   /** Email address */
@@ -614,7 +614,7 @@ export interface RequestRotatePermitParams {
  *
  * @public
  */
-export interface RequestTransferOrDelegatePermitParams {
+export interface RequestTransferOrDelegatePermitParams extends RequestOptions {
   /** Action type ('transfer' or 'delegate') */
   action: 'transfer' | 'delegate';
   /** Active Web2 session */
@@ -687,7 +687,7 @@ export interface PrincipalByEmailResult {
  *
  * @public
  */
-export interface Web2BlackboxBaseParams {
+export interface Web2BlackboxBaseParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Blackbox URL */
@@ -0,0 +1,65 @@
+/**
+ * @module vault/errors
+ * @description Decoding of CiferVaultOnChain custom errors
+ */
+
+import type { Hex } from '../types/common.js';
+import { decodeVaultRevertData } from '../internal/abi/cifer-vault.js';
+import { VaultRevertError } from '../internal/errors/index.js';
+
+const MAX_DEPTH = 5;
+
+/**
+ * Decode a CiferVaultOnChain revert
+ *
+ * Accepts raw revert data or an error thrown by a wallet, provider or
+ * read client. Errors are searched for revert data in `data`, `error`
+ * and `cause`, which covers RpcReadClient, EIP-1193 providers, viem and
+ * ethers.
+ *
+ * @param errorOrData - Revert data (`0x` + selector + arguments) or a thrown error
+ * @returns A VaultRevertError, or undefined when no vault error is found
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await wallet.sendTransaction(vault.buildStoreTx({ ... }));
+ * } catch (error) {
+ *   const revert = vault.decodeVaultError(error);
+ *   if (revert?.errorName === 'SecretIdNotSet') {
+ *     // Build a setSecretId transaction first
+ *   }
+ * }
+ * ```
+ */
+export function decodeVaultError(errorOrData: unknown): VaultRevertError | undefined {
+  const cause = errorOrData instanceof Error ? errorOrData : undefined;
+
+  const visit = (value: unknown, depth: number): VaultRevertError | undefined => {
+    if (typeof value === 'string') {
+      if (!/^0x[0-9a-fA-F]{8}/.test(value)) {
+        return undefined;
+      }
+      try {
+        const decoded = decodeVaultRevertData(value as Hex);
+        return decoded && new VaultRevertError(decoded.name, decoded.args, cause);
+      } catch {
+        // Matching selector but malformed arguments: not a vault error
+        return undefined;
+      }
+    }
+    if (value === null || typeof value !== 'object' || depth >= MAX_DEPTH) {
+      return undefined;
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of ['data', 'error', 'cause']) {
+      const found = visit(record[key], depth + 1);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+
+  return visit(errorOrData, 0);
+}
@@ -0,0 +1,61 @@
+/**
+ * @module vault
+ * @description Typed namespace for the CiferVaultOnChain contract
+ *
+ * CiferVaultOnChain stores one encrypted commitment per (user, key) pair
+ * and implements ICiferEncrypted, so the commitments namespace works on
+ * it too. This module provides functions for:
+ * - Reading user secret IDs, metadata and data IDs
+ * - Building transaction intents for every vault write
+ * - Decoding the contract's custom errors
+ *
+ * @example
+ * ```typescript
+ * import { vault } from 'cifer-sdk';
+ *
+ * const params = { chainId: 752025, vaultAddress: '0x...', readClient };
+ *
+ * if ((await vault.getUserSecretId(params, user)) === 0n) {
+ *   const setTx = vault.buildSetSecretIdTx({ chainId, vaultAddress, secretId: 123n });
+ * }
+ *
+ * const storeTx = vault.buildStoreTx({ chainId, vaultAddress, key, encryptedMessage, cifer });
+ *
+ * try {
+ *   await wallet.sendTransaction(storeTx);
+ * } catch (error) {
+ *   console.log(vault.decodeVaultError(error)?.errorName);
+ * }
+ * ```
+ */
+
+// Read operations
+export {
+  getUserSecretId,
+  getUserMetadata,
+  hasData,
+  computeDataId,
+  getVaultOwner,
+  type VaultReadParams,
+} from './reads.js';
+
+// Transaction builders
+export {
+  buildStoreTx,
+  buildStoreWithSecretIdTx,
+  buildDeleteDataTx,
+  buildSetSecretIdTx,
+  buildTransferOwnershipTx,
+  type VaultTxParams,
+  type BuildVaultStoreParams,
+} from './tx-builders.js';
+
+// Custom errors
+export { decodeVaultError } from './errors.js';
+
+// ABI
+export {
+  CIFER_VAULT_ABI,
+  type VaultFunctionName,
+  type VaultErrorName,
+} from '../internal/abi/cifer-vault.js';
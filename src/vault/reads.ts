@@ -0,0 +1,194 @@
+/**
+ * @module vault/reads
+ * @description Read operations for the CiferVaultOnChain contract
+ */
+
+import type {
+  Address,
+  Bytes32,
+  ChainId,
+  CIFERMetadata,
+  RequestOptions,
+} from '../types/common.js';
+import type { ReadClient } from '../types/adapters.js';
+import {
+  decodeVaultResult,
+  encodeVaultCall,
+  type VaultFunctionName,
+} from '../internal/abi/cifer-vault.js';
+import {
+  CommitmentsError,
+  CommitmentNotFoundError,
+  RequestAbortedError,
+  VaultRevertError,
+} from '../internal/errors/index.js';
+import { decodeVaultError } from './errors.js';
+
+/**
+ * Parameters for vault read operations
+ */
+export interface VaultReadParams extends RequestOptions {
+  /** Chain ID */
+  chainId: ChainId;
+  /** CiferVaultOnChain contract address */
+  vaultAddress: Address;
+  /** Read client for making RPC calls */
+  readClient: ReadClient;
+}
+
+/**
+ * Call a vault view function and decode its outputs
+ *
+ * Reverts carrying a vault custom error become VaultRevertError; other
+ * failures are wrapped in CommitmentsError.
+ */
+async function callVault(
+  params: VaultReadParams,
+  name: VaultFunctionName,
+  args: readonly unknown[]
+): Promise<unknown[]> {
+  const { chainId, vaultAddress, readClient } = params;
+
+  if (!readClient.call) {
+    throw new CommitmentsError(
+      'ReadClient does not support eth_call. Provide a client with call() method.'
+    );
+  }
+
+  try {
+    const result = await readClient.call(chainId, {
+      to: vaultAddress,
+      data: encodeVaultCall(name, args),
+    }, params);
+    return decodeVaultResult(name, result);
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      throw error;
+    }
+    const revert = decodeVaultError(error);
+    if (revert) {
+      throw revert;
+    }
+    throw new CommitmentsError(
+      `Failed to call vault ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Get the secret ID a user has set for `store()`
+ *
+ * @param params - Read parameters
+ * @param user - The user's address
+ * @returns The secret ID, or 0n when the user has not called setSecretId()
+ *
+ * @example
+ * ```typescript
+ * const secretId = await vault.getUserSecretId({ chainId, vaultAddress, readClient }, user);
+ * if (secretId === 0n) {
+ *   // Use buildStoreWithSecretIdTx() or buildSetSecretIdTx() first
+ * }
+ * ```
+ */
+export async function getUserSecretId(params: VaultReadParams, user: Address): Promise<bigint> {
+  const [secretId] = await callVault(params, 'userSecretId', [user]);
+  return secretId as bigint;
+}
+
+/**
+ * Get the metadata for a user's key
+ *
+ * @param params - Read parameters
+ * @param user - The user's address
+ * @param key - The user's key (bytes32)
+ * @returns CIFER metadata
+ * @throws CommitmentNotFoundError if the user has nothing stored under the key
+ *
+ * @example
+ * ```typescript
+ * const metadata = await vault.getUserMetadata({ chainId, vaultAddress, readClient }, user, key);
+ * console.log('Stored at block:', metadata.storedAtBlock);
+ * ```
+ */
+export async function getUserMetadata(
+  params: VaultReadParams,
+  user: Address,
+  key: Bytes32
+): Promise<CIFERMetadata> {
+  let values: unknown[];
+  try {
+    values = await callVault(params, 'getUserMetadata', [user, key]);
+  } catch (error) {
+    if (error instanceof VaultRevertError && error.errorName === 'DataNotFound') {
+      throw new CommitmentNotFoundError(`${user}/${key}`, error);
+    }
+    throw error;
+  }
+
+  const [secretId, storedAtBlock, ciferHash, encryptedMessageHash] = values as [
+    bigint,
+    bigint,
+    Bytes32,
+    Bytes32,
+  ];
+  if (storedAtBlock === 0n) {
+    throw new CommitmentNotFoundError(`${user}/${key}`);
+  }
+
+  return {
+    secretId,
+    storedAtBlock: Number(storedAtBlock),
+    ciferHash,
+    encryptedMessageHash,
+  };
+}
+
+/**
+ * Check whether a user has data stored under a key
+ *
+ * @param params - Read parameters
+ * @param user - The user's address
+ * @param key - The user's key (bytes32)
+ * @returns True if data exists
+ */
+export async function hasData(
+  params: VaultReadParams,
+  user: Address,
+  key: Bytes32
+): Promise<boolean> {
+  const [exists] = await callVault(params, 'hasData', [user, key]);
+  return exists as boolean;
+}
+
+/**
+ * Compute the data ID of a user's key, as the contract does
+ *
+ * The data ID is what commitments.getCIFERMetadata() and the
+ * CIFERData* events use. commitments.computeDataId() gives the same
+ * result without an RPC call.
+ *
+ * @param params - Read parameters
+ * @param user - The user's address
+ * @param key - The user's key (bytes32)
+ * @returns The data ID
+ */
+export async function computeDataId(
+  params: VaultReadParams,
+  user: Address,
+  key: Bytes32
+): Promise<Bytes32> {
+  const [dataId] = await callVault(params, 'computeDataId', [user, key]);
+  return dataId as Bytes32;
+}
+
+/**
+ * Get the vault owner
+ *
+ * @param params - Read parameters
+ * @returns The owner address
+ */
+export async function getVaultOwner(params: VaultReadParams): Promise<Address> {
+  const [owner] = await callVault(params, 'owner', []);
+  return owner as Address;
+}
@@ -0,0 +1,179 @@
+/**
+ * @module vault/tx-builders
+ * @description Transaction intent builders for CiferVaultOnChain operations
+ *
+ * These functions return TxIntent objects that can be executed by any
+ * EIP-1193 compatible wallet or transaction executor.
+ */
+
+import type { Address, Bytes32, ChainId, Hex } from '../types/common.js';
+import type { TxIntentWithMeta } from '../types/tx-intent.js';
+import { encodeVaultCall } from '../internal/abi/cifer-vault.js';
+import { validateForStorage } from '../commitments/integrity.js';
+
+/**
+ * Parameters shared by every vault transaction builder
+ */
+export interface VaultTxParams {
+  /** Chain ID */
+  chainId: ChainId;
+  /** CiferVaultOnChain contract address */
+  vaultAddress: Address;
+}
+
+/**
+ * Parameters for buildStoreTx()
+ */
+export interface BuildVaultStoreParams extends VaultTxParams {
+  /** The sender's key for the data (bytes32) */
+  key: Bytes32;
+  /** Encrypted message bytes */
+  encryptedMessage: Hex;
+  /** CIFER envelope bytes */
+  cifer: Hex;
+  /** Whether to validate sizes before building (default: true) */
+  validate?: boolean;
+}
+
+/**
+ * Build a transaction to store data under the sender's key
+ *
+ * Uses the secret ID set with setSecretId(); the contract reverts with
+ * `SecretIdNotSet` when there is none. Storing under an existing key
+ * replaces the data.
+ *
+ * @param params - Transaction parameters
+ * @returns Transaction intent
+ * @throws InvalidCiferSizeError or PayloadTooLargeError when validation fails
+ *
+ * @example
+ * ```typescript
+ * const txIntent = vault.buildStoreTx({
+ *   chainId: 752025,
+ *   vaultAddress: '0x...',
+ *   key,
+ *   encryptedMessage: encrypted.encryptedMessage,
+ *   cifer: encrypted.cifer,
+ * });
+ * ```
+ */
+export function buildStoreTx(params: BuildVaultStoreParams): TxIntentWithMeta {
+  const { chainId, vaultAddress, key, encryptedMessage, cifer, validate = true } = params;
+
+  if (validate) {
+    validateForStorage(cifer, encryptedMessage);
+  }
+
+  return {
+    chainId,
+    to: vaultAddress,
+    data: encodeVaultCall('store', [key, encryptedMessage, cifer]),
+    description: `Store encrypted data under key ${key}`,
+    functionName: 'store',
+    args: { key, encryptedMessage, cifer },
+  };
+}
+
+/**
+ * Build a transaction to store data under the sender's key with an explicit secret ID
+ *
+ * @param params - Transaction parameters
+ * @returns Transaction intent
+ * @throws InvalidCiferSizeError or PayloadTooLargeError when validation fails
+ */
+export function buildStoreWithSecretIdTx(
+  params: BuildVaultStoreParams & {
+    /** Secret ID the data was encrypted with */
+    secretId: bigint;
+  }
+): TxIntentWithMeta {
+  const { chainId, vaultAddress, key, secretId, encryptedMessage, cifer, validate = true } =
+    params;
+
+  if (validate) {
+    validateForStorage(cifer, encryptedMessage);
+  }
+
+  return {
+    chainId,
+    to: vaultAddress,
+    data: encodeVaultCall('storeWithSecretId', [key, secretId, encryptedMessage, cifer]),
+    description: `Store encrypted data under key ${key} with secret ${secretId}`,
+    functionName: 'storeWithSecretId',
+    args: { key, secretId: secretId.toString(), encryptedMessage, cifer },
+  };
+}
+
+/**
+ * Build a transaction to delete the data under the sender's key
+ *
+ * @param params - Transaction parameters
+ * @returns Transaction intent
+ */
+export function buildDeleteDataTx(
+  params: VaultTxParams & {
+    /** The sender's key for the data (bytes32) */
+    key: Bytes32;
+  }
+): TxIntentWithMeta {
+  const { chainId, vaultAddress, key } = params;
+
+  return {
+    chainId,
+    to: vaultAddress,
+    data: encodeVaultCall('deleteData', [key]),
+    description: `Delete encrypted data under key ${key}`,
+    functionName: 'deleteData',
+    args: { key },
+  };
+}
+
+/**
+ * Build a transaction to set the sender's default secret ID for store()
+ *
+ * @param params - Transaction parameters
+ * @returns Transaction intent
+ */
+export function buildSetSecretIdTx(
+  params: VaultTxParams & {
+    /** Secret ID to use for store() */
+    secretId: bigint;
+  }
+): TxIntentWithMeta {
+  const { chainId, vaultAddress, secretId } = params;
+
+  return {
+    chainId,
+    to: vaultAddress,
+    data: encodeVaultCall('setSecretId', [secretId]),
+    description: `Set default secret to ${secretId}`,
+    functionName: 'setSecretId',
+    args: { secretId: secretId.toString() },
+  };
+}
+
+/**
+ * Build a transaction to transfer ownership of the vault
+ *
+ * Only the current owner can send it; others get `NotOwner`.
+ *
+ * @param params - Transaction parameters
+ * @returns Transaction intent
+ */
+export function buildTransferOwnershipTx(
+  params: VaultTxParams & {
+    /** New owner address */
+    newOwner: Address;
+  }
+): TxIntentWithMeta {
+  const { chainId, vaultAddress, newOwner } = params;
+
+  return {
+    chainId,
+    to: vaultAddress,
+    data: encodeVaultCall('transferOwnership', [newOwner]),
+    description: `Transfer vault ownership to ${newOwner}`,
+    functionName: 'transferOwnership',
+    args: { newOwner },
+  };
+}
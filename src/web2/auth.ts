@@ -9,6 +9,7 @@
  * Also includes password reset and OTP resend helpers.
  */
 
+import type { RequestOptions } from '../types/common.js';
 import type {
   RegisterParams,
   RegisterResult,
@@ -29,6 +30,7 @@ import type {
   NodeRegistrationStatusResult,
 } from '../types/web2.js';
 import { Web2AuthError } from '../internal/errors/index.js';
+import { blackboxRequest, withDeadline, type BlackboxErrorBody } from '../internal/http/index.js';
 
 // ============================================================================
 // Internal helper
@@ -46,16 +48,18 @@ function bytesToHex(bytes: Uint8Array): string {
   return hex;
 }
 
-async function handleErrorResponse(
+function toAuthError(
   response: Response,
+  body: BlackboxErrorBody,
   endpoint: string
-): Promise<never> {
-  const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+): Web2AuthError {
   const message =
-    (body.error as string) ||
-    (body.message as string) ||
+    body.error ||
+    body.message ||
     `Request to ${endpoint} failed with status ${response.status}`;
-  throw new Web2AuthError(message);
+  const retryAfterMs =
+    typeof body.retryAfterSeconds === 'number' ? body.retryAfterSeconds * 1000 : undefined;
+  return new Web2AuthError(message, undefined, retryAfterMs);
 }
 
 // ============================================================================
@@ -87,28 +91,34 @@ export async function register(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/register`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email: params.email,
-      password: params.password,
-    }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/register',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: params.email,
+          password: params.password,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      idempotent: false,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/register'),
+    });
+
+    const result = (await response.json()) as {
+      principalId: string;
+      message: string;
+    };
+
+    return {
+      principalId: result.principalId,
+      message: result.message,
+    };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/register');
-  }
-
-  const result = (await response.json()) as {
-    principalId: string;
-    message: string;
-  };
-
-  return {
-    principalId: result.principalId,
-    message: result.message,
-  };
 }
 
 /**
@@ -133,28 +143,34 @@ export async function verifyEmail(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/verify-email`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email: params.email,
-      otp: params.otp,
-    }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/verify-email',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: params.email,
+          otp: params.otp,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      idempotent: false,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/verify-email'),
+    });
+
+    const result = (await response.json()) as {
+      principalId: string;
+      emailVerified: boolean;
+    };
+
+    return {
+      principalId: result.principalId,
+      emailVerified: result.emailVerified,
+    };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/verify-email');
-  }
-
-  const result = (await response.json()) as {
-    principalId: string;
-    emailVerified: boolean;
-  };
-
-  return {
-    principalId: result.principalId,
-    emailVerified: result.emailVerified,
-  };
 }
 
 /**
@@ -190,46 +206,52 @@ export async function registerKey(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/register-key`;
 
-  // Get public key hex
-  const publicKeyBytes = params.ed25519Signer.getPublicKey();
-  const publicKeyHex = bytesToHex(publicKeyBytes);
-
-  // Sign "cifer_register:<publicKey>"
-  const message = `cifer_register:${publicKeyHex}`;
-  const messageBytes = new TextEncoder().encode(message);
-  const signatureBytes = await params.ed25519Signer.sign(messageBytes);
-  const signatureHex = bytesToHex(signatureBytes);
-
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      principalId: params.principalId,
-      password: params.password,
-      publicKey: publicKeyHex,
-      signature: signatureHex,
-    }),
+  return withDeadline(params, async (signal) => {
+    // Get public key hex
+    const publicKeyBytes = params.ed25519Signer.getPublicKey();
+    const publicKeyHex = bytesToHex(publicKeyBytes);
+
+    // Sign "cifer_register:<publicKey>"
+    const message = `cifer_register:${publicKeyHex}`;
+    const messageBytes = new TextEncoder().encode(message);
+    const signatureBytes = await params.ed25519Signer.sign(messageBytes);
+    const signatureHex = bytesToHex(signatureBytes);
+
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/register-key',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          principalId: params.principalId,
+          password: params.password,
+          publicKey: publicKeyHex,
+          signature: signatureHex,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      idempotent: false,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/register-key'),
+    });
+
+    const result = (await response.json()) as {
+      principalId: string;
+      emailHex: string;
+      nodeRegistrationStatus: string;
+      failedNodes: string[];
+      nodeErrors: string[];
+    };
+
+    return {
+      principalId: result.principalId,
+      emailHex: result.emailHex,
+      nodeRegistrationStatus: result.nodeRegistrationStatus as RegisterKeyResult['nodeRegistrationStatus'],
+      failedNodes: result.failedNodes ?? [],
+      nodeErrors: result.nodeErrors ?? [],
+    };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/register-key');
-  }
-
-  const result = (await response.json()) as {
-    principalId: string;
-    emailHex: string;
-    nodeRegistrationStatus: string;
-    failedNodes: string[];
-    nodeErrors: string[];
-  };
-
-  return {
-    principalId: result.principalId,
-    emailHex: result.emailHex,
-    nodeRegistrationStatus: result.nodeRegistrationStatus as RegisterKeyResult['nodeRegistrationStatus'],
-    failedNodes: result.failedNodes ?? [],
-    nodeErrors: result.nodeErrors ?? [],
-  };
 }
 
 /**
@@ -246,18 +268,23 @@ export async function resendOtp(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/resend-otp`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ email: params.email }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/resend-otp',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: params.email }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/resend-otp'),
+    });
+
+    const result = (await response.json()) as { message: string };
+    return { message: result.message };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/resend-otp');
-  }
-
-  const result = (await response.json()) as { message: string };
-  return { message: result.message };
 }
 
 /**
@@ -274,18 +301,23 @@ export async function forgotPassword(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/forgot-password`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ email: params.email }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/forgot-password',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: params.email }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/forgot-password'),
+    });
+
+    const result = (await response.json()) as { message: string };
+    return { message: result.message };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/forgot-password');
-  }
-
-  const result = (await response.json()) as { message: string };
-  return { message: result.message };
 }
 
 /**
@@ -300,22 +332,28 @@ export async function resetPassword(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/reset-password`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email: params.email,
-      otp: params.otp,
-      newPassword: params.newPassword,
-    }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/reset-password',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: params.email,
+          otp: params.otp,
+          newPassword: params.newPassword,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      idempotent: false,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/reset-password'),
+    });
+
+    const result = (await response.json()) as { message: string };
+    return { message: result.message };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/reset-password');
-  }
-
-  const result = (await response.json()) as { message: string };
-  return { message: result.message };
 }
 
 /**
@@ -349,28 +387,33 @@ export async function verifyCredentials(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/verify-credentials`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email: params.email,
-      password: params.password,
-    }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/verify-credentials',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: params.email,
+          password: params.password,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/verify-credentials'),
+    });
+
+    const result = (await response.json()) as {
+      valid: true;
+      principalId: string;
+    };
+
+    return {
+      valid: result.valid,
+      principalId: result.principalId,
+    };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/verify-credentials');
-  }
-
-  const result = (await response.json()) as {
-    valid: true;
-    principalId: string;
-  };
-
-  return {
-    valid: result.valid,
-    principalId: result.principalId,
-  };
 }
 
 // ============================================================================
@@ -391,22 +434,27 @@ export async function requestAccountDeletion(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/request-deletion`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email: params.email,
-      password: params.password,
-      principalId: params.principalId,
-    }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/request-deletion',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: params.email,
+          password: params.password,
+          principalId: params.principalId,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/request-deletion'),
+    });
+
+    const result = (await response.json()) as { message: string };
+    return { message: result.message };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/request-deletion');
-  }
-
-  const result = (await response.json()) as { message: string };
-  return { message: result.message };
 }
 
 /**
@@ -421,21 +469,27 @@ export async function confirmAccountDeletion(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/confirm-deletion`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email: params.email,
-      otp: params.otp,
-    }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/confirm-deletion',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: params.email,
+          otp: params.otp,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      idempotent: false,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/confirm-deletion'),
+    });
+
+    const result = (await response.json()) as { success: true; message: string };
+    return { success: result.success, message: result.message };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/confirm-deletion');
-  }
-
-  const result = (await response.json()) as { success: true; message: string };
-  return { success: result.success, message: result.message };
 }
 
 /**
@@ -451,29 +505,34 @@ export async function retryNodeRegistration(
   const fetchFn = params.fetch ?? fetch;
   const url = `${normalizeUrl(params.blackboxUrl)}/web2/auth/retry-node-registration`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ principalId: params.principalId }),
+  return withDeadline(params, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/retry-node-registration',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ principalId: params.principalId }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/retry-node-registration'),
+    });
+
+    const result = (await response.json()) as {
+      principalId: string;
+      nodeRegistrationStatus: string;
+      failedNodes: string[];
+      message?: string;
+    };
+
+    return {
+      principalId: result.principalId,
+      nodeRegistrationStatus: result.nodeRegistrationStatus as RetryNodeRegistrationResult['nodeRegistrationStatus'],
+      failedNodes: result.failedNodes ?? [],
+      message: result.message,
+    };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/retry-node-registration');
-  }
-
-  const result = (await response.json()) as {
-    principalId: string;
-    nodeRegistrationStatus: string;
-    failedNodes: string[];
-    message?: string;
-  };
-
-  return {
-    principalId: result.principalId,
-    nodeRegistrationStatus: result.nodeRegistrationStatus as RetryNodeRegistrationResult['nodeRegistrationStatus'],
-    failedNodes: result.failedNodes ?? [],
-    message: result.message,
-  };
 }
 
 /**
@@ -487,31 +546,36 @@ export async function retryNodeRegistration(
 export async function nodeRegistrationStatus(
   principalId: string,
   blackboxUrl: string,
-  options?: { fetch?: typeof fetch }
+  options?: RequestOptions & { fetch?: typeof fetch }
 ): Promise<NodeRegistrationStatusResult> {
   const fetchFn = options?.fetch ?? fetch;
   const url = `${normalizeUrl(blackboxUrl)}/web2/auth/node-registration-status?principalId=${encodeURIComponent(principalId)}`;
 
-  const response = await fetchFn(url, {
-    method: 'GET',
-    headers: { Accept: 'application/json' },
+  return withDeadline(options, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/auth/node-registration-status',
+      init: {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, body) => toAuthError(res, body, '/web2/auth/node-registration-status'),
+    });
+
+    const result = (await response.json()) as {
+      principalId: string;
+      nodeRegistrationStatus: string;
+      successNodes: string[];
+      failedNodes: string[];
+    };
+
+    return {
+      principalId: result.principalId,
+      nodeRegistrationStatus: result.nodeRegistrationStatus as NodeRegistrationStatusResult['nodeRegistrationStatus'],
+      successNodes: result.successNodes ?? [],
+      failedNodes: result.failedNodes ?? [],
+    };
   });
-
-  if (!response.ok) {
-    await handleErrorResponse(response, '/web2/auth/node-registration-status');
-  }
-
-  const result = (await response.json()) as {
-    principalId: string;
-    nodeRegistrationStatus: string;
-    successNodes: string[];
-    failedNodes: string[];
-  };
-
-  return {
-    principalId: result.principalId,
-    nodeRegistrationStatus: result.nodeRegistrationStatus as NodeRegistrationStatusResult['nodeRegistrationStatus'],
-    successNodes: result.successNodes ?? [],
-    failedNodes: result.failedNodes ?? [],
-  };
 }
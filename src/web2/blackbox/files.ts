@@ -7,6 +7,7 @@
  */
 
 import { WEB2_CHAIN_ID } from '../../types/common.js';
+import type { FileSource, TransferProgress, RequestOptions } from '../../types/common.js';
 import type { ReadClient } from '../../types/adapters.js';
 import type { Web2Session } from '../../types/web2.js';
 import {
@@ -21,13 +22,17 @@ import {
  *
  * @public
  */
-export interface Web2EncryptFileParams {
+export interface Web2EncryptFileParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID to use for encryption */
   secretId: bigint | number;
-  /** The file to encrypt */
-  file: File | Blob;
+  /** The file to encrypt (Blob, stream, Node.js Readable or filesystem path) */
+  file: FileSource;
+  /** File name for streamed uploads */
+  fileName?: string;
+  /** Called as file bytes are uploaded */
+  onUploadProgress?: (progress: TransferProgress) => void;
   /** Blackbox URL */
   blackboxUrl: string;
   /** Read client for freshness */
@@ -62,10 +67,14 @@ export async function encryptFile(
     chainId: WEB2_CHAIN_ID,
     secretId: params.secretId,
     file: params.file,
+    fileName: params.fileName,
+    onUploadProgress: params.onUploadProgress,
     signer: params.session.signer,
     readClient: params.readClient,
     blackboxUrl: params.blackboxUrl,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
 
@@ -74,13 +83,17 @@ export async function encryptFile(
  *
  * @public
  */
-export interface Web2DecryptFileParams {
+export interface Web2DecryptFileParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID used for encryption */
   secretId: bigint | number;
-  /** The .cifer file to decrypt */
-  file: File | Blob;
+  /** The .cifer file to decrypt (Blob, stream, Node.js Readable or filesystem path) */
+  file: FileSource;
+  /** File name for streamed uploads */
+  fileName?: string;
+  /** Called as file bytes are uploaded */
+  onUploadProgress?: (progress: TransferProgress) => void;
   /** Blackbox URL */
   blackboxUrl: string;
   /** Read client for freshness */
@@ -104,10 +117,14 @@ export async function decryptFile(
     chainId: WEB2_CHAIN_ID,
     secretId: params.secretId,
     file: params.file,
+    fileName: params.fileName,
+    onUploadProgress: params.onUploadProgress,
     signer: params.session.signer,
     readClient: params.readClient,
     blackboxUrl: params.blackboxUrl,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
 
@@ -116,7 +133,7 @@ export async function decryptFile(
  *
  * @public
  */
-export interface Web2DecryptExistingFileParams {
+export interface Web2DecryptExistingFileParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID used for the original encryption */
@@ -150,5 +167,7 @@ export async function decryptExistingFile(
     readClient: params.readClient,
     blackboxUrl: params.blackboxUrl,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
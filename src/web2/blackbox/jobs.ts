@@ -10,16 +10,19 @@
  */
 
 import { WEB2_CHAIN_ID } from '../../types/common.js';
+import type { DownloadDestination, TransferProgress, RequestOptions } from '../../types/common.js';
 import type { ReadClient } from '../../types/adapters.js';
 import type { Web2Session } from '../../types/web2.js';
 import {
   getStatus,
   download as coreDownload,
+  downloadTo as coreDownloadTo,
   deleteJob as coreDeleteJob,
   list as coreList,
   dataConsumption as coreDataConsumption,
   pollUntilComplete,
   type ListJobsResult,
+  type DownloadToResult,
 } from '../../blackbox/jobs.js';
 import type { DataConsumption } from '../../types/common.js';
 
@@ -31,7 +34,7 @@ export { getStatus, pollUntilComplete };
  *
  * @public
  */
-export interface Web2DownloadParams {
+export interface Web2DownloadParams extends RequestOptions {
   /** Active Web2 session (required for decrypt job downloads) */
   session: Web2Session;
   /** Secret ID (required for decrypt job downloads) */
@@ -40,6 +43,14 @@ export interface Web2DownloadParams {
   blackboxUrl: string;
   /** Read client for freshness */
   readClient: ReadClient;
+  /** Called as response bytes are received */
+  onDownloadProgress?: (progress: TransferProgress) => void;
+  /** Verify the downloaded bytes against the original file hash */
+  verify?: boolean;
+  /** Expected SHA-256 of the decrypted file (hex) */
+  originalHash?: string;
+  /** The `.cifer` file that was decrypted, to read `originalHash` from */
+  ciferFile?: Blob | Uint8Array;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
 }
@@ -67,7 +78,44 @@ export async function download(
     secretId: params.secretId,
     signer: params.session.signer,
     readClient: params.readClient,
+    onDownloadProgress: params.onDownloadProgress,
+    verify: params.verify,
+    originalHash: params.originalHash,
+    ciferFile: params.ciferFile,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
+  });
+}
+
+/**
+ * Stream a completed job result to a destination using a Web2 session.
+ *
+ * @param jobId - The job ID
+ * @param destination - WritableStream, Node.js Writable or file path
+ * @param params - Download parameters
+ * @returns Bytes written and the server-provided file name
+ */
+export async function downloadTo(
+  jobId: string,
+  destination: DownloadDestination,
+  params: Web2DownloadParams
+): Promise<DownloadToResult> {
+  await params.session.ensureValid();
+
+  return coreDownloadTo(jobId, destination, {
+    blackboxUrl: params.blackboxUrl,
+    chainId: WEB2_CHAIN_ID,
+    secretId: params.secretId,
+    signer: params.session.signer,
+    readClient: params.readClient,
+    onDownloadProgress: params.onDownloadProgress,
+    verify: params.verify,
+    originalHash: params.originalHash,
+    ciferFile: params.ciferFile,
+    fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
 
@@ -76,7 +124,7 @@ export async function download(
  *
  * @public
  */
-export interface Web2DeleteJobParams {
+export interface Web2DeleteJobParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID */
@@ -108,6 +156,8 @@ export async function deleteJob(
     readClient: params.readClient,
     blackboxUrl: params.blackboxUrl,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
 
@@ -116,7 +166,7 @@ export async function deleteJob(
  *
  * @public
  */
-export interface Web2ListJobsParams {
+export interface Web2ListJobsParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Blackbox URL */
@@ -147,6 +197,8 @@ export async function list(
     blackboxUrl: params.blackboxUrl,
     includeExpired: params.includeExpired,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
 
@@ -155,7 +207,7 @@ export async function list(
  *
  * @public
  */
-export interface Web2DataConsumptionParams {
+export interface Web2DataConsumptionParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Blackbox URL */
@@ -183,5 +235,7 @@ export async function dataConsumption(
     readClient: params.readClient,
     blackboxUrl: params.blackboxUrl,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
@@ -7,7 +7,7 @@
  */
 
 import { WEB2_CHAIN_ID } from '../../types/common.js';
-import type { OutputFormat, InputFormat } from '../../types/common.js';
+import type { OutputFormat, InputFormat, RequestOptions } from '../../types/common.js';
 import type { ReadClient } from '../../types/adapters.js';
 import type { Web2Session } from '../../types/web2.js';
 import {
@@ -22,13 +22,13 @@ import {
  *
  * @public
  */
-export interface Web2EncryptPayloadParams {
+export interface Web2EncryptPayloadParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID to use for encryption */
   secretId: bigint | number;
-  /** The plaintext to encrypt */
-  plaintext: string;
+  /** The plaintext to encrypt (a string, or bytes for binary data) */
+  plaintext: string | Uint8Array;
   /** Blackbox URL */
   blackboxUrl: string;
   /** Read client for freshness */
@@ -72,6 +72,8 @@ export async function encryptPayload(
     blackboxUrl: params.blackboxUrl,
     outputFormat: params.outputFormat,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
 
@@ -80,7 +82,7 @@ export async function encryptPayload(
  *
  * @public
  */
-export interface Web2DecryptPayloadParams {
+export interface Web2DecryptPayloadParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID used for encryption */
@@ -135,5 +137,7 @@ export async function decryptPayload(
     blackboxUrl: params.blackboxUrl,
     inputFormat: params.inputFormat,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
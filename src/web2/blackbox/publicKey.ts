@@ -4,6 +4,7 @@
  */
 
 import { WEB2_CHAIN_ID } from '../../types/common.js';
+import type { RequestOptions } from '../../types/common.js';
 import type { ReadClient } from '../../types/adapters.js';
 import type { Web2Session } from '../../types/web2.js';
 import {
@@ -14,7 +15,7 @@ import {
 /**
  * Parameters for Web2 public key fetch
  */
-export interface Web2GetSecretPublicKeyParams {
+export interface Web2GetSecretPublicKeyParams extends RequestOptions {
   /** Active Web2 session */
   session: Web2Session;
   /** Secret ID to fetch */
@@ -42,5 +43,7 @@ export async function getSecretPublicKey(
     readClient: params.readClient,
     blackboxUrl: params.blackboxUrl,
     fetch: params.fetch,
+    signal: params.signal,
+    timeoutMs: params.timeoutMs,
   });
 }
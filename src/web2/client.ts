@@ -39,10 +39,19 @@ import type {
   PrincipalByEmailResult,
   Ed25519Signer,
 } from '../types/web2.js';
-import type { DataConsumption, JobInfo, OutputFormat, InputFormat } from '../types/common.js';
+import type {
+  DataConsumption,
+  JobInfo,
+  OutputFormat,
+  InputFormat,
+  FileSource,
+  TransferProgress,
+  DownloadDestination,
+  RequestOptions,
+} from '../types/common.js';
 import type { EncryptPayloadResult, DecryptPayloadResult } from '../blackbox/payload.js';
 import type { FileJobResult } from '../blackbox/files.js';
-import type { ListJobsResult } from '../blackbox/jobs.js';
+import type { ListJobsResult, DownloadToResult } from '../blackbox/jobs.js';
 
 import { createManagedSession, useExistingSessionKey } from './session.js';
 import { createSecret, listSecrets } from './secret.js';
@@ -129,7 +138,7 @@ export interface Web2Client {
     ttl?: number;
     blackboxUrl?: string;
     fetch?: typeof fetch;
-  }): Promise<Web2Session>;
+  } & RequestOptions): Promise<Web2Session>;
 
   /**
    * Use an existing session key and store it in the client.
@@ -159,7 +168,7 @@ export interface Web2Client {
     session?: Web2Session;
     blackboxUrl?: string;
     fetch?: typeof fetch;
-  }): Promise<CreateWeb2SecretResult>;
+  } & RequestOptions): Promise<CreateWeb2SecretResult>;
 
   /**
    * List all Web2 secrets for the current principal.
@@ -170,7 +179,7 @@ export interface Web2Client {
     session?: Web2Session;
     blackboxUrl?: string;
     fetch?: typeof fetch;
-  }): Promise<ListWeb2SecretsResult>;
+  } & RequestOptions): Promise<ListWeb2SecretsResult>;
 
   // --------------------------------------------------------------------------
   // Delegate
@@ -187,7 +196,7 @@ export interface Web2Client {
     session?: Web2Session;
     blackboxUrl?: string;
     fetch?: typeof fetch;
-  }): Promise<SetWeb2DelegateResult>;
+  } & RequestOptions): Promise<SetWeb2DelegateResult>;
 
   // --------------------------------------------------------------------------
   // Permit
@@ -213,7 +222,7 @@ export interface Web2Client {
    *
    * Uses the stored blackboxUrl unless overridden.
    */
-  getByEmail(email: string, blackboxUrl?: string, options?: { fetch?: typeof fetch }): Promise<PrincipalByEmailResult>;
+  getByEmail(email: string, blackboxUrl?: string, options?: RequestOptions & { fetch?: typeof fetch } & RequestOptions): Promise<PrincipalByEmailResult>;
 
   // --------------------------------------------------------------------------
   // Payload (blackbox wrappers)
@@ -225,13 +234,13 @@ export interface Web2Client {
      */
     encryptPayload(params: {
       secretId: bigint | number;
-      plaintext: string;
+      plaintext: string | Uint8Array;
       outputFormat?: OutputFormat;
       session?: Web2Session;
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<EncryptPayloadResult>;
+    } & RequestOptions): Promise<EncryptPayloadResult>;
 
     /**
      * Decrypt a payload using the stored session.
@@ -245,7 +254,7 @@ export interface Web2Client {
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<DecryptPayloadResult>;
+    } & RequestOptions): Promise<DecryptPayloadResult>;
   };
 
   // --------------------------------------------------------------------------
@@ -258,24 +267,28 @@ export interface Web2Client {
      */
     encryptFile(params: {
       secretId: bigint | number;
-      file: File | Blob;
+      file: FileSource;
+      fileName?: string;
+      onUploadProgress?: (progress: TransferProgress) => void;
       session?: Web2Session;
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<FileJobResult>;
+    } & RequestOptions): Promise<FileJobResult>;
 
     /**
      * Decrypt a file using the stored session.
      */
     decryptFile(params: {
       secretId: bigint | number;
-      file: File | Blob;
+      file: FileSource;
+      fileName?: string;
+      onUploadProgress?: (progress: TransferProgress) => void;
       session?: Web2Session;
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<FileJobResult>;
+    } & RequestOptions): Promise<FileJobResult>;
 
     /**
      * Decrypt an existing file using the stored session.
@@ -287,7 +300,7 @@ export interface Web2Client {
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<FileJobResult>;
+    } & RequestOptions): Promise<FileJobResult>;
   };
 
   // --------------------------------------------------------------------------
@@ -298,7 +311,7 @@ export interface Web2Client {
     /**
      * Get job status (no session needed).
      */
-    getStatus(jobId: string, blackboxUrl?: string, options?: { fetch?: typeof fetch }): Promise<JobInfo>;
+    getStatus(jobId: string, blackboxUrl?: string, options?: RequestOptions & { fetch?: typeof fetch } & RequestOptions): Promise<JobInfo>;
 
     /**
      * Poll until a job completes (no session needed).
@@ -306,7 +319,7 @@ export interface Web2Client {
     pollUntilComplete(
       jobId: string,
       blackboxUrl?: string,
-      options?: { intervalMs?: number; maxAttempts?: number; onProgress?: (job: JobInfo) => void; fetch?: typeof fetch },
+      options?: RequestOptions & { intervalMs?: number; maxAttempts?: number; onProgress?: (job: JobInfo) => void; fetch?: typeof fetch },
     ): Promise<JobInfo>;
 
     /**
@@ -317,8 +330,27 @@ export interface Web2Client {
       session?: Web2Session;
       blackboxUrl?: string;
       readClient?: ReadClient;
+      onDownloadProgress?: (progress: TransferProgress) => void;
+      verify?: boolean;
+      originalHash?: string;
+      ciferFile?: Blob | Uint8Array;
+      fetch?: typeof fetch;
+    } & RequestOptions): Promise<Blob>;
+
+    /**
+     * Stream a completed job to a destination (session needed for decrypt jobs).
+     */
+    downloadTo(jobId: string, destination: DownloadDestination, params: {
+      secretId: bigint | number;
+      session?: Web2Session;
+      blackboxUrl?: string;
+      readClient?: ReadClient;
+      onDownloadProgress?: (progress: TransferProgress) => void;
+      verify?: boolean;
+      originalHash?: string;
+      ciferFile?: Blob | Uint8Array;
       fetch?: typeof fetch;
-    }): Promise<Blob>;
+    } & RequestOptions): Promise<DownloadToResult>;
 
     /**
      * Delete a job (session needed).
@@ -329,7 +361,7 @@ export interface Web2Client {
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<void>;
+    } & RequestOptions): Promise<void>;
 
     /**
      * List all jobs (session needed).
@@ -340,7 +372,7 @@ export interface Web2Client {
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<ListJobsResult>;
+    } & RequestOptions): Promise<ListJobsResult>;
 
     /**
      * Get data consumption statistics (session needed).
@@ -350,7 +382,7 @@ export interface Web2Client {
       blackboxUrl?: string;
       readClient?: ReadClient;
       fetch?: typeof fetch;
-    }): Promise<DataConsumption>;
+    } & RequestOptions): Promise<DataConsumption>;
   };
 }
 
@@ -460,6 +492,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
         blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
         ttl: params.ttl,
         fetch: resolveFetch(params.fetch),
+        signal: params.signal,
+        timeoutMs: params.timeoutMs,
       });
       storedSession = session;
       return session;
@@ -482,6 +516,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
         session: requireSession(params?.session),
         blackboxUrl: resolveBlackboxUrl(params?.blackboxUrl),
         fetch: resolveFetch(params?.fetch),
+        signal: params?.signal,
+        timeoutMs: params?.timeoutMs,
       });
     },
 
@@ -490,6 +526,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
         session: requireSession(params?.session),
         blackboxUrl: resolveBlackboxUrl(params?.blackboxUrl),
         fetch: resolveFetch(params?.fetch),
+        signal: params?.signal,
+        timeoutMs: params?.timeoutMs,
       });
     },
 
@@ -502,6 +540,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
         delegatePrincipalId: params.delegatePrincipalId,
         blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
         fetch: resolveFetch(params.fetch),
+        signal: params.signal,
+        timeoutMs: params.timeoutMs,
       });
     },
 
@@ -516,6 +556,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           payload: (params as RequestRotatePermitParams).payload,
           blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       }
 
@@ -528,6 +570,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
         payload: transferParams.payload,
         blackboxUrl: resolveBlackboxUrl(transferParams.blackboxUrl),
         fetch: resolveFetch(transferParams.fetch),
+        signal: transferParams.signal,
+        timeoutMs: transferParams.timeoutMs,
       });
     },
 
@@ -536,6 +580,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
     async getByEmail(email, bbUrl, options) {
       return getByEmail(email, resolveBlackboxUrl(bbUrl), {
         fetch: resolveFetch(options?.fetch),
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
       });
     },
 
@@ -551,6 +597,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           readClient: requireReadClient(params.readClient),
           outputFormat: params.outputFormat,
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
 
@@ -564,6 +612,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           readClient: requireReadClient(params.readClient),
           inputFormat: params.inputFormat,
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
     },
@@ -576,9 +626,13 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           session: requireSession(params.session),
           secretId: params.secretId,
           file: params.file,
+          fileName: params.fileName,
+          onUploadProgress: params.onUploadProgress,
           blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
           readClient: requireReadClient(params.readClient),
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
 
@@ -587,9 +641,13 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           session: requireSession(params.session),
           secretId: params.secretId,
           file: params.file,
+          fileName: params.fileName,
+          onUploadProgress: params.onUploadProgress,
           blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
           readClient: requireReadClient(params.readClient),
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
 
@@ -601,6 +659,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
           readClient: requireReadClient(params.readClient),
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
     },
@@ -611,6 +671,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
       async getStatus(jobId, bbUrl, options) {
         return jobsModule.getStatus(jobId, resolveBlackboxUrl(bbUrl), {
           fetch: resolveFetch(options?.fetch),
+          signal: options?.signal,
+          timeoutMs: options?.timeoutMs,
         });
       },
 
@@ -620,6 +682,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           maxAttempts: options?.maxAttempts,
           onProgress: options?.onProgress,
           fetch: resolveFetch(options?.fetch),
+          signal: options?.signal,
+          timeoutMs: options?.timeoutMs,
         });
       },
 
@@ -629,7 +693,29 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           secretId: params.secretId,
           blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
           readClient: requireReadClient(params.readClient),
+          onDownloadProgress: params.onDownloadProgress,
+          verify: params.verify,
+          originalHash: params.originalHash,
+          ciferFile: params.ciferFile,
+          fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
+        });
+      },
+
+      async downloadTo(jobId, destination, params) {
+        return jobsModule.downloadTo(jobId, destination, {
+          session: requireSession(params.session),
+          secretId: params.secretId,
+          blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
+          readClient: requireReadClient(params.readClient),
+          onDownloadProgress: params.onDownloadProgress,
+          verify: params.verify,
+          originalHash: params.originalHash,
+          ciferFile: params.ciferFile,
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
 
@@ -640,6 +726,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           blackboxUrl: resolveBlackboxUrl(params.blackboxUrl),
           readClient: requireReadClient(params.readClient),
           fetch: resolveFetch(params.fetch),
+          signal: params.signal,
+          timeoutMs: params.timeoutMs,
         });
       },
 
@@ -650,6 +738,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           readClient: requireReadClient(params?.readClient),
           includeExpired: params?.includeExpired,
           fetch: resolveFetch(params?.fetch),
+          signal: params?.signal,
+          timeoutMs: params?.timeoutMs,
         });
       },
 
@@ -659,6 +749,8 @@ export function createClient(config: Web2ClientConfig): Web2Client {
           blackboxUrl: resolveBlackboxUrl(params?.blackboxUrl),
           readClient: requireReadClient(params?.readClient),
           fetch: resolveFetch(params?.fetch),
+          signal: params?.signal,
+          timeoutMs: params?.timeoutMs,
         });
       },
     },
@@ -10,6 +10,7 @@ import type {
 } from '../types/web2.js';
 import { signDataString } from '../internal/auth/signer.js';
 import { BlackboxError } from '../internal/errors/index.js';
+import { blackboxRequest, withDeadline } from '../internal/http/index.js';
 
 // ============================================================================
 // Internal helpers
@@ -56,37 +57,38 @@ export async function setDelegate(
   const { session, secretId, delegatePrincipalId, blackboxUrl } = params;
   const fetchFn = params.fetch ?? fetch;
 
-  await session.ensureValid();
+  return withDeadline(params, async (signal) => {
+    await session.ensureValid();
 
-  const sessionAddress = await session.signer.getAddress();
-  const timestamp = Date.now();
+    const sessionAddress = await session.signer.getAddress();
+    const timestamp = Date.now();
 
-  // Data string: -1_<secretId>_<sessionAddress>_<timestamp>_<delegatePrincipalId>
-  const dataString = `${WEB2_CHAIN_ID}_${secretId}_${sessionAddress}_${timestamp}_${delegatePrincipalId}`;
-  const signed = await signDataString(dataString, session.signer);
+    // Data string: -1_<secretId>_<sessionAddress>_<timestamp>_<delegatePrincipalId>
+    const dataString = `${WEB2_CHAIN_ID}_${secretId}_${sessionAddress}_${timestamp}_${delegatePrincipalId}`;
+    const signed = await signDataString(dataString, session.signer);
 
-  const url = `${normalizeUrl(blackboxUrl)}/web2/setDelegate`;
+    const url = `${normalizeUrl(blackboxUrl)}/web2/setDelegate`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      data: signed.data,
-      signature: signed.signature,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-    const msg =
-      (errorBody.error as string) ||
-      (errorBody.message as string) ||
-      `Set delegate failed with status ${response.status}`;
-    throw new BlackboxError(msg, {
-      statusCode: response.status,
+    const response = await blackboxRequest({
+      url,
       endpoint: '/web2/setDelegate',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          data: signed.data,
+          signature: signed.signature,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, errorBody) =>
+        new BlackboxError(
+          errorBody.error || errorBody.message || `Set delegate failed with status ${res.status}`,
+          { statusCode: res.status, endpoint: '/web2/setDelegate' }
+        ),
     });
-  }
 
-  return (await response.json()) as SetWeb2DelegateResult;
+    return (await response.json()) as SetWeb2DelegateResult;
+  });
 }
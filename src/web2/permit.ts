@@ -10,6 +10,7 @@ import type {
 } from '../types/web2.js';
 import { signDataString } from '../internal/auth/signer.js';
 import { Web2AuthError, BlackboxError } from '../internal/errors/index.js';
+import { blackboxRequest, withDeadline } from '../internal/http/index.js';
 
 // ============================================================================
 // Internal helpers
@@ -61,69 +62,71 @@ export async function requestPermit(
   const fetchFn = params.fetch ?? fetch;
   const baseUrl = normalizeUrl(params.blackboxUrl);
 
-  if (params.action === 'rotate') {
-    // Rotate uses email+password auth
-    const url = `${baseUrl}/web2/permit`;
-
-    const response = await fetchFn(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        action: 'rotate',
-        email: params.email,
-        password: params.password,
-        payload: params.payload,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-      const msg =
-        (errorBody.error as string) ||
-        (errorBody.message as string) ||
-        `Permit request failed with status ${response.status}`;
-      throw new Web2AuthError(msg);
+  return withDeadline(params, async (signal) => {
+    if (params.action === 'rotate') {
+      // Rotate uses email+password auth
+      const url = `${baseUrl}/web2/permit`;
+
+      const response = await blackboxRequest({
+        url,
+        endpoint: '/web2/permit',
+        init: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            action: 'rotate',
+            email: params.email,
+            password: params.password,
+            payload: params.payload,
+          }),
+        },
+        fetch: fetchFn,
+        signal,
+        mapError: (res, errorBody) =>
+          new Web2AuthError(
+            errorBody.error || errorBody.message || `Permit request failed with status ${res.status}`
+          ),
+      });
+
+      return (await response.json()) as RequestPermitResult;
     }
 
-    return (await response.json()) as RequestPermitResult;
-  }
-
-  // Transfer / Delegate uses session-based signing
-  const { session, secretId, payload, action } = params;
+    // Transfer / Delegate uses session-based signing
+    const { session, secretId, payload, action } = params;
 
-  await session.ensureValid();
+    await session.ensureValid();
 
-  const sessionAddress = await session.signer.getAddress();
-  const timestamp = Date.now();
+    const sessionAddress = await session.signer.getAddress();
+    const timestamp = Date.now();
 
-  // Data string: -1_<secretId>_<sessionAddress>_<timestamp>
-  const dataString = `${WEB2_CHAIN_ID}_${secretId}_${sessionAddress}_${timestamp}`;
-  const signed = await signDataString(dataString, session.signer);
+    // Data string: -1_<secretId>_<sessionAddress>_<timestamp>
+    const dataString = `${WEB2_CHAIN_ID}_${secretId}_${sessionAddress}_${timestamp}`;
+    const signed = await signDataString(dataString, session.signer);
 
-  const url = `${baseUrl}/web2/permit`;
-
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      action,
-      data: signed.data,
-      signature: signed.signature,
-      payload,
-    }),
-  });
+    const url = `${baseUrl}/web2/permit`;
 
-  if (!response.ok) {
-    const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-    const msg =
-      (errorBody.error as string) ||
-      (errorBody.message as string) ||
-      `Permit request failed with status ${response.status}`;
-    throw new BlackboxError(msg, {
-      statusCode: response.status,
+    const response = await blackboxRequest({
+      url,
       endpoint: '/web2/permit',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          data: signed.data,
+          signature: signed.signature,
+          payload,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, errorBody) =>
+        new BlackboxError(
+          errorBody.error || errorBody.message || `Permit request failed with status ${res.status}`,
+          { statusCode: res.status, endpoint: '/web2/permit' }
+        ),
     });
-  }
 
-  return (await response.json()) as RequestPermitResult;
+    return (await response.json()) as RequestPermitResult;
+  });
 }
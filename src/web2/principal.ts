@@ -3,8 +3,10 @@
  * @description Web2 principal lookup
  */
 
+import type { RequestOptions } from '../types/common.js';
 import type { PrincipalByEmailResult } from '../types/web2.js';
 import { Web2AuthError } from '../internal/errors/index.js';
+import { blackboxRequest, withDeadline } from '../internal/http/index.js';
 
 // ============================================================================
 // Internal helpers
@@ -38,24 +40,27 @@ function normalizeUrl(blackboxUrl: string): string {
 export async function getByEmail(
   email: string,
   blackboxUrl: string,
-  options?: { fetch?: typeof fetch }
+  options?: RequestOptions & { fetch?: typeof fetch }
 ): Promise<PrincipalByEmailResult> {
   const fetchFn = options?.fetch ?? fetch;
   const url = `${normalizeUrl(blackboxUrl)}/web2/principal/byEmail?email=${encodeURIComponent(email)}`;
 
-  const response = await fetchFn(url, {
-    method: 'GET',
-    headers: { Accept: 'application/json' },
-  });
-
-  if (!response.ok) {
-    const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-    const msg =
-      (errorBody.error as string) ||
-      (errorBody.message as string) ||
-      `Principal lookup failed with status ${response.status}`;
-    throw new Web2AuthError(msg);
-  }
+  return withDeadline(options, async (signal) => {
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/principal/byEmail',
+      init: {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, errorBody) =>
+        new Web2AuthError(
+          errorBody.error || errorBody.message || `Principal lookup failed with status ${res.status}`
+        ),
+    });
 
-  return (await response.json()) as PrincipalByEmailResult;
+    return (await response.json()) as PrincipalByEmailResult;
+  });
 }
@@ -12,6 +12,7 @@ import type {
 } from '../types/web2.js';
 import { signDataString } from '../internal/auth/signer.js';
 import { BlackboxError } from '../internal/errors/index.js';
+import { blackboxRequest, withDeadline } from '../internal/http/index.js';
 
 // ============================================================================
 // Internal helpers
@@ -48,39 +49,41 @@ export async function createSecret(
   const { session, blackboxUrl } = params;
   const fetchFn = params.fetch ?? fetch;
 
-  await session.ensureValid();
+  return withDeadline(params, async (signal) => {
+    await session.ensureValid();
 
-  const sessionAddress = await session.signer.getAddress();
-  const timestamp = Date.now();
+    const sessionAddress = await session.signer.getAddress();
+    const timestamp = Date.now();
 
-  // Data string: -1_0_<sessionAddress>_<timestamp>
-  const dataString = `${WEB2_CHAIN_ID}_0_${sessionAddress}_${timestamp}`;
-  const signed = await signDataString(dataString, session.signer);
+    // Data string: -1_0_<sessionAddress>_<timestamp>
+    const dataString = `${WEB2_CHAIN_ID}_0_${sessionAddress}_${timestamp}`;
+    const signed = await signDataString(dataString, session.signer);
 
-  const url = `${normalizeUrl(blackboxUrl)}/web2/secret`;
+    const url = `${normalizeUrl(blackboxUrl)}/web2/secret`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      data: signed.data,
-      signature: signed.signature,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-    const msg =
-      (errorBody.error as string) ||
-      (errorBody.message as string) ||
-      `Secret creation failed with status ${response.status}`;
-    throw new BlackboxError(msg, {
-      statusCode: response.status,
+    const response = await blackboxRequest({
+      url,
       endpoint: '/web2/secret',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          data: signed.data,
+          signature: signed.signature,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      idempotent: false,
+      mapError: (res, errorBody) =>
+        new BlackboxError(
+          errorBody.error || errorBody.message || `Secret creation failed with status ${res.status}`,
+          { statusCode: res.status, endpoint: '/web2/secret' }
+        ),
     });
-  }
 
-  return (await response.json()) as CreateWeb2SecretResult;
+    return (await response.json()) as CreateWeb2SecretResult;
+  });
 }
 
 /**
@@ -106,37 +109,38 @@ export async function listSecrets(
   const { session, blackboxUrl } = params;
   const fetchFn = params.fetch ?? fetch;
 
-  await session.ensureValid();
+  return withDeadline(params, async (signal) => {
+    await session.ensureValid();
 
-  const sessionAddress = await session.signer.getAddress();
-  const timestamp = Date.now();
+    const sessionAddress = await session.signer.getAddress();
+    const timestamp = Date.now();
 
-  // Data string: -1_<principalId>_<sessionAddress>_<timestamp>
-  const dataString = `${WEB2_CHAIN_ID}_${session.principalId}_${sessionAddress}_${timestamp}`;
-  const signed = await signDataString(dataString, session.signer);
+    // Data string: -1_<principalId>_<sessionAddress>_<timestamp>
+    const dataString = `${WEB2_CHAIN_ID}_${session.principalId}_${sessionAddress}_${timestamp}`;
+    const signed = await signDataString(dataString, session.signer);
 
-  const url = `${normalizeUrl(blackboxUrl)}/web2/secrets`;
+    const url = `${normalizeUrl(blackboxUrl)}/web2/secrets`;
 
-  const response = await fetchFn(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      data: signed.data,
-      signature: signed.signature,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-    const msg =
-      (errorBody.error as string) ||
-      (errorBody.message as string) ||
-      `List secrets failed with status ${response.status}`;
-    throw new BlackboxError(msg, {
-      statusCode: response.status,
+    const response = await blackboxRequest({
+      url,
       endpoint: '/web2/secrets',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          data: signed.data,
+          signature: signed.signature,
+        }),
+      },
+      fetch: fetchFn,
+      signal,
+      mapError: (res, errorBody) =>
+        new BlackboxError(
+          errorBody.error || errorBody.message || `List secrets failed with status ${res.status}`,
+          { statusCode: res.status, endpoint: '/web2/secrets' }
+        ),
     });
-  }
 
-  return (await response.json()) as ListWeb2SecretsResult;
+    return (await response.json()) as ListWeb2SecretsResult;
+  });
 }
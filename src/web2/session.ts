@@ -7,7 +7,7 @@
  * - **Existing session key**: SDK only has session EOA private key
  */
 
-import type { Address } from '../types/common.js';
+import type { Address, RequestOptions } from '../types/common.js';
 import type {
   CreateManagedSessionParams,
   CreateSessionResult,
@@ -17,6 +17,8 @@ import type {
 } from '../types/web2.js';
 import { PrivateKeySignerAdapter } from '../internal/adapters/index.js';
 import { Web2SessionError } from '../internal/errors/index.js';
+import { blackboxRequest, withDeadline } from '../internal/http/index.js';
+import { getLogger } from '../internal/logging/index.js';
 
 // ============================================================================
 // Internal helpers
@@ -37,6 +39,8 @@ function bytesToHex(bytes: Uint8Array): string {
 /** Default renewal skew: renew if expiring within this many milliseconds */
 const RENEWAL_SKEW_MS = 60_000;
 
+const log = getLogger('web2.session');
+
 /**
  * Call POST /web2/session to create a session.
  */
@@ -46,61 +50,65 @@ async function callCreateSession(
   sessionAddress: string,
   blackboxUrl: string,
   ttl?: number,
-  fetchFn?: typeof fetch
+  fetchFn?: typeof fetch,
+  options?: RequestOptions
 ): Promise<CreateSessionResult> {
   const useFetch = fetchFn ?? fetch;
   const url = `${normalizeUrl(blackboxUrl)}/web2/session`;
 
-  const timestamp = Date.now().toString();
-
-  // Build canonical message
-  let message = `cifer_session:${principalId}:${timestamp}:${sessionAddress}`;
-  if (ttl !== undefined) {
-    message += `:${ttl}`;
-  }
-
-  const messageBytes = new TextEncoder().encode(message);
-  const signatureBytes = await ed25519Signer.sign(messageBytes);
-  const signatureHex = bytesToHex(signatureBytes);
-
-  const body: Record<string, unknown> = {
-    principalId,
-    timestamp,
-    signature: signatureHex,
-    sessionAddress,
-  };
-  if (ttl !== undefined) {
-    body.ttl = ttl;
-  }
-
-  const response = await useFetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+  return withDeadline(options, async (signal) => {
+    const timestamp = Date.now().toString();
+
+    // Build canonical message
+    let message = `cifer_session:${principalId}:${timestamp}:${sessionAddress}`;
+    if (ttl !== undefined) {
+      message += `:${ttl}`;
+    }
+
+    const messageBytes = new TextEncoder().encode(message);
+    const signatureBytes = await ed25519Signer.sign(messageBytes);
+    const signatureHex = bytesToHex(signatureBytes);
+
+    const body: Record<string, unknown> = {
+      principalId,
+      timestamp,
+      signature: signatureHex,
+      sessionAddress,
+    };
+    if (ttl !== undefined) {
+      body.ttl = ttl;
+    }
+
+    const response = await blackboxRequest({
+      url,
+      endpoint: '/web2/session',
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      fetch: useFetch,
+      signal,
+      mapError: (res, errorBody) =>
+        new Web2SessionError(
+          errorBody.error || errorBody.message || `Session creation failed with status ${res.status}`
+        ),
+    });
+
+    const result = (await response.json()) as {
+      sessionToken: string;
+      sessionAddress: string;
+      quorumProof: Array<{ nodeAddress: string; signature: string }>;
+      expiresAt: string;
+    };
+
+    return {
+      sessionToken: result.sessionToken,
+      sessionAddress: result.sessionAddress as Address,
+      quorumProof: result.quorumProof,
+      expiresAt: result.expiresAt,
+    };
   });
-
-  if (!response.ok) {
-    const errorBody = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-    const msg =
-      (errorBody.error as string) ||
-      (errorBody.message as string) ||
-      `Session creation failed with status ${response.status}`;
-    throw new Web2SessionError(msg);
-  }
-
-  const result = (await response.json()) as {
-    sessionToken: string;
-    sessionAddress: string;
-    quorumProof: Array<{ nodeAddress: string; signature: string }>;
-    expiresAt: string;
-  };
-
-  return {
-    sessionToken: result.sessionToken,
-    sessionAddress: result.sessionAddress as Address,
-    quorumProof: result.quorumProof,
-    expiresAt: result.expiresAt,
-  };
 }
 
 // ============================================================================
@@ -153,7 +161,8 @@ export async function createManagedSession(
     sessionAddress,
     blackboxUrl,
     ttl,
-    fetchFn
+    fetchFn,
+    { signal: params.signal, timeoutMs: params.timeoutMs }
   );
 
   // Mutable state
@@ -179,11 +188,18 @@ export async function createManagedSession(
         newSessionAddress,
         blackboxUrl,
         ttl,
-        fetchFn
+        fetchFn,
+        // Renewal happens after creation returned, so only the timeout applies
+        { timeoutMs: params.timeoutMs }
       );
 
       // Update mutable state on the session object
       expiresAt = renewResult.expiresAt;
+      log.info('Web2 session renewed', {
+        principalId,
+        sessionAddress: renewResult.sessionAddress,
+        expiresAt,
+      });
 
       // Replace the signer on the session object with the new one
       // We need to use Object.defineProperty since signer is readonly on the interface
@@ -198,6 +214,7 @@ export async function createManagedSession(
       const now = Date.now();
 
       if (now >= expiresAtMs - RENEWAL_SKEW_MS) {
+        log.debug('Web2 session expiring, renewing', { principalId, expiresAt });
         await session.renew();
       }
     },
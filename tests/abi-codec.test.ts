@@ -0,0 +1,202 @@
+/**
+ * @file tests/abi-codec.test.ts
+ * @description Tests for the Solidity ABI codec and buildStoreCommitmentTx extra arguments
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encodeAbiParameters,
+  decodeAbiParameters,
+  encodeFunctionData,
+  decodeFunctionResult,
+  getFunctionSelector,
+  getFunctionSignature,
+} from '../src/internal/abi/codec.js';
+import { buildStoreCommitmentTx, COMMON_STORE_FUNCTIONS } from '../src/commitments/tx-builders.js';
+import { AbiCodingError, CommitmentsError } from '../src/internal/errors/index.js';
+import type { Bytes32, Hex } from '../src/types/common.js';
+
+const words = (...hex: string[]) => hex.map((w) => w.padStart(64, '0')).join('');
+
+describe('ABI codec', () => {
+  it('matches the Solidity specification example with static and dynamic types', () => {
+    const fn = {
+      name: 'f',
+      inputs: [{ type: 'uint256' }, { type: 'uint32[]' }, { type: 'bytes10' }, { type: 'bytes' }],
+    };
+    const args = [0x123n, [0x456, 0x789], '0x31323334353637383930', '0x48656c6c6f2c20776f726c6421'];
+
+    const data = encodeFunctionData(fn, args);
+
+    expect(data).toBe(
+      '0x8be65246' +
+        words('123', '80') +
+        '3132333435363738393000000000000000000000000000000000000000000000' +
+        words('e0', '2', '456', '789', 'd') +
+        '48656c6c6f2c20776f726c642100000000000000000000000000000000000000'
+    );
+    expect(decodeAbiParameters(fn.inputs, `0x${data.slice(10)}` as Hex)).toEqual([
+      0x123n,
+      [0x456n, 0x789n],
+      '0x31323334353637383930',
+      '0x48656c6c6f2c20776f726c6421',
+    ]);
+  });
+
+  it('matches the Solidity specification example with nested dynamic arrays', () => {
+    const fn = { name: 'g', inputs: [{ type: 'uint256[][]' }, { type: 'string[]' }] };
+    const args = [[[1n, 2n], [3n]], ['one', 'two', 'three']];
+
+    const data = encodeFunctionData(fn, args);
+
+    expect(data.slice(0, 10)).toBe('0x2289b18c');
+    expect(data.slice(10)).toBe(
+      words('40', '140', '2', '40', 'a0', '2', '1', '2', '1', '3', '3', '60', 'a0', 'e0', '3') +
+        '6f6e650000000000000000000000000000000000000000000000000000000000' +
+        words('3') +
+        '74776f0000000000000000000000000000000000000000000000000000000000' +
+        words('5') +
+        '7468726565000000000000000000000000000000000000000000000000000000'
+    );
+    expect(decodeAbiParameters(fn.inputs, `0x${data.slice(10)}` as Hex)).toEqual(args);
+  });
+
+  it('round-trips tuples, signed integers, bools and addresses', () => {
+    const params = [
+      {
+        name: 'entries',
+        type: 'tuple[]',
+        components: [
+          { name: 'label', type: 'string' },
+          { name: 'delta', type: 'int64' },
+          { name: 'active', type: 'bool' },
+        ],
+      },
+      { name: 'owner', type: 'address' },
+      { name: 'pair', type: 'tuple', components: [{ type: 'uint8' }, { type: 'bytes4' }] },
+    ];
+    const owner = '0x00000000000000000000000000000000000000aa';
+
+    const data = encodeAbiParameters(params, [
+      [
+        { label: 'a', delta: -5n, active: true },
+        ['b', 7, false],
+      ],
+      owner,
+      [255, '0xdeadbeef'],
+    ]);
+
+    expect(decodeAbiParameters(params, data)).toEqual([
+      [
+        { label: 'a', delta: -5n, active: true },
+        { label: 'b', delta: 7n, active: false },
+      ],
+      owner,
+      [255n, '0xdeadbeef'],
+    ]);
+  });
+
+  it('decodes function results', () => {
+    const fn = {
+      name: 'getEntry',
+      inputs: [{ name: 'id', type: 'bytes32' }],
+      outputs: [
+        { name: 'tags', type: 'string[]' },
+        { name: 'expiry', type: 'uint64' },
+      ],
+    };
+    const data = encodeAbiParameters(fn.outputs, [['x'], 1767225600n]);
+
+    expect(decodeFunctionResult(fn, data)).toEqual([['x'], 1767225600n]);
+    expect(getFunctionSignature(fn)).toBe('getEntry(bytes32)');
+  });
+
+  it('rejects values that do not fit their type', () => {
+    const encode = (type: string, value: unknown) => () => encodeAbiParameters([{ type }], [value]);
+
+    expect(encode('uint8', 256)).toThrow(AbiCodingError);
+    expect(encode('int8', -129n)).toThrow('out of range');
+    expect(encode('uint256', -1n)).toThrow('out of range');
+    expect(encode('address', '0x1234')).toThrow('20-byte hex address');
+    expect(encode('bytes32', '0x1234')).toThrow('expected 32 bytes');
+    expect(encode('uint256[2]', [1n])).toThrow('expected 2 elements');
+    expect(encode('fixed128x18', 1)).toThrow('unsupported type');
+  });
+
+  it('rejects truncated data', () => {
+    expect(() => decodeAbiParameters([{ type: 'string' }], `0x${words('20', '10')}` as Hex)).toThrow(
+      AbiCodingError
+    );
+    expect(() =>
+      decodeAbiParameters([{ type: 'uint256[]' }], `0x${words('20', '4', '1')}` as Hex)
+    ).toThrow('data too short');
+  });
+});
+
+describe('buildStoreCommitmentTx', () => {
+  const key = `0x${'11'.repeat(32)}` as Bytes32;
+  const args = {
+    key,
+    secretId: 5n,
+    encryptedMessage: '0xabcd' as Hex,
+    cifer: '0xef' as Hex,
+  };
+
+  it('uses the keccak256 function selector', () => {
+    const tx = buildStoreCommitmentTx({
+      chainId: 1,
+      contractAddress: '0x0000000000000000000000000000000000000001',
+      storeFunction: COMMON_STORE_FUNCTIONS.storeWithKey,
+      args,
+      validate: false,
+    });
+
+    expect(getFunctionSelector(COMMON_STORE_FUNCTIONS.storeWithKey)).toBe('0x1beb1101');
+    expect(tx.data.slice(0, 10)).toBe('0x1beb1101');
+  });
+
+  it('encodes extra arguments and mapped input names', () => {
+    const storeFunction = {
+      type: 'function' as const,
+      name: 'storeTagged',
+      inputs: [
+        { name: 'id', type: 'bytes32' },
+        { name: 'blob', type: 'bytes' },
+        { name: 'cifer', type: 'bytes' },
+        { name: 'tags', type: 'string[]' },
+        { name: 'expiry', type: 'uint64' },
+        { name: '', type: 'bool' },
+      ],
+    };
+
+    const tx = buildStoreCommitmentTx({
+      chainId: 1,
+      contractAddress: '0x0000000000000000000000000000000000000001',
+      storeFunction,
+      args,
+      argMapping: { id: 'key', blob: 'encryptedMessage' },
+      extraArgs: { tags: ['invoice'], expiry: 1767225600n, 5: true },
+      validate: false,
+    });
+
+    expect(tx.data).toBe(
+      encodeFunctionData(storeFunction, [key, '0xabcd', '0xef', ['invoice'], 1767225600n, true])
+    );
+  });
+
+  it('reports inputs that have no value', () => {
+    expect(() =>
+      buildStoreCommitmentTx({
+        chainId: 1,
+        contractAddress: '0x0000000000000000000000000000000000000001',
+        storeFunction: {
+          type: 'function',
+          name: 'store',
+          inputs: [...COMMON_STORE_FUNCTIONS.storeWithKey.inputs, { name: 'tags', type: 'string[]' }],
+        },
+        args,
+        validate: false,
+      })
+    ).toThrow(CommitmentsError);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @file tests/blackbox-batch.test.ts
+ * @description Tests for batch payload encryption/decryption
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { encryptPayloads, decryptPayloads, type BatchProgress } from '../src/blackbox/batch.js';
+import { BlackboxError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+function createMockSigner(): SignerAdapter {
+  return {
+    getAddress: vi.fn().mockResolvedValue('0x1234567890123456789012345678901234567890' as Address),
+    signMessage: vi.fn().mockResolvedValue(('0x' + 'ab'.repeat(65)) as Hex),
+  };
+}
+
+function createMockReadClient(blocks: number[] = [1000]): ReadClient {
+  let call = 0;
+  return {
+    getBlockNumber: vi.fn().mockImplementation(async () => blocks[Math.min(call++, blocks.length - 1)]),
+    getLogs: vi.fn().mockResolvedValue([]),
+  };
+}
+
+function encryptResponse(body: { data: string }): Response {
+  const plaintext = body.data.split('_').slice(4).join('_');
+  return new Response(
+    JSON.stringify({
+      success: true,
+      cifer: '0xc1',
+      encryptedMessage: `0x${plaintext}`,
+      chainId: 752025,
+      secretId: 1,
+      outputFormat: 'hex',
+    })
+  );
+}
+
+describe('encryptPayloads', () => {
+  it('returns per-item results in order and shares block/address lookups', async () => {
+    const signer = createMockSigner();
+    const readClient = createMockReadClient();
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      if (body.data.endsWith('_bad')) {
+        return new Response(JSON.stringify({ error: 'Public key not found' }), { status: 404 });
+      }
+      return encryptResponse(body);
+    });
+    const progress: BatchProgress[] = [];
+
+    const batch = await encryptPayloads({
+      chainId: 752025,
+      items: ['a', 'b', 'bad', 'c', 'd'].map((plaintext) => ({ secretId: 1, plaintext })),
+      signer,
+      readClient,
+      blackboxUrl: 'https://blackbox.test',
+      concurrency: 2,
+      onProgress: (p) => progress.push(p),
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(batch.succeeded).toBe(4);
+    expect(batch.failed).toBe(1);
+    expect(batch.results.map((r) => r.index)).toEqual([0, 1, 2, 3, 4]);
+
+    const failed = batch.results[2];
+    expect(failed.success).toBe(false);
+    if (!failed.success) {
+      expect(failed.error).toBeInstanceOf(BlackboxError);
+      expect((failed.error as BlackboxError).statusCode).toBe(404);
+    }
+    const first = batch.results[0];
+    expect(first.success && first.result.encryptedMessage).toBe('0xa');
+
+    expect(readClient.getBlockNumber).toHaveBeenCalledTimes(1);
+    expect(signer.getAddress).toHaveBeenCalledTimes(1);
+    expect(signer.signMessage).toHaveBeenCalledTimes(5);
+
+    expect(progress).toHaveLength(5);
+    expect(progress[4]).toEqual({ completed: 5, succeeded: 4, failed: 1, total: 5 });
+  });
+
+  it('never runs more than `concurrency` items at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return encryptResponse(JSON.parse(init.body as string));
+    });
+
+    await encryptPayloads({
+      chainId: 752025,
+      items: Array.from({ length: 10 }, (_, i) => ({ secretId: 1, plaintext: `p${i}` })),
+      signer: createMockSigner(),
+      readClient: createMockReadClient(),
+      blackboxUrl: 'https://blackbox.test',
+      concurrency: 3,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+});
+
+describe('decryptPayloads', () => {
+  it('refreshes the shared block number after a stale-block error', async () => {
+    const readClient = createMockReadClient([1000, 1200]);
+    const blocksUsed: string[] = [];
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      const block = body.data.split('_')[3];
+      blocksUsed.push(block);
+      if (block === '1000') {
+        return new Response(
+          JSON.stringify({ error: 'Block number 1000 is too old (current: 1200, max window: 100)' }),
+          { status: 403 }
+        );
+      }
+      return new Response(JSON.stringify({ success: true, decryptedMessage: 'ok' }));
+    });
+
+    const batch = await decryptPayloads({
+      chainId: 752025,
+      items: [{ secretId: 1, cifer: '0xc1', encryptedMessage: '0xe1' }],
+      signer: createMockSigner(),
+      readClient,
+      blackboxUrl: 'https://blackbox.test',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(batch.succeeded).toBe(1);
+    expect(blocksUsed).toEqual(['1000', '1200']);
+  });
+});
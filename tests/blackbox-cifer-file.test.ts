@@ -0,0 +1,218 @@
+/**
+ * @file tests/blackbox-cifer-file.test.ts
+ * @description Tests for client-side .cifer file containers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
+import { gcm } from '@noble/ciphers/aes';
+import { sha256 } from '@noble/hashes/sha256';
+import {
+  encryptFileLocally,
+  inspectCiferFile,
+  assertValidCiferFile,
+  type CiferFileMetadata,
+} from '../src/blackbox/cifer-file.js';
+import { base64ToBytes, bytesToBase64 } from '../src/internal/encoding/index.js';
+import { EncryptionError, InvalidCiferFileError } from '../src/internal/errors/index.js';
+
+const keys = ml_kem768.keygen(new Uint8Array(64).fill(3));
+const publicKey = bytesToBase64(keys.publicKey);
+
+function openChunk(cifer: Uint8Array, encrypted: Uint8Array): Uint8Array {
+  const sharedSecret = ml_kem768.decapsulate(cifer.subarray(0, 1088), keys.secretKey);
+  const sealed = new Uint8Array(encrypted.length + 16);
+  sealed.set(encrypted, 0);
+  sealed.set(cifer.subarray(1088), encrypted.length);
+  return gcm(sharedSecret, new Uint8Array(12)).decrypt(sealed);
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function decryptContainer(zipBytes: Uint8Array): { metadata: CiferFileMetadata; plaintext: Uint8Array } {
+  const entries = unzipSync(zipBytes);
+  const metadata = JSON.parse(strFromU8(entries['metadata.json'])) as CiferFileMetadata;
+  const parts = metadata.cifers.map((cifer, i) =>
+    openChunk(base64ToBytes(cifer), entries[`chunk_${i}.enc`])
+  );
+  const plaintext = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    plaintext.set(part, offset);
+    offset += part.length;
+  }
+  return { metadata, plaintext };
+}
+
+describe('encryptFileLocally', () => {
+  const data = new Uint8Array(2500).map((_, i) => i % 251);
+
+  it('writes chunks and metadata.json that decrypt back to the original', async () => {
+    const progress: number[] = [];
+    const result = await encryptFileLocally({
+      chainId: 752025,
+      secretId: 42n,
+      file: new File([data], 'report.pdf'),
+      publicKey,
+      chunkSize: 1000,
+      onProgress: (n) => progress.push(n),
+    });
+
+    expect(result.fileName).toBe('report.pdf.cifer');
+
+    const { metadata, plaintext } = decryptContainer(await collect(result.stream));
+    expect(metadata.chunkCount).toBe(3);
+    expect(metadata.cifers).toHaveLength(3);
+    expect(metadata.secretId).toBe(42);
+    expect(metadata.originalName).toBe('report.pdf');
+    expect(metadata.originalHash).toBe(hex(sha256(data)));
+    expect(plaintext).toEqual(data);
+    expect(progress).toEqual([1000, 2000, 2500]);
+  });
+
+  it('re-chunks ReadableStream input of arbitrary piece sizes', async () => {
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < data.length; i += 333) {
+          controller.enqueue(data.slice(i, i + 333));
+        }
+        controller.close();
+      },
+    });
+
+    const result = await encryptFileLocally({
+      chainId: 752025,
+      secretId: 1,
+      file: source,
+      fileName: 'stream.bin',
+      publicKey,
+      chunkSize: 1024,
+    });
+
+    const { metadata, plaintext } = decryptContainer(await collect(result.stream));
+    expect(metadata.chunkCount).toBe(3);
+    expect(plaintext).toEqual(data);
+  });
+
+  it('emits a single empty chunk for an empty file', async () => {
+    const result = await encryptFileLocally({
+      chainId: 752025,
+      secretId: 1,
+      file: new Uint8Array(0),
+      publicKey,
+    });
+
+    const { metadata, plaintext } = decryptContainer(await collect(result.stream));
+    expect(result.fileName).toBe('file.cifer');
+    expect(metadata.chunkCount).toBe(1);
+    expect(plaintext.length).toBe(0);
+  });
+
+  it('rejects a public key of the wrong size', async () => {
+    await expect(
+      encryptFileLocally({
+        chainId: 752025,
+        secretId: 1,
+        file: data,
+        publicKey: bytesToBase64(new Uint8Array(10)),
+      })
+    ).rejects.toBeInstanceOf(EncryptionError);
+  });
+});
+
+describe('inspectCiferFile', () => {
+  const cifer = bytesToBase64(new Uint8Array(1104));
+
+  function container(metadata: unknown, chunks: string[], deflate = false): Uint8Array {
+    const files: Record<string, Uint8Array> = {};
+    for (const name of chunks) files[name] = new Uint8Array([1, 2, 3]);
+    if (metadata !== undefined) files['metadata.json'] = strToU8(JSON.stringify(metadata));
+    return zipSync(files, { level: deflate ? 6 : 0 });
+  }
+
+  it('accepts a container produced by encryptFileLocally', async () => {
+    const result = await encryptFileLocally({
+      chainId: 752025,
+      secretId: 42,
+      file: new Uint8Array(3000),
+      publicKey,
+      chunkSize: 1024,
+    });
+    const blob = await new Response(result.stream).blob();
+
+    const inspection = await inspectCiferFile(blob, { expectedSecretId: 42n });
+    expect(inspection.valid).toBe(true);
+    expect(inspection.chunkCount).toBe(3);
+    expect(inspection.metadata?.secretId).toBe(42);
+    expect(await assertValidCiferFile(blob)).toEqual(inspection.metadata);
+  });
+
+  it('reads deflated metadata and hex cifers', async () => {
+    const bytes = container(
+      { cifers: ['0x' + 'ab'.repeat(1104)], secretId: 7, originalHash: 'x' },
+      ['chunk_0.enc'],
+      true
+    );
+
+    const inspection = await inspectCiferFile(bytes);
+    expect(inspection.issues).toEqual([]);
+    expect(inspection.chunkCount).toBe(1);
+  });
+
+  it('does not mistake base64 cifers starting with "0x" for hex', async () => {
+    const envelope = new Uint8Array(1104);
+    envelope.set([0xd3, 0x10]);
+    const base64Cifer = bytesToBase64(envelope);
+    expect(base64Cifer.startsWith('0x')).toBe(true);
+
+    const bytes = container({ cifers: [base64Cifer], secretId: 7, originalHash: 'x' }, ['chunk_0.enc']);
+    expect((await inspectCiferFile(bytes)).valid).toBe(true);
+  });
+
+  it('reports missing chunks, count mismatch, bad cifers and secret mismatch', async () => {
+    const bytes = container(
+      {
+        cifers: [cifer, bytesToBase64(new Uint8Array(100)), cifer],
+        secretId: 7,
+        originalHash: 'x',
+        chunkCount: 4,
+      },
+      ['chunk_0.enc', 'chunk_2.enc']
+    );
+
+    const inspection = await inspectCiferFile(bytes, { expectedSecretId: 8 });
+    expect(inspection.valid).toBe(false);
+    expect(inspection.issues.map((issue) => issue.code)).toEqual([
+      'CHUNK_COUNT_MISMATCH',
+      'MISSING_CHUNK',
+      'MISSING_CHUNK',
+      'INVALID_CIFER',
+      'SECRET_ID_MISMATCH',
+    ]);
+    expect(inspection.issues[1].message).toBe('missing chunk_1.enc');
+    expect(inspection.issues[3].chunkIndex).toBe(1);
+  });
+
+  it('reports missing or malformed metadata', async () => {
+    expect((await inspectCiferFile(container(undefined, ['chunk_0.enc']))).issues[0].code).toBe(
+      'MISSING_METADATA'
+    );
+    expect(
+      (await inspectCiferFile(container({ cifers: [], secretId: 1, originalHash: 'x' }, []))).issues[0]
+        .code
+    ).toBe('INVALID_METADATA');
+  });
+
+  it('reports non-ZIP input and throws from assertValidCiferFile', async () => {
+    const garbage = new Blob([new Uint8Array(64).fill(9)]);
+    expect((await inspectCiferFile(garbage)).issues[0].code).toBe('INVALID_ZIP');
+    await expect(assertValidCiferFile(garbage)).rejects.toBeInstanceOf(InvalidCiferFileError);
+  });
+});
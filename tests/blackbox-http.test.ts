@@ -0,0 +1,262 @@
+/**
+ * @file tests/blackbox-http.test.ts
+ * @description Tests for the shared blackbox HTTP layer (retries, 429, circuit breaker)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  blackboxRequest,
+  configureBlackboxHttp,
+  parseRetryAfter,
+  resetCircuits,
+} from '../src/internal/http/index.js';
+import { getStatus } from '../src/blackbox/jobs.js';
+import { encryptFile } from '../src/blackbox/files.js';
+import { register, resendOtp } from '../src/web2/auth.js';
+import {
+  BlackboxError,
+  RateLimitedError,
+  CircuitOpenError,
+  JobError,
+  Web2AuthError,
+} from '../src/internal/errors/index.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+function mockFetch(...responses: Array<Response | Error>) {
+  const fn = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) {
+      fn.mockRejectedValueOnce(response);
+    } else {
+      fn.mockResolvedValueOnce(response);
+    }
+  }
+  return fn;
+}
+
+const request = {
+  url: 'https://blackbox.test/encrypt-payload',
+  endpoint: '/encrypt-payload',
+  init: { method: 'POST', body: '{}' },
+};
+
+beforeEach(() => {
+  configureBlackboxHttp({ baseDelayMs: 1, maxDelayMs: 5 });
+  resetCircuits();
+});
+
+describe('blackboxRequest', () => {
+  it('retries a 429 after Retry-After', async () => {
+    const fetchMock = mockFetch(
+      jsonResponse({ error: 'Too many requests' }, 429, { 'Retry-After': '0' }),
+      jsonResponse({ success: true })
+    );
+
+    const response = await blackboxRequest({ ...request, fetch: fetchMock });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails fast when Retry-After exceeds maxRetryAfterMs', async () => {
+    const fetchMock = mockFetch(jsonResponse({}, 429, { 'Retry-After': '120' }));
+
+    const error = await blackboxRequest({ ...request, fetch: fetchMock }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(120_000);
+    expect((error as RateLimitedError).statusCode).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('surfaces plan-limit 429s without retrying', async () => {
+    const fetchMock = mockFetch(
+      jsonResponse(
+        { error: 'Limit exceeded', detail: 'Monthly encryption quota used', limitType: 'bytes' },
+        429
+      )
+    );
+
+    const error = await blackboxRequest({ ...request, fetch: fetchMock }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({
+      statusCode: 429,
+      detail: 'Monthly encryption quota used',
+      limitType: 'bytes',
+    });
+    expect((error as Error).message).toContain('Monthly encryption quota used');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps web2 cooldown 429s without retrying', async () => {
+    const fetchMock = mockFetch(
+      jsonResponse({ error: 'Please wait before requesting another OTP', retryAfterSeconds: 42 }, 429)
+    );
+
+    const error = await resendOtp({
+      email: 'user@example.com',
+      blackboxUrl: 'https://blackbox.test',
+      fetch: fetchMock,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Web2AuthError);
+    expect(error).toMatchObject({
+      message: 'Please wait before requesting another OTP',
+      retryAfterMs: 42_000,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries 5xx responses and network errors with backoff', async () => {
+    const fetchMock = mockFetch(
+      jsonResponse({ error: 'Bad gateway' }, 502),
+      new TypeError('fetch failed'),
+      jsonResponse({ success: true })
+    );
+
+    const response = await blackboxRequest({ ...request, fetch: fetchMock });
+
+    expect(response.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws the parsed error once retries are exhausted', async () => {
+    configureBlackboxHttp({ maxRetries: 2, baseDelayMs: 1 });
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ error: 'Internal' }, 500));
+
+    const error = await blackboxRequest({ ...request, fetch: fetchMock }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BlackboxError);
+    expect((error as BlackboxError).statusCode).toBe(500);
+    expect((error as BlackboxError).message).toBe('Internal');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not re-send non-idempotent requests after a failure', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: 'Bad gateway' }, 502));
+
+    await expect(
+      blackboxRequest({ ...request, idempotent: false, fetch: fetchMock })
+    ).rejects.toBeInstanceOf(BlackboxError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const registerFetch = mockFetch(new TypeError('fetch failed'));
+    await expect(
+      register({
+        email: 'user@example.com',
+        password: 'password123',
+        blackboxUrl: 'https://blackbox.test',
+        fetch: registerFetch,
+      })
+    ).rejects.toThrow('fetch failed');
+    expect(registerFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not re-send a job-creating upload after a 502', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: 'Bad gateway' }, 502), jsonResponse({}));
+
+    await expect(
+      encryptFile({
+        chainId: 752025,
+        secretId: 1n,
+        file: new Blob(['data']),
+        signer: {
+          getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+          signMessage: async () => `0x${'ab'.repeat(65)}` as Hex,
+        },
+        readClient: { getBlockNumber: async () => 1000, getLogs: async () => [] },
+        blackboxUrl: 'https://blackbox.test',
+        fetch: fetchMock,
+      })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry 4xx responses', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: 'Signature mismatch' }, 400));
+
+    await expect(blackboxRequest({ ...request, fetch: fetchMock })).rejects.toThrow(
+      'Signature mismatch'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('never re-sends a streamed body', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: 'Unavailable' }, 503));
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.close();
+      },
+    });
+
+    await expect(
+      blackboxRequest({ ...request, init: { method: 'POST', body }, fetch: fetchMock })
+    ).rejects.toBeInstanceOf(BlackboxError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the circuit after repeated failures and closes it after a successful trial', async () => {
+    configureBlackboxHttp({
+      maxRetries: 0,
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 20 },
+    });
+    const fetchMock = mockFetch(
+      jsonResponse({}, 500),
+      jsonResponse({}, 500),
+      jsonResponse({ success: true }),
+      jsonResponse({ success: true })
+    );
+
+    await expect(blackboxRequest({ ...request, fetch: fetchMock })).rejects.toThrow(BlackboxError);
+    await expect(blackboxRequest({ ...request, fetch: fetchMock })).rejects.toThrow(BlackboxError);
+    await expect(blackboxRequest({ ...request, fetch: fetchMock })).rejects.toThrow(
+      CircuitOpenError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Other origins are unaffected
+    const other = mockFetch(jsonResponse({ success: true }));
+    await blackboxRequest({ ...request, url: 'https://other.test/x', fetch: other });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await blackboxRequest({ ...request, fetch: fetchMock });
+    await blackboxRequest({ ...request, fetch: fetchMock });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('can disable the circuit breaker', async () => {
+    configureBlackboxHttp({ maxRetries: 0, circuitBreaker: false });
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({}, 500));
+
+    for (let i = 0; i < 8; i++) {
+      await expect(blackboxRequest({ ...request, fetch: fetchMock })).rejects.toThrow(BlackboxError);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+
+  it('keeps endpoint-specific error mapping', async () => {
+    const fetchMock = mockFetch(jsonResponse({ error: 'Not found' }, 404));
+
+    await expect(
+      getStatus('job-1', 'https://blackbox.test', { fetch: fetchMock })
+    ).rejects.toBeInstanceOf(JobError);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delay-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    const parsed = parseRetryAfter(inTenSeconds)!;
+    expect(parsed).toBeGreaterThan(8_000);
+    expect(parsed).toBeLessThanOrEqual(10_000);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * @file tests/blackbox-job-watcher.test.ts
+ * @description Tests for the persistent multi-job watcher and storage adapters
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JobWatcher } from '../src/blackbox/job-watcher.js';
+import { getExpiresAtMs, getTimeRemaining, DEFAULT_JOB_TTL_MS } from '../src/blackbox/jobs.js';
+import {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  FileStorageAdapter,
+} from '../src/internal/adapters/storage.js';
+import { JobError } from '../src/internal/errors/index.js';
+import type { JobInfo, JobStatus } from '../src/types/common.js';
+
+/**
+ * A fake blackbox whose job statuses can be changed between polls
+ */
+function createFakeBlackbox(initial: Record<string, [JobStatus, number]>) {
+  const jobs = new Map(Object.entries(initial));
+  const fake = {
+    jobs,
+    /** Time-to-live reported for completed jobs */
+    ttl: 60_000,
+    /** Reject downloads with a 400 */
+    failDownloads: false,
+    fetch: undefined as unknown as typeof fetch,
+  };
+  const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+    const [jobId, action] = url.split('/jobs/')[1].split('/').map(decodeURIComponent);
+    const state = jobs.get(jobId);
+    if (!state) {
+      return new Response(JSON.stringify({ error: 'Job not found' }), { status: 404 });
+    }
+    if (action === 'download') {
+      return fake.failDownloads
+        ? new Response(JSON.stringify({ error: 'Bad request' }), { status: 400 })
+        : new Response(`result of ${jobId}`);
+    }
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job: {
+          id: jobId,
+          type: 'encrypt',
+          status: state[0],
+          progress: state[1],
+          completedAt: state[0] === 'completed' ? Date.now() : null,
+          expiredAt: null,
+          ttl: fake.ttl,
+        },
+      })
+    );
+  });
+  fake.fetch = fetchMock as unknown as typeof fetch;
+  return fake;
+}
+
+function record(watcher: JobWatcher) {
+  const events: string[] = [];
+  const log = (name: string) => (job: JobInfo) => events.push(`${name}:${job.id}:${job.progress}`);
+  watcher.on('progress', log('progress'));
+  watcher.on('completed', log('completed'));
+  watcher.on('failed', log('failed'));
+  watcher.on('expired', log('expired'));
+  watcher.on('error', (error, jobId) => events.push(`error:${jobId}:${error.name}`));
+  return events;
+}
+
+const blackboxUrl = 'https://blackbox.test';
+
+describe('JobWatcher', () => {
+  it('emits progress only on change and terminal events once', async () => {
+    const blackbox = createFakeBlackbox({ a: ['processing', 10], b: ['pending', 0] });
+    const watcher = new JobWatcher({ blackboxUrl, fetch: blackbox.fetch });
+    const events = record(watcher);
+
+    await watcher.watch('a');
+    await watcher.watch('b');
+    await watcher.poll();
+    await watcher.poll();
+
+    blackbox.jobs.set('a', ['completed', 100]);
+    blackbox.jobs.set('b', ['failed', 0]);
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(events).toEqual([
+      'progress:a:10',
+      'progress:b:0',
+      'progress:a:100',
+      'completed:a:100',
+      'progress:b:0',
+      'failed:b:0',
+    ]);
+    expect(await watcher.getWatchedJobs()).toEqual([]);
+  });
+
+  it('resumes saved jobs in a new watcher', async () => {
+    const storage = new MemoryStorageAdapter();
+    const blackbox = createFakeBlackbox({ a: ['processing', 40] });
+
+    const first = new JobWatcher({ blackboxUrl, storage, fetch: blackbox.fetch });
+    await first.watch('a');
+    await first.poll();
+
+    // A restart: a fresh watcher on the same storage
+    const second = new JobWatcher({ blackboxUrl, storage, fetch: blackbox.fetch });
+    const events = record(second);
+    expect((await second.getWatchedJobs()).map((job) => job.jobId)).toEqual(['a']);
+
+    blackbox.jobs.set('a', ['expired', 40]);
+    await second.poll();
+
+    expect(events).toEqual(['progress:a:40', 'expired:a:40']);
+    expect(await storage.getItem('cifer:job-watcher')).toBeNull();
+  });
+
+  it('drops unknown jobs and keeps jobs whose request failed', async () => {
+    const blackbox = createFakeBlackbox({ a: ['processing', 5] });
+    const watcher = new JobWatcher({ blackboxUrl, fetch: blackbox.fetch });
+    const errors: Array<[Error, string | undefined]> = [];
+    watcher.on('error', (error, jobId) => errors.push([error, jobId]));
+
+    await watcher.watch('missing');
+    await watcher.poll();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0][0]).toBeInstanceOf(JobError);
+    expect(errors[0][1]).toBe('missing');
+    expect(await watcher.getWatchedJobs()).toEqual([]);
+  });
+
+  it('polls on an interval after start() until stop()', async () => {
+    const blackbox = createFakeBlackbox({ a: ['processing', 1] });
+    const watcher = new JobWatcher({ blackboxUrl, fetch: blackbox.fetch, intervalMs: 5 });
+    const completed = new Promise<JobInfo>((resolve) => watcher.on('completed', resolve));
+
+    await watcher.watch('a');
+    await watcher.start();
+    expect(watcher.running).toBe(true);
+
+    await vi.waitFor(() =>
+      expect(vi.mocked(blackbox.fetch).mock.calls.length).toBeGreaterThanOrEqual(2)
+    );
+    blackbox.jobs.set('a', ['completed', 100]);
+
+    expect((await completed).status).toBe('completed');
+    await watcher.stop();
+    expect(watcher.running).toBe(false);
+  });
+
+  it('starts empty when the saved state is corrupt', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem('cifer:job-watcher', '{not json');
+    const blackbox = createFakeBlackbox({ a: ['processing', 1] });
+    const watcher = new JobWatcher({ blackboxUrl, storage, fetch: blackbox.fetch });
+    const events = record(watcher);
+
+    expect(await watcher.getWatchedJobs()).toEqual([]);
+    await watcher.watch('a');
+    await watcher.poll();
+
+    expect(events).toEqual(['error:undefined:BlackboxError', 'progress:a:1']);
+    expect((await watcher.getWatchedJobs()).map((job) => job.jobId)).toEqual(['a']);
+  });
+
+  it('runs one poll loop after a quick stop() and start()', async () => {
+    vi.useFakeTimers();
+    try {
+      const blackbox = createFakeBlackbox({ a: ['processing', 1] });
+      // Status requests take 50ms and ignore the abort signal
+      const slowFetch = vi.fn(async (url: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return blackbox.fetch(url);
+      });
+      const watcher = new JobWatcher({
+        blackboxUrl,
+        fetch: slowFetch as unknown as typeof fetch,
+        intervalMs: 100,
+      });
+      await watcher.watch('a');
+      await watcher.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      // Restart while the first poll is still in flight
+      void watcher.stop();
+      await watcher.start();
+      const calls = slowFetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      // One loop: polls start every 150ms (50ms request + 100ms interval)
+      expect(slowFetch.mock.calls.length - calls).toBe(7);
+      await watcher.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps polling when a listener throws', async () => {
+    const blackbox = createFakeBlackbox({ a: ['processing', 1] });
+    const watcher = new JobWatcher({ blackboxUrl, fetch: blackbox.fetch });
+    const seen: string[] = [];
+    watcher.on('progress', () => {
+      throw new Error('listener bug');
+    });
+    watcher.on('progress', (job) => seen.push(job.id));
+
+    await watcher.watch('a');
+    await watcher.poll();
+
+    expect(seen).toEqual(['a']);
+  });
+});
+
+describe('job TTL', () => {
+  const completedAt = 1_700_000_000_000;
+
+  it('computes expiry from completedAt and ttl', () => {
+    const job = { type: 'encrypt', status: 'completed', ttl: 1000, completedAt } as const;
+
+    expect(getExpiresAtMs(job)).toBe(completedAt + 1000);
+    expect(getTimeRemaining(job, completedAt + 400)).toBe(600);
+    expect(getTimeRemaining(job, completedAt + 5000)).toBe(0);
+  });
+
+  it('prefers expiredAt and falls back to the default TTLs', () => {
+    expect(
+      getExpiresAtMs({ type: 'decrypt', status: 'completed', ttl: 1000, completedAt, expiredAt: 42 })
+    ).toBe(42);
+    expect(getExpiresAtMs({ type: 'decrypt', status: 'completed', ttl: 0, completedAt })).toBe(
+      completedAt + DEFAULT_JOB_TTL_MS.decrypt
+    );
+    expect(getExpiresAtMs({ type: 'encrypt', status: 'failed', ttl: 0, completedAt })).toBe(
+      completedAt + DEFAULT_JOB_TTL_MS.failed
+    );
+  });
+
+  it('is unknown while a job runs and zero once expired', () => {
+    expect(getTimeRemaining({ type: 'encrypt', status: 'processing', ttl: 1000 })).toBeUndefined();
+    expect(getTimeRemaining({ type: 'encrypt', status: 'expired', ttl: 1000 })).toBe(0);
+  });
+});
+
+describe('JobWatcher auto-download', () => {
+  function collect() {
+    const chunks: string[] = [];
+    const sink = new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(new TextDecoder().decode(chunk));
+      },
+    });
+    return { chunks, sink };
+  }
+
+  it('downloads completed results into the sink', async () => {
+    const blackbox = createFakeBlackbox({ a: ['completed', 100] });
+    const { chunks, sink } = collect();
+    const watcher = new JobWatcher({
+      blackboxUrl,
+      fetch: blackbox.fetch,
+      autoDownload: { sink: () => sink },
+    });
+    const events = record(watcher);
+    watcher.on('downloaded', (job, result) =>
+      events.push(`downloaded:${job.id}:${result.bytesWritten}`)
+    );
+
+    await watcher.watch('a');
+    await watcher.poll();
+
+    expect(chunks.join('')).toBe('result of a');
+    expect(events).toEqual(['progress:a:100', 'completed:a:100', 'downloaded:a:11']);
+    expect(await watcher.getWatchedJobs()).toEqual([]);
+  });
+
+  it('retries failed downloads and warns once before expiry', async () => {
+    const blackbox = createFakeBlackbox({ a: ['completed', 100] });
+    blackbox.failDownloads = true;
+    const { chunks, sink } = collect();
+    const watcher = new JobWatcher({
+      blackboxUrl,
+      fetch: blackbox.fetch,
+      autoDownload: { sink: () => sink },
+      expiryWarningMs: 120_000,
+    });
+    const events = record(watcher);
+    watcher.on('expiring', (job, ms) => events.push(`expiring:${job.id}:${ms <= 60_000}`));
+
+    await watcher.watch('a');
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(events).toEqual([
+      'progress:a:100',
+      'completed:a:100',
+      'error:a:BlackboxError',
+      'expiring:a:true',
+      'error:a:BlackboxError',
+    ]);
+    expect((await watcher.getWatchedJobs())[0]).toMatchObject({ jobId: 'a', warned: true });
+
+    blackbox.failDownloads = false;
+    await watcher.poll();
+    expect(chunks.join('')).toBe('result of a');
+    expect(await watcher.getWatchedJobs()).toEqual([]);
+  });
+
+  it('keeps unfetched results watched until unwatched or expired', async () => {
+    const blackbox = createFakeBlackbox({ a: ['completed', 100], b: ['completed', 100] });
+    blackbox.ttl = 10 * 60_000;
+    const watcher = new JobWatcher({ blackboxUrl, fetch: blackbox.fetch, expiryWarningMs: 60_000 });
+    const events = record(watcher);
+    watcher.on('expiring', (job) => events.push(`expiring:${job.id}`));
+
+    await watcher.watch('a');
+    await watcher.watch('b');
+    await watcher.poll();
+    await watcher.unwatch('a');
+
+    blackbox.jobs.set('b', ['expired', 100]);
+    await watcher.poll();
+
+    expect(events).toEqual([
+      'progress:a:100',
+      'completed:a:100',
+      'progress:b:100',
+      'completed:b:100',
+      'progress:b:100',
+      'expired:b:100',
+    ]);
+    expect(await watcher.getWatchedJobs()).toEqual([]);
+  });
+});
+
+describe('storage adapters', () => {
+  it('LocalStorageAdapter wraps a Web Storage object', async () => {
+    const backing = new Map<string, string>();
+    const storage = new LocalStorageAdapter({
+      getItem: (key) => backing.get(key) ?? null,
+      setItem: (key, value) => void backing.set(key, value),
+      removeItem: (key) => void backing.delete(key),
+    });
+
+    await storage.setItem('k', 'v');
+    expect(await storage.getItem('k')).toBe('v');
+    await storage.removeItem('k');
+    expect(await storage.getItem('k')).toBeNull();
+  });
+
+  it('FileStorageAdapter persists values to a JSON file', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'cifer-sdk-')), 'state.json');
+    const storage = new FileStorageAdapter(path);
+
+    expect(await storage.getItem('missing')).toBeNull();
+    await Promise.all([storage.setItem('a', '1'), storage.setItem('b', '2')]);
+    await storage.removeItem('a');
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ b: '2' });
+    expect(await new FileStorageAdapter(path).getItem('b')).toBe('2');
+  });
+});
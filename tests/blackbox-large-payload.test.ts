@@ -0,0 +1,196 @@
+/**
+ * @file tests/blackbox-large-payload.test.ts
+ * @description Tests for chunked large payload encryption/decryption
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  encryptLargePayload,
+  decryptLargePayload,
+  type LargePayloadManifest,
+} from '../src/blackbox/large-payload.js';
+import { BlackboxError, LargePayloadIntegrityError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+const signer: SignerAdapter = {
+  getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+  signMessage: async () => ('0x' + 'ab'.repeat(65)) as Hex,
+};
+
+const readClient: ReadClient = {
+  getBlockNumber: async () => 1000,
+  getLogs: async () => [],
+};
+
+/**
+ * A fake blackbox that remembers each encrypted plaintext by its cifer
+ */
+function createFakeBlackbox(options: { failEncryptAt?: number } = {}) {
+  const stored = new Map<string, string>();
+  let encryptCalls = 0;
+  const fetchMock = vi.fn().mockImplementation(async (url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    if (url.endsWith('/encrypt-payload')) {
+      if (encryptCalls++ === options.failEncryptAt) {
+        return new Response(JSON.stringify({ error: 'Payload too large' }), { status: 400 });
+      }
+      const cifer = `0x${stored.size.toString(16).padStart(4, '0')}`;
+      stored.set(cifer, body.data.split('_').slice(4).join('_'));
+      return new Response(
+        JSON.stringify({
+          success: true,
+          cifer,
+          encryptedMessage: '0xee',
+          chainId: 752025,
+          secretId: 1,
+          outputFormat: 'hex',
+        })
+      );
+    }
+    return new Response(
+      JSON.stringify({ success: true, decryptedMessage: stored.get(body.cifer) })
+    );
+  });
+  return { stored, fetch: fetchMock as unknown as typeof fetch };
+}
+
+const base = {
+  chainId: 752025,
+  secretId: 1,
+  signer,
+  readClient,
+  blackboxUrl: 'https://blackbox.test',
+};
+
+describe('encryptLargePayload', () => {
+  it('splits the plaintext into parts and records them in the manifest', async () => {
+    const blackbox = createFakeBlackbox();
+    const plaintext = 'x'.repeat(25);
+
+    const manifest = await encryptLargePayload({
+      ...base,
+      plaintext,
+      partSize: 10,
+      fetch: blackbox.fetch,
+    });
+
+    expect(manifest.encoding).toBe('text');
+    expect(manifest.totalSize).toBe(25);
+    expect(manifest.partCount).toBe(3);
+    expect(manifest.parts.map((p) => p.size)).toEqual([10, 10, 5]);
+    expect(manifest.parts.map((p) => p.index)).toEqual([0, 1, 2]);
+    expect(manifest.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.parse(JSON.stringify(manifest))).toEqual(manifest);
+  });
+
+  it('throws the first part failure', async () => {
+    const blackbox = createFakeBlackbox({ failEncryptAt: 1 });
+
+    await expect(
+      encryptLargePayload({ ...base, plaintext: 'abcdef', partSize: 2, fetch: blackbox.fetch })
+    ).rejects.toBeInstanceOf(BlackboxError);
+  });
+
+  it('rejects an invalid part size', async () => {
+    await expect(
+      encryptLargePayload({ ...base, plaintext: 'abc', partSize: 0 })
+    ).rejects.toThrow(RangeError);
+  });
+});
+
+describe('decryptLargePayload', () => {
+  it('round-trips multi-byte text across part boundaries', async () => {
+    const blackbox = createFakeBlackbox();
+    const plaintext = 'héllo wörld — ünïcode '.repeat(20);
+
+    const manifest = await encryptLargePayload({
+      ...base,
+      plaintext,
+      partSize: 7,
+      fetch: blackbox.fetch,
+    });
+    const result = await decryptLargePayload({ ...base, manifest, fetch: blackbox.fetch });
+
+    expect(result.encoding).toBe('text');
+    expect(result.plaintext).toBe(plaintext);
+    expect(result.hash).toBe(manifest.hash);
+  });
+
+  it('round-trips bytes, including an empty payload', async () => {
+    const blackbox = createFakeBlackbox();
+    const bytes = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+
+    for (const plaintext of [bytes, new Uint8Array(0)]) {
+      const manifest = await encryptLargePayload({
+        ...base,
+        plaintext,
+        partSize: 64,
+        fetch: blackbox.fetch,
+      });
+      const result = await decryptLargePayload({ ...base, manifest, fetch: blackbox.fetch });
+      expect(result.encoding).toBe('bytes');
+      expect(result.plaintext).toEqual(plaintext);
+    }
+  });
+
+  it('reassembles parts listed out of order', async () => {
+    const blackbox = createFakeBlackbox();
+    const manifest = await encryptLargePayload({
+      ...base,
+      plaintext: 'abcdefghij',
+      partSize: 3,
+      fetch: blackbox.fetch,
+    });
+    const shuffled = { ...manifest, parts: [...manifest.parts].reverse() };
+
+    const result = await decryptLargePayload({ ...base, manifest: shuffled, fetch: blackbox.fetch });
+    expect(result.plaintext).toBe('abcdefghij');
+  });
+
+  it('detects a tampered part', async () => {
+    const blackbox = createFakeBlackbox();
+    const manifest = await encryptLargePayload({
+      ...base,
+      plaintext: 'abcdefghij',
+      partSize: 5,
+      fetch: blackbox.fetch,
+    });
+    // Swap the ciphertexts of the two parts
+    const tampered: LargePayloadManifest = {
+      ...manifest,
+      parts: [
+        { ...manifest.parts[0], cifer: manifest.parts[1].cifer },
+        { ...manifest.parts[1], cifer: manifest.parts[0].cifer },
+      ],
+    };
+
+    const error = await decryptLargePayload({ ...base, manifest: tampered, fetch: blackbox.fetch })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(LargePayloadIntegrityError);
+    expect((error as LargePayloadIntegrityError).issues).toEqual([
+      'part 0 hash mismatch',
+      'part 1 hash mismatch',
+    ]);
+  });
+
+  it('rejects a malformed manifest without calling the blackbox', async () => {
+    const blackbox = createFakeBlackbox();
+    const manifest = await encryptLargePayload({
+      ...base,
+      plaintext: 'abcdefghij',
+      partSize: 5,
+      fetch: blackbox.fetch,
+    });
+    vi.mocked(blackbox.fetch).mockClear();
+
+    await expect(
+      decryptLargePayload({
+        ...base,
+        manifest: { ...manifest, partCount: 3, totalSize: 11 },
+        fetch: blackbox.fetch,
+      })
+    ).rejects.toThrow(LargePayloadIntegrityError);
+    expect(blackbox.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file tests/blackbox-local-encryption.test.ts
+ * @description Tests for client-side ML-KEM-768 payload encryption
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
+import { gcm } from '@noble/ciphers/aes';
+import { encryptPayloadLocally } from '../src/blackbox/payload.js';
+import { validateForStorage } from '../src/commitments/integrity.js';
+import { hexToBytes } from '../src/commitments/metadata.js';
+import { base64ToBytes, bytesToBase64 } from '../src/internal/encoding/index.js';
+import { EncryptionError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+const keys = ml_kem768.keygen(new Uint8Array(64).fill(7));
+const publicKey = bytesToBase64(keys.publicKey);
+
+/** Reverse the envelope the way the blackbox does */
+function open(cifer: Uint8Array, encryptedMessage: Uint8Array): string {
+  const sharedSecret = ml_kem768.decapsulate(cifer.subarray(0, 1088), keys.secretKey);
+  const sealed = new Uint8Array(encryptedMessage.length + 16);
+  sealed.set(encryptedMessage, 0);
+  sealed.set(cifer.subarray(1088), encryptedMessage.length);
+  return new TextDecoder().decode(gcm(sharedSecret, new Uint8Array(12)).decrypt(sealed));
+}
+
+describe('encryptPayloadLocally', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('produces a hex cifer/encryptedMessage pair that decrypts with the secret key', async () => {
+    const result = await encryptPayloadLocally({
+      chainId: 752025,
+      secretId: 123n,
+      plaintext: 'hello_world ✓',
+      publicKey,
+    });
+
+    expect(result.outputFormat).toBe('hex');
+    expect(result.secretId).toBe(123n);
+    expect(result.cifer.startsWith('0x')).toBe(true);
+
+    const cifer = hexToBytes(result.cifer as Hex);
+    const encryptedMessage = hexToBytes(result.encryptedMessage as Hex);
+    expect(cifer.length).toBe(1104);
+    expect(open(cifer, encryptedMessage)).toBe('hello_world ✓');
+    expect(() => validateForStorage(result.cifer as Hex, result.encryptedMessage as Hex)).not.toThrow();
+  });
+
+  it('uses a fresh encapsulation for every call', async () => {
+    const params = { chainId: 752025, secretId: 1, plaintext: 'same', publicKey };
+    const a = await encryptPayloadLocally(params);
+    const b = await encryptPayloadLocally(params);
+    expect(a.cifer).not.toBe(b.cifer);
+    expect(a.encryptedMessage).not.toBe(b.encryptedMessage);
+  });
+
+  it('supports base64 output', async () => {
+    const result = await encryptPayloadLocally({
+      chainId: 752025,
+      secretId: 1,
+      plaintext: 'base64 please',
+      publicKey,
+      outputFormat: 'base64',
+    });
+
+    expect(result.outputFormat).toBe('base64');
+    expect(open(base64ToBytes(result.cifer), base64ToBytes(result.encryptedMessage))).toBe(
+      'base64 please'
+    );
+  });
+
+  it('fetches the public key when it is not provided', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(
+      new Response(JSON.stringify({ success: true, chainId: 752025, secretId: 5, publicKey }), {
+        status: 200,
+      })
+    );
+    const signer: SignerAdapter = {
+      getAddress: vi.fn().mockResolvedValue('0x1234567890123456789012345678901234567890' as Address),
+      signMessage: vi.fn().mockResolvedValue(('0x' + 'ab'.repeat(65)) as Hex),
+    };
+    const readClient: ReadClient = {
+      getBlockNumber: vi.fn().mockResolvedValue(100),
+      getLogs: vi.fn().mockResolvedValue([]),
+    };
+
+    const result = await encryptPayloadLocally({
+      chainId: 752025,
+      secretId: 5n,
+      plaintext: 'fetched key',
+      signer,
+      readClient,
+      blackboxUrl: 'https://bb.example/',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://bb.example/secret-public-key');
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(body.data).not.toContain('fetched key');
+    expect(open(hexToBytes(result.cifer as Hex), hexToBytes(result.encryptedMessage as Hex))).toBe(
+      'fetched key'
+    );
+  });
+
+  it('throws EncryptionError without a public key or the means to fetch one', async () => {
+    await expect(
+      encryptPayloadLocally({ chainId: 752025, secretId: 1, plaintext: 'x' })
+    ).rejects.toBeInstanceOf(EncryptionError);
+  });
+
+  it('throws EncryptionError for a malformed public key', async () => {
+    await expect(
+      encryptPayloadLocally({
+        chainId: 752025,
+        secretId: 1,
+        plaintext: 'x',
+        publicKey: bytesToBase64(new Uint8Array(32)),
+      })
+    ).rejects.toThrow(/Invalid ML-KEM-768 public key/);
+  });
+});
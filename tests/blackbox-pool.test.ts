@@ -0,0 +1,304 @@
+/**
+ * @file tests/blackbox-pool.test.ts
+ * @description Tests for multi-blackbox health checks and failover
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BlackboxPool, isFailoverError } from '../src/internal/config/pool.js';
+import { clearDiscoveryCache } from '../src/internal/config/discovery.js';
+import { createCiferSdk } from '../src/index.js';
+import { configureBlackboxHttp } from '../src/internal/http/index.js';
+import type { BlackboxEndpointHealth } from '../src/types/config.js';
+import type { Address, Hex } from '../src/types/common.js';
+import {
+  BlackboxError,
+  BlockStaleError,
+  CircuitOpenError,
+  RequestAbortedError,
+} from '../src/internal/errors/index.js';
+
+const primary = 'https://bb1.test';
+const secondary = 'https://bb2.test';
+
+/**
+ * A fetch serving /healthz per host; a host mapped to a number answers with that status
+ */
+function createHealthzFetch(hosts: Record<string, { status: string; enclave: string } | number>) {
+  return vi.fn().mockImplementation(async (url: string) => {
+    const host = new URL(url).origin;
+    const health = hosts[host];
+    if (typeof health === 'number') {
+      return new Response('unavailable', { status: health, statusText: 'Unavailable' });
+    }
+    return new Response(
+      JSON.stringify({
+        status: health.status,
+        enclaveWalletAddress: health.enclave,
+        supportedChains: [752025],
+        configurations: {
+          chains: [
+            {
+              chainId: 752025,
+              rpcUrl: `${host}/rpc`,
+              secretsControllerAddress: '0x0000000000000000000000000000000000000001',
+            },
+          ],
+        },
+      })
+    );
+  }) as unknown as typeof fetch;
+}
+
+const ok = (enclave = '0xaaaa') => ({ status: 'ok', enclave });
+
+beforeEach(() => {
+  clearDiscoveryCache();
+});
+
+describe('BlackboxPool', () => {
+  it('prefers the first healthy endpoint', async () => {
+    const pool = new BlackboxPool({
+      urls: [`${primary}/`, secondary],
+      fetch: createHealthzFetch({ [primary]: 503, [secondary]: ok() }),
+    });
+    expect(pool.url).toBe(primary);
+
+    const endpoints = await pool.checkHealth();
+
+    expect(pool.url).toBe(secondary);
+    expect(endpoints.map((e) => e.healthy)).toEqual([false, true]);
+    expect(endpoints[1]).toMatchObject({ status: 'ok', enclaveWalletAddress: '0xaaaa' });
+  });
+
+  it('fails over when a request fails with a server error', async () => {
+    const pool = new BlackboxPool({ urls: [primary, secondary] });
+    const healthChanges: string[] = [];
+    pool.on('healthChange', (e) => healthChanges.push(`${e.url}:${e.healthy}`));
+
+    const request = vi.fn().mockImplementation(async (url: string) => {
+      if (url === primary) {
+        throw new BlackboxError('Internal error', { statusCode: 500 });
+      }
+      return 'done';
+    });
+
+    expect(await pool.run(request)).toBe('done');
+    expect(request.mock.calls.map((call) => call[0])).toEqual([primary, secondary]);
+    expect(healthChanges).toEqual([`${primary}:false`]);
+
+    // The failed endpoint is tried last from now on
+    request.mockClear();
+    await pool.run(request);
+    expect(request.mock.calls.map((call) => call[0])).toEqual([secondary]);
+  });
+
+  it('does not fail over on client errors', async () => {
+    const pool = new BlackboxPool({ urls: [primary, secondary] });
+    const request = vi.fn().mockRejectedValue(new BlackboxError('Bad request', { statusCode: 400 }));
+
+    await expect(pool.run(request)).rejects.toThrow('Bad request');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(pool.url).toBe(primary);
+  });
+
+  it('throws the last error when every endpoint fails', async () => {
+    const pool = new BlackboxPool({ urls: [primary, secondary] });
+
+    await expect(
+      pool.run(async (url) => {
+        throw new TypeError(`fetch failed: ${url}`);
+      })
+    ).rejects.toThrow(`fetch failed: ${secondary}`);
+  });
+
+  it('emits change when status or enclave address changes', async () => {
+    const hosts: Record<string, { status: string; enclave: string }> = { [primary]: ok('0xaaaa') };
+    const pool = new BlackboxPool({ urls: [primary], fetch: createHealthzFetch(hosts) });
+    const changes: Array<[BlackboxEndpointHealth, BlackboxEndpointHealth]> = [];
+    pool.on('change', (current, previous) => changes.push([current, previous]));
+
+    await pool.checkHealth();
+    await pool.checkHealth();
+    expect(changes).toHaveLength(0);
+
+    hosts[primary] = ok('0xbbbb');
+    await pool.checkHealth();
+    hosts[primary] = { status: 'degraded', enclave: '0xbbbb' };
+    await pool.checkHealth();
+
+    expect(changes.map(([c, p]) => [p.enclaveWalletAddress, c.enclaveWalletAddress, c.status])).toEqual([
+      ['0xaaaa', '0xbbbb', 'ok'],
+      ['0xbbbb', '0xbbbb', 'degraded'],
+    ]);
+    expect(pool.getEndpoints()[0].healthy).toBe(false);
+  });
+
+  it('checks health in the background until stopped', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchMock = createHealthzFetch({ [primary]: ok() });
+      const pool = new BlackboxPool({ urls: [primary], fetch: fetchMock, healthCheckIntervalMs: 1000 });
+
+      pool.start();
+      await vi.advanceTimersByTimeAsync(2500);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      pool.stop();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(pool.running).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('classifies failover errors', () => {
+    expect(isFailoverError(new TypeError('fetch failed'))).toBe(true);
+    expect(isFailoverError(new BlackboxError('Bad gateway', { statusCode: 502 }))).toBe(true);
+    expect(isFailoverError(new CircuitOpenError(primary, Date.now()))).toBe(true);
+    expect(isFailoverError(new BlackboxError('Forbidden', { statusCode: 403 }))).toBe(false);
+    expect(isFailoverError(new BlockStaleError(1, 100, 10))).toBe(false);
+    expect(isFailoverError(new RequestAbortedError('aborted'))).toBe(false);
+  });
+
+  it('only fails over on network errors and retryable 5xx', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    expect(isFailoverError(new TypeError('fetch failed', { cause: refused }))).toBe(true);
+    expect(isFailoverError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isFailoverError(refused)).toBe(true);
+    expect(isFailoverError(new DOMException('The operation timed out', 'TimeoutError'))).toBe(true);
+
+    expect(isFailoverError(new TypeError("Cannot read properties of undefined (reading 'x')"))).toBe(false);
+    expect(isFailoverError(new Error('User rejected the request'))).toBe(false);
+    expect(isFailoverError('hook failed')).toBe(false);
+    expect(isFailoverError(new BlackboxError('Not implemented', { statusCode: 501 }))).toBe(false);
+  });
+
+  it('keeps an endpoint healthy when a request fails for other reasons', async () => {
+    const pool = new BlackboxPool({
+      urls: [primary, secondary],
+      fetch: createHealthzFetch({ [primary]: ok(), [secondary]: ok() }),
+    });
+    await pool.checkHealth();
+    const request = vi.fn().mockRejectedValue(new Error('User rejected the request'));
+
+    await expect(pool.run(request)).rejects.toThrow('User rejected the request');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(pool.getEndpoints().map((endpoint) => endpoint.healthy)).toEqual([true, true]);
+  });
+});
+
+describe('createCiferSdk with blackboxUrls', () => {
+  it('discovers through a healthy endpoint and exposes the pool', async () => {
+    const sdk = await createCiferSdk({
+      blackboxUrls: [primary, secondary],
+      fetch: createHealthzFetch({ [primary]: 503, [secondary]: ok() }),
+    });
+    sdk.blackboxPool?.stop();
+
+    expect(sdk.blackboxUrl).toBe(secondary);
+    expect(sdk.getRpcUrl(752025)).toBe(`${secondary}/rpc`);
+    expect(sdk.blackboxPool?.getEndpoints().map((e) => e.healthy)).toEqual([false, true]);
+  });
+
+  it('fails over on a normal encryptPayload call', async () => {
+    const healthz = createHealthzFetch({ [primary]: ok(), [secondary]: ok() });
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+      if (!url.endsWith('/encrypt-payload')) {
+        return (healthz as unknown as typeof fetchMock)(url, init);
+      }
+      if (url.startsWith(primary)) {
+        return new Response('bad gateway', { status: 502 });
+      }
+      return new Response(
+        JSON.stringify({
+          success: true,
+          cifer: '0x01',
+          encryptedMessage: '0x02',
+          chainId: 752025,
+          secretId: 1,
+          outputFormat: 'hex',
+        })
+      );
+    });
+
+    try {
+      const sdk = await createCiferSdk({
+        blackboxUrls: [primary, secondary],
+        fetch: fetchMock as unknown as typeof fetch,
+        retryPolicy: { maxRetries: 0, circuitBreaker: false },
+      });
+      sdk.blackboxPool?.stop();
+      expect(sdk.blackboxUrl).toBe(primary);
+
+      const result = await sdk.blackbox.payload.encryptPayload({
+        chainId: 752025,
+        secretId: 1n,
+        plaintext: 'hello',
+        signer: {
+          getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+          signMessage: async () => `0x${'ab'.repeat(65)}` as Hex,
+        },
+        readClient: { getBlockNumber: async () => 1000, getLogs: async () => [] },
+        blackboxUrl: sdk.blackboxUrl,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      expect(result.cifer).toBe('0x01');
+      const calls = fetchMock.mock.calls.map(([url]) => url as string);
+      expect(calls.filter((url) => url.endsWith('/encrypt-payload'))).toEqual([
+        `${primary}/encrypt-payload`,
+        `${secondary}/encrypt-payload`,
+      ]);
+      expect(sdk.blackboxUrl).toBe(secondary);
+    } finally {
+      configureBlackboxHttp({});
+    }
+  });
+
+  it('sends a file job to one healthy endpoint without failing over', async () => {
+    const healthz = createHealthzFetch({ [primary]: ok(), [secondary]: ok() });
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+      if (!url.endsWith('/encrypt-file')) {
+        return (healthz as unknown as typeof fetchMock)(url, init);
+      }
+      if (url.startsWith(primary)) {
+        return new Response('bad gateway', { status: 502 });
+      }
+      return new Response(JSON.stringify({ success: true, jobId: 'job-1', message: 'started' }));
+    });
+    const sdk = await createCiferSdk({
+      blackboxUrls: [primary, secondary],
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+    sdk.blackboxPool?.stop();
+    const params = {
+      chainId: 752025,
+      secretId: 1n,
+      file: new Blob(['data']),
+      signer: {
+        getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+        signMessage: async () => `0x${'ab'.repeat(65)}` as Hex,
+      },
+      readClient: { getBlockNumber: async () => 1000, getLogs: async () => [] },
+      fetch: fetchMock as unknown as typeof fetch,
+    };
+
+    await expect(
+      sdk.blackbox.files.encryptFile({ ...params, blackboxUrl: sdk.blackboxUrl })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    const uploads = () =>
+      fetchMock.mock.calls
+        .map(([url]) => url as string)
+        .filter((url) => url.endsWith('/encrypt-file'));
+    expect(uploads()).toEqual([`${primary}/encrypt-file`]);
+
+    // The failed endpoint is skipped on the next call, and the job's endpoint is returned
+    const result = await sdk.blackbox.files.encryptFile({
+      ...params,
+      blackboxUrl: sdk.blackboxUrl,
+    });
+    expect(result).toEqual({ jobId: 'job-1', message: 'started', blackboxUrl: secondary });
+    expect(uploads()).toEqual([`${primary}/encrypt-file`, `${secondary}/encrypt-file`]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @file tests/blackbox-quota.test.ts
+ * @description Tests for the quota preflight and token-bucket limiter
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QuotaGuard, TokenBucket } from '../src/blackbox/quota.js';
+import { encryptPayload } from '../src/blackbox/payload.js';
+import { encryptFile } from '../src/blackbox/files.js';
+import { QuotaExceededError, RequestAbortedError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+const signer: SignerAdapter = {
+  getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+  signMessage: async () => ('0x' + 'ab'.repeat(65)) as Hex,
+};
+
+const readClient: ReadClient = {
+  getBlockNumber: async () => 1000,
+  getLogs: async () => [],
+};
+
+function stats(overrides: Record<string, number> = {}) {
+  return {
+    limit: 1000,
+    used: 900,
+    remaining: 100,
+    count: 5,
+    requestLimit: 0,
+    rateLimit: 0,
+    limitGB: 0,
+    usedGB: 0,
+    remainingGB: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * A blackbox that reports the given usage and accepts payload encryption
+ */
+function createFetch(encryption = stats(), decryption = stats()) {
+  return vi.fn().mockImplementation(async (url: string) => {
+    if (url.endsWith('/jobs/dataConsumption')) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          user_id: 'user',
+          user_type: 'web3',
+          plan_id: 'free',
+          cycle_type: 'monthly',
+          period_start: '2026-01-01T00:00:00Z',
+          period_end: '2026-02-01T00:00:00Z',
+          encryption,
+          decryption,
+        })
+      );
+    }
+    return new Response(
+      JSON.stringify({
+        success: true,
+        cifer: '0x00',
+        encryptedMessage: '0x00',
+        chainId: 752025,
+        secretId: 1,
+        outputFormat: 'hex',
+      })
+    );
+  });
+}
+
+const account = { chainId: 752025, signer, readClient, blackboxUrl: 'https://blackbox.test' };
+
+describe('QuotaGuard', () => {
+  it('rejects a payload that does not fit the remaining quota', async () => {
+    const fetchMock = createFetch();
+    const quota = new QuotaGuard({ ...account, fetch: fetchMock });
+
+    const error = await encryptPayload({
+      ...account,
+      secretId: 1,
+      plaintext: 'x'.repeat(150),
+      quota,
+      fetch: fetchMock,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({
+      code: 'BLACKBOX_ERROR',
+      direction: 'encryption',
+      unit: 'bytes',
+      requested: 150,
+      used: 900,
+      limit: 1000,
+      projected: 1050,
+    });
+    // Nothing but the usage lookup was sent
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reserves passed requests against the cached usage', async () => {
+    const fetchMock = createFetch();
+    const quota = new QuotaGuard({ ...account, fetch: fetchMock });
+
+    await quota.preflight('encryption', 60);
+    await expect(quota.preflight('encryption', 60)).rejects.toMatchObject({ used: 960 });
+
+    expect((await quota.getUsage()).encryption).toMatchObject({ used: 960, remaining: 40, count: 6 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await quota.getUsage({ refresh: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one usage fetch between concurrent checks', async () => {
+    const fetchMock = createFetch();
+    const quota = new QuotaGuard({ ...account, fetch: fetchMock });
+
+    await Promise.all([quota.preflight('decryption', 10), quota.preflight('decryption', 10)]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('enforces the request limit', async () => {
+    const fetchMock = createFetch(stats({ count: 10, requestLimit: 10 }));
+    const quota = new QuotaGuard({ ...account, fetch: fetchMock });
+
+    const error = await quota.preflight('encryption', undefined).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ unit: 'requests', used: 10, limit: 10 });
+    expect((error as Error).message).toContain('request limit');
+  });
+
+  it('checks file sizes before uploading', async () => {
+    const fetchMock = createFetch();
+    const quota = new QuotaGuard({ ...account, fetch: fetchMock });
+
+    await expect(
+      encryptFile({
+        ...account,
+        secretId: 1,
+        file: new Blob([new Uint8Array(500)]),
+        quota,
+        fetch: fetchMock,
+      })
+    ).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps timeoutMs and signal in force after the preflight', async () => {
+    // Usage lookups succeed, the request itself never responds
+    const usage = createFetch();
+    const fetchMock = vi.fn().mockImplementation((url: string, init?: RequestInit) =>
+      url.endsWith('/jobs/dataConsumption') ? usage(url, init) : new Promise(() => {})
+    );
+    const quota = new QuotaGuard({ ...account, fetch: fetchMock });
+    const params = { ...account, secretId: 1, plaintext: 'x', quota, fetch: fetchMock };
+
+    await expect(encryptPayload({ ...params, timeoutMs: 50 })).rejects.toMatchObject({
+      reason: 'timeout',
+    });
+
+    const controller = new AbortController();
+    const pending = encryptPayload({ ...params, signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock.mock.calls.length).toBeGreaterThan(1));
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+
+    await expect(
+      encryptFile({ ...params, file: new Blob([new Uint8Array(10)]), timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('builds a limiter from the plan rate limit', async () => {
+    const quota = new QuotaGuard({
+      ...account,
+      fetch: createFetch(stats({ rateLimit: 3 }), stats({ rateLimit: 0 })),
+    });
+
+    const limiter = await quota.getLimiter('encryption');
+    expect(limiter).toBeInstanceOf(TokenBucket);
+    expect(await quota.getLimiter('encryption')).toBe(limiter);
+    expect(await quota.getLimiter('decryption')).toBeNull();
+  });
+});
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst up to capacity, then refills at the rate', async () => {
+    const bucket = new TokenBucket({ ratePerSecond: 2 });
+
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(false);
+
+    let acquired = false;
+    const pending = bucket.acquire().then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(400);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('stops waiting when aborted', async () => {
+    const bucket = new TokenBucket({ ratePerSecond: 1, capacity: 1 });
+    bucket.tryAcquire();
+    const controller = new AbortController();
+
+    const pending = bucket.acquire({ signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+  });
+});
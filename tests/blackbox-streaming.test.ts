@@ -0,0 +1,266 @@
+/**
+ * @file tests/blackbox-streaming.test.ts
+ * @description Tests for streamed file uploads/downloads with progress
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Writable } from 'node:stream';
+import { encryptFile, decryptFile } from '../src/blackbox/files.js';
+import { download, downloadTo } from '../src/blackbox/jobs.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex, TransferProgress } from '../src/types/common.js';
+
+function createMockSigner(): SignerAdapter {
+  return {
+    getAddress: vi.fn().mockResolvedValue('0x1234567890123456789012345678901234567890' as Address),
+    signMessage: vi.fn().mockResolvedValue(('0x' + 'ab'.repeat(65)) as Hex),
+  };
+}
+
+function createMockReadClient(): ReadClient {
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(12345),
+    getLogs: vi.fn().mockResolvedValue([]),
+  };
+}
+
+function jobResponse(): Response {
+  return new Response(JSON.stringify({ success: true, jobId: 'job-1', message: 'started' }), {
+    status: 200,
+  });
+}
+
+function streamOf(...parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part));
+      controller.close();
+    },
+  });
+}
+
+const baseParams = {
+  chainId: 752025,
+  secretId: 123n,
+  blackboxUrl: 'https://blackbox.test',
+};
+
+describe('streamed uploads', () => {
+  it('sends a ReadableStream as a streamed multipart body with progress', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jobResponse());
+    const progress: TransferProgress[] = [];
+
+    const result = await encryptFile({
+      ...baseParams,
+      file: streamOf('hello ', 'world'),
+      fileName: 'greeting.txt',
+      onUploadProgress: (p) => progress.push(p),
+      signer: createMockSigner(),
+      readClient: createMockReadClient(),
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(result.jobId).toBe('job-1');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://blackbox.test/encrypt-file');
+    expect(init.duplex).toBe('half');
+
+    const contentType = init.headers['Content-Type'] as string;
+    expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+
+    // Parse the body back with the platform's multipart parser
+    const form = await new Response(init.body, { headers: { 'Content-Type': contentType } }).formData();
+    expect(form.get('secretId')).toBe('123');
+    expect(form.get('data')).toBe('752025_123_0x1234567890123456789012345678901234567890_12345');
+    const file = form.get('file') as File;
+    expect(file.name).toBe('greeting.txt');
+    expect(await file.text()).toBe('hello world');
+
+    expect(progress.map((p) => p.loaded)).toEqual([6, 11]);
+    expect(progress[0].total).toBeUndefined();
+  });
+
+  it('streams a filesystem path and sets Content-Length', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cifer-sdk-'));
+    const path = join(dir, 'backup.bin');
+    writeFileSync(path, 'file on disk');
+    const fetchMock = vi.fn().mockResolvedValue(jobResponse());
+    const progress: TransferProgress[] = [];
+
+    await decryptFile({
+      ...baseParams,
+      file: path,
+      onUploadProgress: (p) => progress.push(p),
+      signer: createMockSigner(),
+      readClient: createMockReadClient(),
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const body = new Uint8Array(await new Response(init.body).arrayBuffer());
+    expect(Number(init.headers['Content-Length'])).toBe(body.length);
+    expect(new TextDecoder().decode(body)).toContain('filename="backup.bin"');
+    expect(progress[progress.length - 1]).toEqual({ loaded: 12, total: 12 });
+  });
+
+  it('accepts async iterables such as Node.js Readables', async () => {
+    async function* chunks() {
+      yield new TextEncoder().encode('from ');
+      yield new TextEncoder().encode('iterable');
+    }
+    const fetchMock = vi.fn().mockResolvedValue(jobResponse());
+
+    await encryptFile({
+      ...baseParams,
+      file: chunks(),
+      signer: createMockSigner(),
+      readClient: createMockReadClient(),
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const form = await new Response(init.body, { headers: init.headers }).formData();
+    expect(await (form.get('file') as File).text()).toBe('from iterable');
+  });
+
+  it('does not retry a consumed stream on a stale block', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({ error: 'Block number 1 is too old (current: 500, max window: 100)' }),
+        { status: 403 }
+      )
+    );
+
+    await expect(
+      encryptFile({
+        ...baseParams,
+        file: streamOf('once'),
+        signer: createMockSigner(),
+        readClient: createMockReadClient(),
+        fetch: fetchMock as unknown as typeof fetch,
+      })
+    ).rejects.toThrow(/too old/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps using FormData for Blobs without progress', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jobResponse());
+
+    await encryptFile({
+      ...baseParams,
+      file: new Blob(['small']),
+      signer: createMockSigner(),
+      readClient: createMockReadClient(),
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(fetchMock.mock.calls[0][1].body).toBeInstanceOf(FormData);
+  });
+
+  it('falls back to FormData outside Node.js', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jobResponse());
+    const progress: TransferProgress[] = [];
+    // Pretend to be a browser, where streamed request bodies don't work
+    const versions = Object.getOwnPropertyDescriptor(process, 'versions')!;
+    Object.defineProperty(process, 'versions', { ...versions, value: {} });
+    try {
+      await encryptFile({
+        ...baseParams,
+        file: new Blob(['blob body']),
+        onUploadProgress: (p) => progress.push(p),
+        signer: createMockSigner(),
+        readClient: createMockReadClient(),
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+      await decryptFile({
+        ...baseParams,
+        file: streamOf('stream ', 'body'),
+        signer: createMockSigner(),
+        readClient: createMockReadClient(),
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+    } finally {
+      Object.defineProperty(process, 'versions', versions);
+    }
+
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.body).toBeInstanceOf(FormData);
+      expect(init.headers).toBeUndefined();
+      expect(init.duplex).toBeUndefined();
+    }
+    expect(await (fetchMock.mock.calls[1][1].body.get('file') as File).text()).toBe('stream body');
+    expect(progress).toEqual([{ loaded: 9, total: 9 }]);
+  });
+});
+
+describe('streamed downloads', () => {
+  function fileResponse(): Response {
+    return new Response(streamOf('decrypted ', 'bytes'), {
+      status: 200,
+      headers: {
+        'Content-Length': '15',
+        'Content-Disposition': 'attachment; filename="report.pdf"',
+      },
+    });
+  }
+
+  it('reports download progress for download()', async () => {
+    const progress: TransferProgress[] = [];
+
+    const blob = await download('job-1', {
+      blackboxUrl: 'https://blackbox.test',
+      onDownloadProgress: (p) => progress.push(p),
+      fetch: vi.fn().mockResolvedValue(fileResponse()) as unknown as typeof fetch,
+    });
+
+    expect(await blob.text()).toBe('decrypted bytes');
+    expect(progress).toEqual([
+      { loaded: 10, total: 15 },
+      { loaded: 15, total: 15 },
+    ]);
+  });
+
+  it('pipes into a WritableStream', async () => {
+    const received: string[] = [];
+    const sink = new WritableStream<Uint8Array>({
+      write(chunk) {
+        received.push(new TextDecoder().decode(chunk));
+      },
+    });
+
+    const result = await downloadTo('job-1', sink, {
+      blackboxUrl: 'https://blackbox.test',
+      fetch: vi.fn().mockResolvedValue(fileResponse()) as unknown as typeof fetch,
+    });
+
+    expect(received.join('')).toBe('decrypted bytes');
+    expect(result).toEqual({ bytesWritten: 15, fileName: 'report.pdf' });
+  });
+
+  it('pipes into a Node.js Writable and to a file path', async () => {
+    const chunks: Buffer[] = [];
+    const writable = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+    await downloadTo('job-1', writable, {
+      blackboxUrl: 'https://blackbox.test',
+      fetch: vi.fn().mockResolvedValue(fileResponse()) as unknown as typeof fetch,
+    });
+    expect(Buffer.concat(chunks).toString()).toBe('decrypted bytes');
+
+    const path = join(mkdtempSync(join(tmpdir(), 'cifer-sdk-')), 'out.bin');
+    await downloadTo('job-1', path, {
+      blackboxUrl: 'https://blackbox.test',
+      fetch: vi.fn().mockResolvedValue(fileResponse()) as unknown as typeof fetch,
+    });
+    expect(readFileSync(path, 'utf8')).toBe('decrypted bytes');
+  });
+});
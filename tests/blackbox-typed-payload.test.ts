@@ -0,0 +1,230 @@
+/**
+ * @file tests/blackbox-typed-payload.test.ts
+ * @description Tests for binary and typed-JSON payload encoding
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  encryptPayload,
+  decryptPayload,
+  decryptPayloadBytes,
+  encryptJson,
+  decryptJson,
+} from '../src/blackbox/payload.js';
+import { encodePlaintext, decodePlaintext } from '../src/internal/encoding/index.js';
+import { EncryptionError, DecryptionError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+const signer: SignerAdapter = {
+  getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+  signMessage: async () => ('0x' + 'ab'.repeat(65)) as Hex,
+};
+
+const readClient: ReadClient = {
+  getBlockNumber: async () => 1000,
+  getLogs: async () => [],
+};
+
+/**
+ * A fake blackbox that remembers each encrypted plaintext by its cifer
+ */
+function createFakeBlackbox() {
+  const stored = new Map<string, string>();
+  const fetchMock = vi.fn().mockImplementation(async (url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string);
+    if (url.endsWith('/encrypt-payload')) {
+      const cifer = `0x${stored.size.toString(16).padStart(2, '0')}`;
+      stored.set(cifer, body.data.split('_').slice(4).join('_'));
+      return new Response(
+        JSON.stringify({
+          success: true,
+          cifer,
+          encryptedMessage: '0xee',
+          chainId: 752025,
+          secretId: 1,
+          outputFormat: 'hex',
+        })
+      );
+    }
+    return new Response(
+      JSON.stringify({ success: true, decryptedMessage: stored.get(body.cifer) })
+    );
+  });
+  return { stored, fetch: fetchMock as unknown as typeof fetch };
+}
+
+const base = {
+  chainId: 752025,
+  secretId: 1,
+  signer,
+  readClient,
+  blackboxUrl: 'https://blackbox.test',
+};
+
+describe('plaintext encoding', () => {
+  it('leaves ordinary strings untouched', () => {
+    expect(encodePlaintext('hello')).toBe('hello');
+    expect(decodePlaintext('hello')).toEqual({ encoding: 'text', value: 'hello' });
+  });
+
+  it('encrypts text unchanged, even with a tag-like prefix', () => {
+    expect(encodePlaintext('cifer:json:{}')).toBe('cifer:json:{}');
+    expect(encodePlaintext('cifer:text:hello')).toBe('cifer:text:hello');
+  });
+
+  it('decodes tags that do not parse as text', () => {
+    const legacy = ['cifer:bytes:not base64!', 'cifer:bytes:abc', 'cifer:json:{oops', 'cifer:text:hi'];
+    for (const encoded of legacy) {
+      expect(decodePlaintext(encoded)).toEqual({ encoding: 'text', value: encoded });
+    }
+  });
+
+  it('round-trips bytes', () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+    const decoded = decodePlaintext(encodePlaintext(bytes));
+    expect(decoded.encoding).toBe('bytes');
+    expect(decoded.value).toEqual(bytes);
+  });
+});
+
+describe('binary payloads', () => {
+  it('restores bytes on decrypt', async () => {
+    const blackbox = createFakeBlackbox();
+    const bytes = new Uint8Array([9, 8, 7, 0, 255]);
+
+    const encrypted = await encryptPayload({ ...base, plaintext: bytes, fetch: blackbox.fetch });
+    const params = {
+      ...base,
+      cifer: encrypted.cifer,
+      encryptedMessage: encrypted.encryptedMessage,
+      fetch: blackbox.fetch,
+    };
+
+    const result = await decryptPayload(params);
+    expect(result.encoding).toBe('bytes');
+    expect(result.value).toEqual(bytes);
+    expect(await decryptPayloadBytes(params)).toEqual(bytes);
+  });
+
+  it('returns UTF-8 bytes for text payloads', async () => {
+    const blackbox = createFakeBlackbox();
+    const encrypted = await encryptPayload({ ...base, plaintext: 'héllo', fetch: blackbox.fetch });
+
+    const bytes = await decryptPayloadBytes({
+      ...base,
+      cifer: encrypted.cifer,
+      encryptedMessage: encrypted.encryptedMessage,
+      fetch: blackbox.fetch,
+    });
+    expect(new TextDecoder().decode(bytes)).toBe('héllo');
+  });
+
+  it('keeps decryptedMessage as the original text for string payloads', async () => {
+    const blackbox = createFakeBlackbox();
+    const encrypted = await encryptPayload({
+      ...base,
+      plaintext: 'cifer:looks-reserved',
+      fetch: blackbox.fetch,
+    });
+
+    const result = await decryptPayload({
+      ...base,
+      cifer: encrypted.cifer,
+      encryptedMessage: encrypted.encryptedMessage,
+      fetch: blackbox.fetch,
+    });
+    expect(result).toEqual({
+      decryptedMessage: 'cifer:looks-reserved',
+      encoding: 'text',
+      value: 'cifer:looks-reserved',
+    });
+  });
+});
+
+describe('legacy payloads', () => {
+  it('round-trips strings that look like tags unchanged', async () => {
+    const blackbox = createFakeBlackbox();
+    const legacy = ['cifer:text:note', 'cifer:bytes:%%%', 'cifer:json:not json', 'cifer:other'];
+
+    for (const plaintext of legacy) {
+      const encrypted = await encryptPayload({ ...base, plaintext, fetch: blackbox.fetch });
+      const result = await decryptPayload({
+        ...base,
+        cifer: encrypted.cifer,
+        encryptedMessage: encrypted.encryptedMessage,
+        fetch: blackbox.fetch,
+      });
+      expect(result).toEqual({ decryptedMessage: plaintext, encoding: 'text', value: plaintext });
+    }
+    expect([...blackbox.stored.values()]).toEqual(legacy);
+  });
+});
+
+describe('typed JSON payloads', () => {
+  interface Credentials {
+    apiKey: string;
+    scopes: string[];
+  }
+
+  it('round-trips a value and applies a schema', async () => {
+    const blackbox = createFakeBlackbox();
+    const value: Credentials = { apiKey: 'k', scopes: ['read'] };
+    const encrypted = await encryptJson({ ...base, value, fetch: blackbox.fetch });
+    const params = {
+      ...base,
+      cifer: encrypted.cifer,
+      encryptedMessage: encrypted.encryptedMessage,
+      fetch: blackbox.fetch,
+    };
+
+    expect((await decryptPayload(params)).value).toEqual(value);
+
+    const schema = vi.fn((input: unknown) => input as Credentials);
+    expect(await decryptJson<Credentials>({ ...params, schema })).toEqual(value);
+    expect(schema).toHaveBeenCalledWith(value);
+
+    const parsed = await decryptJson({ ...params, schema: { parse: (input) => input as Credentials } });
+    expect(parsed.scopes).toEqual(['read']);
+  });
+
+  it('wraps schema failures in DecryptionError', async () => {
+    const blackbox = createFakeBlackbox();
+    const encrypted = await encryptJson({ ...base, value: { apiKey: 1 }, fetch: blackbox.fetch });
+
+    await expect(
+      decryptJson<Credentials>({
+        ...base,
+        cifer: encrypted.cifer,
+        encryptedMessage: encrypted.encryptedMessage,
+        fetch: blackbox.fetch,
+        schema: () => {
+          throw new Error('apiKey must be a string');
+        },
+      })
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects non-JSON payloads', async () => {
+    const blackbox = createFakeBlackbox();
+    const encrypted = await encryptPayload({ ...base, plaintext: '{"a":1}', fetch: blackbox.fetch });
+
+    await expect(
+      decryptJson({
+        ...base,
+        cifer: encrypted.cifer,
+        encryptedMessage: encrypted.encryptedMessage,
+        fetch: blackbox.fetch,
+      })
+    ).rejects.toThrow(/encrypted as text/);
+  });
+
+  it('rejects values that cannot be serialized', async () => {
+    const blackbox = createFakeBlackbox();
+
+    await expect(
+      encryptJson({ ...base, value: undefined, fetch: blackbox.fetch })
+    ).rejects.toThrow(EncryptionError);
+    expect(blackbox.fetch).not.toHaveBeenCalled();
+  });
+});
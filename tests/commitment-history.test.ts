@@ -0,0 +1,140 @@
+/**
+ * @file tests/commitment-history.test.ts
+ * @description Tests for commitment version history from event logs
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { getCommitmentHistory } from '../src/commitments/history.js';
+import {
+  getCIFERDataStoredTopic,
+  getCIFERDataUpdatedTopic,
+  getCIFERDataDeletedTopic,
+} from '../src/internal/abi/cifer-encrypted.js';
+import { encodeAbiParameters } from '../src/internal/abi/codec.js';
+import { CommitmentsError } from '../src/internal/errors/index.js';
+import type { ReadClient } from '../src/types/adapters.js';
+import type { Address, Bytes32, Hex, Log, LogFilter } from '../src/types/common.js';
+
+const contractAddress = '0x00000000000000000000000000000000000000a1' as Address;
+const dataId = `0x${'11'.repeat(32)}` as Bytes32;
+const hash = `0x${'22'.repeat(32)}` as Bytes32;
+const word = (value: bigint) => `0x${value.toString(16).padStart(64, '0')}` as Hex;
+
+function writeLog(
+  topic: Hex,
+  blockNumber: number,
+  logIndex: number,
+  secretId: bigint,
+  cifer: Hex
+): Log {
+  return {
+    address: contractAddress,
+    topics: [topic, dataId, word(secretId)],
+    data: encodeAbiParameters(
+      [{ type: 'bytes' }, { type: 'bytes' }, { type: 'bytes32' }, { type: 'bytes32' }],
+      [cifer, '0xbeef', hash, hash]
+    ),
+    blockNumber,
+    transactionHash: word(BigInt(blockNumber * 100 + logIndex)),
+    logIndex,
+    transactionIndex: 0,
+  };
+}
+
+function deleteLog(blockNumber: number, logIndex: number): Log {
+  return {
+    address: contractAddress,
+    topics: [getCIFERDataDeletedTopic(), dataId],
+    data: '0x',
+    blockNumber,
+    transactionHash: word(BigInt(blockNumber * 100 + logIndex)),
+    logIndex,
+    transactionIndex: 0,
+  };
+}
+
+function createReadClient(logs: Log[]) {
+  const getLogs = vi.fn().mockImplementation(async (_chainId: number, filter: LogFilter) =>
+    logs.filter((log) => log.topics[0] === filter.topics?.[0] && log.topics[1] === filter.topics?.[1])
+  );
+  const readClient: ReadClient = { getBlockNumber: async () => 1000, getLogs };
+  return { readClient, getLogs };
+}
+
+describe('getCommitmentHistory', () => {
+  it('returns writes and deletions in chain order', async () => {
+    const { readClient, getLogs } = createReadClient([
+      writeLog(getCIFERDataUpdatedTopic(), 20, 3, 2n, '0x02'),
+      deleteLog(30, 0),
+      writeLog(getCIFERDataStoredTopic(), 40, 1, 3n, '0x03'),
+      writeLog(getCIFERDataStoredTopic(), 10, 5, 1n, '0x01'),
+      deleteLog(20, 4),
+    ]);
+
+    const history = await getCommitmentHistory({ chainId: 1, contractAddress, dataId, readClient });
+
+    expect(history.state).toBe('active');
+    expect(history.entries.map((e) => [e.type, e.blockNumber, e.logIndex])).toEqual([
+      ['stored', 10, 5],
+      ['updated', 20, 3],
+      ['deleted', 20, 4],
+      ['deleted', 30, 0],
+      ['stored', 40, 1],
+    ]);
+    expect(history.entries[1]).toEqual({
+      type: 'updated',
+      blockNumber: 20,
+      transactionHash: word(2003n),
+      logIndex: 3,
+      secretId: 2n,
+      cifer: '0x02',
+      encryptedMessage: '0xbeef',
+      ciferHash: hash,
+      encryptedMessageHash: hash,
+    });
+    expect(getLogs).toHaveBeenCalledTimes(3);
+    expect(getLogs.mock.calls[0][1]).toMatchObject({ fromBlock: 0, toBlock: 'latest' });
+  });
+
+  it('tells deleted apart from never stored', async () => {
+    const deleted = createReadClient([
+      writeLog(getCIFERDataStoredTopic(), 10, 0, 1n, '0x01'),
+      deleteLog(11, 0),
+    ]);
+    const empty = createReadClient([]);
+
+    const params = { chainId: 1, contractAddress, dataId };
+    expect((await getCommitmentHistory({ ...params, readClient: deleted.readClient })).state).toBe(
+      'deleted'
+    );
+    expect(await getCommitmentHistory({ ...params, readClient: empty.readClient })).toEqual({
+      dataId,
+      state: 'not-found',
+      entries: [],
+    });
+  });
+
+  it('passes the block range and wraps RPC failures', async () => {
+    const { readClient, getLogs } = createReadClient([]);
+
+    await getCommitmentHistory({
+      chainId: 1,
+      contractAddress,
+      dataId,
+      readClient,
+      fromBlock: 100,
+      toBlock: 200,
+    });
+    expect(getLogs.mock.calls[2][1]).toEqual({
+      address: contractAddress,
+      topics: [getCIFERDataDeletedTopic(), dataId],
+      fromBlock: 100,
+      toBlock: 200,
+    });
+
+    getLogs.mockRejectedValueOnce(new Error('range too large'));
+    await expect(
+      getCommitmentHistory({ chainId: 1, contractAddress, dataId, readClient })
+    ).rejects.toThrow(CommitmentsError);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * @file tests/commitment-indexer.test.ts
+ * @description Tests for the resumable commitment indexer
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CommitmentIndexer } from '../src/commitments/indexer.js';
+import {
+  getCIFERDataStoredTopic,
+  getCIFERDataUpdatedTopic,
+  getCIFERDataDeletedTopic,
+} from '../src/internal/abi/cifer-encrypted.js';
+import { encodeAbiParameters } from '../src/internal/abi/codec.js';
+import { MemoryStorageAdapter } from '../src/internal/adapters/storage.js';
+import { CommitmentsError } from '../src/internal/errors/index.js';
+import type { ReadClient } from '../src/types/adapters.js';
+import type { Address, Bytes32, Hex, Log, LogFilter } from '../src/types/common.js';
+
+const contractAddress = '0x00000000000000000000000000000000000000a1' as Address;
+const hash = `0x${'22'.repeat(32)}` as Bytes32;
+const word = (value: bigint) => `0x${value.toString(16).padStart(64, '0')}` as Hex;
+const id = (n: number) => word(BigInt(n)) as Bytes32;
+
+function writeLog(topic: Hex, dataId: Bytes32, blockNumber: number, secretId: bigint): Log {
+  return {
+    address: contractAddress,
+    topics: [topic, dataId, word(secretId)],
+    data: encodeAbiParameters(
+      [{ type: 'bytes' }, { type: 'bytes' }, { type: 'bytes32' }, { type: 'bytes32' }],
+      ['0x01', '0x02', hash, hash]
+    ),
+    blockNumber,
+    transactionHash: word(BigInt(blockNumber)),
+    logIndex: 0,
+    transactionIndex: 0,
+  };
+}
+
+function deleteLog(dataId: Bytes32, blockNumber: number): Log {
+  return {
+    address: contractAddress,
+    topics: [getCIFERDataDeletedTopic(), dataId],
+    data: '0x',
+    blockNumber,
+    transactionHash: word(BigInt(blockNumber)),
+    logIndex: 1,
+    transactionIndex: 0,
+  };
+}
+
+/**
+ * A read client serving logs by block range and topics
+ */
+function createChain(logs: Log[], head: number) {
+  const chain = { logs, head };
+  const getLogs = vi.fn().mockImplementation(async (_chainId: number, filter: LogFilter) =>
+    chain.logs.filter(
+      (log) =>
+        log.blockNumber >= (filter.fromBlock as number) &&
+        log.blockNumber <= (filter.toBlock as number) &&
+        (filter.topics ?? []).every((topic, i) => topic === null || log.topics[i] === topic)
+    )
+  );
+  const readClient: ReadClient = { getBlockNumber: async () => chain.head, getLogs };
+  return { chain, readClient, getLogs };
+}
+
+const stored = getCIFERDataStoredTopic();
+const updated = getCIFERDataUpdatedTopic();
+
+describe('CommitmentIndexer', () => {
+  it('indexes the latest version of each dataId in block ranges', async () => {
+    const { readClient, getLogs } = createChain(
+      [
+        writeLog(stored, id(1), 105, 7n),
+        writeLog(stored, id(2), 120, 8n),
+        writeLog(updated, id(1), 150, 8n),
+        writeLog(stored, id(3), 160, 7n),
+        deleteLog(id(3), 170),
+      ],
+      199
+    );
+    const indexer = new CommitmentIndexer({
+      chainId: 1,
+      contractAddress,
+      readClient,
+      fromBlock: 100,
+      batchSize: 50,
+    });
+    const changes: string[] = [];
+    indexer.on('commitment', (c) => changes.push(`${c.dataId.slice(-1)}:${c.deleted}`));
+
+    expect(await indexer.sync()).toBe(200);
+
+    // Two ranges of 50 blocks, three queries each
+    expect(getLogs).toHaveBeenCalledTimes(6);
+    const ranges = getLogs.mock.calls.map((c) => [c[1].fromBlock, c[1].toBlock]);
+    expect(ranges).toContainEqual([150, 199]);
+    expect(changes).toEqual(['1:false', '2:false', '1:false', '3:true']);
+
+    expect(await indexer.get(id(1))).toMatchObject({
+      secretId: 8n,
+      storedAtBlock: 150,
+      versions: 2,
+      deleted: false,
+      ciferHash: hash,
+    });
+    expect((await indexer.getAll()).map((c) => c.dataId)).toEqual([id(2), id(1)]);
+    expect((await indexer.getBySecretId(7n)).length).toBe(0);
+    expect(await indexer.getBySecretId(7n, { includeDeleted: true })).toEqual([
+      expect.objectContaining({ dataId: id(3), deleted: true, deletedAtBlock: 170 }),
+    ]);
+  });
+
+  it('resumes from the saved cursor', async () => {
+    const storage = new MemoryStorageAdapter();
+    const { chain, readClient, getLogs } = createChain([writeLog(stored, id(1), 10, 5n)], 20);
+    const options = { chainId: 1, contractAddress, readClient, storage, confirmations: 2 };
+
+    expect(await new CommitmentIndexer(options).sync()).toBe(19);
+
+    chain.head = 40;
+    chain.logs.push(deleteLog(id(1), 30));
+    getLogs.mockClear();
+    const resumed = new CommitmentIndexer(options);
+
+    expect(await resumed.getCursor()).toBe(19);
+    expect(await resumed.sync()).toBe(39);
+    expect(getLogs.mock.calls[0][1]).toMatchObject({ fromBlock: 19, toBlock: 38 });
+    expect(await resumed.get(id(1))).toMatchObject({ secretId: 5n, deleted: true });
+
+    await resumed.reset();
+    expect(await storage.getItem(`cifer:commitment-indexer:1:${contractAddress}`)).toBeNull();
+  });
+
+  it('filters by secretId at query time and follows re-encrypted commitments', async () => {
+    const { readClient, getLogs } = createChain(
+      [
+        writeLog(stored, id(1), 1, 5n),
+        writeLog(stored, id(2), 2, 6n),
+        deleteLog(id(2), 3),
+        writeLog(stored, id(3), 4, 5n),
+        writeLog(updated, id(3), 6, 6n),
+        writeLog(stored, id(2), 7, 5n),
+      ],
+      10
+    );
+    const indexer = new CommitmentIndexer({
+      chainId: 1,
+      contractAddress,
+      readClient,
+      secretId: 5n,
+      batchSize: 5,
+    });
+    const changes: string[] = [];
+    indexer.on('commitment', (c) => changes.push(`${c.dataId.slice(-1)}:${c.secretId}`));
+
+    await indexer.sync();
+
+    expect(getLogs.mock.calls[0][1].topics).toEqual([stored]);
+    // id(3) moved to secret 6; id(2) was re-stored under secret 5 after deletion
+    expect(changes).toEqual(['1:5', '3:5', '3:6', '2:5']);
+    expect((await indexer.getAll()).map((c) => c.dataId)).toEqual([id(1), id(2)]);
+    expect(await indexer.getBySecretId(5n)).toHaveLength(2);
+    expect(await indexer.get(id(3))).toBeUndefined();
+    expect(await indexer.get(id(2))).toMatchObject({ secretId: 5n, versions: 2, deleted: false });
+  });
+
+  it('starts over when the saved state is corrupt', async () => {
+    const storage = new MemoryStorageAdapter();
+    const storageKey = 'indexer';
+    await storage.setItem(storageKey, '{"version":1,"cursor":');
+    const { readClient } = createChain([writeLog(stored, id(1), 5, 1n)], 9);
+    const indexer = new CommitmentIndexer({
+      chainId: 1,
+      contractAddress,
+      readClient,
+      storage,
+      storageKey,
+      fromBlock: 2,
+    });
+    const errors: Error[] = [];
+    indexer.on('error', (error) => errors.push(error));
+
+    expect(await indexer.getCursor()).toBe(2);
+    expect(errors).toEqual([expect.any(CommitmentsError)]);
+    expect(await indexer.sync()).toBe(10);
+    expect(await indexer.get(id(1))).toBeDefined();
+    expect(JSON.parse((await storage.getItem(storageKey))!)).toMatchObject({ cursor: 10 });
+  });
+
+  it('runs one sync loop after a quick stop() and start()', async () => {
+    vi.useFakeTimers();
+    try {
+      const { readClient } = createChain([], 9);
+      // Head lookups take 50ms and ignore the abort signal
+      const getBlockNumber = vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return 9;
+      });
+      const indexer = new CommitmentIndexer({
+        chainId: 1,
+        contractAddress,
+        readClient: { ...readClient, getBlockNumber },
+        intervalMs: 100,
+      });
+      const errors: Error[] = [];
+      indexer.on('error', (error) => errors.push(error));
+      await indexer.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      // Restart while the first sync is still in flight
+      void indexer.stop();
+      await indexer.start();
+      const calls = getBlockNumber.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      // One loop: the stale sync finishes at 50ms, then syncs start every 150ms
+      expect(getBlockNumber.mock.calls.length - calls).toBe(7);
+      expect(errors).toEqual([]);
+      await indexer.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps completed ranges when a query fails', async () => {
+    const { readClient, getLogs } = createChain([writeLog(stored, id(1), 5, 1n)], 29);
+    const indexer = new CommitmentIndexer({
+      chainId: 1,
+      contractAddress,
+      readClient,
+      batchSize: 10,
+    });
+    getLogs
+      .mockImplementationOnce(getLogs.getMockImplementation()!)
+      .mockImplementationOnce(getLogs.getMockImplementation()!)
+      .mockImplementationOnce(getLogs.getMockImplementation()!)
+      .mockRejectedValueOnce(new Error('query returned more than 10000 results'));
+
+    await expect(indexer.sync()).rejects.toThrow(CommitmentsError);
+    expect(await indexer.getCursor()).toBe(10);
+    expect(await indexer.get(id(1))).toBeDefined();
+
+    expect(await indexer.sync()).toBe(30);
+  });
+});
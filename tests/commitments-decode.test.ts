@@ -16,7 +16,8 @@ import {
   assertCommitmentIntegrity,
   validateForStorage,
 } from '../src/commitments/integrity.js';
-import { hexToBytes, bytesToHex } from '../src/commitments/metadata.js';
+import { hexToBytes, bytesToHex, keccak256 } from '../src/commitments/metadata.js';
+import { IntegrityError } from '../src/internal/errors/index.js';
 import type { Hex, Bytes32, CommitmentData, CIFERMetadata } from '../src/types/common.js';
 
 describe('Commitments Constants', () => {
@@ -202,6 +203,64 @@ describe('Commitments Integrity', () => {
       expect(result.valid).toBe(false);
       expect(result.checks.ciferHash?.valid).toBe(false);
     });
+
+    it('should only recompute hashes in strict mode', () => {
+      const cifer = '0x' + 'ab'.repeat(CIFER_ENVELOPE_BYTES) as Hex;
+      const encryptedMessage = '0x' + 'cd'.repeat(100) as Hex;
+
+      const data: CommitmentData = {
+        cifer,
+        encryptedMessage,
+        ciferHash: keccak256(hexToBytes(cifer)),
+        encryptedMessageHash: keccak256(hexToBytes(encryptedMessage)),
+      };
+
+      expect(verifyCommitmentIntegrity(data).checks.ciferBytesVsEvent).toBeUndefined();
+
+      const result = verifyCommitmentIntegrity(data, undefined, { strict: true });
+
+      expect(result.valid).toBe(true);
+      expect(result.checks.ciferBytesVsEvent?.valid).toBe(true);
+      expect(result.checks.encryptedMessageBytesVsEvent?.valid).toBe(true);
+      expect(result.checks.ciferBytesVsMetadata).toBeUndefined();
+    });
+
+    it('should detect tampered bytes with consistent hashes in strict mode', () => {
+      const cifer = '0x' + 'ab'.repeat(CIFER_ENVELOPE_BYTES) as Hex;
+      const encryptedMessage = '0x' + 'cd'.repeat(100) as Hex;
+      const ciferHash = keccak256(hexToBytes(cifer));
+      const encryptedMessageHash = keccak256(hexToBytes(encryptedMessage));
+
+      // The node returns different bytes but the original hashes
+      const data: CommitmentData = {
+        cifer,
+        encryptedMessage: '0x' + 'ce'.repeat(100) as Hex,
+        ciferHash,
+        encryptedMessageHash,
+      };
+
+      const metadata: CIFERMetadata = {
+        secretId: 123n,
+        storedAtBlock: 1000,
+        ciferHash,
+        encryptedMessageHash,
+      };
+
+      expect(verifyCommitmentIntegrity(data, metadata).valid).toBe(true);
+
+      const result = verifyCommitmentIntegrity(data, metadata, { strict: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.encryptedMessageHash?.valid).toBe(true);
+      expect(result.checks.ciferBytesVsEvent?.valid).toBe(true);
+      expect(result.checks.ciferBytesVsMetadata?.valid).toBe(true);
+      expect(result.checks.encryptedMessageBytesVsEvent).toEqual({
+        valid: false,
+        expected: encryptedMessageHash,
+        actual: keccak256(hexToBytes(data.encryptedMessage)),
+      });
+      expect(result.checks.encryptedMessageBytesVsMetadata?.valid).toBe(false);
+    });
   });
 
   describe('assertCommitmentIntegrity', () => {
@@ -236,6 +295,30 @@ describe('Commitments Integrity', () => {
 
       expect(() => assertCommitmentIntegrity(data)).toThrow('Invalid cifer size');
     });
+
+    it('should throw IntegrityError for tampered bytes in strict mode', () => {
+      const cifer = '0x' + 'ab'.repeat(CIFER_ENVELOPE_BYTES) as Hex;
+      const encryptedMessage = '0x' + 'cd'.repeat(100) as Hex;
+
+      const data: CommitmentData = {
+        cifer,
+        encryptedMessage,
+        ciferHash: '0x' + 'ef'.repeat(32) as Bytes32,
+        encryptedMessageHash: keccak256(hexToBytes(encryptedMessage)),
+      };
+
+      expect(() => assertCommitmentIntegrity(data)).not.toThrow();
+      expect(() => assertCommitmentIntegrity(data, undefined, { strict: true })).toThrow(
+        IntegrityError
+      );
+
+      try {
+        assertCommitmentIntegrity(data, undefined, { strict: true });
+      } catch (error) {
+        expect((error as IntegrityError).field).toBe('cifer');
+        expect((error as IntegrityError).actualHash).toBe(keccak256(hexToBytes(cifer)));
+      }
+    });
   });
 
   describe('validateForStorage', () => {
@@ -0,0 +1,65 @@
+/**
+ * @file tests/data-id.test.ts
+ * @description Tests for off-chain dataId computation and key derivation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { computeDataId, deriveKey, createKeyDeriver } from '../src/commitments/data-id.js';
+import { bytesToHex, hexToBytes } from '../src/commitments/metadata.js';
+import { AbiCodingError, CommitmentsError } from '../src/internal/errors/index.js';
+import type { Address, Bytes32, Hex } from '../src/types/common.js';
+
+const owner = '0x00000000000000000000000000000000000000B2' as Address;
+const contractAddress = '0x00000000000000000000000000000000000000a1' as Address;
+const key = `0x${'11'.repeat(32)}` as Bytes32;
+
+const keccak = (hex: string) => bytesToHex(keccak_256(hexToBytes(hex as Hex)));
+const word = (hex: string) => hex.padStart(64, '0');
+const utf8Word = (text: string) =>
+  [...new TextEncoder().encode(text)].map((b) => b.toString(16).padStart(2, '0')).join('').padEnd(64, '0');
+
+describe('computeDataId', () => {
+  it('packs owner and key like abi.encodePacked', () => {
+    const expected = keccak(`0x${'00'.repeat(19)}b2${'11'.repeat(32)}`);
+
+    expect(computeDataId(owner, key)).toBe(expected);
+    expect(computeDataId(owner, key, { scheme: 'owner-key' })).toBe(expected);
+    expect(expected).toBe('0x93f4614c16f3870e667e9f08f2d9b31a978716ea853a304c97b1465bdd0edee4');
+  });
+
+  it('supports the contract-scoped and pass-through variants', () => {
+    expect(computeDataId(owner, key, { scheme: 'contract-owner-key', contractAddress })).toBe(
+      keccak(`0x${'00'.repeat(19)}a1${'00'.repeat(19)}b2${'11'.repeat(32)}`)
+    );
+    expect(computeDataId(owner, key, { scheme: 'key' })).toBe(key);
+  });
+
+  it('rejects malformed inputs', () => {
+    expect(() => computeDataId('0x1234' as Address, key)).toThrow('Invalid owner');
+    expect(() => computeDataId(owner, '0x11' as Bytes32)).toThrow(CommitmentsError);
+    expect(() => computeDataId(owner, key, { scheme: 'contract-owner-key' })).toThrow(
+      'contractAddress is required'
+    );
+  });
+});
+
+describe('key derivation', () => {
+  it('hashes the ABI-encoded namespace and string key', () => {
+    expect(deriveKey('profile', 'avatar')).toBe(
+      keccak(
+        `0x${word('40')}${word('80')}${word('7')}${utf8Word('profile')}${word('6')}${utf8Word('avatar')}`
+      )
+    );
+    expect(deriveKey('profile', 'avatar')).not.toBe(deriveKey('settings', 'avatar'));
+  });
+
+  it('encodes structured keys in declaration order', () => {
+    const invoiceKey = createKeyDeriver('invoice', { customer: 'address', number: 'uint64' });
+
+    expect(invoiceKey({ number: 1042n, customer: owner })).toBe(
+      keccak(`0x${word('60')}${word('b2')}${word('412')}${word('7')}${utf8Word('invoice')}`)
+    );
+    expect(() => invoiceKey({ customer: owner, number: -1 })).toThrow(AbiCodingError);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @file tests/file-verification.test.ts
+ * @description Tests for verified decrypt downloads against metadata originalHash
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem';
+import { sha256 } from '@noble/hashes/sha256';
+import { download, downloadTo } from '../src/blackbox/jobs.js';
+import { encryptFileLocally } from '../src/blackbox/cifer-file.js';
+import { decryptFileJobFlow } from '../src/flows/file-jobs.js';
+import { bytesToBase64 } from '../src/internal/encoding/index.js';
+import { FileIntegrityError, JobError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+const plaintext = new TextEncoder().encode('quarterly report contents');
+const plaintextHash = Array.from(sha256(plaintext), (b) => b.toString(16).padStart(2, '0')).join('');
+
+function fileResponse(bytes: Uint8Array): Response {
+  return new Response(bytes, { status: 200 });
+}
+
+async function createCiferFile(): Promise<Blob> {
+  const keys = ml_kem768.keygen(new Uint8Array(64).fill(5));
+  const { stream } = await encryptFileLocally({
+    chainId: 752025,
+    secretId: 123n,
+    file: plaintext,
+    fileName: 'report.txt',
+    publicKey: bytesToBase64(keys.publicKey),
+  });
+  return new Response(stream).blob();
+}
+
+describe('verified download', () => {
+  it('returns the file when the hash matches', async () => {
+    const blob = await download('job-1', {
+      blackboxUrl: 'https://blackbox.test',
+      verify: true,
+      originalHash: '0x' + plaintextHash.toUpperCase(),
+      fetch: vi.fn().mockResolvedValue(fileResponse(plaintext)) as unknown as typeof fetch,
+    });
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(plaintext);
+  });
+
+  it('throws FileIntegrityError when the bytes differ', async () => {
+    const tampered = plaintext.slice();
+    tampered[0] ^= 1;
+
+    const error = await download('job-1', {
+      blackboxUrl: 'https://blackbox.test',
+      verify: true,
+      originalHash: plaintextHash,
+      fetch: vi.fn().mockResolvedValue(fileResponse(tampered)) as unknown as typeof fetch,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FileIntegrityError);
+    expect((error as FileIntegrityError).expectedHash).toBe(plaintextHash);
+    expect((error as FileIntegrityError).jobId).toBe('job-1');
+  });
+
+  it('reads the expected hash from a .cifer file and reports it from downloadTo', async () => {
+    const chunks: Uint8Array[] = [];
+    const result = await downloadTo(
+      'job-1',
+      new WritableStream({ write: (chunk) => void chunks.push(chunk) }),
+      {
+        blackboxUrl: 'https://blackbox.test',
+        verify: true,
+        ciferFile: await createCiferFile(),
+        fetch: vi.fn().mockResolvedValue(fileResponse(plaintext)) as unknown as typeof fetch,
+      }
+    );
+
+    expect(result.verifiedHash).toBe(plaintextHash);
+    expect(result.bytesWritten).toBe(plaintext.length);
+  });
+
+  it('requires a hash source before downloading', async () => {
+    const fetchMock = vi.fn();
+
+    await expect(
+      download('job-1', {
+        blackboxUrl: 'https://blackbox.test',
+        verify: true,
+        fetch: fetchMock as unknown as typeof fetch,
+      })
+    ).rejects.toBeInstanceOf(JobError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('decryptFileJobFlow with verify', () => {
+  const signer: SignerAdapter = {
+    getAddress: vi.fn().mockResolvedValue('0x1234567890123456789012345678901234567890' as Address),
+    signMessage: vi.fn().mockResolvedValue(('0x' + 'ab'.repeat(65)) as Hex),
+  };
+  const readClient: ReadClient = {
+    getBlockNumber: vi.fn().mockResolvedValue(100),
+    getLogs: vi.fn().mockResolvedValue([]),
+  };
+
+  function createBlackbox(output: Uint8Array) {
+    return vi.fn().mockImplementation(async (url: string) => {
+      if (url.endsWith('/decrypt-file')) {
+        return new Response(JSON.stringify({ success: true, jobId: 'job-9', message: 'started' }));
+      }
+      if (url.endsWith('/status')) {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            job: { id: 'job-9', type: 'decrypt', status: 'completed', progress: 100, ttl: 0 },
+          })
+        );
+      }
+      return fileResponse(output);
+    });
+  }
+
+  it('verifies the decrypted file against metadata.originalHash', async () => {
+    const result = await decryptFileJobFlow(
+      {
+        signer,
+        readClient,
+        chainId: 752025,
+        blackboxUrl: 'https://blackbox.test',
+        fetch: createBlackbox(plaintext) as unknown as typeof fetch,
+      },
+      { secretId: 123n, file: await createCiferFile(), verify: true }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.verifiedHash).toBe(plaintextHash);
+  });
+
+  it('reports the normalized hash when given a prefixed upper-case one', async () => {
+    const result = await decryptFileJobFlow(
+      {
+        signer,
+        readClient,
+        chainId: 752025,
+        blackboxUrl: 'https://blackbox.test',
+        fetch: createBlackbox(plaintext) as unknown as typeof fetch,
+      },
+      {
+        secretId: 123n,
+        file: await createCiferFile(),
+        verify: true,
+        originalHash: '0x' + plaintextHash.toUpperCase(),
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.verifiedHash).toBe(plaintextHash);
+  });
+
+  it('fails the download step on a hash mismatch', async () => {
+    const result = await decryptFileJobFlow(
+      {
+        signer,
+        readClient,
+        chainId: 752025,
+        blackboxUrl: 'https://blackbox.test',
+        fetch: createBlackbox(new Uint8Array([1, 2, 3])) as unknown as typeof fetch,
+      },
+      { secretId: 123n, file: await createCiferFile(), verify: true }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(FileIntegrityError);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @file tests/hooks-metrics.test.ts
+ * @description Tests for lifecycle hooks and the built-in metrics collector
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  blackboxRequest,
+  configureBlackboxHttp,
+  configureHooks,
+  resetCircuits,
+  MetricsCollector,
+} from '../src/internal/http/index.js';
+import { RpcReadClient } from '../src/internal/adapters/rpc-read-client.js';
+import { withBlockFreshRetry } from '../src/internal/auth/block-freshness.js';
+import { BlockStaleError, BlackboxError } from '../src/internal/errors/index.js';
+import type { ReadClient } from '../src/types/adapters.js';
+import type { SdkHooks } from '../src/types/hooks.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+/**
+ * Hooks that record every call as [hook, event]
+ */
+function recordHooks() {
+  const calls: Array<[string, Record<string, unknown>]> = [];
+  const record = (name: string) => (event: object) => calls.push([name, { ...event }]);
+  const hooks: SdkHooks = {
+    onRequest: record('onRequest'),
+    onResponse: record('onResponse'),
+    onError: record('onError'),
+    onRetry: record('onRetry'),
+    onBlockStale: record('onBlockStale'),
+  };
+  return { hooks, calls };
+}
+
+beforeEach(() => {
+  configureBlackboxHttp({ baseDelayMs: 1, maxDelayMs: 5 });
+  resetCircuits();
+});
+
+afterEach(() => {
+  configureHooks([]);
+});
+
+describe('lifecycle hooks', () => {
+  it('reports attempts, retries and responses of blackbox calls', async () => {
+    const { hooks, calls } = recordHooks();
+    configureHooks(hooks);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ success: true }));
+
+    await blackboxRequest({
+      url: 'https://blackbox.test/encrypt-payload?x=1',
+      endpoint: '/encrypt-payload',
+      init: { method: 'POST', body: JSON.stringify({ data: 'secret', signature: '0xsig' }) },
+      fetch: fetchMock,
+      chainId: 752025,
+      secretId: 7n,
+    });
+
+    expect(calls.map(([name]) => name)).toEqual([
+      'onRequest',
+      'onResponse',
+      'onRetry',
+      'onRequest',
+      'onResponse',
+    ]);
+    expect(calls[0][1]).toEqual({
+      kind: 'blackbox',
+      endpoint: '/encrypt-payload',
+      origin: 'https://blackbox.test',
+      chainId: 752025,
+      secretId: 7n,
+      attempt: 1,
+    });
+    expect(calls[2][1]).toMatchObject({ attempt: 1, status: 503 });
+    expect(calls[4][1]).toMatchObject({ attempt: 2, status: 200 });
+    expect(typeof calls[4][1].latencyMs).toBe('number');
+    // Bodies never reach hooks
+    expect(JSON.stringify(calls, (_k, v) => (typeof v === 'bigint' ? String(v) : v))).not.toMatch(
+      /secret"|0xsig/
+    );
+  });
+
+  it('reports the final error with its status', async () => {
+    const { hooks, calls } = recordHooks();
+    configureHooks(hooks);
+
+    await expect(
+      blackboxRequest({
+        url: 'https://blackbox.test/web2/secret',
+        endpoint: '/web2/secret',
+        init: { method: 'POST' },
+        fetch: vi.fn().mockResolvedValue(jsonResponse({ error: 'Bad request' }, 400)),
+      })
+    ).rejects.toBeInstanceOf(BlackboxError);
+
+    const [name, event] = calls[calls.length - 1];
+    expect(name).toBe('onError');
+    expect(event).toMatchObject({ kind: 'web2', endpoint: '/web2/secret', status: 400 });
+    expect(event.error).toBeInstanceOf(BlackboxError);
+  });
+
+  it('reports RpcReadClient calls without the RPC URL path', async () => {
+    const { hooks, calls } = recordHooks();
+    configureHooks(hooks);
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test/v2/API_KEY' },
+      fetch: vi.fn().mockResolvedValue(jsonResponse({ jsonrpc: '2.0', id: 1, result: '0x10' })),
+    });
+
+    expect(await client.getBlockNumber(1)).toBe(16);
+
+    expect(calls.map(([name]) => name)).toEqual(['onRequest', 'onResponse']);
+    expect(calls[1][1]).toMatchObject({
+      kind: 'rpc',
+      endpoint: 'eth_blockNumber',
+      origin: 'https://rpc.test',
+      chainId: 1,
+      status: 200,
+    });
+    expect(JSON.stringify(calls)).not.toContain('API_KEY');
+  });
+
+  it('reports stale-block retries', async () => {
+    const { hooks, calls } = recordHooks();
+    configureHooks(hooks);
+    const readClient: ReadClient = { getBlockNumber: async () => 200, getLogs: async () => [] };
+    let attempts = 0;
+
+    await withBlockFreshRetry(
+      async () => {
+        if (attempts++ === 0) {
+          throw new BlockStaleError(90, 200, 100);
+        }
+        return 'ok';
+      },
+      readClient,
+      752025,
+      { retryDelayMs: 0 }
+    );
+
+    expect(calls).toEqual([
+      [
+        'onBlockStale',
+        { chainId: 752025, attempt: 1, blockNumber: 90, currentBlock: 200, maxWindow: 100 },
+      ],
+    ]);
+  });
+
+  it('ignores exceptions thrown by hooks', async () => {
+    const after = vi.fn();
+    configureHooks([
+      {
+        onRequest: () => {
+          throw new Error('broken hook');
+        },
+      },
+      { onRequest: after },
+    ]);
+
+    const response = await blackboxRequest({
+      url: 'https://blackbox.test/jobs',
+      endpoint: '/jobs',
+      init: { method: 'POST' },
+      fetch: vi.fn().mockResolvedValue(jsonResponse({ success: true })),
+    });
+
+    expect(response.status).toBe(200);
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MetricsCollector', () => {
+  it('aggregates latency histograms and error counts per endpoint', async () => {
+    const metrics = new MetricsCollector({ latencyBucketsMs: [100, 1000] });
+    configureHooks(metrics);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockResolvedValueOnce(jsonResponse({ success: true }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Job not found' }, 404));
+
+    await blackboxRequest({
+      url: 'https://blackbox.test/jobs/a1/status',
+      endpoint: '/jobs/a1/status',
+      init: { method: 'GET' },
+      fetch: fetchMock,
+    });
+    await blackboxRequest({
+      url: 'https://blackbox.test/jobs/b2/status',
+      endpoint: '/jobs/b2/status',
+      init: { method: 'GET' },
+      fetch: fetchMock,
+    }).catch(() => {});
+    metrics.onBlockStale({ chainId: 1, attempt: 1, blockNumber: 1, currentBlock: 200, maxWindow: 100 });
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.endpoints).toHaveLength(1);
+    expect(snapshot.endpoints[0]).toMatchObject({
+      kind: 'blackbox',
+      endpoint: '/jobs/:jobId/status',
+      requests: 3,
+      responses: { 200: 1, 404: 1, 502: 1 },
+      retries: 1,
+      errors: { BLACKBOX_ERROR: 1 },
+    });
+    expect(snapshot.endpoints[0].latency.count).toBe(3);
+    expect(snapshot.endpoints[0].latency.buckets.map((b) => b.le)).toEqual([100, 1000, Infinity]);
+    expect(snapshot.endpoints[0].latency.buckets[2].count).toBe(3);
+    expect(snapshot.blockStale).toEqual({ 1: 1 });
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain('cifer_sdk_requests_total{kind="blackbox",endpoint="/jobs/:jobId/status"} 3');
+    expect(text).toContain(
+      'cifer_sdk_errors_total{kind="blackbox",endpoint="/jobs/:jobId/status",code="BLACKBOX_ERROR"} 1'
+    );
+    expect(text).toContain('le="+Inf"} 3');
+    expect(text).toContain('cifer_sdk_block_stale_total{chain_id="1"} 1');
+
+    metrics.reset();
+    expect(metrics.snapshot().endpoints).toEqual([]);
+  });
+});
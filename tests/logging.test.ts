@@ -0,0 +1,140 @@
+/**
+ * @file tests/logging.test.ts
+ * @description Tests for the structured logger and secret redaction
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createLogger,
+  configureLogger,
+  redactFields,
+  REDACTED,
+} from '../src/internal/logging/index.js';
+import { discover, clearDiscoveryCache } from '../src/internal/config/discovery.js';
+import { withBlockFreshRetry } from '../src/internal/auth/block-freshness.js';
+import { BlockStaleError } from '../src/internal/errors/index.js';
+import type { Logger } from '../src/types/logging.js';
+
+function createRecorder() {
+  const records: Array<[string, string, Record<string, unknown> | undefined]> = [];
+  const write = (level: string) => (message: string, fields?: Record<string, unknown>) =>
+    records.push([level, message, fields]);
+  const logger: Logger = {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+  return { logger, records };
+}
+
+afterEach(() => {
+  configureLogger(undefined);
+  clearDiscoveryCache();
+});
+
+describe('redactFields', () => {
+  it('redacts secret fields at any depth, case-insensitively', () => {
+    const fields = {
+      secretId: 42,
+      plaintext: 'hello',
+      nested: { DecryptedMessage: 'hi', items: [{ password: 'hunter2', ok: true }] },
+      session: { sessionPrivateKey: '0xabc', sessionAddress: '0x1' },
+    };
+
+    expect(redactFields(fields)).toEqual({
+      secretId: 42,
+      plaintext: REDACTED,
+      nested: { DecryptedMessage: REDACTED, items: [{ password: REDACTED, ok: true }] },
+      session: { sessionPrivateKey: REDACTED, sessionAddress: '0x1' },
+    });
+    // The input is left untouched
+    expect(fields.plaintext).toBe('hello');
+  });
+
+  it('handles errors and circular references', () => {
+    const fields: Record<string, unknown> = { error: new TypeError('fetch failed') };
+    fields.self = fields;
+
+    expect(redactFields(fields)).toEqual({
+      error: { name: 'TypeError', message: 'fetch failed' },
+      self: '[Circular]',
+    });
+  });
+});
+
+describe('createLogger', () => {
+  it('filters by level and redacts fields, including extra names', () => {
+    const { logger, records } = createRecorder();
+    const log = createLogger(logger, {
+      level: 'info',
+      redactFields: ['apiKey'],
+      fields: { module: 'test' },
+    });
+
+    log.debug('hidden');
+    log.info('Encrypting', { secretId: 1, plaintext: 'secret', apiKey: 'k' });
+    log.error('Failed');
+
+    expect(records).toEqual([
+      ['info', 'Encrypting', { module: 'test', secretId: 1, plaintext: REDACTED, apiKey: REDACTED }],
+      ['error', 'Failed', { module: 'test' }],
+    ]);
+  });
+
+  it('passes messages only to plain callbacks, from info up', () => {
+    const callback = vi.fn();
+    const log = createLogger(callback);
+
+    log.debug('hidden');
+    log.info('Step 1', { plaintext: 'secret' });
+    log.warn('Careful');
+
+    expect(callback.mock.calls).toEqual([['Step 1'], ['Careful']]);
+  });
+
+  it('ignores exceptions thrown by the target', () => {
+    const log = createLogger(() => {
+      throw new Error('broken sink');
+    });
+
+    expect(() => log.info('still fine')).not.toThrow();
+  });
+});
+
+describe('module logging', () => {
+  it('logs discovery and stale-block retries through the configured logger', async () => {
+    const { logger, records } = createRecorder();
+    configureLogger(logger);
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          status: 'ok',
+          enclaveWalletAddress: '0xaaaa',
+          supportedChains: [1],
+          configurations: { chains: [] },
+        })
+      )
+    ) as unknown as typeof fetch;
+
+    await discover('https://blackbox.test/', { fetch: fetchMock });
+    let attempts = 0;
+    await withBlockFreshRetry(
+      async () => {
+        if (attempts++ === 0) {
+          throw new BlockStaleError(1, 500, 100);
+        }
+      },
+      { getBlockNumber: async () => 500, getLogs: async () => [] },
+      1,
+      { retryDelayMs: 0 }
+    );
+
+    expect(records.map(([level, message, fields]) => [level, message, fields?.module])).toEqual([
+      ['debug', 'Fetching /healthz', 'discovery'],
+      ['debug', 'Discovery complete', 'discovery'],
+      ['warn', 'Block number went stale, retrying with a fresh block', 'block-freshness'],
+    ]);
+    expect(records[2][2]).toMatchObject({ chainId: 1, attempt: 1, blockNumber: 1 });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @file tests/receipt-commitments.test.ts
+ * @description Tests for extracting commitments from transaction receipts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractCommitmentsFromReceipt } from '../src/commitments/logs.js';
+import {
+  CIFER_ENVELOPE_BYTES,
+  getCIFERDataStoredTopic,
+  getCIFERDataUpdatedTopic,
+} from '../src/internal/abi/cifer-encrypted.js';
+import { encodeAbiParameters } from '../src/internal/abi/codec.js';
+import { CommitmentsError, InvalidCiferSizeError } from '../src/internal/errors/index.js';
+import type { Address, Bytes32, Hex, Log, TransactionReceipt } from '../src/types/common.js';
+
+const contractAddress = '0x00000000000000000000000000000000000000A1' as Address;
+const otherAddress = '0x00000000000000000000000000000000000000b2' as Address;
+const hash = `0x${'22'.repeat(32)}` as Bytes32;
+const cifer = `0x${'ab'.repeat(CIFER_ENVELOPE_BYTES)}` as Hex;
+const word = (value: bigint) => `0x${value.toString(16).padStart(64, '0')}` as Hex;
+
+function writeLog(
+  topic: Hex,
+  dataId: bigint,
+  logIndex: number,
+  options: { address?: Address; cifer?: Hex } = {}
+): Log {
+  return {
+    address: options.address ?? (contractAddress.toLowerCase() as Address),
+    topics: [topic, word(dataId), word(7n)],
+    data: encodeAbiParameters(
+      [{ type: 'bytes' }, { type: 'bytes' }, { type: 'bytes32' }, { type: 'bytes32' }],
+      [options.cifer ?? cifer, '0xbeef', hash, hash]
+    ),
+    blockNumber: 42,
+    transactionHash: word(99n),
+    logIndex,
+    transactionIndex: 0,
+  };
+}
+
+function receipt(logs: Log[]): TransactionReceipt {
+  return {
+    transactionHash: word(99n),
+    blockNumber: 42,
+    status: 1,
+    gasUsed: 21000n,
+    logs,
+  };
+}
+
+describe('extractCommitmentsFromReceipt', () => {
+  it('decodes stored and updated events from the contract', () => {
+    const commitments = extractCommitmentsFromReceipt(
+      receipt([
+        writeLog(getCIFERDataUpdatedTopic(), 2n, 5),
+        writeLog(getCIFERDataStoredTopic(), 3n, 4, { address: otherAddress }),
+        { ...writeLog(getCIFERDataStoredTopic(), 4n, 0), topics: [word(1n)] },
+        writeLog(getCIFERDataStoredTopic(), 1n, 2),
+      ]),
+      contractAddress
+    );
+
+    expect(commitments.map((c) => [c.type, c.dataId, c.logIndex])).toEqual([
+      ['stored', word(1n), 2],
+      ['updated', word(2n), 5],
+    ]);
+    expect(commitments[0]).toEqual({
+      type: 'stored',
+      dataId: word(1n),
+      secretId: 7n,
+      blockNumber: 42,
+      transactionHash: word(99n),
+      logIndex: 2,
+      cifer,
+      encryptedMessage: '0xbeef',
+      ciferHash: hash,
+      encryptedMessageHash: hash,
+    });
+  });
+
+  it('rejects receipts without commitment events', () => {
+    const logs = [writeLog(getCIFERDataStoredTopic(), 1n, 0, { address: otherAddress })];
+
+    expect(() => extractCommitmentsFromReceipt(receipt(logs), contractAddress)).toThrow(
+      CommitmentsError
+    );
+  });
+
+  it('checks the integrity of each commitment', () => {
+    const logs = [writeLog(getCIFERDataStoredTopic(), 1n, 0, { cifer: '0x01' })];
+
+    expect(() => extractCommitmentsFromReceipt(receipt(logs), contractAddress)).toThrow(
+      InvalidCiferSizeError
+    );
+  });
+});
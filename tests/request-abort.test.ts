@@ -0,0 +1,213 @@
+/**
+ * @file tests/request-abort.test.ts
+ * @description Tests for request timeouts and AbortSignal cancellation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { encryptPayload, decryptPayload } from '../src/blackbox/payload.js';
+import { pollUntilComplete } from '../src/blackbox/jobs.js';
+import { RpcReadClient } from '../src/internal/adapters/rpc-read-client.js';
+import { discover, clearDiscoveryCache } from '../src/internal/config/discovery.js';
+import { getByEmail } from '../src/web2/principal.js';
+import {
+  blackboxRequest,
+  configureBlackboxHttp,
+  resetCircuits,
+} from '../src/internal/http/index.js';
+import { RequestAbortedError, isRequestAbortedError } from '../src/internal/errors/index.js';
+import type { SignerAdapter, ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+
+const signer: SignerAdapter = {
+  getAddress: async () => '0x1234567890123456789012345678901234567890' as Address,
+  signMessage: async () => ('0x' + 'ab'.repeat(65)) as Hex,
+};
+
+const readClient: ReadClient = {
+  getBlockNumber: async () => 1000,
+  getLogs: async () => [],
+};
+
+const base = {
+  chainId: 752025,
+  secretId: 1,
+  signer,
+  readClient,
+  blackboxUrl: 'https://blackbox.test',
+};
+
+/**
+ * A fetch that never answers, but rejects like the real one when its signal aborts
+ */
+function hangingFetch() {
+  return vi.fn().mockImplementation(
+    (_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(new DOMException('This operation was aborted', 'AbortError'));
+        });
+      })
+  );
+}
+
+beforeEach(() => {
+  configureBlackboxHttp({ baseDelayMs: 1, maxDelayMs: 5 });
+  resetCircuits();
+});
+
+describe('blackbox calls', () => {
+  it('rejects with a timeout error when timeoutMs elapses', async () => {
+    const fetchMock = hangingFetch();
+
+    const error = await encryptPayload({
+      ...base,
+      plaintext: 'hello',
+      fetch: fetchMock,
+      timeoutMs: 20,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect((error as RequestAbortedError).reason).toBe('timeout');
+    expect((error as RequestAbortedError).timeoutMs).toBe(20);
+    expect((error as RequestAbortedError).code).toBe('REQUEST_ABORTED');
+  });
+
+  it('passes the signal to fetch and rejects when the caller aborts', async () => {
+    const fetchMock = hangingFetch();
+    const controller = new AbortController();
+
+    const pending = decryptPayload({
+      ...base,
+      cifer: '0x00',
+      encryptedMessage: '0x00',
+      fetch: fetchMock,
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    const error = await pending.catch((e: unknown) => e);
+    expect(isRequestAbortedError(error)).toBe(true);
+    expect((error as RequestAbortedError).reason).toBe('aborted');
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.signal?.aborted).toBe(true);
+  });
+
+  it('does not call fetch when the signal is already aborted', async () => {
+    const fetchMock = hangingFetch();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      encryptPayload({ ...base, plaintext: 'x', fetch: fetchMock, signal: controller.signal })
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('settles even when a custom fetch ignores the signal', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => new Promise<Response>(() => {}));
+
+    const error = await encryptPayload({
+      ...base,
+      plaintext: 'x',
+      fetch: fetchMock,
+      timeoutMs: 20,
+    }).catch((e: unknown) => e);
+
+    expect((error as RequestAbortedError).reason).toBe('timeout');
+  });
+
+  it('stops waiting between retries once aborted', async () => {
+    configureBlackboxHttp({ baseDelayMs: 10_000, maxDelayMs: 10_000 });
+    const fetchMock = vi
+      .fn()
+      .mockImplementation(async () => new Response(JSON.stringify({}), { status: 503 }));
+    const controller = new AbortController();
+
+    const pending = blackboxRequest({
+      url: 'https://blackbox.test/encrypt-payload',
+      endpoint: '/encrypt-payload',
+      init: { method: 'POST', body: '{}' },
+      fetch: fetchMock,
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies timeoutMs to the whole job poll', async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({ success: true, job: { id: 'job-1', status: 'processing', progress: 10 } })
+        )
+    );
+
+    const error = await pollUntilComplete('job-1', 'https://blackbox.test', {
+      fetch: fetchMock,
+      intervalMs: 1_000,
+      timeoutMs: 30,
+    }).catch((e: unknown) => e);
+
+    expect((error as RequestAbortedError).reason).toBe('timeout');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RpcReadClient', () => {
+  it('applies the configured timeout to RPC calls', async () => {
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: hangingFetch(),
+      timeoutMs: 20,
+    });
+
+    const error = await client.getBlockNumber(1).catch((e: unknown) => e);
+    expect((error as RequestAbortedError).reason).toBe('timeout');
+  });
+
+  it('accepts a per-call signal', async () => {
+    const fetchMock = hangingFetch();
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: fetchMock,
+    });
+    const controller = new AbortController();
+
+    const pending = client.getLogs(1, { fromBlock: 1, toBlock: 2 }, { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
+
+describe('discover and web2', () => {
+  it('cancels discovery', async () => {
+    clearDiscoveryCache();
+
+    const error = await discover('https://blackbox.test', {
+      fetch: hangingFetch(),
+      timeoutMs: 20,
+    }).catch((e: unknown) => e);
+
+    expect((error as RequestAbortedError).reason).toBe('timeout');
+  });
+
+  it('cancels web2 calls', async () => {
+    const fetchMock = hangingFetch();
+    const controller = new AbortController();
+
+    const pending = getByEmail('user@example.com', 'https://blackbox.test', {
+      fetch: fetchMock,
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
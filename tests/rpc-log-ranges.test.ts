@@ -0,0 +1,161 @@
+/**
+ * @file tests/rpc-log-ranges.test.ts
+ * @description Tests for eth_getLogs range splitting in RpcReadClient
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RpcReadClient } from '../src/internal/adapters/rpc-read-client.js';
+import { ConfigError } from '../src/internal/errors/index.js';
+
+const hex = (n: number) => `0x${n.toString(16)}`;
+
+/**
+ * A node with one log per block that rejects wide or full ranges
+ */
+function createNode(options: {
+  head?: number;
+  maxSpan?: number;
+  maxResults?: number;
+  error?: string;
+}) {
+  const { head = 1000, maxSpan = Infinity, maxResults = Infinity } = options;
+  const ranges: Array<[number, number]> = [];
+
+  const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+    const request = JSON.parse(init.body as string) as {
+      id: number;
+      method: string;
+      params: unknown[];
+    };
+    const reply = (body: object) =>
+      new Response(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...body }));
+
+    if (request.method === 'eth_blockNumber') {
+      return reply({ result: hex(head) });
+    }
+    const filter = request.params[0] as { fromBlock: string; toBlock: string };
+    const from = parseInt(filter.fromBlock, 16);
+    const to = filter.toBlock === 'latest' ? head : parseInt(filter.toBlock, 16);
+    ranges.push([from, to]);
+
+    if (options.error) {
+      return reply({ error: { code: -32000, message: options.error } });
+    }
+    if (to - from + 1 > maxSpan) {
+      return reply({ error: { code: -32000, message: `exceed maximum block range: ${maxSpan}` } });
+    }
+    if (to - from + 1 > maxResults) {
+      const message = `query returned more than ${maxResults} results`;
+      return reply({ error: { code: -32005, message } });
+    }
+    const result = [];
+    for (let block = from; block <= to; block++) {
+      result.push({
+        address: '0x00000000000000000000000000000000000000a1',
+        topics: [],
+        data: '0x',
+        blockNumber: hex(block),
+        transactionHash: hex(block),
+        logIndex: '0x0',
+        transactionIndex: '0x0',
+      });
+    }
+    return reply({ result });
+  });
+
+  return { fetch: fetchMock as unknown as typeof fetch, ranges };
+}
+
+const blocks = (logs: Array<{ blockNumber: number }>) => logs.map((log) => log.blockNumber);
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('RpcReadClient.getLogs range splitting', () => {
+  it('splits ranges wider than the configured span', async () => {
+    const node = createNode({});
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test', 2: 'https://rpc2.test' },
+      fetch: node.fetch,
+      maxBlockRange: 100,
+      maxBlockRangeByChainId: { 1: 40 },
+    });
+
+    const logs = await client.getLogs(1, { fromBlock: 10, toBlock: 109 });
+
+    expect(blocks(logs)).toEqual(range(10, 109));
+    expect(node.ranges).toEqual([
+      [10, 49],
+      [50, 89],
+      [90, 109],
+    ]);
+
+    node.ranges.length = 0;
+    await client.getLogs(2, { fromBlock: 0, toBlock: 150 });
+    expect(node.ranges).toEqual([
+      [0, 99],
+      [100, 150],
+    ]);
+  });
+
+  it('halves ranges the node rejects and remembers the span', async () => {
+    const node = createNode({ maxSpan: 30 });
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: node.fetch,
+    });
+
+    const logs = await client.getLogs(1, { fromBlock: 0, toBlock: 99 });
+
+    expect(blocks(logs)).toEqual(range(0, 99));
+    expect(node.ranges.slice(0, 3)).toEqual([
+      [0, 99],
+      [0, 49],
+      [0, 24],
+    ]);
+
+    node.ranges.length = 0;
+    await client.getLogs(1, { fromBlock: 200, toBlock: 249 });
+    expect(node.ranges).toEqual([
+      [200, 224],
+      [225, 249],
+    ]);
+  });
+
+  it('splits only the range that returned too many results', async () => {
+    const node = createNode({ maxResults: 60 });
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: node.fetch,
+    });
+
+    expect(blocks(await client.getLogs(1, { fromBlock: 0, toBlock: 99 }))).toEqual(range(0, 99));
+
+    node.ranges.length = 0;
+    await client.getLogs(1, { fromBlock: 0, toBlock: 50 });
+    expect(node.ranges).toEqual([[0, 50]]);
+  });
+
+  it('resolves the head when an open-ended range must be split', async () => {
+    const node = createNode({ head: 120, maxSpan: 50 });
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: node.fetch,
+    });
+
+    const logs = await client.getLogs(1, { fromBlock: 40, toBlock: 'latest' });
+
+    expect(blocks(logs)).toEqual(range(40, 120));
+    expect(node.ranges[0]).toEqual([40, 120]);
+  });
+
+  it('does not split on other errors', async () => {
+    const node = createNode({ error: 'invalid argument 0: hex string without 0x prefix' });
+    const client = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: node.fetch,
+    });
+
+    await expect(client.getLogs(1, { fromBlock: 0, toBlock: 99 })).rejects.toThrow(ConfigError);
+    expect(node.ranges).toHaveLength(1);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * @file tests/trust-verification.test.ts
+ * @description Tests for verifying discovered enclave and controller addresses on-chain
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { verifyDiscovery } from '../src/internal/config/trust.js';
+import { clearDiscoveryCache } from '../src/internal/config/discovery.js';
+import { isBlackBoxWhitelisted, getAllBlackBoxes } from '../src/keyManagement/reads.js';
+import { createCiferSdk } from '../src/index.js';
+import { ConfigError, TrustVerificationError } from '../src/internal/errors/index.js';
+import type { ReadClient } from '../src/types/adapters.js';
+import type { Address, Hex } from '../src/types/common.js';
+import type { DiscoveryResult } from '../src/types/config.js';
+
+const controller = '0x00000000000000000000000000000000000000c1' as Address;
+const enclave = '0x00000000000000000000000000000000000000e1' as Address;
+const word = (value: string) => value.replace(/^0x/, '').padStart(64, '0');
+
+/**
+ * A read client whose controller whitelists the given enclaves
+ */
+function createReadClient(whitelisted: string[]) {
+  const call = vi.fn().mockImplementation(async (_chainId: number, tx: { data: Hex }) => {
+    if (tx.data.startsWith('0xbe67261d')) {
+      const address = `0x${tx.data.slice(-40)}`;
+      return `0x${word(whitelisted.includes(address) ? '1' : '0')}` as Hex;
+    }
+    if (tx.data === '0x7b21452d') {
+      return `0x${word('20')}${word(whitelisted.length.toString(16))}${whitelisted.map(word).join('')}` as Hex;
+    }
+    throw new Error(`unexpected call ${tx.data}`);
+  });
+  const readClient: ReadClient = {
+    getBlockNumber: async () => 1,
+    getLogs: async () => [],
+    call,
+  };
+  return { readClient, call };
+}
+
+const pins = { 1: controller, 2: controller };
+
+function discovery(overrides: Partial<DiscoveryResult> = {}): DiscoveryResult {
+  return {
+    status: 'ok',
+    enclaveWalletAddress: enclave,
+    supportedChains: [1, 2],
+    chains: [
+      { chainId: 1, rpcUrl: 'https://rpc1.test', secretsControllerAddress: controller },
+      { chainId: 2, rpcUrl: 'https://rpc2.test', secretsControllerAddress: controller },
+    ],
+    fetchedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('SecretsController blackbox whitelist reads', () => {
+  it('checks a single enclave and lists all of them', async () => {
+    const other = '0x00000000000000000000000000000000000000e2';
+    const { readClient, call } = createReadClient([enclave, other]);
+    const params = { chainId: 1, controllerAddress: controller, readClient };
+
+    expect(await isBlackBoxWhitelisted(params, enclave)).toBe(true);
+    expect(await isBlackBoxWhitelisted(params, controller)).toBe(false);
+    expect(await getAllBlackBoxes(params)).toEqual([enclave, other]);
+    expect(call.mock.calls[0][1]).toEqual({ to: controller, data: `0xbe67261d${word(enclave)}` });
+  });
+});
+
+describe('verifyDiscovery', () => {
+  it('passes when the enclave is whitelisted on every chain', async () => {
+    const { readClient, call } = createReadClient([enclave]);
+
+    expect(await verifyDiscovery(discovery(), { readClient, controllerAddresses: pins })).toEqual([
+      1, 2,
+    ]);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects an enclave that is not whitelisted', async () => {
+    const { readClient } = createReadClient([]);
+
+    const error = await verifyDiscovery(discovery(), {
+      readClient,
+      controllerAddresses: pins,
+      chainIds: [2],
+    }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(TrustVerificationError);
+    expect(error).toMatchObject({
+      code: 'CONFIG_ERROR',
+      reason: 'enclave-not-whitelisted',
+      chainId: 2,
+      actual: enclave,
+    });
+  });
+
+  it('rejects a controller that does not match the pinned address', async () => {
+    const { readClient, call } = createReadClient([enclave]);
+    const pinned = '0x00000000000000000000000000000000000000c2' as Address;
+
+    await expect(
+      verifyDiscovery(discovery(), { readClient, controllerAddresses: { ...pins, 1: pinned } })
+    ).rejects.toMatchObject({ reason: 'controller-mismatch', expected: pinned, actual: controller });
+
+    // Pinned addresses compare case-insensitively
+    await verifyDiscovery(discovery(), {
+      readClient,
+      controllerAddresses: { 1: controller.toUpperCase().replace('0X', '0x') as Address },
+      chainIds: [1],
+      verifyEnclave: false,
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails closed when the on-chain check fails', async () => {
+    const readClient: ReadClient = {
+      getBlockNumber: async () => 1,
+      getLogs: async () => [],
+      call: async () => {
+        throw new Error('RPC down');
+      },
+    };
+
+    await expect(
+      verifyDiscovery(discovery(), { readClient, controllerAddresses: pins })
+    ).rejects.toMatchObject({
+      reason: 'check-failed',
+      message: expect.stringContaining('RPC down'),
+    });
+  });
+
+  it('rejects a chain without a pinned controller', async () => {
+    // The blackbox reports a contract of its own that approves any enclave
+    const attacker = '0x00000000000000000000000000000000000000aa' as Address;
+    const { readClient, call } = createReadClient([enclave]);
+    const reported = discovery({
+      chains: [
+        { chainId: 1, rpcUrl: 'https://rpc1.test', secretsControllerAddress: controller },
+        { chainId: 2, rpcUrl: 'https://rpc2.test', secretsControllerAddress: attacker },
+      ],
+    });
+
+    await expect(
+      verifyDiscovery(reported, { readClient, controllerAddresses: { 1: controller } })
+    ).rejects.toMatchObject({ reason: 'controller-not-pinned', chainId: 2, actual: attacker });
+    expect(call.mock.calls.map(([, tx]) => tx.to)).not.toContain(attacker);
+  });
+
+  it('rejects a requested chain missing from discovery', async () => {
+    const { readClient } = createReadClient([enclave]);
+
+    await expect(
+      verifyDiscovery(discovery(), { readClient, controllerAddresses: pins, chainIds: [1, 3] })
+    ).rejects.toMatchObject({ reason: 'chain-missing', chainId: 3 });
+  });
+});
+
+describe('createCiferSdk with trust', () => {
+  beforeEach(() => {
+    clearDiscoveryCache();
+  });
+
+  const healthz = (enclaveAddress: string) =>
+    vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          status: 'ok',
+          enclaveWalletAddress: enclaveAddress,
+          supportedChains: [1],
+          configurations: {
+            chains: [{ chainId: 1, rpcUrl: 'https://rpc1.test', secretsControllerAddress: controller }],
+          },
+        })
+      )
+    ) as unknown as typeof fetch;
+
+  it('refuses to create the SDK when verification fails', async () => {
+    const { readClient } = createReadClient([enclave]);
+
+    await expect(
+      createCiferSdk({
+        blackboxUrl: 'https://blackbox.test',
+        readClient,
+        fetch: healthz('0x00000000000000000000000000000000000000ff'),
+        trust: { controllerAddresses: { 1: controller } },
+      })
+    ).rejects.toBeInstanceOf(TrustVerificationError);
+  });
+
+  it('refuses a controller address that only /healthz vouches for', async () => {
+    const { readClient, call } = createReadClient([enclave]);
+
+    await expect(
+      createCiferSdk({
+        blackboxUrl: 'https://blackbox.test',
+        readClient,
+        fetch: healthz(enclave),
+        trust: {},
+      })
+    ).rejects.toMatchObject({ reason: 'controller-not-pinned', chainId: 1 });
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('creates the SDK when verification passes', async () => {
+    const { readClient } = createReadClient([enclave]);
+
+    const sdk = await createCiferSdk({
+      blackboxUrl: 'https://blackbox.test',
+      readClient,
+      fetch: healthz(enclave),
+      trust: { controllerAddresses: { 1: controller } },
+    });
+
+    expect(sdk.getControllerAddress(1)).toBe(controller);
+  });
+  it('never checks the enclave through RPC URLs from /healthz', async () => {
+    const fetchMock = healthz(enclave);
+
+    const error = await createCiferSdk({
+      blackboxUrl: 'https://blackbox.test',
+      fetch: fetchMock,
+      trust: { controllerAddresses: { 1: controller } },
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error).not.toBeInstanceOf(TrustVerificationError);
+    expect((error as Error).message).toContain('chain 1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the enclave through the chainOverrides RPC URL', async () => {
+    const healthzFetch = healthz(enclave);
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url === 'https://own-rpc.test') {
+        const { id } = JSON.parse(init!.body as string) as { id: number };
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: `0x${word('1')}` }));
+      }
+      return (healthzFetch as unknown as typeof fetchMock)(url, init);
+    });
+
+    await createCiferSdk({
+      blackboxUrl: 'https://blackbox.test',
+      fetch: fetchMock as unknown as typeof fetch,
+      chainOverrides: { 1: { rpcUrl: 'https://own-rpc.test', secretsControllerAddress: controller } },
+      trust: {},
+    });
+
+    const urls = fetchMock.mock.calls.map((call) => call[0]);
+    expect(urls).toContain('https://own-rpc.test');
+    expect(urls).not.toContain('https://rpc1.test');
+  });
+});
+
+describe('createCiferSdk with trust and blackboxUrls', () => {
+  beforeEach(() => {
+    clearDiscoveryCache();
+  });
+
+  const primary = 'https://bb1.test';
+  const secondary = 'https://bb2.test';
+
+  /**
+   * A fetch serving /healthz per host with a changeable enclave
+   */
+  function createHosts(enclaves: Record<string, string>) {
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const host = new URL(url).origin;
+      return new Response(
+        JSON.stringify({
+          status: 'ok',
+          enclaveWalletAddress: enclaves[host],
+          supportedChains: [1],
+          configurations: {
+            chains: [{ chainId: 1, rpcUrl: `${host}/rpc`, secretsControllerAddress: controller }],
+          },
+        })
+      );
+    }) as unknown as typeof fetch;
+    return { enclaves, fetch: fetchMock };
+  }
+
+  it('never uses an endpoint that failed verification', async () => {
+    const rogue = '0x00000000000000000000000000000000000000ff';
+    const { readClient } = createReadClient([enclave]);
+    const hosts = createHosts({ [primary]: rogue, [secondary]: enclave });
+
+    const sdk = await createCiferSdk({
+      blackboxUrls: [primary, secondary],
+      readClient,
+      fetch: hosts.fetch,
+      trust: { controllerAddresses: { 1: controller } },
+    });
+    sdk.blackboxPool?.stop();
+
+    expect(sdk.blackboxUrl).toBe(secondary);
+    expect(sdk.blackboxPool?.getEndpoints().map((e) => e.verified)).toEqual([false, true]);
+    expect(await sdk.blackboxPool?.run(async (url) => url)).toBe(secondary);
+  });
+
+  it('re-verifies an endpoint whose enclave changes', async () => {
+    const rogue = '0x00000000000000000000000000000000000000ff';
+    const { readClient, call } = createReadClient([enclave]);
+    const hosts = createHosts({ [primary]: enclave, [secondary]: enclave });
+
+    const sdk = await createCiferSdk({
+      blackboxUrls: [primary, secondary],
+      readClient,
+      fetch: hosts.fetch,
+      trust: { controllerAddresses: { 1: controller } },
+    });
+    const pool = sdk.blackboxPool!;
+    pool.stop();
+    expect(sdk.blackboxUrl).toBe(primary);
+
+    // Unchanged endpoints are not checked again
+    call.mockClear();
+    await pool.checkHealth();
+    expect(call).not.toHaveBeenCalled();
+
+    hosts.enclaves[primary] = rogue;
+    await pool.checkHealth();
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(pool.getEndpoints()[0]).toMatchObject({ healthy: false, verified: false });
+    expect(sdk.blackboxUrl).toBe(secondary);
+
+    hosts.enclaves[secondary] = rogue;
+    await pool.checkHealth();
+    expect(() => sdk.blackboxUrl).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @file tests/vault.test.ts
+ * @description Tests for the CiferVaultOnChain namespace
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import * as vault from '../src/vault/index.js';
+import { CIFER_VAULT_ABI } from '../src/internal/abi/cifer-vault.js';
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  getFunctionSelector,
+  getFunctionSignature,
+} from '../src/internal/abi/codec.js';
+import { RpcReadClient } from '../src/internal/adapters/rpc-read-client.js';
+import {
+  CommitmentNotFoundError,
+  InvalidCiferSizeError,
+  VaultRevertError,
+} from '../src/internal/errors/index.js';
+import type { ReadClient } from '../src/types/adapters.js';
+import type { Address, Bytes32, Hex } from '../src/types/common.js';
+
+const vaultAddress = '0x00000000000000000000000000000000000000a1' as Address;
+const user = '0x00000000000000000000000000000000000000b2' as Address;
+const key = `0x${'11'.repeat(32)}` as Bytes32;
+const hash = `0x${'22'.repeat(32)}` as Bytes32;
+const cifer = `0x${'ab'.repeat(1104)}` as Hex;
+
+const errorData = (name: string, values: unknown[] = []) => {
+  const item = CIFER_VAULT_ABI.find((i) => i.type === 'error' && i.name === name)!;
+  return `${getFunctionSelector(item)}${encodeAbiParameters(item.inputs, values).slice(2)}` as Hex;
+};
+
+function createReadClient(handler: (data: Hex) => Hex) {
+  const readClient: ReadClient = {
+    getBlockNumber: async () => 1,
+    getLogs: async () => [],
+    call: vi
+      .fn()
+      .mockImplementation(async (_chainId: number, tx: { data: Hex }) => handler(tx.data)),
+  };
+  return { chainId: 1, vaultAddress, readClient };
+}
+
+describe('CIFER_VAULT_ABI', () => {
+  it('matches the shipped contract ABI', () => {
+    const shipped = JSON.parse(
+      readFileSync(new URL('../docs/CiferVaultOnChain.abi.json', import.meta.url), 'utf8')
+    ) as Array<{ type: string; name?: string; inputs?: Array<{ type: string }> }>;
+    type Item = { type: string; name?: string; inputs?: readonly { type: string }[] };
+    const signatures = (items: Item[]) =>
+      items
+        .filter((i) => (i.type === 'function' || i.type === 'error') && i.name !== 'initialize')
+        .map((i) => `${i.type} ${getFunctionSignature({ name: i.name!, inputs: i.inputs ?? [] })}`)
+        .sort();
+
+    expect(signatures([...CIFER_VAULT_ABI])).toEqual(signatures(shipped));
+  });
+});
+
+describe('vault transaction builders', () => {
+  const base = { chainId: 1, vaultAddress };
+
+  it('encodes every write', () => {
+    const store = vault.buildStoreTx({ ...base, key, encryptedMessage: '0xabcd', cifer });
+    expect(store.data.slice(0, 10)).toBe('0x1beb1101');
+    expect(store).toMatchObject({ to: vaultAddress, functionName: 'store' });
+
+    const withSecret = vault.buildStoreWithSecretIdTx({
+      ...base,
+      key,
+      secretId: 7n,
+      encryptedMessage: '0xabcd',
+      cifer,
+    });
+    expect(withSecret.data).toBe(
+      encodeFunctionData(
+        {
+          name: 'storeWithSecretId',
+          inputs: [{ type: 'bytes32' }, { type: 'uint256' }, { type: 'bytes' }, { type: 'bytes' }],
+        },
+        [key, 7n, '0xabcd', cifer]
+      )
+    );
+    expect(withSecret.args).toMatchObject({ secretId: '7' });
+
+    expect(vault.buildDeleteDataTx({ ...base, key }).data).toBe(
+      encodeFunctionData({ name: 'deleteData', inputs: [{ type: 'bytes32' }] }, [key])
+    );
+    expect(vault.buildSetSecretIdTx({ ...base, secretId: 7n }).data).toBe(
+      encodeFunctionData({ name: 'setSecretId', inputs: [{ type: 'uint256' }] }, [7n])
+    );
+    expect(vault.buildTransferOwnershipTx({ ...base, newOwner: user }).data).toBe(
+      encodeFunctionData({ name: 'transferOwnership', inputs: [{ type: 'address' }] }, [user])
+    );
+  });
+
+  it('validates envelope size unless disabled', () => {
+    const params = { ...base, key, encryptedMessage: '0xabcd' as Hex, cifer: '0xef' as Hex };
+
+    expect(() => vault.buildStoreTx(params)).toThrow(InvalidCiferSizeError);
+    expect(() => vault.buildStoreTx({ ...params, validate: false })).not.toThrow();
+  });
+});
+
+describe('vault reads', () => {
+  it('decodes user metadata, secret IDs and data existence', async () => {
+    const metadataSelector = getFunctionSelector({
+      name: 'getUserMetadata',
+      inputs: [{ type: 'address' }, { type: 'bytes32' }],
+    });
+    const secretIdSelector = getFunctionSelector({ name: 'userSecretId', inputs: [{ type: 'address' }] });
+    const params = createReadClient((data) => {
+      if (data.startsWith(metadataSelector)) {
+        return encodeAbiParameters(
+          [{ type: 'uint256' }, { type: 'uint64' }, { type: 'bytes32' }, { type: 'bytes32' }],
+          [9n, 1234n, hash, hash]
+        );
+      }
+      if (data.startsWith(secretIdSelector)) {
+        return encodeAbiParameters([{ type: 'uint256' }], [9n]);
+      }
+      return encodeAbiParameters([{ type: 'bool' }], [true]);
+    });
+
+    await expect(vault.getUserMetadata(params, user, key)).resolves.toEqual({
+      secretId: 9n,
+      storedAtBlock: 1234,
+      ciferHash: hash,
+      encryptedMessageHash: hash,
+    });
+    await expect(vault.getUserSecretId(params, user)).resolves.toBe(9n);
+    await expect(vault.hasData(params, user, key)).resolves.toBe(true);
+  });
+
+  it('maps DataNotFound to CommitmentNotFoundError', async () => {
+    const params = createReadClient(() => {
+      throw Object.assign(new Error('execution reverted'), { data: errorData('DataNotFound') });
+    });
+
+    await expect(vault.getUserMetadata(params, user, key)).rejects.toThrow(CommitmentNotFoundError);
+  });
+
+  it('surfaces reverts through RpcReadClient as VaultRevertError', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          error: { code: 3, message: 'execution reverted', data: errorData('NotOwner') },
+        })
+      )
+    ) as unknown as typeof fetch;
+    const readClient = new RpcReadClient({
+      rpcUrlByChainId: { 1: 'https://rpc.test' },
+      fetch: fetchMock,
+    });
+
+    const error = await vault
+      .getVaultOwner({ chainId: 1, vaultAddress, readClient })
+      .catch((e: unknown) => e as VaultRevertError);
+
+    expect(error).toBeInstanceOf(VaultRevertError);
+    expect(error.errorName).toBe('NotOwner');
+  });
+});
+
+describe('decodeVaultError', () => {
+  it('decodes raw revert data with arguments', () => {
+    const error = vault.decodeVaultError(errorData('PayloadTooLarge', [20000n, 16384n]));
+
+    expect(error).toBeInstanceOf(VaultRevertError);
+    expect(error?.errorName).toBe('PayloadTooLarge');
+    expect(error?.args).toEqual({ got: 20000n, maxAllowed: 16384n });
+    expect(error?.message).toBe('Vault reverted with PayloadTooLarge(got=20000, maxAllowed=16384)');
+  });
+
+  it('finds revert data nested in wallet errors', () => {
+    const walletError = Object.assign(new Error('Execution reverted'), {
+      cause: { error: { data: errorData('BadEnvelopeSize', [10n, 1104n]) } },
+    });
+
+    const error = vault.decodeVaultError(walletError);
+
+    expect(error?.errorName).toBe('BadEnvelopeSize');
+    expect(error?.cause).toBe(walletError);
+    const providerError = Object.assign(new Error('x'), { data: errorData('SecretIdNotSet') });
+    expect(vault.decodeVaultError(providerError)?.errorName).toBe('SecretIdNotSet');
+  });
+
+  it('returns undefined for other errors', () => {
+    expect(vault.decodeVaultError('0x08c379a0')).toBeUndefined();
+    expect(vault.decodeVaultError(new Error('network down'))).toBeUndefined();
+    expect(vault.decodeVaultError(undefined)).toBeUndefined();
+  });
+});